@@ -34,8 +34,11 @@ export type {
   LLMResponse,
   Logger,
   PromptVariable,
+  PromptVariableValue,
   PromptVariables,
   Base64Data,
   PromptTextMode,
   PromptRecord,
+  ChatRole,
+  ChatMessage,
 } from './lib/llm_api/types.js';
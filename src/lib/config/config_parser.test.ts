@@ -0,0 +1,47 @@
+/**
+ * Config Parser Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diff_config_sections, mask_config_value } from './config_parser.js';
+
+describe('diff_config_sections', () => {
+  it('masks secrets and URL credentials in changed values', () => {
+    const changes = diff_config_sections(
+      {
+        llm: { prompt_store_url: 'postgres://app:old@db:5432/prompts', primary_llm: 'gemini' },
+        llm_qwen: { api_key: 'sk-old' },
+      },
+      {
+        llm: { prompt_store_url: 'postgres://app:new@db:5432/prompts', primary_llm: 'qwen' },
+        llm_qwen: { api_key: 'sk-new' },
+      }
+    );
+
+    expect(changes).toEqual([
+      { section: 'llm', key: 'primary_llm', old_value: 'gemini', new_value: 'qwen' },
+      {
+        section: 'llm',
+        key: 'prompt_store_url',
+        old_value: 'postgres://***@db:5432/prompts',
+        new_value: 'postgres://***@db:5432/prompts',
+      },
+      { section: 'llm_qwen', key: 'api_key', old_value: '***', new_value: '***' },
+    ]);
+  });
+});
+
+describe('mask_config_value', () => {
+  it('masks password, secret and token keys', () => {
+    expect(mask_config_value('db_password', 'hunter2')).toBe('***');
+    expect(mask_config_value('client_secret', 'abc')).toBe('***');
+    expect(mask_config_value('access_token', 'abc')).toBe('***');
+    expect(mask_config_value('api_key_env', 'GEMINI_API_KEY')).toBe('GEMINI_API_KEY');
+  });
+
+  it('masks password query parameters and keeps URLs without credentials', () => {
+    expect(mask_config_value('prompt_store_url', 'postgres://db/prompts?user=app&password=s3cret'))
+      .toBe('postgres://db/prompts?user=app&password=***');
+    expect(mask_config_value('api_url', 'https://api.example.com/v1')).toBe('https://api.example.com/v1');
+  });
+});
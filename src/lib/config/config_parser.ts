@@ -83,6 +83,17 @@ export const QWEN_PARAM_MAPPINGS: ParameterMapping[] = [
   { field: 'frequency_penalty', keys: ['frequency_penalty'], type: 'number' },
 ];
 
+/**
+ * Anthropic-specific parameter mappings
+ */
+export const ANTHROPIC_PARAM_MAPPINGS: ParameterMapping[] = [
+  { field: 'temperature', keys: ['temperature'], type: 'number' },
+  { field: 'max_tokens', keys: ['max_tokens'], type: 'number' },
+  { field: 'top_p', keys: ['top_p'], type: 'number' },
+  { field: 'top_k', keys: ['top_k'], type: 'number' },
+  { field: 'stop_sequences', keys: ['stop_sequences', 'stop'], type: 'json_array' },
+];
+
 // =============================================================================
 // Config File Utilities
 // =============================================================================
@@ -130,6 +141,248 @@ export function read_config_file(config_path: string): Record<string, Record<str
   }
 }
 
+// =============================================================================
+// Config Sections (INI File, Programmatic Settings, Environment Overrides)
+// =============================================================================
+
+/**
+ * Parsed config sections keyed by INI section name ([llm], [llm_gemini], ...)
+ */
+export type ConfigSections = Record<string, Record<string, string>>;
+
+/**
+ * Prefix of environment variables that override config values
+ * HAZO_LLM_<KEY> sets <key> in [llm]; HAZO_LLM_<PROVIDER>__<KEY> sets <key> in [llm_<provider>]
+ */
+export const CONFIG_ENV_PREFIX = 'HAZO_LLM_';
+
+/** Separator between the provider name and the key in provider overrides */
+const ENV_SECTION_SEPARATOR = '__';
+
+/**
+ * Set a config value, reusing an existing key that differs only in case or
+ * underscores (so text_maxoutputtokens overrides text_maxOutputTokens)
+ *
+ * @param section - Section to modify
+ * @param key - Key to set
+ * @param value - Value to set
+ */
+function set_config_value(section: Record<string, string>, key: string, value: string): void {
+  const normalized = normalize_config_key(key);
+  const existing = Object.keys(section).find(name => normalize_config_key(name) === normalized);
+  section[existing ?? key] = value;
+}
+
+/**
+ * Normalize a config key for comparison
+ * @param key - Config key
+ * @returns Lowercase key without underscores
+ */
+function normalize_config_key(key: string): string {
+  return key.toLowerCase().replace(/_/g, '');
+}
+
+/**
+ * Convert programmatic settings to a config section
+ * Strings are kept, arrays and objects become JSON and other values strings,
+ * so they go through the same parsing and validation as INI values.
+ *
+ * @param settings - Settings keyed like the INI section
+ * @returns Config section with string values (undefined values are skipped)
+ *
+ * @example
+ * ```typescript
+ * to_config_section({ capabilities: ['text_text'], text_temperature: 0.2 });
+ * // { capabilities: '["text_text"]', text_temperature: '0.2' }
+ * ```
+ */
+export function to_config_section(settings: Record<string, unknown>): Record<string, string> {
+  const section: Record<string, string> = {};
+  for (const [key, value] of Object.entries(settings)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    section[key] = typeof value === 'string'
+      ? value
+      : typeof value === 'object'
+        ? JSON.stringify(value)
+        : String(value);
+  }
+  return section;
+}
+
+/**
+ * Merge config sections; values in overrides replace base values key by key
+ *
+ * @param base - Base sections (not modified)
+ * @param overrides - Sections whose values take precedence
+ * @returns Merged sections
+ */
+export function merge_config_sections(base: ConfigSections, overrides: ConfigSections): ConfigSections {
+  const merged: ConfigSections = {};
+  for (const [name, section] of Object.entries(base)) {
+    merged[name] = { ...section };
+  }
+
+  for (const [name, section] of Object.entries(overrides)) {
+    const target = merged[name] || (merged[name] = {});
+    for (const [key, value] of Object.entries(section)) {
+      set_config_value(target, key, value);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Apply HAZO_LLM_* environment variable overrides to config sections
+ * Variable names are case-insensitive and map to lowercase keys:
+ * HAZO_LLM_PRIMARY_LLM=qwen → [llm] primary_llm=qwen,
+ * HAZO_LLM_GEMINI__MODEL_TEXT_TEXT=gemini-2.5-pro → [llm_gemini] model_text_text=gemini-2.5-pro
+ *
+ * @param sections - Config sections (not modified)
+ * @param env - Environment variables (default: process.env)
+ * @returns Sections with the overrides applied
+ */
+export function apply_env_overrides(
+  sections: ConfigSections,
+  env: NodeJS.ProcessEnv = process.env
+): ConfigSections {
+  const overrides: ConfigSections = {};
+
+  for (const [name, value] of Object.entries(env)) {
+    if (value === undefined || !name.toUpperCase().startsWith(CONFIG_ENV_PREFIX)) {
+      continue;
+    }
+
+    const rest = name.slice(CONFIG_ENV_PREFIX.length).toLowerCase();
+    const separator_index = rest.indexOf(ENV_SECTION_SEPARATOR);
+    const section_name = separator_index > 0 ? `llm_${rest.slice(0, separator_index)}` : 'llm';
+    const key = separator_index > 0 ? rest.slice(separator_index + ENV_SECTION_SEPARATOR.length) : rest;
+    if (!key) {
+      continue;
+    }
+
+    (overrides[section_name] || (overrides[section_name] = {}))[key] = value;
+  }
+
+  return merge_config_sections(sections, overrides);
+}
+
+/**
+ * Load the effective config sections
+ * Precedence (lowest to highest): config file, HAZO_LLM_* environment
+ * variables, programmatic overrides. Works without a config file.
+ *
+ * @param overrides - Programmatic sections (e.g., from LLMApiConfig.providers)
+ * @returns Merged config sections
+ */
+export function load_config_sections(overrides: ConfigSections = {}): ConfigSections {
+  const config_path = find_config_file();
+  const file_sections = (config_path && read_config_file(config_path)) || {};
+  return merge_config_sections(apply_env_overrides(file_sections), overrides);
+}
+
+/**
+ * A value that differs between two sets of config sections
+ */
+export interface ConfigChange {
+  /** Section name (e.g., "llm_gemini") */
+  section: string;
+
+  /** Key that changed */
+  key: string;
+
+  /** Previous value (undefined if the key was added; masked for secrets, see mask_config_value) */
+  old_value?: string;
+
+  /** New value (undefined if the key was removed; masked for secrets, see mask_config_value) */
+  new_value?: string;
+}
+
+/** Keys whose values are masked in config diffs (api_key, *_password, *_secret, *_token, ...) */
+const SECRET_CONFIG_KEY_PATTERN = /(^|_)(key|password|secret|token)$/;
+
+/** Keys holding URLs whose credentials are masked in config diffs (prompt_store_url, api_url_*, ...) */
+const URL_CONFIG_KEY_PATTERN = /(^|_)url($|_)/;
+
+/** user:password@ part of a URL */
+const URL_USERINFO_PATTERN = /^([a-z][a-z0-9+.-]*:\/\/)[^/?#]*@/i;
+
+/** password=... query parameter of a URL */
+const URL_PASSWORD_PARAM_PATTERN = /([?&](?:password|pass|pwd|sslpassword)=)[^&#]*/gi;
+
+/**
+ * List the values that differ between two sets of config sections
+ *
+ * @param previous - Sections before the change
+ * @param next - Sections after the change
+ * @returns Added, removed and modified keys, sorted by section and key
+ *
+ * @example
+ * ```typescript
+ * diff_config_sections({ llm_gemini: { text_temperature: '0.7' } }, { llm_gemini: { text_temperature: '0.2' } });
+ * // [{ section: 'llm_gemini', key: 'text_temperature', old_value: '0.7', new_value: '0.2' }]
+ * ```
+ */
+export function diff_config_sections(previous: ConfigSections, next: ConfigSections): ConfigChange[] {
+  const changes: ConfigChange[] = [];
+  const section_names = new Set([...Object.keys(previous), ...Object.keys(next)]);
+
+  for (const section of Array.from(section_names).sort()) {
+    const old_section = previous[section] || {};
+    const new_section = next[section] || {};
+    const keys = new Set([...Object.keys(old_section), ...Object.keys(new_section)]);
+
+    for (const key of Array.from(keys).sort()) {
+      const old_value = old_section[key];
+      const new_value = new_section[key];
+      if (old_value === new_value) {
+        continue;
+      }
+
+      changes.push({
+        section,
+        key,
+        old_value: mask_config_value(key, old_value),
+        new_value: mask_config_value(key, new_value),
+      });
+    }
+  }
+
+  return changes;
+}
+
+/**
+ * Mask the secret part of a config value for logs and reload results
+ * Secret keys are replaced by "***"; URL keys keep the URL with the
+ * credentials (user:password@ and password parameters) replaced by "***".
+ *
+ * @param key - Config key
+ * @param value - Config value
+ * @returns Value safe to log
+ *
+ * @example
+ * ```typescript
+ * mask_config_value('prompt_store_url', 'postgres://app:s3cret@db:5432/prompts');
+ * // 'postgres://***@db:5432/prompts'
+ * ```
+ */
+export function mask_config_value(key: string, value: string | undefined): string | undefined {
+  if (value === undefined) {
+    return value;
+  }
+  if (SECRET_CONFIG_KEY_PATTERN.test(key)) {
+    return '***';
+  }
+  if (URL_CONFIG_KEY_PATTERN.test(key)) {
+    return value
+      .replace(URL_USERINFO_PATTERN, '$1***@')
+      .replace(URL_PASSWORD_PARAM_PATTERN, '$1***');
+  }
+  return value;
+}
+
 // =============================================================================
 // Generation Config Parsing
 // =============================================================================
@@ -349,28 +602,19 @@ export interface GlobalLLMConfig {
 }
 
 /**
- * Read LLM global config from [llm] section
+ * Read LLM global config from [llm] section (with HAZO_LLM_* overrides)
  *
+ * @param sections - Config sections (default: config file with environment overrides)
  * @returns Object with enabled_llms, primary_llm, and sqlite_path
  */
-export function get_llm_global_config(): GlobalLLMConfig {
-  const config_path = find_config_file();
+export function get_llm_global_config(sections: ConfigSections = load_config_sections()): GlobalLLMConfig {
   const defaults: GlobalLLMConfig = {
     enabled_llms: ['gemini'],
     primary_llm: 'gemini',
     sqlite_path: 'prompt_library.sqlite',
   };
 
-  if (!config_path) {
-    return defaults;
-  }
-
-  const config = read_config_file(config_path);
-  if (!config) {
-    return defaults;
-  }
-
-  const llm_section = config.llm || {};
+  const llm_section = sections.llm || {};
   const enabled_llms = parse_enabled_llms(llm_section.enabled_llms);
   const primary_llm = llm_section.primary_llm || defaults.primary_llm;
   const sqlite_path = llm_section.sqlite_path || defaults.sqlite_path;
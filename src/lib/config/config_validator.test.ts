@@ -0,0 +1,61 @@
+/**
+ * Config Validator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validate_config_sections } from './config_validator.js';
+
+describe('validate_config_sections', () => {
+  it('accepts a valid configuration', () => {
+    const report = validate_config_sections(
+      {
+        llm: { enabled_llms: '["gemini"]', primary_llm: 'gemini', retry_max_attempts: '3' },
+        llm_gemini: { capabilities: '["text_text"]', text_temperature: '0.7', price_gemini_flash: '0.1' },
+      },
+      { env: { GEMINI_API_KEY: 'key' } }
+    );
+
+    expect(report).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('reports errors for bad values, missing keys and providers', () => {
+    const report = validate_config_sections(
+      {
+        llm: { enabled_llms: 'qwen, nope', primary_llm: 'gemini', timeout_ms: '-5', prompt_store: 'postgres' },
+        llm_qwen: { capabilities: 'text_text, text_video', text_temperature: '3', text_stop: 'END' },
+      },
+      { env: {} }
+    );
+
+    expect(report.valid).toBe(false);
+    expect(report.errors.map(issue => [issue.code, issue.section, issue.key])).toEqual([
+      ['PRIMARY_NOT_ENABLED', 'llm', 'primary_llm'],
+      ['INVALID_VALUE', 'llm', 'prompt_store_url'],
+      ['INVALID_VALUE', 'llm', 'timeout_ms'],
+      ['API_KEY_MISSING', 'llm_qwen', 'api_key'],
+      ['MODEL_MISSING', 'llm_qwen', 'model_text_text'],
+      ['INVALID_VALUE', 'llm_qwen', 'capabilities'],
+      ['OUT_OF_RANGE', 'llm_qwen', 'text_temperature'],
+      ['INVALID_VALUE', 'llm_qwen', 'text_stop'],
+      ['UNKNOWN_PROVIDER', 'llm_nope', undefined],
+    ]);
+  });
+
+  it('warns about unknown keys and fallbacks that are not enabled', () => {
+    const report = validate_config_sections(
+      {
+        llm: { enabled_llms: 'gemini', fallback_llms: 'qwen', retries: '2' },
+        llm_gemini: { api_key: 'key', text_temprature: '0.5', colour: 'blue' },
+      },
+      { env: {} }
+    );
+
+    expect(report.valid).toBe(true);
+    expect(report.warnings.map(issue => [issue.code, issue.section, issue.key])).toEqual([
+      ['UNKNOWN_KEY', 'llm', 'retries'],
+      ['FALLBACK_NOT_ENABLED', 'llm', 'fallback_llms'],
+      ['UNKNOWN_KEY', 'llm_gemini', 'text_temprature'],
+      ['UNKNOWN_KEY', 'llm_gemini', 'colour'],
+    ]);
+  });
+});
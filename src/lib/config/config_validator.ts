@@ -0,0 +1,593 @@
+/**
+ * Config Validator
+ *
+ * Checks the effective config sections (config file, HAZO_LLM_* overrides and
+ * programmatic settings) and returns a structured report instead of the
+ * scattered logger errors produced while loading providers.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { SERVICE_TYPES, LLM_PROVIDERS } from '../providers/types.js';
+import {
+  GEMINI_PARAM_MAPPINGS,
+  QWEN_PARAM_MAPPINGS,
+  parse_enabled_llms,
+  get_api_key_env_var_name,
+  type ConfigSections,
+  type ParameterMapping,
+} from './config_parser.js';
+import { get_provider_factory } from './provider_loader.js';
+import { PROMPT_STORE_TYPES } from '../prompt_store/types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Issue codes reported by validate_config_sections
+ */
+export const CONFIG_ISSUE_CODES = {
+  /** Key is not read by the section it appears in */
+  UNKNOWN_KEY: 'UNKNOWN_KEY',
+  /** Value cannot be parsed (bad JSON, not a number, unknown service type) */
+  INVALID_VALUE: 'INVALID_VALUE',
+  /** Numeric value outside its allowed range */
+  OUT_OF_RANGE: 'OUT_OF_RANGE',
+  /** Enabled provider has no built-in loader or registered factory */
+  UNKNOWN_PROVIDER: 'UNKNOWN_PROVIDER',
+  /** Enabled provider has no API key */
+  API_KEY_MISSING: 'API_KEY_MISSING',
+  /** Service listed in capabilities has no model configured */
+  MODEL_MISSING: 'MODEL_MISSING',
+  /** primary_llm is not in enabled_llms */
+  PRIMARY_NOT_ENABLED: 'PRIMARY_NOT_ENABLED',
+  /** Fallback LLM is not in enabled_llms */
+  FALLBACK_NOT_ENABLED: 'FALLBACK_NOT_ENABLED',
+  /** Database file (or its directory) cannot be written */
+  SQLITE_PATH_NOT_WRITABLE: 'SQLITE_PATH_NOT_WRITABLE',
+} as const;
+
+/**
+ * Type for config issue codes
+ */
+export type ConfigIssueCode = typeof CONFIG_ISSUE_CODES[keyof typeof CONFIG_ISSUE_CODES];
+
+/**
+ * A single problem found in the configuration
+ */
+export interface ConfigIssue {
+  /** 'error' stops strict initialization; 'warning' is informational */
+  severity: 'error' | 'warning';
+
+  /** Issue code for programmatic handling */
+  code: ConfigIssueCode;
+
+  /** Human-readable description */
+  message: string;
+
+  /** Section the issue was found in (e.g., "llm_gemini") */
+  section?: string;
+
+  /** Key the issue was found in (e.g., "text_temperature") */
+  key?: string;
+}
+
+/**
+ * Result of validating the configuration
+ */
+export interface ConfigValidationReport {
+  /** True when there are no errors (warnings allowed) */
+  valid: boolean;
+
+  /** Problems that prevent a provider or setting from working */
+  errors: ConfigIssue[];
+
+  /** Problems that are ignored at runtime (e.g., unknown keys) */
+  warnings: ConfigIssue[];
+}
+
+/**
+ * Options for validate_config_sections
+ */
+export interface ConfigValidationOptions {
+  /** Resolved database path to check for write access (omit to skip the check, e.g. in memory) */
+  sqlite_path?: string;
+
+  /** Environment variables used to look up API keys (default: process.env) */
+  env?: NodeJS.ProcessEnv;
+}
+
+// =============================================================================
+// Known Keys and Ranges
+// =============================================================================
+
+const SERVICE_TYPE_VALUES: string[] = Object.values(SERVICE_TYPES);
+
+/**
+ * Keys read from the [llm] section
+ */
+const LLM_SECTION_KEYS = new Set<string>([
+  'enabled_llms',
+  'primary_llm',
+  'sqlite_path',
+  'sqlite_save_debounce_ms',
+  'prompt_store',
+  'prompt_store_url',
+  'prompt_store_dir',
+  'fallback_llms',
+  'retry_max_attempts',
+  'retry_base_delay_ms',
+  'retry_max_delay_ms',
+  'retry_jitter',
+  'retry_respect_retry_after',
+  'timeout_ms',
+  ...SERVICE_TYPE_VALUES.map(service_type => `fallback_llms_${service_type}`),
+  ...SERVICE_TYPE_VALUES.map(service_type => `timeout_${service_type}_ms`),
+]);
+
+/**
+ * Numeric [llm] keys that must be non-negative numbers
+ */
+const LLM_NUMERIC_KEYS = [
+  'sqlite_save_debounce_ms',
+  'retry_max_attempts',
+  'retry_base_delay_ms',
+  'retry_max_delay_ms',
+  'retry_jitter',
+  'timeout_ms',
+  ...SERVICE_TYPE_VALUES.map(service_type => `timeout_${service_type}_ms`),
+];
+
+/**
+ * Keys read from [llm_<provider>] sections, besides generation parameters
+ * and price_<model> entries
+ */
+const PROVIDER_SECTION_KEYS = new Set<string>([
+  'api_key',
+  'api_key_env',
+  'api_url',
+  'api_url_image',
+  'base_url',
+  'provider_type',
+  'capabilities',
+  'system_instruction',
+  'image_size',
+  'image_quality',
+  'image_response_format',
+  ...SERVICE_TYPE_VALUES.map(service_type => `model_${service_type}`),
+  ...SERVICE_TYPE_VALUES.map(service_type => `api_url_${service_type}`),
+]);
+
+/** Prefixes of generation parameter keys */
+const GENERATION_PREFIXES = ['text_', 'image_'];
+
+/** Prefix of per-model price keys (see usage_helper.ts) */
+const PRICE_KEY_PREFIX = 'price_';
+
+/**
+ * Allowed ranges of generation parameters by mapping field
+ */
+const PARAMETER_RANGES: Record<string, { min: number; max?: number; integer?: boolean }> = {
+  temperature: { min: 0, max: 2 },
+  top_p: { min: 0, max: 1 },
+  top_k: { min: 1, integer: true },
+  max_tokens: { min: 1, integer: true },
+  max_output_tokens: { min: 1, integer: true },
+  candidate_count: { min: 1, integer: true },
+  n: { min: 1, integer: true },
+  presence_penalty: { min: -2, max: 2 },
+  frequency_penalty: { min: -2, max: 2 },
+};
+
+/**
+ * Providers loaded directly by llm_api/index.ts rather than through a factory
+ */
+const BUILT_IN_PROVIDERS: Record<string, { param_mappings: ParameterMapping[]; model_from_api_url: boolean }> = {
+  [LLM_PROVIDERS.GEMINI]: { param_mappings: GEMINI_PARAM_MAPPINGS, model_from_api_url: true },
+  [LLM_PROVIDERS.QWEN]: { param_mappings: QWEN_PARAM_MAPPINGS, model_from_api_url: false },
+};
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate config sections
+ * Checks the [llm] section and the [llm_<provider>] section of every enabled
+ * provider: unknown keys, unparseable and out-of-range values, missing API
+ * keys, capabilities without a model, primary/fallback LLMs that are not
+ * enabled and (when sqlite_path is given) database write access.
+ *
+ * @param sections - Effective config sections (see load_config_sections)
+ * @param options - Database path and environment to check
+ * @returns Report with errors and warnings
+ *
+ * @example
+ * ```typescript
+ * const report = validate_config_sections(load_config_sections());
+ * for (const issue of report.errors) {
+ *   console.error(`[${issue.section}] ${issue.key}: ${issue.message}`);
+ * }
+ * ```
+ */
+export function validate_config_sections(
+  sections: ConfigSections,
+  options: ConfigValidationOptions = {}
+): ConfigValidationReport {
+  const issues: ConfigIssue[] = [];
+  const llm_section = sections.llm || {};
+
+  validate_llm_section(llm_section, issues);
+
+  const enabled_llms = parse_enabled_llms(llm_section.enabled_llms).map(name => name.toLowerCase());
+  for (const name of enabled_llms) {
+    validate_provider_section(name, sections[`llm_${name}`] || {}, options.env || process.env, issues);
+  }
+
+  if (options.sqlite_path) {
+    validate_sqlite_path(options.sqlite_path, issues);
+  }
+
+  const errors = issues.filter(issue => issue.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter(issue => issue.severity === 'warning'),
+  };
+}
+
+/**
+ * Validate the [llm] section
+ * @param section - The [llm] section
+ * @param issues - Issue list to append to
+ */
+function validate_llm_section(section: Record<string, string>, issues: ConfigIssue[]): void {
+  for (const key of Object.keys(section)) {
+    if (!LLM_SECTION_KEYS.has(key)) {
+      issues.push({
+        severity: 'warning',
+        code: CONFIG_ISSUE_CODES.UNKNOWN_KEY,
+        message: `Unknown key "${key}" in [llm] is ignored`,
+        section: 'llm',
+        key,
+      });
+    }
+  }
+
+  if (section.enabled_llms !== undefined && split_list_value(section.enabled_llms) === null) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.INVALID_VALUE,
+      message: 'enabled_llms must be a JSON array or comma-separated list',
+      section: 'llm',
+      key: 'enabled_llms',
+    });
+  }
+
+  const enabled_llms = parse_enabled_llms(section.enabled_llms).map(name => name.toLowerCase());
+  const primary_llm = (section.primary_llm || LLM_PROVIDERS.GEMINI).toLowerCase();
+  if (!enabled_llms.includes(primary_llm)) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.PRIMARY_NOT_ENABLED,
+      message: `primary_llm "${primary_llm}" is not in enabled_llms (${enabled_llms.join(', ')})`,
+      section: 'llm',
+      key: 'primary_llm',
+    });
+  }
+
+  const fallback_keys = ['fallback_llms', ...SERVICE_TYPE_VALUES.map(service_type => `fallback_llms_${service_type}`)];
+  for (const key of fallback_keys) {
+    for (const name of split_list_value(section[key]) || []) {
+      if (!enabled_llms.includes(name.toLowerCase())) {
+        issues.push({
+          severity: 'warning',
+          code: CONFIG_ISSUE_CODES.FALLBACK_NOT_ENABLED,
+          message: `Fallback LLM "${name}" is not in enabled_llms and is skipped`,
+          section: 'llm',
+          key,
+        });
+      }
+    }
+  }
+
+  validate_prompt_store_keys(section, issues);
+
+  for (const key of LLM_NUMERIC_KEYS) {
+    const value = section[key];
+    if (value !== undefined && (value.trim() === '' || isNaN(Number(value)) || Number(value) < 0)) {
+      issues.push({
+        severity: 'error',
+        code: CONFIG_ISSUE_CODES.INVALID_VALUE,
+        message: `${key} must be a non-negative number (got "${value}")`,
+        section: 'llm',
+        key,
+      });
+    }
+  }
+}
+
+/**
+ * Validate prompt_store and the settings the selected store needs
+ * @param section - The [llm] section
+ * @param issues - Issue list to append to
+ */
+function validate_prompt_store_keys(section: Record<string, string>, issues: ConfigIssue[]): void {
+  if (section.prompt_store === undefined) {
+    return;
+  }
+
+  const store_types: string[] = Object.values(PROMPT_STORE_TYPES);
+  const store_type = section.prompt_store.toLowerCase();
+  if (!store_types.includes(store_type)) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.INVALID_VALUE,
+      message: `prompt_store must be one of ${store_types.join(', ')} (got "${section.prompt_store}")`,
+      section: 'llm',
+      key: 'prompt_store',
+    });
+    return;
+  }
+
+  const required_key = store_type === PROMPT_STORE_TYPES.POSTGRES
+    ? 'prompt_store_url'
+    : store_type === PROMPT_STORE_TYPES.DIRECTORY ? 'prompt_store_dir' : null;
+  if (required_key && !section[required_key]) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.INVALID_VALUE,
+      message: `prompt_store=${store_type} requires ${required_key}`,
+      section: 'llm',
+      key: required_key,
+    });
+  }
+}
+
+/**
+ * Validate the section of an enabled provider
+ * @param name - Provider name (lowercase)
+ * @param section - The [llm_<name>] section (empty if missing)
+ * @param env - Environment variables for the API key lookup
+ * @param issues - Issue list to append to
+ */
+function validate_provider_section(
+  name: string,
+  section: Record<string, string>,
+  env: NodeJS.ProcessEnv,
+  issues: ConfigIssue[]
+): void {
+  const section_name = `llm_${name}`;
+  const built_in = BUILT_IN_PROVIDERS[name];
+  const factory = built_in
+    ? undefined
+    : get_provider_factory(name) || (section.provider_type ? get_provider_factory(section.provider_type) : undefined);
+
+  if (!built_in && !factory) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.UNKNOWN_PROVIDER,
+      message: `No provider is available for "${name}". Set provider_type in [${section_name}] or register a provider factory.`,
+      section: section_name,
+      key: section.provider_type !== undefined ? 'provider_type' : undefined,
+    });
+    return;
+  }
+
+  // API key (optional for factories such as openai_compatible)
+  const api_key_required = factory ? factory.api_key_required !== false : true;
+  const env_var = section.api_key_env || get_api_key_env_var_name(name);
+  if (api_key_required && !section.api_key && !env[env_var]) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.API_KEY_MISSING,
+      message: `No API key for "${name}". Set ${env_var} or api_key in [${section_name}].`,
+      section: section_name,
+      key: 'api_key',
+    });
+  }
+
+  // Capabilities and their models
+  const capabilities = split_list_value(section.capabilities);
+  if (section.capabilities !== undefined && capabilities === null) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.INVALID_VALUE,
+      message: 'capabilities must be a JSON array or comma-separated list',
+      section: section_name,
+      key: 'capabilities',
+    });
+  }
+
+  for (const capability of capabilities || []) {
+    if (!SERVICE_TYPE_VALUES.includes(capability)) {
+      issues.push({
+        severity: 'error',
+        code: CONFIG_ISSUE_CODES.INVALID_VALUE,
+        message: `Unknown service type "${capability}" in capabilities (expected one of ${SERVICE_TYPE_VALUES.join(', ')})`,
+        section: section_name,
+        key: 'capabilities',
+      });
+      continue;
+    }
+
+    const has_model = section[`model_${capability}`] || built_in?.model_from_api_url;
+    if (!has_model) {
+      issues.push({
+        severity: 'error',
+        code: CONFIG_ISSUE_CODES.MODEL_MISSING,
+        message: `Service "${capability}" is listed in capabilities but model_${capability} is not set`,
+        section: section_name,
+        key: `model_${capability}`,
+      });
+    }
+  }
+
+  // Generation parameters and other keys
+  const param_mappings = built_in
+    ? built_in.param_mappings
+    : [...(factory?.text_param_mappings || []), ...(factory?.image_param_mappings || [])];
+
+  for (const [key, value] of Object.entries(section)) {
+    if (PROVIDER_SECTION_KEYS.has(key) || key.startsWith(PRICE_KEY_PREFIX)) {
+      continue;
+    }
+
+    const prefix = GENERATION_PREFIXES.find(candidate => key.startsWith(candidate));
+    const param_key = prefix ? key.slice(prefix.length) : undefined;
+    const mapping = param_key !== undefined
+      ? param_mappings.find(candidate => candidate.keys.includes(param_key))
+      : undefined;
+
+    if (!mapping) {
+      issues.push({
+        severity: 'warning',
+        code: CONFIG_ISSUE_CODES.UNKNOWN_KEY,
+        message: prefix
+          ? `Unknown generation parameter "${key}" in [${section_name}] is ignored`
+          : `Unknown key "${key}" in [${section_name}] is ignored`,
+        section: section_name,
+        key,
+      });
+      continue;
+    }
+
+    validate_parameter_value(section_name, key, value, mapping, issues);
+  }
+}
+
+/**
+ * Validate the value of a generation parameter
+ * @param section_name - Section the parameter is in
+ * @param key - Full key (e.g., "text_temperature")
+ * @param value - Raw value
+ * @param mapping - Parameter mapping the key belongs to
+ * @param issues - Issue list to append to
+ */
+function validate_parameter_value(
+  section_name: string,
+  key: string,
+  value: string,
+  mapping: ParameterMapping,
+  issues: ConfigIssue[]
+): void {
+  if (mapping.type === 'json_array') {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      parsed = undefined;
+    }
+    if (!Array.isArray(parsed)) {
+      issues.push({
+        severity: 'error',
+        code: CONFIG_ISSUE_CODES.INVALID_VALUE,
+        message: `${key} must be a JSON array (got "${value}")`,
+        section: section_name,
+        key,
+      });
+    }
+    return;
+  }
+
+  if (mapping.type !== 'number') {
+    return;
+  }
+
+  const number = Number(value);
+  if (value.trim() === '' || isNaN(number)) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.INVALID_VALUE,
+      message: `${key} must be a number (got "${value}")`,
+      section: section_name,
+      key,
+    });
+    return;
+  }
+
+  const range = PARAMETER_RANGES[mapping.field];
+  if (!range) {
+    return;
+  }
+
+  const out_of_range =
+    number < range.min ||
+    (range.max !== undefined && number > range.max) ||
+    (range.integer === true && !Number.isInteger(number));
+
+  if (out_of_range) {
+    const expected = range.max !== undefined
+      ? `between ${range.min} and ${range.max}`
+      : `${range.integer ? 'an integer ' : ''}of at least ${range.min}`;
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.OUT_OF_RANGE,
+      message: `${key} must be ${expected} (got ${value})`,
+      section: section_name,
+      key,
+    });
+  }
+}
+
+/**
+ * Check that the database file can be written
+ * The file must be writable if it exists; otherwise the closest existing
+ * parent must be a writable directory (missing directories are created on save).
+ *
+ * @param sqlite_path - Resolved database path
+ * @param issues - Issue list to append to
+ */
+function validate_sqlite_path(sqlite_path: string, issues: ConfigIssue[]): void {
+  let target = sqlite_path;
+  while (!fs.existsSync(target)) {
+    const parent = path.dirname(target);
+    if (parent === target) {
+      break;
+    }
+    target = parent;
+  }
+
+  let reason: string | null = null;
+  try {
+    if (target !== sqlite_path && !fs.statSync(target).isDirectory()) {
+      reason = `${target} is not a directory`;
+    } else {
+      fs.accessSync(target, fs.constants.W_OK);
+    }
+  } catch (error) {
+    reason = error instanceof Error ? error.message : String(error);
+  }
+
+  if (reason) {
+    issues.push({
+      severity: 'error',
+      code: CONFIG_ISSUE_CODES.SQLITE_PATH_NOT_WRITABLE,
+      message: `Database path ${sqlite_path} is not writable: ${reason}`,
+      section: 'llm',
+      key: 'sqlite_path',
+    });
+  }
+}
+
+/**
+ * Split a list value (JSON array or comma-separated) without dropping entries
+ * @param value - Raw config value
+ * @returns Trimmed entries, or null if the value is JSON but not an array of strings
+ */
+function split_list_value(value: string | undefined): string[] | null {
+  if (value === undefined) {
+    return [];
+  }
+
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (Array.isArray(parsed) && parsed.every(entry => typeof entry === 'string')) {
+      return parsed.map(entry => entry.trim()).filter(Boolean);
+    }
+    return null;
+  } catch {
+    return value.split(',').map(entry => entry.trim()).filter(Boolean);
+  }
+}
@@ -9,13 +9,24 @@ export {
   type BaseGenerationConfig,
   type ParameterMapping,
   type GlobalLLMConfig,
+  type ConfigSections,
+  type ConfigChange,
   // Parameter mappings
   COMMON_PARAM_MAPPINGS,
   GEMINI_PARAM_MAPPINGS,
   QWEN_PARAM_MAPPINGS,
+  ANTHROPIC_PARAM_MAPPINGS,
   // Config file utilities
   find_config_file,
   read_config_file,
+  // Config sections (file, environment overrides, programmatic settings)
+  CONFIG_ENV_PREFIX,
+  load_config_sections,
+  merge_config_sections,
+  apply_env_overrides,
+  to_config_section,
+  diff_config_sections,
+  mask_config_value,
   // Parsing utilities
   parse_generation_config,
   parse_capabilities,
@@ -40,3 +51,14 @@ export {
   load_provider_from_config,
   load_all_providers,
 } from './provider_loader.js';
+
+export {
+  // Types
+  type ConfigIssue,
+  type ConfigIssueCode,
+  type ConfigValidationReport,
+  type ConfigValidationOptions,
+  // Validation
+  CONFIG_ISSUE_CODES,
+  validate_config_sections,
+} from './config_validator.js';
@@ -8,11 +8,10 @@
 import type { LLMProvider, ServiceType } from '../providers/types.js';
 import type { Logger } from '../llm_api/types.js';
 import {
-  find_config_file,
-  read_config_file,
+  load_config_sections,
+  type ConfigSections,
   parse_generation_config,
   parse_capabilities,
-  load_api_key_from_env,
   get_api_key_env_var_name,
   type ParameterMapping,
 } from './config_parser.js';
@@ -48,15 +47,19 @@ export interface ProviderFactory<TConfig extends BaseProviderConfig> {
   /** Parameter mappings for image generation config */
   image_param_mappings: ParameterMapping[];
 
+  /** Whether an API key is required (default: true; false for local servers) */
+  api_key_required?: boolean;
+
   /**
    * Build provider-specific config from INI section
    *
    * @param section - The parsed INI section
-   * @param api_key - The API key loaded from environment
+   * @param api_key - The API key loaded from environment ('' if optional and not set)
    * @param text_config - Parsed text generation config
    * @param image_config - Parsed image generation config
    * @param capabilities - Parsed capabilities
    * @param logger - Logger instance
+   * @param provider_name - Name the provider is loaded under (e.g., "ollama")
    * @returns Provider-specific config object
    */
   build_config(
@@ -65,7 +68,8 @@ export interface ProviderFactory<TConfig extends BaseProviderConfig> {
     text_config: unknown,
     image_config: unknown,
     capabilities: ServiceType[],
-    logger: Logger
+    logger: Logger,
+    provider_name: string
   ): TConfig;
 
   /**
@@ -81,7 +85,7 @@ export interface ProviderFactory<TConfig extends BaseProviderConfig> {
  * Result of loading a provider
  */
 export type ProviderLoadResult =
-  | { success: true; provider: LLMProvider }
+  | { success: true; provider: LLMProvider; section: Record<string, string> }
   | { success: false; error: string };
 
 // =============================================================================
@@ -151,57 +155,52 @@ export function get_registered_factory_names(): string[] {
 /**
  * Load a provider from config using its registered factory
  *
+ * The factory is looked up by provider name. If none is registered under that
+ * name, the provider_type key of the [llm_<name>] section selects it, so one
+ * factory can serve several named sections (e.g., [llm_ollama] and [llm_vllm]
+ * both with provider_type=openai_compatible).
+ *
+ * The API key is the section's api_key (programmatic configuration), or the
+ * variable named by api_key_env in the section, or <NAME>_API_KEY by default.
+ *
  * @param provider_name - Name of the provider to load
  * @param logger - Logger instance
- * @returns Provider instance or error result
+ * @param config - Config sections (default: config file with HAZO_LLM_* overrides)
+ * @returns Provider instance (and its INI section) or error result
  */
 export function load_provider_from_config(
   provider_name: string,
-  logger: Logger
+  logger: Logger,
+  config: ConfigSections = load_config_sections()
 ): ProviderLoadResult {
   const file_name = 'provider_loader.ts';
   const name_lower = provider_name.toLowerCase();
 
-  // Get the factory for this provider
-  const factory = provider_factories.get(name_lower);
+  // Get the factory for this provider (by name, then by provider_type)
+  const named_section: Record<string, string> = config[`llm_${name_lower}`] || {};
+  const factory = provider_factories.get(name_lower) ||
+    (named_section.provider_type ? provider_factories.get(named_section.provider_type.toLowerCase()) : undefined);
   if (!factory) {
     return {
       success: false,
-      error: `No factory registered for provider "${provider_name}". Available: ${get_registered_factory_names().join(', ')}`,
-    };
-  }
-
-  // Find and read config file
-  const config_path = find_config_file();
-  if (!config_path) {
-    logger.warn('Config file not found', {
-      file: file_name,
-      data: { provider: provider_name },
-    });
-    return {
-      success: false,
-      error: 'Config file config/hazo_llm_api_config.ini not found',
-    };
-  }
-
-  const config = read_config_file(config_path);
-  if (!config) {
-    return {
-      success: false,
-      error: `Failed to read config file: ${config_path}`,
+      error: `No factory registered for provider "${provider_name}". ` +
+        `Available: ${get_registered_factory_names().join(', ')}. ` +
+        `Set provider_type in the [llm_${name_lower}] section to use one of them.`,
     };
   }
 
   // Get the provider's section
-  const section = config[factory.config_section] || {};
-
-  // Load API key from environment
-  const api_key = load_api_key_from_env(name_lower);
-  if (!api_key) {
-    const env_var = get_api_key_env_var_name(name_lower);
+  const section: Record<string, string> = factory.name.toLowerCase() === name_lower
+    ? config[factory.config_section] || {}
+    : named_section;
+
+  // Load API key from the section or environment
+  const env_var = section.api_key_env || get_api_key_env_var_name(name_lower);
+  const api_key = section.api_key || process.env[env_var];
+  if (!api_key && factory.api_key_required !== false) {
     logger.error(`${env_var} not found in environment variables`, {
       file: file_name,
-      data: { provider: provider_name, config_path },
+      data: { provider: provider_name },
     });
     return {
       success: false,
@@ -228,11 +227,12 @@ export function load_provider_from_config(
     // Build provider config
     const provider_config = factory.build_config(
       section,
-      api_key,
+      api_key || '',
       text_config,
       image_config,
       capabilities,
-      logger
+      logger,
+      name_lower
     );
 
     // Create provider instance
@@ -245,12 +245,12 @@ export function load_provider_from_config(
       },
     });
 
-    return { success: true, provider };
+    return { success: true, provider, section };
   } catch (error) {
     const error_message = error instanceof Error ? error.message : String(error);
     logger.error(`Failed to load ${provider_name} provider`, {
       file: file_name,
-      data: { error: error_message, config_path },
+      data: { error: error_message },
     });
     return {
       success: false,
@@ -264,17 +264,19 @@ export function load_provider_from_config(
  *
  * @param enabled_llms - List of enabled LLM names
  * @param logger - Logger instance
+ * @param config - Config sections (default: config file with HAZO_LLM_* overrides)
  * @returns Map of successfully loaded providers
  */
 export function load_all_providers(
   enabled_llms: string[],
-  logger: Logger
+  logger: Logger,
+  config: ConfigSections = load_config_sections()
 ): Map<string, LLMProvider> {
   const file_name = 'provider_loader.ts';
   const providers = new Map<string, LLMProvider>();
 
   for (const llm_name of enabled_llms) {
-    const result = load_provider_from_config(llm_name, logger);
+    const result = load_provider_from_config(llm_name, logger, config);
 
     if (result.success) {
       providers.set(llm_name.toLowerCase(), result.provider);
@@ -0,0 +1,126 @@
+/**
+ * Database File Tests
+ *
+ * Lock file handling, merging changes another process saved, and the
+ * database state left behind by reset_database.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import initSqlJs, { type Database as SqlJsDatabase } from 'sql.js';
+import { with_database_lock, merge_external_changes } from './database_file.js';
+import {
+  initialize_database,
+  insert_prompt,
+  update_prompt,
+  reset_database,
+  sync_database,
+} from './init_database.js';
+import type { PromptRecord } from '../llm_api/types.js';
+import { silent_logger } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+const PROMPT: Omit<PromptRecord, 'id' | 'created_at' | 'changed_at'> = {
+  prompt_area: 'docs',
+  prompt_key: 'summary',
+  local_1: null,
+  local_2: null,
+  local_3: null,
+  user_id: null,
+  scope_id: null,
+  prompt_text: 'v1',
+  prompt_variables: '[]',
+  prompt_notes: '',
+  next_prompt: null,
+};
+
+/**
+ * Read a prompt's text with a plain query
+ */
+function read_prompt_text(db: SqlJsDatabase, id: string): unknown {
+  return db.exec('SELECT prompt_text FROM hazo_prompts WHERE id = ?', [id])[0]?.values[0]?.[0];
+}
+
+/**
+ * Change a prompt in the file the way another process would
+ */
+async function update_file_as_other_process(file_path: string, id: string, prompt_text: string): Promise<void> {
+  const SQL = await initSqlJs();
+  const external = new SQL.Database(fs.readFileSync(file_path));
+  external.run('UPDATE hazo_prompts SET prompt_text = ? WHERE id = ?', [prompt_text, id]);
+  fs.writeFileSync(file_path, external.export());
+  external.close();
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('database file', () => {
+  let directory: string;
+  let file_path: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'hazo-database-file-'));
+    file_path = path.join(directory, 'prompts.sqlite');
+  });
+
+  afterEach(() => {
+    reset_database(logger);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('holds a lock file while running and removes a lock left by a dead process', () => {
+    const lock_path = `${file_path}.lock`;
+    fs.writeFileSync(lock_path, JSON.stringify({ pid: 2 ** 22 + 1, hostname: os.hostname(), created_at: '' }));
+
+    const seen = with_database_lock(file_path, () => JSON.parse(fs.readFileSync(lock_path, 'utf-8')).pid);
+
+    expect(seen).toBe(process.pid);
+    expect(fs.existsSync(lock_path)).toBe(false);
+  });
+
+  it('takes external changes except for prompts changed locally', async () => {
+    const SQL = await initSqlJs();
+    const db = await initialize_database(file_path, logger);
+    const kept = insert_prompt(db, PROMPT, logger);
+    const taken = insert_prompt(db, { ...PROMPT, prompt_key: 'title' }, logger);
+
+    const external = new SQL.Database(db.export());
+    external.run('UPDATE hazo_prompts SET prompt_text = ?', ['external']);
+
+    const summary = merge_external_changes(db, external, { changed_ids: new Set([kept.id]), deleted_ids: new Set() });
+
+    expect(summary.updated).toBe(1);
+    expect(read_prompt_text(db, kept.id)).toBe('v1');
+    expect(read_prompt_text(db, taken.id)).toBe('external');
+  });
+
+  it('does not carry unsaved local changes over a reset into the next database', async () => {
+    let db = await initialize_database(file_path, logger);
+    const prompt = insert_prompt(db, PROMPT, logger);
+
+    // Unsaved local update, then reset without saving
+    await initialize_database(file_path, logger, { save_debounce_ms: 60000 });
+    update_prompt(db, prompt.id, { prompt_text: 'local' }, logger);
+    reset_database(logger);
+
+    // Another process holds the lock, so the initial save of the new database fails
+    const lock_path = `${file_path}.lock`;
+    fs.writeFileSync(lock_path, JSON.stringify({ pid: process.pid, hostname: os.hostname(), created_at: '' }));
+    db = await initialize_database(file_path, logger, { save_debounce_ms: 0 });
+    fs.rmSync(lock_path);
+
+    await update_file_as_other_process(file_path, prompt.id, 'external');
+
+    expect(sync_database(logger)).toBe(true);
+    expect(read_prompt_text(db, prompt.id)).toBe('external');
+  }, 15000);
+});
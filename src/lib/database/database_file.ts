@@ -0,0 +1,439 @@
+/**
+ * Database File Module
+ *
+ * Safe writes of the sql.js database file when several processes (e.g., a
+ * Next.js dev server and a script) use the same file: an advisory lock file,
+ * atomic writes (temp file + rename), detection of changes made by another
+ * process (mtime/size, then content hash) and merging those changes into the
+ * in-memory database.
+ */
+
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { Database as SqlJsDatabase, SqlValue } from 'sql.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Suffix of the advisory lock file next to the database file */
+const LOCK_FILE_SUFFIX = '.lock';
+
+/** How long to wait for another process to release the lock */
+const LOCK_TIMEOUT_MS = 5000;
+
+/** Age after which a lock file is treated as left behind by a crashed process */
+const LOCK_STALE_MS = 30000;
+
+/** Delay between attempts to take the lock */
+const LOCK_RETRY_MS = 20;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * What was last read from or written to the database file
+ */
+export interface DatabaseFileSnapshot {
+  /** SHA-256 of the file content, or null when there was no file */
+  hash: string | null;
+
+  /** File modification time in ms */
+  mtime_ms: number;
+
+  /** File size in bytes */
+  size: number;
+}
+
+/**
+ * Result of checking the database file for changes by another process
+ */
+export interface DatabaseFileCheck {
+  /** Whether the content differs from the snapshot */
+  changed: boolean;
+
+  /** Current file content (only read when mtime or size differ) */
+  buffer: Buffer | null;
+
+  /** Snapshot of the current file */
+  snapshot: DatabaseFileSnapshot;
+}
+
+/**
+ * Prompts written by this process since the file was last read or written
+ */
+export interface LocalPromptChanges {
+  /** Prompts inserted or updated */
+  changed_ids: Set<string>;
+
+  /** Prompts deleted */
+  deleted_ids: Set<string>;
+}
+
+/**
+ * Counts of the external changes applied by merge_external_changes
+ */
+export interface MergeSummary {
+  /** Prompts added or updated from the file */
+  updated: number;
+
+  /** Prompts removed because they were deleted in the file */
+  removed: number;
+}
+
+/**
+ * Content of the lock file
+ */
+interface LockInfo {
+  pid: number;
+  hostname: string;
+  created_at: string;
+}
+
+/**
+ * Rows of a table with their column names
+ */
+interface TableRows {
+  columns: string[];
+  rows: SqlValue[][];
+}
+
+// =============================================================================
+// File Snapshots
+// =============================================================================
+
+/**
+ * Snapshot of a database file that has no content on disk
+ */
+export const EMPTY_FILE_SNAPSHOT: DatabaseFileSnapshot = { hash: null, mtime_ms: 0, size: 0 };
+
+/**
+ * Snapshot the database file after reading or writing it
+ * @param file_path - Database file path
+ * @param buffer - Content that was read or written
+ * @returns File snapshot
+ */
+export function snapshot_database_file(file_path: string, buffer: Uint8Array): DatabaseFileSnapshot {
+  const stats = fs.statSync(file_path);
+  return { hash: hash_content(buffer), mtime_ms: stats.mtimeMs, size: stats.size };
+}
+
+/**
+ * Check whether another process changed the database file since the snapshot
+ * The content is only read and hashed when mtime or size differ.
+ *
+ * @param file_path - Database file path
+ * @param known - Snapshot from the last read or write
+ * @returns Whether the file changed, its content (if read) and its current snapshot
+ */
+export function check_database_file(file_path: string, known: DatabaseFileSnapshot): DatabaseFileCheck {
+  if (!fs.existsSync(file_path)) {
+    return { changed: known.hash !== null, buffer: null, snapshot: EMPTY_FILE_SNAPSHOT };
+  }
+
+  const stats = fs.statSync(file_path);
+  if (known.hash !== null && stats.mtimeMs === known.mtime_ms && stats.size === known.size) {
+    return { changed: false, buffer: null, snapshot: known };
+  }
+
+  const buffer = fs.readFileSync(file_path);
+  const hash = hash_content(buffer);
+  return {
+    changed: hash !== known.hash,
+    buffer,
+    snapshot: { hash, mtime_ms: stats.mtimeMs, size: stats.size },
+  };
+}
+
+/**
+ * Hash file content
+ * @param buffer - File content
+ * @returns SHA-256 hex digest
+ */
+function hash_content(buffer: Uint8Array): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+// =============================================================================
+// Atomic Write
+// =============================================================================
+
+/**
+ * Write a file atomically: write a temp file in the same directory, then rename it
+ * A crash mid-write leaves the previous file intact instead of a truncated one.
+ *
+ * @param file_path - Target file path
+ * @param data - File content
+ */
+export function write_file_atomic(file_path: string, data: Uint8Array): void {
+  const dir = path.dirname(file_path);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const temp_path = `${file_path}.${process.pid}.tmp`;
+  try {
+    fs.writeFileSync(temp_path, data);
+    fs.renameSync(temp_path, file_path);
+  } catch (error) {
+    fs.rmSync(temp_path, { force: true });
+    throw error;
+  }
+}
+
+// =============================================================================
+// Lock File
+// =============================================================================
+
+/**
+ * Run a function while holding the advisory lock of a database file
+ * The lock is a "<file>.lock" file created exclusively; other processes
+ * using this package wait for it. Locks older than 30s, or held by a process
+ * on this host that no longer runs, are removed.
+ *
+ * @param file_path - Database file path
+ * @param fn - Function to run while holding the lock
+ * @returns Result of fn
+ * @throws Error if the lock is not released within 5s
+ */
+export function with_database_lock<T>(file_path: string, fn: () => T): T {
+  const lock_path = `${file_path}${LOCK_FILE_SUFFIX}`;
+  acquire_lock(lock_path);
+  try {
+    return fn();
+  } finally {
+    fs.rmSync(lock_path, { force: true });
+  }
+}
+
+/**
+ * Create the lock file, waiting while another process holds it
+ * @param lock_path - Lock file path
+ * @throws Error on timeout
+ */
+function acquire_lock(lock_path: string): void {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+  const info: LockInfo = { pid: process.pid, hostname: os.hostname(), created_at: new Date().toISOString() };
+
+  for (;;) {
+    try {
+      fs.mkdirSync(path.dirname(lock_path), { recursive: true });
+      fs.writeFileSync(lock_path, JSON.stringify(info), { flag: 'wx' });
+      return;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+
+    if (is_stale_lock(lock_path)) {
+      fs.rmSync(lock_path, { force: true });
+      continue;
+    }
+
+    if (Date.now() >= deadline) {
+      throw new Error(`Database file is locked by another process (lock file: ${lock_path})`);
+    }
+    sleep_sync(LOCK_RETRY_MS);
+  }
+}
+
+/**
+ * Check whether a lock file was left behind
+ * @param lock_path - Lock file path
+ * @returns True if the lock is too old or its process is gone
+ */
+function is_stale_lock(lock_path: string): boolean {
+  try {
+    if (Date.now() - fs.statSync(lock_path).mtimeMs > LOCK_STALE_MS) {
+      return true;
+    }
+
+    const info = JSON.parse(fs.readFileSync(lock_path, 'utf-8')) as Partial<LockInfo>;
+    if (info.hostname !== os.hostname() || typeof info.pid !== 'number') {
+      return false;
+    }
+    try {
+      process.kill(info.pid, 0);
+      return false;
+    } catch (error) {
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  } catch {
+    // Lock released (or still being written) while checking: try again
+    return false;
+  }
+}
+
+/**
+ * Block the thread for a short time (saves are synchronous)
+ * @param ms - Milliseconds to wait
+ */
+function sleep_sync(ms: number): void {
+  Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, ms);
+}
+
+// =============================================================================
+// Merge
+// =============================================================================
+
+/**
+ * Merge the prompts another process saved to the file into the in-memory database
+ * Prompts this process changed or deleted since the last read/write keep
+ * their local state (last writer wins); everything else is taken from the
+ * file. Version rows of locally changed prompts that are missing from the
+ * file are appended after the file's versions.
+ *
+ * @param db - In-memory database (updated in place)
+ * @param external - Database loaded from the file (same schema)
+ * @param local_changes - Prompts written by this process since the last read/write
+ * @returns Counts of the applied external changes
+ */
+export function merge_external_changes(
+  db: SqlJsDatabase,
+  external: SqlJsDatabase,
+  local_changes: LocalPromptChanges
+): MergeSummary {
+  const { changed_ids, deleted_ids } = local_changes;
+  const summary: MergeSummary = { updated: 0, removed: 0 };
+
+  const external_prompts = read_table(external, 'SELECT * FROM hazo_prompts');
+  const external_versions = read_table(external, 'SELECT * FROM hazo_prompt_versions ORDER BY prompt_id, version');
+  const external_ids = new Set(external_prompts.rows.map(row => get_value(external_prompts, row, 'id')));
+
+  db.run('BEGIN');
+  try {
+    // Prompts added or updated by the other process
+    const local_prompts = read_table(db, 'SELECT * FROM hazo_prompts');
+    const local_rows = new Map(
+      local_prompts.rows.map(row => [get_value(local_prompts, row, 'id'), to_object(local_prompts, row)] as const)
+    );
+    for (const row of external_prompts.rows) {
+      const id = get_value(external_prompts, row, 'id');
+      if (changed_ids.has(id) || deleted_ids.has(id)) {
+        continue;
+      }
+      const local_row = local_rows.get(id);
+      const external_row = to_object(external_prompts, row);
+      if (!local_row || Object.keys(external_row).some(column => external_row[column] !== local_row[column])) {
+        summary.updated++;
+      }
+      insert_row(db, 'hazo_prompts', external_prompts.columns, row, true);
+      db.run('DELETE FROM hazo_prompt_versions WHERE prompt_id = ?', [id]);
+      for (const version_row of versions_of(external_versions, id)) {
+        insert_row(db, 'hazo_prompt_versions', external_versions.columns, version_row, false);
+      }
+    }
+
+    // Prompts deleted by the other process
+    for (const id of local_rows.keys()) {
+      if (!external_ids.has(id) && !changed_ids.has(id)) {
+        db.run('DELETE FROM hazo_prompts WHERE id = ?', [id]);
+        db.run('DELETE FROM hazo_prompt_versions WHERE prompt_id = ?', [id]);
+        summary.removed++;
+      }
+    }
+
+    // Prompts changed here: keep the file's history, then this process's new versions
+    for (const id of changed_ids) {
+      if (!local_rows.has(id)) {
+        continue;
+      }
+      const file_versions = versions_of(external_versions, id);
+      const file_version_ids = new Set(file_versions.map(row => get_value(external_versions, row, 'id')));
+      const local_versions = read_table(
+        db,
+        'SELECT * FROM hazo_prompt_versions WHERE prompt_id = ? ORDER BY version',
+        [id]
+      );
+      const new_versions = local_versions.rows.filter(row => !file_version_ids.has(get_value(local_versions, row, 'id')));
+      let next_version = file_versions.reduce(
+        (max, row) => Math.max(max, Number(get_value(external_versions, row, 'version'))),
+        0
+      );
+
+      db.run('DELETE FROM hazo_prompt_versions WHERE prompt_id = ?', [id]);
+      for (const version_row of file_versions) {
+        insert_row(db, 'hazo_prompt_versions', external_versions.columns, version_row, false);
+      }
+      const version_index = local_versions.columns.indexOf('version');
+      for (const version_row of new_versions) {
+        const renumbered = [...version_row];
+        renumbered[version_index] = ++next_version;
+        insert_row(db, 'hazo_prompt_versions', local_versions.columns, renumbered, false);
+      }
+    }
+
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+
+  return summary;
+}
+
+/**
+ * Read all rows of a query
+ * @param db - Database instance
+ * @param sql - SELECT statement
+ * @param params - Statement parameters
+ * @returns Column names and rows
+ */
+function read_table(db: SqlJsDatabase, sql: string, params: SqlValue[] = []): TableRows {
+  const result = db.exec(sql, params);
+  if (result.length === 0) {
+    return { columns: [], rows: [] };
+  }
+  return { columns: result[0].columns, rows: result[0].values };
+}
+
+/**
+ * Get a column value of a row as text
+ * @param table - Rows with their columns
+ * @param row - Row values
+ * @param column - Column name
+ * @returns Value as a string
+ */
+function get_value(table: TableRows, row: SqlValue[], column: string): string {
+  return String(row[table.columns.indexOf(column)]);
+}
+
+/**
+ * Convert a row to an object keyed by column name
+ * @param table - Rows with their columns
+ * @param row - Row values
+ * @returns Column values by name
+ */
+function to_object(table: TableRows, row: SqlValue[]): Record<string, SqlValue> {
+  return Object.fromEntries(table.columns.map((column, index) => [column, row[index]]));
+}
+
+/**
+ * Version rows of one prompt
+ * @param versions - All version rows
+ * @param prompt_id - Prompt ID
+ * @returns Rows of the prompt, in version order
+ */
+function versions_of(versions: TableRows, prompt_id: string): SqlValue[][] {
+  return versions.rows.filter(row => get_value(versions, row, 'prompt_id') === prompt_id);
+}
+
+/**
+ * Insert a row by column names
+ * @param db - Database instance
+ * @param table - Table name
+ * @param columns - Column names
+ * @param row - Row values
+ * @param replace - Replace an existing row with the same primary key
+ */
+function insert_row(db: SqlJsDatabase, table: string, columns: string[], row: SqlValue[], replace: boolean): void {
+  const placeholders = columns.map(() => '?').join(', ');
+  db.run(
+    `INSERT ${replace ? 'OR REPLACE ' : ''}INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})`,
+    row
+  );
+}
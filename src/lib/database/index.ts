@@ -8,6 +8,10 @@ export {
   initialize_database,
   get_database,
   close_database,
+  reset_database,
+  flush_database,
+  sync_database,
+  IN_MEMORY_SQLITE_PATH,
   insert_prompt,
   update_prompt,
   delete_prompt,
@@ -15,10 +19,12 @@ export {
   get_default_sqlite_path,
   expand_path,
   resolve_sqlite_path,
+  type DatabaseOptions,
 } from './init_database.js';
 
 export {
   row_to_prompt_record,
+  row_to_prompt_version_record,
   PROMPT_COLUMNS,
   PROMPT_COLUMN_NAMES,
   get_prompt_select_clause,
@@ -3,16 +3,35 @@
  * 
  * Initializes and manages the SQLite database for prompt storage.
  * Uses sql.js for database operations (pure JavaScript SQLite).
- * Creates the hazo_prompts table if it doesn't exist.
+ * Creates the hazo_prompts and hazo_prompt_versions tables if they don't exist.
+ * Saves go through database_file.ts (lock file, atomic write, merge of
+ * changes saved by other processes) and can be debounced for bulk writes.
  */
 
-import initSqlJs, { Database as SqlJsDatabase } from 'sql.js';
+import initSqlJs, { Database as SqlJsDatabase, type SqlJsStatic } from 'sql.js';
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
 import { randomUUID } from 'crypto';
-import type { Logger, PromptRecord } from '../llm_api/types.js';
+import type {
+  Logger,
+  PromptRecord,
+  PromptVersionField,
+  PromptVersionInfo,
+} from '../llm_api/types.js';
 import { row_to_prompt_record } from './utils.js';
+import { get_scoped_state } from '../llm_api/client_scope.js';
+import { get_prompt_cache } from '../prompts/prompt_cache.js';
+import {
+  check_database_file,
+  merge_external_changes,
+  snapshot_database_file,
+  with_database_lock,
+  write_file_atomic,
+  EMPTY_FILE_SNAPSHOT,
+  type DatabaseFileSnapshot,
+  type LocalPromptChanges,
+} from './database_file.js';
 
 // =============================================================================
 // Path Helpers
@@ -23,6 +42,11 @@ import { row_to_prompt_record } from './utils.js';
  */
 const DEFAULT_SQLITE_FILENAME = 'prompt_library.sqlite';
 
+/**
+ * sqlite_path value for a database that lives only in memory (never saved to a file)
+ */
+export const IN_MEMORY_SQLITE_PATH = ':memory:';
+
 /**
  * Get the default SQLite database path
  * Returns an absolute path relative to the current working directory
@@ -115,48 +139,168 @@ export function resolve_sqlite_path(sqlite_path: string): string {
 // Database Instance
 // =============================================================================
 
-let db_instance: SqlJsDatabase | null = null;
-let db_path: string | null = null;
-let sql_initialized = false;
+/**
+ * Options for initialize_database
+ */
+export interface DatabaseOptions {
+  /**
+   * Delay saves until no write happened for this many ms, so bulk imports
+   * write the file once (0 = save after every write)
+   * Pending changes are saved by flush_database, close_database and on process exit.
+   * @default 0
+   */
+  save_debounce_ms?: number;
+}
+
+/**
+ * Database state of one client (see client_scope.ts)
+ */
+interface DatabaseState {
+  /** Open database, or null before initialization */
+  db_instance: SqlJsDatabase | null;
+
+  /** Resolved file path (null for in-memory databases) */
+  db_path: string | null;
+
+  /** Whether the database is in memory and never saved */
+  db_in_memory: boolean;
+
+  /** Save delay in ms (0 = save immediately) */
+  save_debounce_ms: number;
+
+  /** Timer of a debounced save */
+  save_timer: NodeJS.Timeout | null;
+
+  /** Whether changes are waiting for a debounced save */
+  save_pending: boolean;
+
+  /** Logger of the last save request (used by the debounced save) */
+  save_logger: Logger | null;
+
+  /** File content last read or written by this process */
+  file_snapshot: DatabaseFileSnapshot;
+
+  /** Prompts written since the file was last read or written (kept when merging) */
+  local_changes: LocalPromptChanges;
+}
+
+const DATABASE_STATE_KEY = Symbol('database');
+
+/**
+ * Create the state of a database that is not yet initialized
+ * @returns Empty database state
+ */
+function create_database_state(): DatabaseState {
+  return {
+    db_instance: null,
+    db_path: null,
+    db_in_memory: false,
+    save_debounce_ms: 0,
+    save_timer: null,
+    save_pending: false,
+    save_logger: null,
+    file_snapshot: EMPTY_FILE_SNAPSHOT,
+    local_changes: { changed_ids: new Set(), deleted_ids: new Set() },
+  };
+}
+
+/**
+ * Database of the default instance (top-level functions)
+ */
+const default_database_state = create_database_state();
+
+/**
+ * State of each open database, so CRUD operations save the database they
+ * were given even outside the client scope that opened it
+ */
+const database_states = new WeakMap<SqlJsDatabase, DatabaseState>();
+
+/**
+ * Databases with a debounced save waiting (saved on process exit)
+ */
+const pending_save_states = new Set<DatabaseState>();
+
+let exit_handler_registered = false;
+
+let sql_module: SqlJsStatic | null = null;
+
+/**
+ * Get the database state of the active client
+ * @returns Database state of the active client scope, or the default state
+ */
+function get_database_state(): DatabaseState {
+  return get_scoped_state(DATABASE_STATE_KEY, default_database_state, create_database_state);
+}
 
 // =============================================================================
 // Database Initialization
 // =============================================================================
 
+/**
+ * Load the sql.js module (once)
+ * @returns sql.js module
+ */
+async function get_sql_module(): Promise<SqlJsStatic> {
+  if (!sql_module) {
+    sql_module = await initSqlJs();
+  }
+  return sql_module;
+}
+
 /**
  * Initialize the SQLite database connection and create tables if needed
- * @param sqlite_path - Path to the SQLite database file (relative to app root)
+ * @param sqlite_path - Path to the SQLite database file (relative to app root),
+ *                      or IN_MEMORY_SQLITE_PATH (":memory:") for a database that is never saved
  * @param logger - Logger instance for logging operations
+ * @param options - Save options (also applied when the database is already open)
  * @returns Database instance
  */
 export async function initialize_database(
   sqlite_path: string,
-  logger: Logger
+  logger: Logger,
+  options: DatabaseOptions = {}
 ): Promise<SqlJsDatabase> {
   const file_name = 'init_database.ts';
+  const state = get_database_state();
+  if (options.save_debounce_ms !== undefined) {
+    state.save_debounce_ms = Math.max(0, options.save_debounce_ms);
+  }
   
   // Return existing instance if already initialized
-  if (db_instance) {
+  if (state.db_instance) {
     logger.debug('Database already initialized, returning existing instance', {
       file: file_name,
       line: 36,
     });
-    return db_instance;
+    return state.db_instance;
   }
   
   try {
-    // Initialize sql.js
-    if (!sql_initialized) {
-      await initSqlJs();
-      sql_initialized = true;
+    // In-memory database: no file to load or save
+    if (sqlite_path === IN_MEMORY_SQLITE_PATH) {
+      const SQL = await get_sql_module();
+      const db = new SQL.Database();
+      state.db_instance = db;
+      state.db_path = null;
+      state.db_in_memory = true;
+      database_states.set(db, state);
+      create_prompts_table(db, logger);
+      create_prompt_versions_table(db, logger);
+
+      logger.info('In-memory database initialized successfully', {
+        file: file_name,
+      });
+
+      return db;
     }
-    
+
     // Resolve database path relative to process.cwd() (consuming app root)
     const resolved_path = path.isAbsolute(sqlite_path)
       ? sqlite_path
       : path.join(process.cwd(), sqlite_path);
     
-    db_path = resolved_path;
+    state.db_path = resolved_path;
+    state.db_in_memory = false;
     
     logger.info('Initializing SQLite database', {
       file: file_name,
@@ -185,16 +329,24 @@ export async function initialize_database(
     }
     
     // Create database connection
-    const SQL = await initSqlJs();
-    db_instance = file_buffer 
+    const SQL = await get_sql_module();
+    const db = file_buffer 
       ? new SQL.Database(file_buffer)
       : new SQL.Database();
+    state.db_instance = db;
+    state.file_snapshot = file_buffer
+      ? snapshot_database_file(resolved_path, file_buffer)
+      : EMPTY_FILE_SNAPSHOT;
+    database_states.set(db, state);
     
     // Create hazo_prompts table if it doesn't exist
-    create_prompts_table(db_instance, logger);
+    create_prompts_table(db, logger);
+
+    // Create hazo_prompt_versions table (and version 1 for prompts without history)
+    create_prompt_versions_table(db, logger);
     
-    // Save database to file
-    save_database(logger);
+    // Save database to file (now, even when saves are debounced)
+    write_database_file(state, logger);
     
     logger.info('Database initialized successfully', {
       file: file_name,
@@ -202,7 +354,7 @@ export async function initialize_database(
       data: { path: resolved_path },
     });
     
-    return db_instance;
+    return db;
   } catch (error) {
     const error_message = error instanceof Error ? error.message : String(error);
     logger.error('Failed to initialize database', {
@@ -223,6 +375,7 @@ export function initialize_database_sync(
   logger: Logger
 ): SqlJsDatabase | null {
   // If already initialized, return the instance
+  const { db_instance } = get_database_state();
   if (db_instance) {
     return db_instance;
   }
@@ -413,75 +566,174 @@ function migrate_add_next_prompt_column(db: SqlJsDatabase, logger: Logger): void
   }
 }
 
+/**
+ * Create the hazo_prompt_versions table if it doesn't exist
+ * Prompts created before versioning existed get their current content recorded as version 1.
+ * @param db - Database instance
+ * @param logger - Logger instance
+ */
+function create_prompt_versions_table(db: SqlJsDatabase, logger: Logger): void {
+  const file_name = 'init_database.ts';
+
+  const create_table_sql = `
+    CREATE TABLE IF NOT EXISTS hazo_prompt_versions (
+      id TEXT PRIMARY KEY,
+      prompt_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      prompt_text TEXT NOT NULL,
+      prompt_variables TEXT DEFAULT '[]',
+      prompt_notes TEXT DEFAULT '',
+      next_prompt TEXT DEFAULT NULL,
+      author TEXT DEFAULT NULL,
+      note TEXT DEFAULT '',
+      created_at TEXT DEFAULT (datetime('now')),
+      UNIQUE (prompt_id, version)
+    )
+  `;
+
+  try {
+    db.run(create_table_sql);
+
+    // Backfill: record version 1 for prompts that have no history yet
+    const unversioned = db.exec(`
+      SELECT id FROM hazo_prompts
+      WHERE id NOT IN (SELECT DISTINCT prompt_id FROM hazo_prompt_versions)
+    `);
+    const prompt_ids = unversioned.length > 0
+      ? unversioned[0].values.map(row => String(row[0]))
+      : [];
+
+    for (const prompt_id of prompt_ids) {
+      record_prompt_version(db, prompt_id, { note: 'Initial version' });
+    }
+
+    if (prompt_ids.length > 0) {
+      logger.info('Migration: Recorded version 1 for existing prompts in hazo_prompt_versions', {
+        file: file_name,
+        data: { count: prompt_ids.length },
+      });
+    }
+
+    logger.debug('hazo_prompt_versions table created/verified', {
+      file: file_name,
+    });
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to create hazo_prompt_versions table', {
+      file: file_name,
+      data: { error: error_message },
+    });
+    throw error;
+  }
+}
+
 // =============================================================================
 // Database Operations
 // =============================================================================
 
 /**
- * Get the current database instance
+ * Get the current database instance (of the active client for isolated clients)
  * @returns Database instance or null if not initialized
  */
 export function get_database(): SqlJsDatabase | null {
-  return db_instance;
+  return get_database_state().db_instance;
 }
 
 /**
  * Save the database to file
+ * The file is written atomically while holding its lock file; changes another
+ * process saved in the meantime are merged first. With save_debounce_ms the
+ * save is delayed until writes stop (see flush_database).
  * @param logger - Logger instance
+ * @param db - Database to save (default: the current database instance)
  */
-export function save_database(logger: Logger): void {
+export function save_database(logger: Logger, db?: SqlJsDatabase): void {
   const file_name = 'init_database.ts';
+  const state = (db && database_states.get(db)) || get_database_state();
+
+  // In-memory databases are never written to disk
+  if (state.db_instance && state.db_in_memory) {
+    return;
+  }
   
-  if (!db_instance || !db_path) {
+  if (!state.db_instance || !state.db_path) {
     logger.warn('Cannot save database: not initialized', {
       file: file_name,
       line: 197,
     });
     return;
   }
-  
-  try {
-    const data = db_instance.export();
-    const buffer = Buffer.from(data);
-    
-    // Ensure directory exists
-    const dir = path.dirname(db_path);
-    if (!fs.existsSync(dir)) {
-      fs.mkdirSync(dir, { recursive: true });
-    }
-    
-    fs.writeFileSync(db_path, buffer);
-    
-    logger.debug('Database saved to file', {
-      file: file_name,
-      line: 214,
-      data: { path: db_path },
-    });
-  } catch (error) {
-    const error_message = error instanceof Error ? error.message : String(error);
-    logger.error('Failed to save database', {
-      file: file_name,
-      line: 220,
-      data: { error: error_message },
-    });
+
+  if (state.save_debounce_ms > 0) {
+    schedule_save(state, logger);
+    return;
+  }
+
+  write_database_file(state, logger);
+}
+
+/**
+ * Save pending debounced changes (or changes a failed save left) now
+ * Does nothing when there are no unsaved changes.
+ * @param logger - Logger instance
+ * @param db - Database to flush (default: the current database instance)
+ *
+ * @example
+ * ```typescript
+ * const db = await initialize_database('prompts.sqlite', logger, { save_debounce_ms: 500 });
+ * for (const prompt of prompts) {
+ *   insert_prompt(db, prompt, logger);
+ * }
+ * flush_database(logger); // one write for the whole import
+ * ```
+ */
+export function flush_database(logger: Logger, db?: SqlJsDatabase): void {
+  const state = (db && database_states.get(db)) || get_database_state();
+  if (has_unsaved_changes(state)) {
+    write_database_file(state, logger);
+  }
+}
+
+/**
+ * Merge changes another process saved to the database file
+ * Use this in long-running processes to pick up prompts edited elsewhere;
+ * saves merge automatically. Unsaved changes of this process are saved as well.
+ * @param logger - Logger instance
+ * @param db - Database to sync (default: the current database instance)
+ * @returns True if changes from the file were merged
+ */
+export function sync_database(logger: Logger, db?: SqlJsDatabase): boolean {
+  const state = (db && database_states.get(db)) || get_database_state();
+  if (!state.db_instance || !state.db_path || state.db_in_memory) {
+    return false;
   }
+  return sync_database_file(state, logger, has_unsaved_changes(state));
 }
 
 /**
  * Close the database connection
+ * Pending debounced changes are saved first.
  * @param logger - Logger instance
  */
 export function close_database(logger: Logger): void {
   const file_name = 'init_database.ts';
+  const state = get_database_state();
   
-  if (db_instance) {
+  if (state.db_instance) {
     try {
       // Save before closing
-      save_database(logger);
+      if (!state.db_in_memory && state.db_path) {
+        write_database_file(state, logger);
+      }
+      cancel_pending_save(state);
       
-      db_instance.close();
-      db_instance = null;
-      db_path = null;
+      state.db_instance.close();
+      database_states.delete(state.db_instance);
+      state.db_instance = null;
+      state.db_path = null;
+      state.db_in_memory = false;
+      state.file_snapshot = EMPTY_FILE_SNAPSHOT;
+      clear_local_changes(state);
       
       logger.info('Database connection closed', {
         file: file_name,
@@ -498,21 +750,236 @@ export function close_database(logger: Logger): void {
   }
 }
 
+/**
+ * Close the database connection without saving it (useful for testing)
+ * The next initialize_database call opens a fresh database.
+ * @param logger - Logger instance
+ */
+export function reset_database(logger: Logger): void {
+  const state = get_database_state();
+  if (state.db_instance) {
+    cancel_pending_save(state);
+    state.db_instance.close();
+    database_states.delete(state.db_instance);
+    state.db_instance = null;
+    state.db_path = null;
+    state.db_in_memory = false;
+    state.file_snapshot = EMPTY_FILE_SNAPSHOT;
+    clear_local_changes(state);
+
+    logger.debug('Database connection reset', {
+      file: 'init_database.ts',
+    });
+  }
+}
+
+// =============================================================================
+// Database File Sync
+// =============================================================================
+
+/**
+ * Forget the prompts written by this process (after a save or when the database is closed)
+ * @param state - Database state
+ */
+function clear_local_changes(state: DatabaseState): void {
+  state.local_changes.changed_ids.clear();
+  state.local_changes.deleted_ids.clear();
+}
+
+/**
+ * Write the database file now (merging external changes first)
+ * Errors are logged; the changes stay pending for the next save.
+ * @param state - State of the database to write
+ * @param logger - Logger instance
+ */
+function write_database_file(state: DatabaseState, logger: Logger): void {
+  sync_database_file(state, logger, true);
+}
+
+/**
+ * Merge external changes into the database and optionally write it, holding the file lock
+ * @param state - State of an open file database
+ * @param logger - Logger instance
+ * @param write - Write the database after merging
+ * @returns True if changes from the file were merged
+ */
+function sync_database_file(state: DatabaseState, logger: Logger, write: boolean): boolean {
+  const file_name = 'init_database.ts';
+  const { db_instance, db_path } = state;
+  if (!db_instance || !db_path) {
+    return false;
+  }
+
+  try {
+    const merged = with_database_lock(db_path, () => {
+      const check = check_database_file(db_path, state.file_snapshot);
+      // A missing file has nothing to merge: writing restores it
+      const external_buffer = check.changed ? check.buffer : null;
+      if (external_buffer) {
+        merge_database_file(state, db_instance, external_buffer, logger);
+        state.file_snapshot = check.snapshot;
+      }
+
+      if (write) {
+        const data = db_instance.export();
+        write_file_atomic(db_path, data);
+        state.file_snapshot = snapshot_database_file(db_path, data);
+        clear_local_changes(state);
+        cancel_pending_save(state);
+
+        logger.debug('Database saved to file', {
+          file: file_name,
+          line: 214,
+          data: { path: db_path },
+        });
+      }
+
+      return external_buffer !== null;
+    });
+    return merged;
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error(write ? 'Failed to save database' : 'Failed to sync database', {
+      file: file_name,
+      line: 220,
+      data: { error: error_message, path: db_path },
+    });
+    return false;
+  }
+}
+
+/**
+ * Merge the content another process saved into the open database
+ * Prompts written here since the last read/write win; the prompt cache is
+ * cleared because any lookup may now resolve differently.
+ * @param state - State of the database
+ * @param db - Open database
+ * @param buffer - Current file content
+ * @param logger - Logger instance
+ */
+function merge_database_file(state: DatabaseState, db: SqlJsDatabase, buffer: Buffer, logger: Logger): void {
+  if (!sql_module) {
+    throw new Error('sql.js is not loaded');
+  }
+
+  const external = new sql_module.Database(buffer);
+  try {
+    // The other process may run an older version: bring its copy to the current schema
+    create_prompts_table(external, logger);
+    create_prompt_versions_table(external, logger);
+
+    const summary = merge_external_changes(db, external, state.local_changes);
+    get_prompt_cache().clear();
+
+    logger.info('Merged database changes saved by another process', {
+      file: 'init_database.ts',
+      data: { path: state.db_path, ...summary, kept_local: state.local_changes.changed_ids.size },
+    });
+  } finally {
+    external.close();
+  }
+}
+
+/**
+ * Schedule a debounced save (restarting the delay)
+ * @param state - State of the database to save
+ * @param logger - Logger for the save
+ */
+function schedule_save(state: DatabaseState, logger: Logger): void {
+  if (state.save_timer) {
+    clearTimeout(state.save_timer);
+  }
+  state.save_pending = true;
+  state.save_logger = logger;
+  state.save_timer = setTimeout(() => {
+    state.save_timer = null;
+    flush_pending_save(state);
+  }, state.save_debounce_ms);
+  // Do not keep the process alive for a save; the exit handler saves instead
+  state.save_timer.unref();
+  pending_save_states.add(state);
+
+  if (!exit_handler_registered) {
+    exit_handler_registered = true;
+    process.on('exit', () => {
+      for (const pending_state of [...pending_save_states]) {
+        flush_pending_save(pending_state);
+      }
+    });
+  }
+}
+
+/**
+ * Write a pending debounced save
+ * @param state - State of the database
+ */
+function flush_pending_save(state: DatabaseState): void {
+  if (state.save_pending && state.save_logger) {
+    write_database_file(state, state.save_logger);
+  }
+}
+
+/**
+ * Drop the pending debounced save of a database (after it was written or discarded)
+ * @param state - State of the database
+ */
+function cancel_pending_save(state: DatabaseState): void {
+  if (state.save_timer) {
+    clearTimeout(state.save_timer);
+    state.save_timer = null;
+  }
+  state.save_pending = false;
+  pending_save_states.delete(state);
+}
+
+/**
+ * Check whether a database has changes not yet written to its file
+ * @param state - State of the database
+ * @returns True if a save is pending or a save failed
+ */
+function has_unsaved_changes(state: DatabaseState): boolean {
+  return state.save_pending
+    || state.local_changes.changed_ids.size > 0
+    || state.local_changes.deleted_ids.size > 0;
+}
+
+/**
+ * Remember a prompt written by this process, so merging keeps the local version
+ * @param db - Database the prompt was written to
+ * @param id - Prompt ID
+ * @param deleted - Whether the prompt was deleted
+ */
+function track_prompt_change(db: SqlJsDatabase, id: string, deleted: boolean): void {
+  const state = database_states.get(db);
+  if (!state || state.db_in_memory) {
+    return;
+  }
+  if (deleted) {
+    state.local_changes.changed_ids.delete(id);
+    state.local_changes.deleted_ids.add(id);
+  } else {
+    state.local_changes.changed_ids.add(id);
+  }
+}
+
 // =============================================================================
 // Prompt CRUD Operations
 // =============================================================================
 
 /**
  * Insert a new prompt into the database
+ * The prompt content is recorded as version 1 in hazo_prompt_versions.
  * @param db - Database instance
  * @param prompt - Prompt data to insert
  * @param logger - Logger instance
+ * @param version_info - Optional author and note for version 1
  * @returns The inserted prompt record
  */
 export function insert_prompt(
   db: SqlJsDatabase,
   prompt: Omit<PromptRecord, 'id' | 'created_at' | 'changed_at'>,
-  logger: Logger
+  logger: Logger,
+  version_info: PromptVersionInfo = {}
 ): PromptRecord {
   const file_name = 'init_database.ts';
   const id = randomUUID();
@@ -552,9 +1019,15 @@ export function insert_prompt(
       prompt.prompt_notes,
       prompt.next_prompt || null,
     ]);
+
+    record_prompt_version(db, id, version_info);
+    track_prompt_change(db, id, false);
+
+    // A new prompt can change which prompt a cached lookup resolves to
+    get_prompt_cache().invalidate(prompt.prompt_area, prompt.prompt_key);
     
     // Save changes to file
-    save_database(logger);
+    save_database(logger, db);
     
     // Fetch the inserted record
     const result = db.exec(
@@ -591,17 +1064,21 @@ export function insert_prompt(
 
 /**
  * Update an existing prompt in the database
+ * A new version is recorded in hazo_prompt_versions when prompt_text,
+ * prompt_variables, prompt_notes or next_prompt change.
  * @param db - Database instance
  * @param id - ID (UUID) of the prompt to update
  * @param updates - Fields to update
  * @param logger - Logger instance
+ * @param version_info - Optional author and note for the new version
  * @returns The updated prompt record
  */
 export function update_prompt(
   db: SqlJsDatabase,
   id: string,
   updates: Partial<Omit<PromptRecord, 'id' | 'created_at' | 'changed_at'>>,
-  logger: Logger
+  logger: Logger,
+  version_info: PromptVersionInfo = {}
 ): PromptRecord | null {
   const file_name = 'init_database.ts';
   
@@ -680,10 +1157,26 @@ export function update_prompt(
       data: { id, fields: Object.keys(updates) },
     });
 
+    const previous = get_prompt_row(db, id);
+
     db.run(update_sql, values);
 
+    if (previous && has_versioned_changes(previous, updates)) {
+      record_prompt_version(db, id, version_info);
+    }
+    if (previous) {
+      track_prompt_change(db, id, false);
+    }
+
+    // Drop cached lookups of the old area/key (the new one is dropped below)
+    const cache = get_prompt_cache();
+    cache.invalidate_by_id(id);
+    if (previous) {
+      cache.invalidate(previous.prompt_area, previous.prompt_key);
+    }
+
     // Save changes to file
-    save_database(logger);
+    save_database(logger, db);
 
     // Fetch the updated record
     const result = db.exec(
@@ -704,6 +1197,7 @@ export function update_prompt(
     const columns = result[0].columns;
 
     const record = row_to_prompt_record(row, columns);
+    cache.invalidate(record.prompt_area, record.prompt_key);
 
     logger.info('Prompt updated successfully', {
       file: file_name,
@@ -747,12 +1241,9 @@ export function delete_prompt(
     });
 
     // Check if prompt exists first
-    const check_result = db.exec(
-      'SELECT id FROM hazo_prompts WHERE id = ?',
-      [id]
-    );
+    const existing = get_prompt_row(db, id);
 
-    if (check_result.length === 0 || check_result[0].values.length === 0) {
+    if (!existing) {
       logger.warn('Prompt not found for deletion', {
         file: file_name,
         line: 485,
@@ -762,9 +1253,16 @@ export function delete_prompt(
     }
 
     db.run(delete_sql, [id]);
+    db.run('DELETE FROM hazo_prompt_versions WHERE prompt_id = ?', [id]);
+    track_prompt_change(db, id, true);
+
+    // Lookups that resolved to this prompt may now resolve to a less specific one
+    const cache = get_prompt_cache();
+    cache.invalidate_by_id(id);
+    cache.invalidate(existing.prompt_area, existing.prompt_key);
 
     // Save changes to file
-    save_database(logger);
+    save_database(logger, db);
 
     logger.info('Prompt deleted successfully', {
       file: file_name,
@@ -788,3 +1286,69 @@ export function delete_prompt(
 // Helper Functions
 // =============================================================================
 // Note: row_to_prompt_record is now imported from ./utils.js for single source of truth
+
+/**
+ * Prompt fields snapshotted in each hazo_prompt_versions row
+ */
+const VERSIONED_FIELDS: PromptVersionField[] = ['prompt_text', 'prompt_variables', 'prompt_notes', 'next_prompt'];
+
+/**
+ * Fetch a prompt by ID
+ * @param db - Database instance
+ * @param id - ID (UUID) of the prompt
+ * @returns Prompt record or null if not found
+ */
+function get_prompt_row(db: SqlJsDatabase, id: string): PromptRecord | null {
+  const result = db.exec('SELECT * FROM hazo_prompts WHERE id = ?', [id]);
+
+  if (result.length === 0 || result[0].values.length === 0) {
+    return null;
+  }
+
+  return row_to_prompt_record(result[0].values[0], result[0].columns);
+}
+
+/**
+ * Check whether an update changes any versioned field of a prompt
+ * Also used by the other prompt stores that keep version history.
+ * @param previous - Prompt before the update
+ * @param updates - Fields being updated
+ * @returns True if a new version should be recorded
+ */
+export function has_versioned_changes(
+  previous: PromptRecord,
+  updates: Partial<Omit<PromptRecord, 'id' | 'created_at' | 'changed_at'>>
+): boolean {
+  return VERSIONED_FIELDS.some(field => {
+    const value = updates[field];
+    if (value === undefined) {
+      return false;
+    }
+    // next_prompt is stored as NULL when empty
+    return field === 'next_prompt'
+      ? (value || null) !== previous.next_prompt
+      : value !== previous[field];
+  });
+}
+
+/**
+ * Record the current content of a prompt as its next version in hazo_prompt_versions
+ * Does not save the database; callers save after their own write.
+ * @param db - Database instance
+ * @param prompt_id - ID (UUID) of the prompt
+ * @param version_info - Author and note for the version
+ */
+function record_prompt_version(
+  db: SqlJsDatabase,
+  prompt_id: string,
+  version_info: PromptVersionInfo
+): void {
+  db.run(
+    `INSERT INTO hazo_prompt_versions (id, prompt_id, version, prompt_text, prompt_variables, prompt_notes, next_prompt, author, note)
+     SELECT ?, id,
+       COALESCE((SELECT MAX(version) FROM hazo_prompt_versions WHERE prompt_id = ?), 0) + 1,
+       prompt_text, prompt_variables, prompt_notes, next_prompt, ?, ?
+     FROM hazo_prompts WHERE id = ?`,
+    [randomUUID(), prompt_id, version_info.author || null, version_info.note || '', prompt_id]
+  );
+}
@@ -5,7 +5,7 @@
  * Single source of truth for common database helpers.
  */
 
-import type { PromptRecord } from '../llm_api/types.js';
+import type { PromptRecord, PromptVersionRecord } from '../llm_api/types.js';
 
 // =============================================================================
 // Row Conversion Utilities
@@ -54,6 +54,42 @@ export function row_to_prompt_record(row: unknown[], columns: string[]): PromptR
   };
 }
 
+/**
+ * Convert a database row to a PromptVersionRecord object using column names
+ *
+ * @param row - Raw database row as array of values
+ * @param columns - Array of column names from the query result
+ * @returns PromptVersionRecord object
+ *
+ * @example
+ * ```typescript
+ * const result = db.exec('SELECT * FROM hazo_prompt_versions WHERE prompt_id = ?', [prompt_id]);
+ * const versions = result.length > 0
+ *   ? result[0].values.map(row => row_to_prompt_version_record(row, result[0].columns))
+ *   : [];
+ * ```
+ */
+export function row_to_prompt_version_record(row: unknown[], columns: string[]): PromptVersionRecord {
+  const record: Record<string, unknown> = {};
+
+  for (let i = 0; i < columns.length; i++) {
+    record[columns[i]] = row[i];
+  }
+
+  return {
+    id: String(record.id || ''),
+    prompt_id: String(record.prompt_id || ''),
+    version: Number(record.version || 0),
+    prompt_text: String(record.prompt_text || ''),
+    prompt_variables: String(record.prompt_variables || '[]'),
+    prompt_notes: String(record.prompt_notes || ''),
+    next_prompt: record.next_prompt != null ? String(record.next_prompt) : null,
+    author: record.author != null ? String(record.author) : null,
+    note: String(record.note || ''),
+    created_at: String(record.created_at || ''),
+  };
+}
+
 /**
  * Column indices for hazo_prompts table
  * Use these constants when building queries to ensure consistency
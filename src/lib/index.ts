@@ -7,6 +7,9 @@
 // LLM API exports
 export {
   initialize_llm_api,
+  create_llm_client,
+  validate_llm_config,
+  reload_llm_config,
   hazo_llm_text_text,
   hazo_llm_image_text,
   hazo_llm_text_image,
@@ -15,11 +18,17 @@ export {
   hazo_llm_image_image_text,
   is_initialized,
   get_current_config,
+  render_prompt,
+  get_partial_dependents,
+  get_prompt_versions,
+  compare_prompt_versions,
+  restore_prompt_version,
 } from './llm_api/index.js';
 
 // Type exports
 export type {
   LLMApiConfig,
+  ProviderSettings,
   LLMApiClient,
   LLMResponse,
   TextTextParams,
@@ -31,10 +40,17 @@ export type {
   ChainImage,
   Logger,
   PromptVariable,
+  PromptVariableValue,
   PromptVariables,
   Base64Data,
   PromptTextMode,
   PromptRecord,
+  PromptLookupOptions,
+  PromptVersionRecord,
+  PromptVersionInfo,
+  PromptVersionDiff,
+  PromptDiffLine,
+  PromptVersionField,
   CallLLMParams,
 } from './llm_api/types.js';
 
@@ -43,6 +59,8 @@ export {
   initialize_database,
   get_database,
   close_database,
+  flush_database,
+  sync_database,
   insert_prompt,
   update_prompt,
 } from './database/index.js';
@@ -53,11 +71,40 @@ export {
   get_prompt_text,
   get_prompts_by_area,
   get_prompt_by_id,
+  get_prompt_history,
+  get_prompt_version,
+  diff_prompt_versions,
+  rollback_prompt,
   substitute_variables,
   parse_prompt_variables,
   validate_variables,
+  render_template,
+  expand_partials,
+  find_partial_dependents,
+  get_prompt_cache_stats,
 } from './prompts/index.js';
 
+// Prompt store exports
+export {
+  PROMPT_STORE_TYPES,
+  SqlJsPromptStore,
+  PostgresPromptStore,
+  DirectoryPromptStore,
+  create_prompt_store,
+  get_prompt_store,
+  set_prompt_store,
+  type PromptStore,
+  type PromptStoreConfig,
+} from './prompt_store/index.js';
+
+// Prompt files exports
+export {
+  export_prompts,
+  import_prompts,
+  type PromptExportOptions,
+  type PromptImportOptions,
+} from './prompt_files/index.js';
+
 // Provider exports
 export {
   call_gemini_api,
@@ -69,6 +116,13 @@ export {
   call_qwen_api,
   get_qwen_api_url,
   type QwenGenerationConfig,
+  AnthropicProvider,
+  type AnthropicProviderConfig,
+  type AnthropicGenerationConfig,
+  OpenAICompatibleProvider,
+  type OpenAICompatibleProviderConfig,
+  openai_compatible_factory,
+  OPENAI_COMPATIBLE_PROVIDER_TYPE,
 } from './providers/index.js';
 
 // Provider type exports
@@ -91,6 +145,9 @@ export {
   get_primary_llm,
   get_provider,
   get_registered_providers,
+  get_registered_provider,
   is_llm_enabled,
+  set_fallback_llms,
+  get_fallback_llms,
 } from './providers/registry.js';
 
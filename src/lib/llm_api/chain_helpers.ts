@@ -2,7 +2,8 @@
  * Chain Helper Functions
  *
  * Utility functions for parsing call_chain paths, resolving values,
- * and deep merging results in prompt chains.
+ * deep merging results in prompt chains and combining the responses of
+ * chained calls.
  */
 
 import type {
@@ -11,8 +12,10 @@ import type {
   ChainVariableDefinition,
   ChainImageDefinition,
   ChainCallResult,
+  LLMResponse,
   PromptVariables,
 } from './types.js';
+import { sum_usage } from './usage_helper.js';
 
 const FILE_NAME = 'chain_helpers.ts';
 
@@ -583,3 +586,32 @@ export function parse_llm_json_response(
 
   return null;
 }
+
+// =============================================================================
+// Chained Call Responses
+// =============================================================================
+
+/**
+ * Combine the accounting of the steps of a chained call
+ *
+ * @param steps - Responses of the steps that ran, in order
+ * @returns Usage summed across the steps (image counts and cost included),
+ *          the provider of the last step and every provider tried by any step
+ *
+ * @example
+ * ```typescript
+ * return { success: true, text: text_response.text, ...combine_step_responses(step_responses) };
+ * ```
+ */
+export function combine_step_responses(
+  steps: LLMResponse[]
+): Pick<LLMResponse, 'usage' | 'provider' | 'providers_tried'> {
+  const usage = sum_usage(steps.map(step => step.usage));
+  const provider = steps[steps.length - 1]?.provider;
+  const providers_tried = steps.flatMap(step => step.providers_tried || []);
+  return {
+    ...(usage && { usage }),
+    ...(provider && { provider }),
+    ...(providers_tried.length > 0 && { providers_tried }),
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * Client Scope Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { bind_stream_to_scope, create_client_scope, get_client_scope } from './client_scope.js';
+import type { LLMStreamResponse } from './types.js';
+
+describe('bind_stream_to_scope', () => {
+  it('runs each step inside the scope and closes the inner stream when the consumer stops early', async () => {
+    const scope = create_client_scope();
+    const seen_scopes: Array<string | undefined> = [];
+    let closed = false;
+
+    async function* provider_stream(): LLMStreamResponse {
+      try {
+        for (const text of ['a', 'b', 'c']) {
+          seen_scopes.push(get_client_scope()?.id);
+          yield { text, done: false };
+        }
+      } finally {
+        closed = true;
+      }
+    }
+
+    for await (const chunk of bind_stream_to_scope(scope, provider_stream())) {
+      if (chunk.text === 'b') {
+        break;
+      }
+    }
+
+    expect(seen_scopes).toEqual([scope.id, scope.id]);
+    expect(closed).toBe(true);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Client Scope
+ *
+ * Per-client module state for isolated clients (create_llm_client).
+ * Stateful modules (provider registry, database, retry policy, timeouts,
+ * pricing, tools, prompt cache, logger and hooks) look their state up through
+ * get_scoped_state: inside a client scope they get that client's state,
+ * outside any scope they get the module default used by the top-level functions.
+ * The active scope follows async calls through AsyncLocalStorage.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import type { LLMStreamResponse } from './types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * State container of one isolated client
+ */
+export interface ClientScope {
+  /** Unique client identifier (e.g., "client_1") */
+  id: string;
+
+  /** Module state keyed by each module's state key, created on first use */
+  state: Map<symbol, unknown>;
+}
+
+// =============================================================================
+// Module State
+// =============================================================================
+
+const scope_storage = new AsyncLocalStorage<ClientScope>();
+let scope_counter = 0;
+
+// =============================================================================
+// Scope Management
+// =============================================================================
+
+/**
+ * Create an empty client scope
+ * @returns New scope with no module state
+ */
+export function create_client_scope(): ClientScope {
+  scope_counter++;
+  return { id: `client_${scope_counter}`, state: new Map() };
+}
+
+/**
+ * Get the client scope of the current async context
+ * @returns Active scope, or undefined for the default instance
+ */
+export function get_client_scope(): ClientScope | undefined {
+  return scope_storage.getStore();
+}
+
+/**
+ * Run a function inside a client scope
+ * Passing undefined runs it for the default instance, leaving any active scope.
+ *
+ * @param scope - Scope to activate (undefined = default instance)
+ * @param fn - Function to run
+ * @returns Result of the function
+ */
+export function run_in_client_scope<T>(scope: ClientScope | undefined, fn: () => T): T {
+  return scope ? scope_storage.run(scope, fn) : scope_storage.exit(fn);
+}
+
+/**
+ * Get a module's state for the active client scope
+ * @param key - The module's state key
+ * @param default_state - State used outside any client scope
+ * @param create - Creates the state for a scope on first use
+ * @returns Module state of the active scope (or the default state)
+ */
+export function get_scoped_state<T>(key: symbol, default_state: T, create: () => T): T {
+  const scope = scope_storage.getStore();
+  if (!scope) {
+    return default_state;
+  }
+
+  if (!scope.state.has(key)) {
+    scope.state.set(key, create());
+  }
+  return scope.state.get(key) as T;
+}
+
+/**
+ * Bind a stream to a client scope
+ * Async generators resume in the context of whoever calls next(), so each
+ * step of the stream is run inside the scope explicitly. When the consumer
+ * stops early (break, return or throw), the inner stream is closed so the
+ * provider releases its connection and timers.
+ *
+ * @param scope - Scope the stream was created in (undefined = default instance)
+ * @param stream - Stream to bind
+ * @returns Stream that runs every step inside the scope
+ */
+export async function* bind_stream_to_scope(
+  scope: ClientScope | undefined,
+  stream: LLMStreamResponse
+): LLMStreamResponse {
+  let done = false;
+  try {
+    while (true) {
+      const result = await run_in_client_scope(scope, () => stream.next());
+      if (result.done) {
+        done = true;
+        return;
+      }
+      yield result.value;
+    }
+  } finally {
+    if (!done) {
+      await run_in_client_scope(scope, () => stream.return?.(undefined));
+    }
+  }
+}
@@ -0,0 +1,125 @@
+/**
+ * Config Reload Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initialize_llm_api, reload_llm_config } from './index.js';
+import { get_provider } from '../providers/registry.js';
+import type { GeminiProvider } from '../providers/gemini/index.js';
+import type { ConfigReloadContext, LLMApiClient, LLMApiConfig } from './types.js';
+import { silent_logger } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+let app_dir: string;
+let client: LLMApiClient | null = null;
+
+/**
+ * Write the config file of the temporary app directory
+ */
+function write_config(gemini_settings: string): void {
+  fs.writeFileSync(path.join(app_dir, 'config', 'hazo_llm_api_config.ini'), [
+    '[llm]',
+    'enabled_llms=["gemini"]',
+    'primary_llm=gemini',
+    '',
+    '[llm_gemini]',
+    'api_key=test-key',
+    gemini_settings,
+    '',
+  ].join('\n'));
+}
+
+/**
+ * Initialize the API from the temporary config file
+ */
+async function init(config: LLMApiConfig = {}): Promise<LLMApiClient> {
+  client = await initialize_llm_api({ logger, sqlite_path: ':memory:', ...config });
+  return client;
+}
+
+/**
+ * Text model of the registered Gemini provider
+ */
+function gemini_text_model(): string | undefined {
+  return (get_provider('gemini', logger) as GeminiProvider | null)?.get_model_for_service('text_text');
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('reload_llm_config', () => {
+  beforeEach(() => {
+    app_dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hazo-llm-reload-'));
+    fs.mkdirSync(path.join(app_dir, 'config'));
+    vi.spyOn(process, 'cwd').mockReturnValue(app_dir);
+    write_config('model_text_text=gemini-2.5-flash');
+  });
+
+  afterEach(() => {
+    client?.close();
+    client = null;
+    vi.restoreAllMocks();
+    fs.rmSync(app_dir, { recursive: true, force: true });
+  });
+
+  it('swaps in a provider with the changed model and passes the diff to onConfigReload', async () => {
+    const contexts: ConfigReloadContext[] = [];
+    await init({ hooks: { onConfigReload: context => { contexts.push(context); } } });
+    expect(gemini_text_model()).toBe('gemini-2.5-flash');
+
+    write_config('model_text_text=gemini-2.5-pro');
+    const result = await reload_llm_config();
+
+    const change = { section: 'llm_gemini', key: 'model_text_text', old_value: 'gemini-2.5-flash', new_value: 'gemini-2.5-pro' };
+    expect(result).toEqual({ success: true, changes: [change] });
+    expect(gemini_text_model()).toBe('gemini-2.5-pro');
+    expect(contexts).toHaveLength(1);
+    expect(contexts[0]).toMatchObject({ changes: [change], providers: ['gemini'], trigger: 'manual' });
+  });
+
+  it('does not call onConfigReload when nothing changed', async () => {
+    const on_config_reload = vi.fn();
+    await init({ hooks: { onConfigReload: on_config_reload } });
+
+    expect(await reload_llm_config()).toEqual({ success: true, changes: [] });
+    expect(on_config_reload).not.toHaveBeenCalled();
+  });
+
+  it('rejects a reload with errors under strict_config and keeps the old providers', async () => {
+    const on_config_reload = vi.fn();
+    await init({ strict_config: true, hooks: { onConfigReload: on_config_reload } });
+
+    write_config('model_text_text=gemini-2.5-pro\ntext_temperature=3');
+    const result = await reload_llm_config();
+
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/^Invalid LLM API configuration: .*text_temperature/);
+    expect(gemini_text_model()).toBe('gemini-2.5-flash');
+    expect(on_config_reload).not.toHaveBeenCalled();
+  });
+
+  it('reloads on config file changes until the client is closed', async () => {
+    const on_config_reload = vi.fn();
+    const api = await init({ watch_config: true, hooks: { onConfigReload: on_config_reload } });
+
+    write_config('model_text_text=gemini-2.5-pro');
+    await vi.waitFor(() => expect(on_config_reload).toHaveBeenCalledTimes(1), { timeout: 2000 });
+    expect(on_config_reload.mock.calls[0][0]).toMatchObject({ trigger: 'watcher' });
+    expect(gemini_text_model()).toBe('gemini-2.5-pro');
+
+    api.close();
+    write_config('model_text_text=gemini-2.0-flash');
+    await new Promise(resolve => setTimeout(resolve, 500));
+    expect(on_config_reload).toHaveBeenCalledTimes(1);
+    expect(gemini_text_model()).toBe('gemini-2.5-pro');
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Effective Config Sections Tests
+ * Config file < HAZO_LLM_* environment variables < programmatic settings
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { initialize_llm_api } from './index.js';
+import { clear_registry, get_primary_llm, get_provider, get_registered_providers } from '../providers/registry.js';
+import type { LLMApiClient, LLMApiConfig } from './types.js';
+import { silent_logger } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+const CONFIG_FILE = [
+  '[llm]',
+  'enabled_llms=["gemini", "qwen"]',
+  'primary_llm=gemini',
+  '',
+  '[llm_gemini]',
+  'api_key=gemini-key',
+  'model_text_text=gemini-file',
+  '',
+  '[llm_qwen]',
+  'api_key=qwen-key',
+  'model_text_text=qwen-file',
+  '',
+].join('\n');
+
+let app_dir: string;
+let client: LLMApiClient | null = null;
+
+/**
+ * Initialize the API from the temporary config file
+ */
+async function init(config: LLMApiConfig = {}): Promise<void> {
+  client = await initialize_llm_api({ logger, sqlite_path: ':memory:', ...config });
+}
+
+/**
+ * Text model of a registered provider
+ */
+function text_model(provider_name: string): string | undefined {
+  return get_provider(provider_name, logger)?.get_model_for_service('text_text');
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('effective config sections', () => {
+  beforeEach(() => {
+    app_dir = fs.mkdtempSync(path.join(os.tmpdir(), 'hazo-llm-sections-'));
+    fs.mkdirSync(path.join(app_dir, 'config'));
+    fs.writeFileSync(path.join(app_dir, 'config', 'hazo_llm_api_config.ini'), CONFIG_FILE);
+    vi.spyOn(process, 'cwd').mockReturnValue(app_dir);
+  });
+
+  afterEach(() => {
+    client?.close();
+    client = null;
+    clear_registry();
+    vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    fs.rmSync(app_dir, { recursive: true, force: true });
+  });
+
+  it('uses the config file without overrides', async () => {
+    await init();
+
+    expect(get_registered_providers()).toEqual(['gemini', 'qwen']);
+    expect(get_primary_llm()).toBe('gemini');
+    expect(text_model('gemini')).toBe('gemini-file');
+  });
+
+  it('applies HAZO_LLM_* variables over the config file', async () => {
+    vi.stubEnv('HAZO_LLM_PRIMARY_LLM', 'qwen');
+    vi.stubEnv('HAZO_LLM_GEMINI__MODEL_TEXT_TEXT', 'gemini-env');
+
+    await init();
+
+    expect(get_primary_llm()).toBe('qwen');
+    expect(text_model('gemini')).toBe('gemini-env');
+    expect(text_model('qwen')).toBe('qwen-file');
+  });
+
+  it('applies programmatic providers, enabled_llms and primary_llm over variables and the file', async () => {
+    vi.stubEnv('HAZO_LLM_PRIMARY_LLM', 'qwen');
+    vi.stubEnv('HAZO_LLM_ENABLED_LLMS', 'qwen');
+    vi.stubEnv('HAZO_LLM_GEMINI__MODEL_TEXT_TEXT', 'gemini-env');
+
+    await init({
+      providers: { gemini: { model_text_text: 'gemini-code' } },
+      enabled_llms: ['gemini', 'qwen'],
+      primary_llm: 'gemini',
+    });
+
+    expect(get_registered_providers()).toEqual(['gemini', 'qwen']);
+    expect(get_primary_llm()).toBe('gemini');
+    expect(text_model('gemini')).toBe('gemini-code');
+    expect(text_model('qwen')).toBe('qwen-file');
+  });
+
+  it('enables only the programmatic providers and keeps the primary LLM among them', async () => {
+    await init({ providers: { Qwen: { model_text_text: 'qwen-code' } } });
+
+    expect(get_registered_providers()).toEqual(['qwen']);
+    expect(get_primary_llm()).toBe('qwen');
+    expect(text_model('qwen')).toBe('qwen-code');
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * hazo_llm_chat Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { hazo_llm_chat } from './index.js';
+import type { ChatMessage } from './types.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const IMAGE = { data: 'aW1n', mime_type: 'image/png' };
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('hazo_llm_chat', () => {
+  let mock: MockProvider;
+
+  beforeEach(async () => {
+    mock = new MockProvider().add_response({ match: 'weather', text: 'Sunny' });
+    await initialize_llm_api_for_testing({ providers: [mock] });
+  });
+
+  it('returns the reply and the history with the assistant turn appended', async () => {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: 'Be brief' },
+      { role: 'user', content: 'Hi' },
+      { role: 'assistant', content: 'Hello' },
+      { role: 'user', content: 'How is the weather?' },
+    ];
+
+    const response = await hazo_llm_chat({ messages });
+
+    expect(response).toMatchObject({ success: true, text: 'Sunny' });
+    expect(response.messages).toEqual([...messages, { role: 'assistant', content: 'Sunny' }]);
+    expect(messages).toHaveLength(4);
+    expect(mock.get_last_call()?.params).toMatchObject({ messages });
+  });
+
+  it('accepts images on user turns', async () => {
+    const response = await hazo_llm_chat({
+      messages: [{ role: 'user', content: 'What is the weather in this photo?', images: [IMAGE] }],
+    });
+
+    expect(response.success).toBe(true);
+    expect(mock.get_calls('chat')).toHaveLength(1);
+  });
+
+  it.each<[string, ChatMessage[], string]>([
+    ['no messages', [], 'messages must contain at least one message'],
+    [
+      'an unknown role',
+      [{ role: 'tool' as ChatMessage['role'], content: 'x' }, { role: 'user', content: 'Hi' }],
+      'messages[0] has invalid role "tool". Expected one of: system, user, assistant',
+    ],
+    [
+      'images on an assistant turn',
+      [
+        { role: 'user', content: 'Hi' },
+        { role: 'assistant', content: 'Look', images: [IMAGE] },
+        { role: 'user', content: 'Nice' },
+      ],
+      'messages[1] has images but role "assistant". Images are only supported on user messages',
+    ],
+    [
+      'a last message not from the user',
+      [{ role: 'user', content: 'Hi' }, { role: 'assistant', content: 'Hello' }],
+      'The last message must have role "user"',
+    ],
+  ])('rejects %s without calling the provider', async (_case, messages, error) => {
+    const response = await hazo_llm_chat({ messages });
+
+    expect(response).toMatchObject({ success: false, error, error_info: { code: 'INVALID_REQUEST' } });
+    expect(response.messages).toEqual(messages);
+    expect(mock.get_calls()).toEqual([]);
+  });
+
+  it('keeps the history unchanged when the provider fails', async () => {
+    mock.add_response({ match: 'fail', error_code: 'API_ERROR' });
+    const messages: ChatMessage[] = [{ role: 'user', content: 'Please fail' }];
+
+    const response = await hazo_llm_chat({ messages });
+
+    expect(response.success).toBe(false);
+    expect(response.messages).toEqual(messages);
+  });
+});
@@ -0,0 +1,174 @@
+/**
+ * hazo_llm_chat Function
+ *
+ * Multi-turn conversation → Text output
+ * Sends an ordered message history (system/user/assistant, with optional
+ * inline images per turn) and returns the assistant reply plus the updated history.
+ */
+
+import type { PromptStore } from '../prompt_store/types.js';
+import type {
+  ChatParams,
+  ChatResponse,
+  ChatMessage,
+  LLMApiConfig,
+} from './types.js';
+import { LLM_ERROR_CODES } from './types.js';
+import type { LLMProvider } from '../providers/types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import {
+  build_error_response,
+  log_api_start,
+  log_api_complete,
+  log_api_response,
+  handle_caught_error,
+  call_provider_with_fallback,
+} from './provider_helper.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'hazo_llm_chat.ts';
+const API_NAME = 'chat';
+const VALID_ROLES: ReadonlyArray<ChatMessage['role']> = ['system', 'user', 'assistant'];
+
+/** Provider chat method (checked by required_feature before the call) */
+type ChatMethod = NonNullable<LLMProvider['chat']>;
+
+// =============================================================================
+// hazo_llm_chat Function
+// =============================================================================
+
+/**
+ * Call the LLM with a conversation history and get the next assistant reply
+ *
+ * Uses the text_text capability, or image_text when any turn carries images.
+ *
+ * @param params - Chat parameters with ordered message history
+ * @param _store - Prompt store (unused, kept for API consistency)
+ * @param config - LLM API configuration
+ * @param llm - Optional LLM provider name (uses primary LLM if not specified)
+ * @returns Chat response with the assistant reply and updated history
+ */
+export async function hazo_llm_chat(
+  params: ChatParams,
+  _store: PromptStore | null,
+  config: LLMApiConfig,
+  llm?: string
+): Promise<ChatResponse> {
+  // Use default logger if not provided
+  const { default_logger } = await import('./index.js');
+  const logger = config.logger || default_logger;
+  const history = params.messages ? [...params.messages] : [];
+
+  try {
+    log_api_start(API_NAME, FILE_NAME, logger);
+
+    // ==========================================================================
+    // Step 1: Validate the conversation
+    // ==========================================================================
+    const validation_error = validate_chat_messages(history);
+
+    if (validation_error) {
+      logger.error(validation_error, { file: FILE_NAME });
+      return {
+        ...build_error_response(LLM_ERROR_CODES.INVALID_REQUEST, validation_error),
+        messages: history,
+      };
+    }
+
+    // ==========================================================================
+    // Step 2: Pick the service type from the conversation
+    // ==========================================================================
+    const image_count = history.reduce((count, msg) => count + (msg.images?.length || 0), 0);
+    const service_type = image_count > 0 ? SERVICE_TYPES.IMAGE_TEXT : SERVICE_TYPES.TEXT_TEXT;
+
+    // ==========================================================================
+    // Step 3: Call the provider (falling back to fallback_llms on failure)
+    // ==========================================================================
+    const call_params: ChatParams = { messages: history };
+
+    const response = await call_provider_with_fallback(
+      {
+        llm,
+        service_type,
+        logger,
+        file_name: FILE_NAME,
+        required_feature: {
+          name: 'multi-turn chat',
+          is_supported: (provider) => typeof provider.chat === 'function',
+        },
+        // Log turn summary only (avoid logging full base64 image data)
+        log_details: {
+          message_count: history.length,
+          roles: history.map(msg => msg.role),
+          image_count,
+          last_user_message: history[history.length - 1].content,
+          llm_requested: llm || 'primary',
+        },
+      },
+      call_params,
+      (provider, signal) => (provider.chat as ChatMethod)({ ...call_params, signal }, logger),
+      params
+    );
+
+    log_api_response(response, FILE_NAME, logger);
+    log_api_complete(API_NAME, FILE_NAME, response.success, logger);
+
+    // ==========================================================================
+    // Step 4: Append the assistant reply to the history
+    // ==========================================================================
+    if (!response.success) {
+      return { ...response, messages: history };
+    }
+
+    return {
+      ...response,
+      messages: [...history, { role: 'assistant', content: response.text || '' }],
+    };
+  } catch (error) {
+    return {
+      ...handle_caught_error(error, 'hazo_llm_chat', FILE_NAME, logger),
+      messages: history,
+    };
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Validate a chat message history
+ *
+ * @param messages - Conversation history to validate
+ * @returns Error message, or null if the history is valid
+ */
+function validate_chat_messages(messages: ChatMessage[]): string | null {
+  if (messages.length === 0) {
+    return 'messages must contain at least one message';
+  }
+
+  for (let i = 0; i < messages.length; i++) {
+    const msg = messages[i];
+
+    if (!VALID_ROLES.includes(msg.role)) {
+      return `messages[${i}] has invalid role "${msg.role}". Expected one of: ${VALID_ROLES.join(', ')}`;
+    }
+
+    if (typeof msg.content !== 'string') {
+      return `messages[${i}].content must be a string`;
+    }
+
+    if (msg.images && msg.images.length > 0 && msg.role !== 'user') {
+      return `messages[${i}] has images but role "${msg.role}". Images are only supported on user messages`;
+    }
+  }
+
+  if (messages[messages.length - 1].role !== 'user') {
+    return 'The last message must have role "user"';
+  }
+
+  return null;
+}
@@ -6,21 +6,20 @@
  * Supports document analysis, OCR, content extraction, summarization, etc.
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   DocumentTextParams,
   LLMResponse,
   LLMApiConfig,
 } from './types.js';
-import { substitute_variables } from '../prompts/substitute_variables.js';
+import { render_prompt_text } from './prompt_helper.js';
 import { SERVICE_TYPES } from '../providers/types.js';
 import {
-  get_validated_provider,
   log_api_start,
   log_api_complete,
-  log_api_details,
   log_api_response,
   handle_caught_error,
+  call_provider_with_fallback,
 } from './provider_helper.js';
 
 // =============================================================================
@@ -44,14 +43,14 @@ const DOCUMENT_MIME_TYPES = ['application/pdf'];
  * Call the LLM with a document input and get text output
  *
  * @param params - Document input parameters
- * @param _db - Database instance (unused, kept for API consistency)
+ * @param store - Prompt store for {{> area/key}} partials
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name (uses primary LLM if not specified)
  * @returns LLM response with generated text analysis
  */
 export async function hazo_llm_document_text(
   params: DocumentTextParams,
-  _db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<LLMResponse> {
@@ -81,41 +80,42 @@ export async function hazo_llm_document_text(
     }
 
     // ==========================================================================
-    // Step 3: Prepare prompt with variable substitution
+    // Step 3: Prepare prompt (partials and variable substitution)
     // ==========================================================================
-    const final_prompt = substitute_variables(params.prompt, params.prompt_variables, logger);
-
-    // ==========================================================================
-    // Step 4: Get and validate provider
-    // ==========================================================================
-    const provider_result = get_validated_provider({
-      llm,
-      service_type: SERVICE_TYPES.DOCUMENT_TEXT,
-      logger,
+    const rendered = await render_prompt_text(params.prompt, params, store, logger, FILE_NAME, {
+      strict_variables: config.strict_variables,
     });
 
-    if (!provider_result.success) {
-      return provider_result.error_response;
+    if (!rendered.success) {
+      return rendered.error_response;
     }
 
-    const provider = provider_result.provider;
-
-    log_api_details(provider, SERVICE_TYPES.DOCUMENT_TEXT, FILE_NAME, logger, {
-      prompt_text: final_prompt,
-      document_mime_type: params.document_mime_type,
-      max_pages: params.max_pages,
-      llm_requested: llm || 'primary',
-    });
+    const final_prompt = rendered.prompt_text;
 
     // ==========================================================================
-    // Step 5: Call the provider
+    // Step 4: Call the provider (falling back to fallback_llms on failure)
     // ==========================================================================
-    const response = await provider.document_text(
+    const call_params: DocumentTextParams = {
+      ...params,
+      prompt: final_prompt,
+    };
+
+    const response = await call_provider_with_fallback(
       {
-        ...params,
-        prompt: final_prompt,
+        llm,
+        service_type: SERVICE_TYPES.DOCUMENT_TEXT,
+        logger,
+        file_name: FILE_NAME,
+        log_details: {
+          prompt_text: final_prompt,
+          document_mime_type: params.document_mime_type,
+          max_pages: params.max_pages,
+          llm_requested: llm || 'primary',
+        },
       },
-      logger
+      call_params,
+      (provider, signal) => provider.document_text({ ...call_params, signal }, logger),
+      params
     );
 
     log_api_response(response, FILE_NAME, logger);
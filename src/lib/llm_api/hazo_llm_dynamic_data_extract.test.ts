@@ -0,0 +1,53 @@
+/**
+ * hazo_llm_dynamic_data_extract Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hazo_llm_dynamic_data_extract } from './index.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+describe('hazo_llm_dynamic_data_extract', () => {
+  it('resolves partials of an image step prompt for the caller', async () => {
+    const mock = new MockProvider().add_response({ json: { type: 'invoice' } });
+    await initialize_llm_api_for_testing({
+      providers: [mock],
+      prompts: [
+        { prompt_area: 'docs', prompt_key: 'classify', prompt_text: 'Classify. {{> shared/tone}}' },
+        { prompt_area: 'shared', prompt_key: 'tone', prompt_text: 'Be neutral.' },
+        { prompt_area: 'shared', prompt_key: 'tone', prompt_text: 'Be brief.', user_id: 'ann' },
+      ],
+    });
+
+    const response = await hazo_llm_dynamic_data_extract({
+      initial_prompt_area: 'docs',
+      initial_prompt_key: 'classify',
+      image_b64: 'aGVsbG8=',
+      image_mime_type: 'image/png',
+      user_id: 'ann',
+    });
+
+    expect(response.success).toBe(true);
+    expect(mock.get_calls('image_text')[0].prompt).toBe('Classify. Be brief.');
+  });
+
+  it('counts the usage of a failed step in total_usage', async () => {
+    const mock = new MockProvider().add_response({
+      error_code: 'API_ERROR',
+      retryable: false,
+      usage: { input_tokens: 7, output_tokens: 0, total_tokens: 7 },
+    });
+    await initialize_llm_api_for_testing({
+      providers: [mock],
+      prompts: [{ prompt_area: 'docs', prompt_key: 'classify', prompt_text: 'Classify.' }],
+    });
+
+    const response = await hazo_llm_dynamic_data_extract({
+      initial_prompt_area: 'docs',
+      initial_prompt_key: 'classify',
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.total_usage).toEqual({ input_tokens: 7, output_tokens: 0, total_tokens: 7 });
+  });
+});
@@ -6,7 +6,7 @@
  * with JSONPath extraction and conditional branching.
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   DynamicDataExtractParams,
   DynamicDataExtractResponse,
@@ -21,8 +21,10 @@ import type {
 } from './types.js';
 import { hazo_llm_text_text } from './hazo_llm_text_text.js';
 import { hazo_llm_image_text } from './hazo_llm_image_text.js';
-import { get_prompt_by_area_and_key } from '../prompts/get_prompt.js';
 import { parse_llm_json_response, deep_merge } from './chain_helpers.js';
+import { sum_usage } from './usage_helper.js';
+import { get_request_options } from './provider_helper.js';
+import { get_prompt_lookup_options } from './prompt_helper.js';
 import {
   parse_next_prompt_config,
   resolve_next_prompt,
@@ -101,7 +103,7 @@ function build_step_variables(
  * which are then available for variable substitution in subsequent prompts.
  *
  * @param params - Dynamic extract parameters
- * @param db - Database instance for prompt retrieval
+ * @param store - Prompt store for prompt retrieval
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name
  * @returns Dynamic extract response with merged results and step details
@@ -119,7 +121,7 @@ function build_step_variables(
  *   initial_prompt_key: 'classify',
  *   image_b64: '...',
  *   image_mime_type: 'image/png'
- * }, db, config);
+ * }, store, config);
  *
  * // result.merged_result = { document_type: 'invoice', amount: 1500, vendor: 'ACME' }
  * // result.step_results = [{ step_index: 0, ... }, { step_index: 1, ... }]
@@ -128,7 +130,7 @@ function build_step_variables(
  */
 export async function hazo_llm_dynamic_data_extract(
   params: DynamicDataExtractParams,
-  db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<DynamicDataExtractResponse> {
@@ -163,9 +165,9 @@ export async function hazo_llm_dynamic_data_extract(
     },
   });
 
-  // Database is required for prompt retrieval
-  if (!db) {
-    const error_msg = 'Database is required for dynamic data extract';
+  // Prompt store is required for prompt retrieval
+  if (!store) {
+    const error_msg = 'Prompt store is required for dynamic data extract';
     logger.error(error_msg, { file: FILE_NAME });
 
     return {
@@ -184,18 +186,30 @@ export async function hazo_llm_dynamic_data_extract(
   let current_key = params.initial_prompt_key;
   let is_first_step = true;
 
+  // User/scope/locals overrides apply to every prompt in the chain
+  const lookup_options = get_prompt_lookup_options(params);
+
   // Chain execution loop
   for (let step_index = 0; step_index < max_depth; step_index++) {
+    // Stop the chain once the caller aborts, even with continue_on_error
+    if (params.signal?.aborted) {
+      const error_msg = `Dynamic extract aborted before step ${step_index}`;
+      logger.warn(error_msg, { file: FILE_NAME, data: { step_index } });
+      errors.push({ step_index, error: error_msg });
+      final_stop_reason = 'error';
+      break;
+    }
+
     logger.debug(`Dynamic Extract Step ${step_index + 1}/${max_depth}`, {
       file: FILE_NAME,
       data: { prompt_area: current_area, prompt_key: current_key },
     });
 
-    // Retrieve prompt from database
-    const prompt_record = get_prompt_by_area_and_key(
-      db,
+    // Retrieve prompt from the prompt store
+    const prompt_record = await store.get_prompt(
       current_area,
       current_key,
+      lookup_options,
       logger
     );
 
@@ -223,6 +237,8 @@ export async function hazo_llm_dynamic_data_extract(
       continue;
     }
 
+    const prompt_version = await store.get_current_prompt_version(prompt_record.id, logger) ?? undefined;
+
     // Build variables from accumulated results and context
     const prompt_variables: PromptVariables = is_first_step
       ? params.initial_prompt_variables || []
@@ -235,12 +251,15 @@ export async function hazo_llm_dynamic_data_extract(
       if (params.image_b64 && params.image_mime_type) {
         // Document provided - use image_text for all steps
         // ImageTextParams doesn't support prompt_area/prompt_key, so we use the already-retrieved prompt_record
+        // (the lookup options still select its partials)
 
         const image_params: ImageTextParams = {
           prompt: prompt_record.prompt_text,
           prompt_variables,
           image_b64: params.image_b64,
           image_mime_type: params.image_mime_type,
+          ...lookup_options,
+          ...get_request_options(params),
         };
 
         const doc_b64_length = params.image_b64?.length || 0;
@@ -260,7 +279,7 @@ export async function hazo_llm_dynamic_data_extract(
           },
         });
 
-        llm_response = await hazo_llm_image_text(image_params, db, config, llm);
+        llm_response = await hazo_llm_image_text(image_params, store, config, llm);
       } else {
         // Text-only call (no document provided)
         const text_params: TextTextParams = {
@@ -268,6 +287,8 @@ export async function hazo_llm_dynamic_data_extract(
           prompt_area: current_area,
           prompt_key: current_key,
           prompt_variables,
+          ...lookup_options,
+          ...get_request_options(params),
         };
 
         logger.debug('Executing text_text call', {
@@ -275,7 +296,7 @@ export async function hazo_llm_dynamic_data_extract(
           data: { step_index, has_variables: prompt_variables.length > 0 },
         });
 
-        llm_response = await hazo_llm_text_text(text_params, db, config, llm);
+        llm_response = await hazo_llm_text_text(text_params, store, config, llm);
       }
     } catch (error) {
       const error_msg = error instanceof Error ? error.message : String(error);
@@ -316,6 +337,8 @@ export async function hazo_llm_dynamic_data_extract(
         prompt_area: current_area,
         prompt_key: current_key,
         error: error_msg,
+        // Failed steps can still be billed
+        ...(llm_response.usage && { usage: llm_response.usage }),
       });
 
       final_stop_reason = 'error';
@@ -347,8 +370,10 @@ export async function hazo_llm_dynamic_data_extract(
       success: true,
       prompt_area: current_area,
       prompt_key: current_key,
+      ...(prompt_version !== undefined && { prompt_version }),
       raw_text,
       parsed_result: parsed_result || undefined,
+      ...(llm_response.usage && { usage: llm_response.usage }),
       next_prompt_resolution: {
         config: next_prompt_config,
       },
@@ -431,6 +456,7 @@ export async function hazo_llm_dynamic_data_extract(
   }
 
   const successful_steps = step_results.filter((r) => r.success).length;
+  const total_usage = sum_usage(step_results.map((r) => r.usage));
 
   logger.info('Dynamic data extract complete', {
     file: FILE_NAME,
@@ -458,5 +484,6 @@ export async function hazo_llm_dynamic_data_extract(
     total_steps: step_results.length,
     successful_steps,
     final_stop_reason,
+    ...(total_usage && { total_usage }),
   };
 }
@@ -7,22 +7,21 @@
  * Uses image generation capable models with input image(s).
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   ImageImageParams,
   LLMResponse,
   LLMApiConfig,
   Base64Data,
 } from './types.js';
-import { substitute_variables } from '../prompts/substitute_variables.js';
+import { render_prompt_text } from './prompt_helper.js';
 import { SERVICE_TYPES } from '../providers/types.js';
 import {
-  get_validated_provider,
   log_api_start,
   log_api_complete,
-  log_api_details,
   log_api_response,
   handle_caught_error,
+  call_provider_with_fallback,
 } from './provider_helper.js';
 
 // =============================================================================
@@ -45,14 +44,14 @@ const API_NAME = 'image_image';
  * 2. Multiple images: Use images array
  *
  * @param params - Image input parameters with transformation instructions
- * @param _db - Database instance (unused, kept for API consistency)
+ * @param store - Prompt store for {{> area/key}} partials
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name (uses primary LLM if not specified)
  * @returns LLM response with transformed/generated image data
  */
 export async function hazo_llm_image_image(
   params: ImageImageParams,
-  _db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<LLMResponse> {
@@ -84,40 +83,41 @@ export async function hazo_llm_image_image(
     }
 
     // ==========================================================================
-    // Step 2: Prepare prompt with variable substitution
+    // Step 2: Prepare prompt (partials and variable substitution)
     // ==========================================================================
-    const final_prompt = substitute_variables(params.prompt, params.prompt_variables, logger);
-
-    // ==========================================================================
-    // Step 3: Get and validate provider
-    // ==========================================================================
-    const provider_result = get_validated_provider({
-      llm,
-      service_type: SERVICE_TYPES.IMAGE_IMAGE,
-      logger,
+    const rendered = await render_prompt_text(params.prompt, params, store, logger, FILE_NAME, {
+      strict_variables: config.strict_variables,
     });
 
-    if (!provider_result.success) {
-      return provider_result.error_response;
+    if (!rendered.success) {
+      return rendered.error_response;
     }
 
-    const provider = provider_result.provider;
-
-    log_api_details(provider, SERVICE_TYPES.IMAGE_IMAGE, FILE_NAME, logger, {
-      prompt_text: final_prompt,
-      image_count: images.length,
-      llm_requested: llm || 'primary',
-    });
+    const final_prompt = rendered.prompt_text;
 
     // ==========================================================================
-    // Step 4: Call the provider
+    // Step 3: Call the provider (falling back to fallback_llms on failure)
     // ==========================================================================
-    const response = await provider.image_image(
+    const call_params: ImageImageParams = {
+      ...params,
+      prompt: final_prompt,
+    };
+
+    const response = await call_provider_with_fallback(
       {
-        ...params,
-        prompt: final_prompt,
+        llm,
+        service_type: SERVICE_TYPES.IMAGE_IMAGE,
+        logger,
+        file_name: FILE_NAME,
+        log_details: {
+          prompt_text: final_prompt,
+          image_count: images.length,
+          llm_requested: llm || 'primary',
+        },
       },
-      logger
+      call_params,
+      (provider, signal) => provider.image_image({ ...call_params, signal }, logger),
+      params
     );
 
     log_api_response(response, FILE_NAME, logger);
@@ -0,0 +1,43 @@
+/**
+ * hazo_llm_image_image_text Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { hazo_llm_image_image_text } from './index.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const IMAGE = { image_b64: 'aGVsbG8=', image_mime_type: 'image/png' };
+const STEP_USAGE = { input_tokens: 100, output_tokens: 0, total_tokens: 100 };
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('hazo_llm_image_image_text', () => {
+  let mock: MockProvider;
+
+  beforeEach(async () => {
+    mock = new MockProvider();
+    await initialize_llm_api_for_testing({ providers: [mock] });
+  });
+
+  it('sums the usage of every image step and the description', async () => {
+    mock
+      .add_response({ method: 'image_image', usage: STEP_USAGE })
+      .add_response({ method: 'image_text', text: 'Combined', usage: { input_tokens: 50, output_tokens: 5, total_tokens: 55 } });
+
+    const response = await hazo_llm_image_image_text({
+      images: [IMAGE, IMAGE, IMAGE],
+      prompts: ['Merge', 'Merge again'],
+      description_prompt: 'Describe',
+    });
+
+    expect(response.success).toBe(true);
+    expect(response.usage).toEqual({ input_tokens: 250, output_tokens: 5, total_tokens: 255, image_count: 3 });
+  });
+});
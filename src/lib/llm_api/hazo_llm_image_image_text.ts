@@ -12,7 +12,7 @@
  * Returns both the final generated image and the text description.
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   ImageImageTextParams,
   LLMResponse,
@@ -20,6 +20,8 @@ import type {
 } from './types.js';
 import { hazo_llm_image_image } from './hazo_llm_image_image.js';
 import { hazo_llm_image_text } from './hazo_llm_image_text.js';
+import { get_request_options } from './provider_helper.js';
+import { combine_step_responses } from './chain_helpers.js';
 
 // =============================================================================
 // hazo_llm_image_image_text Function
@@ -29,14 +31,14 @@ import { hazo_llm_image_text } from './hazo_llm_image_text.js';
  * Chain multiple image transformations, then describe the final result
  * 
  * @param params - Parameters with images, prompts, and description prompt
- * @param db - Database instance
+ * @param store - Prompt store for dynamic prompts
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name (uses primary LLM if not specified)
  * @returns LLM response with final image and description text
  */
 export async function hazo_llm_image_image_text(
   params: ImageImageTextParams,
-  db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<LLMResponse> {
@@ -45,6 +47,8 @@ export async function hazo_llm_image_image_text(
   const { default_logger } = await import('./index.js');
   const logger = config.logger || default_logger;
 
+  // Responses of the steps that ran (for usage accounting)
+  const step_responses: LLMResponse[] = [];
   const api_name = 'image_image_text';
   
   try {
@@ -110,11 +114,13 @@ export async function hazo_llm_image_image_text(
           { data: params.images[0].image_b64, mime_type: params.images[0].image_mime_type },
           { data: params.images[1].image_b64, mime_type: params.images[1].image_mime_type },
         ],
+        ...get_request_options(params),
       },
-      db,
+      store,
       config,
       llm
     );
+    step_responses.push(current_result);
     
     if (!current_result.success) {
       logger.error('Step 1 failed: combining first two images', {
@@ -125,6 +131,7 @@ export async function hazo_llm_image_image_text(
       return {
         success: false,
         error: `Step 1 failed: ${current_result.error}`,
+        ...combine_step_responses(step_responses),
       };
     }
     
@@ -137,6 +144,7 @@ export async function hazo_llm_image_image_text(
         success: false,
         error: 'Step 1 did not return an image',
         text: current_result.text,
+        ...combine_step_responses(step_responses),
       };
     }
     
@@ -160,11 +168,13 @@ export async function hazo_llm_image_image_text(
             { data: current_result.image_b64!, mime_type: current_result.image_mime_type! },
             { data: params.images[i].image_b64, mime_type: params.images[i].image_mime_type },
           ],
+          ...get_request_options(params),
         },
-        db,
+        store,
         config,
         llm
       );
+      step_responses.push(current_result);
       
       if (!current_result.success) {
         logger.error(`Step ${step_num} failed`, {
@@ -175,6 +185,7 @@ export async function hazo_llm_image_image_text(
         return {
           success: false,
           error: `Step ${step_num} failed: ${current_result.error}`,
+          ...combine_step_responses(step_responses),
         };
       }
       
@@ -188,6 +199,7 @@ export async function hazo_llm_image_image_text(
           success: false,
           error: `Step ${step_num} did not return an image`,
           text: current_result.text,
+          ...combine_step_responses(step_responses),
         };
       }
     }
@@ -206,11 +218,13 @@ export async function hazo_llm_image_image_text(
         image_b64: current_result.image_b64!,
         image_mime_type: current_result.image_mime_type!,
         prompt_variables: params.description_prompt_variables,
+        ...get_request_options(params),
       },
-      db,
+      store,
       config,
       llm
     );
+    step_responses.push(text_response);
     
     if (!text_response.success) {
       logger.error('Description generation failed', {
@@ -224,6 +238,7 @@ export async function hazo_llm_image_image_text(
         // Still return the final image even if description failed
         image_b64: current_result.image_b64,
         image_mime_type: current_result.image_mime_type,
+        ...combine_step_responses(step_responses),
       };
     }
     
@@ -257,6 +272,7 @@ export async function hazo_llm_image_image_text(
       text: text_response.text,
       image_b64: current_result.image_b64,
       image_mime_type: current_result.image_mime_type,
+      ...combine_step_responses(step_responses),
     };
     
   } catch (error) {
@@ -266,6 +282,6 @@ export async function hazo_llm_image_image_text(
       line: 231,
       data: { error: error_message },
     });
-    return { success: false, error: error_message };
+    return { success: false, error: error_message, ...combine_step_responses(step_responses) };
   }
 }
@@ -6,21 +6,20 @@
  * Supports image analysis, OCR, object detection descriptions, etc.
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   ImageTextParams,
   LLMResponse,
   LLMApiConfig,
 } from './types.js';
-import { substitute_variables } from '../prompts/substitute_variables.js';
+import { render_prompt_text } from './prompt_helper.js';
 import { SERVICE_TYPES } from '../providers/types.js';
 import {
-  get_validated_provider,
   log_api_start,
   log_api_complete,
-  log_api_details,
   log_api_response,
   handle_caught_error,
+  call_provider_with_fallback,
 } from './provider_helper.js';
 
 // =============================================================================
@@ -38,14 +37,14 @@ const API_NAME = 'image_text';
  * Call the LLM with an image input and get text output
  *
  * @param params - Image input parameters
- * @param _db - Database instance (unused, kept for API consistency)
+ * @param store - Prompt store for {{> area/key}} partials
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name (uses primary LLM if not specified)
  * @returns LLM response with generated text description
  */
 export async function hazo_llm_image_text(
   params: ImageTextParams,
-  _db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<LLMResponse> {
@@ -66,43 +65,45 @@ export async function hazo_llm_image_text(
     }
 
     // ==========================================================================
-    // Step 2: Prepare prompt with variable substitution
+    // Step 2: Prepare prompt (partials and variable substitution)
     // ==========================================================================
-    const final_prompt = substitute_variables(params.prompt, params.prompt_variables, logger);
-
-    // ==========================================================================
-    // Step 3: Get and validate provider
-    // ==========================================================================
-    const provider_result = get_validated_provider({
-      llm,
-      service_type: SERVICE_TYPES.IMAGE_TEXT,
-      logger,
+    const rendered = await render_prompt_text(params.prompt, params, store, logger, FILE_NAME, {
+      strict_variables: config.strict_variables,
     });
 
-    if (!provider_result.success) {
-      return provider_result.error_response;
+    if (!rendered.success) {
+      return rendered.error_response;
     }
 
-    const provider = provider_result.provider;
+    const final_prompt = rendered.prompt_text;
+
+    // ==========================================================================
+    // Step 3: Call the provider (falling back to fallback_llms on failure)
+    // ==========================================================================
+    const call_params: ImageTextParams = {
+      ...params,
+      prompt: final_prompt,
+    };
 
     // Log with placeholder for base64 data (avoid logging full base64)
     const image_b64_length = params.image_b64?.length || 0;
-    log_api_details(provider, SERVICE_TYPES.IMAGE_TEXT, FILE_NAME, logger, {
-      prompt_text: final_prompt,
-      image_mime_type: params.image_mime_type,
-      image_b64: `[BASE64_DATA: ${image_b64_length} chars]`,
-      llm_requested: llm || 'primary',
-    });
 
-    // ==========================================================================
-    // Step 4: Call the provider
-    // ==========================================================================
-    const response = await provider.image_text(
+    const response = await call_provider_with_fallback(
       {
-        ...params,
-        prompt: final_prompt,
+        llm,
+        service_type: SERVICE_TYPES.IMAGE_TEXT,
+        logger,
+        file_name: FILE_NAME,
+        log_details: {
+          prompt_text: final_prompt,
+          image_mime_type: params.image_mime_type,
+          image_b64: `[BASE64_DATA: ${image_b64_length} chars]`,
+          llm_requested: llm || 'primary',
+        },
       },
-      logger
+      call_params,
+      (provider, signal) => provider.image_text({ ...call_params, signal }, logger),
+      params
     );
 
     log_api_response(response, FILE_NAME, logger);
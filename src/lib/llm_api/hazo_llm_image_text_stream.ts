@@ -0,0 +1,133 @@
+/**
+ * hazo_llm_image_text_stream Function
+ *
+ * Image input → Text output (streaming)
+ * Streams an image analysis/description as it arrives from the provider.
+ */
+
+import type { PromptStore } from '../prompt_store/types.js';
+import type {
+  ImageTextParams,
+  LLMStreamResponse,
+  LLMApiConfig,
+} from './types.js';
+import { LLM_ERROR_CODES } from './types.js';
+import { render_prompt_text } from './prompt_helper.js';
+import type { LLMProvider } from '../providers/types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import {
+  build_error_response,
+  build_stream_error_from_response,
+  stream_provider_with_fallback,
+  log_api_start,
+  log_api_complete,
+  handle_caught_error,
+} from './provider_helper.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'hazo_llm_image_text_stream.ts';
+const API_NAME = 'image_text_stream';
+
+/** Provider streaming method (checked by required_feature before the call) */
+type StreamMethod = NonNullable<LLMProvider['image_text_stream']>;
+
+// =============================================================================
+// hazo_llm_image_text_stream Function
+// =============================================================================
+
+/**
+ * Call the LLM with an image input and stream text output
+ *
+ * @param params - Image input parameters
+ * @param store - Prompt store for {{> area/key}} partials
+ * @param config - LLM API configuration
+ * @param llm - Optional LLM provider name (uses primary LLM if not specified)
+ * @returns Async generator yielding text chunks
+ */
+export async function* hazo_llm_image_text_stream(
+  params: ImageTextParams,
+  store: PromptStore | null,
+  config: LLMApiConfig,
+  llm?: string
+): LLMStreamResponse {
+  // Use default logger if not provided
+  const { default_logger } = await import('./index.js');
+  const logger = config.logger || default_logger;
+
+  try {
+    log_api_start(API_NAME, FILE_NAME, logger);
+
+    // ==========================================================================
+    // Step 1: Validate image data
+    // ==========================================================================
+    if (!params.image_b64 || !params.image_mime_type) {
+      const error_msg = 'image_b64 and image_mime_type are required';
+      logger.error(error_msg, { file: FILE_NAME });
+      yield build_stream_error_from_response(
+        build_error_response(LLM_ERROR_CODES.INVALID_REQUEST, error_msg)
+      );
+      return;
+    }
+
+    // ==========================================================================
+    // Step 2: Prepare prompt (partials and variable substitution)
+    // ==========================================================================
+    const rendered = await render_prompt_text(params.prompt, params, store, logger, FILE_NAME, {
+      strict_variables: config.strict_variables,
+    });
+
+    if (!rendered.success) {
+      yield build_stream_error_from_response(rendered.error_response);
+      return;
+    }
+
+    const final_prompt = rendered.prompt_text;
+
+    // ==========================================================================
+    // Step 3: Stream from the provider (falling back to fallback_llms on failure)
+    // ==========================================================================
+    const call_params: ImageTextParams = {
+      ...params,
+      prompt: final_prompt,
+    };
+
+    let success = true;
+    for await (const chunk of stream_provider_with_fallback(
+      {
+        llm,
+        service_type: SERVICE_TYPES.IMAGE_TEXT,
+        logger,
+        file_name: FILE_NAME,
+        required_feature: {
+          name: 'streaming for image_text',
+          is_supported: (provider) => typeof provider.image_text_stream === 'function',
+        },
+        // Log with placeholder for base64 data (avoid logging full base64)
+        log_details: {
+          prompt_text: final_prompt,
+          image_mime_type: params.image_mime_type,
+          image_b64: `[BASE64_DATA: ${params.image_b64.length} chars]`,
+          llm_requested: llm || 'primary',
+          streaming: true,
+        },
+      },
+      call_params,
+      (provider, signal) => (provider.image_text_stream as StreamMethod)({ ...call_params, signal }, logger),
+      params
+    )) {
+      if (chunk.error) {
+        success = false;
+      }
+      yield chunk;
+    }
+
+    log_api_complete(API_NAME, FILE_NAME, success, logger);
+  } catch (error) {
+    yield build_stream_error_from_response(
+      handle_caught_error(error, 'hazo_llm_image_text_stream', FILE_NAME, logger)
+    );
+  }
+}
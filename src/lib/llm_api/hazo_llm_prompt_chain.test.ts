@@ -0,0 +1,39 @@
+/**
+ * hazo_llm_prompt_chain Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { hazo_llm_prompt_chain } from './index.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+describe('hazo_llm_prompt_chain', () => {
+  it('counts the usage of failed calls in total_usage', async () => {
+    const mock = new MockProvider()
+      .add_response({ match: 'Summarize', json: { summary: 'ok' }, usage: { input_tokens: 10, output_tokens: 5, total_tokens: 15 } })
+      .add_response({
+        match: 'Classify',
+        error_code: 'API_ERROR',
+        retryable: false,
+        usage: { input_tokens: 7, output_tokens: 0, total_tokens: 7 },
+      });
+    await initialize_llm_api_for_testing({
+      providers: [mock],
+      prompts: [
+        { prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'Summarize.' },
+        { prompt_area: 'docs', prompt_key: 'classify', prompt_text: 'Classify.' },
+      ],
+    });
+
+    const response = await hazo_llm_prompt_chain({
+      chain_calls: ['summary', 'classify'].map(prompt_key => ({
+        prompt_area: { match_type: 'direct' as const, value: 'docs' },
+        prompt_key: { match_type: 'direct' as const, value: prompt_key },
+      })),
+    });
+
+    expect(response.successful_calls).toBe(1);
+    expect(response.call_results[1].usage).toEqual({ input_tokens: 7, output_tokens: 0, total_tokens: 7 });
+    expect(response.total_usage).toEqual({ input_tokens: 17, output_tokens: 5, total_tokens: 22 });
+  });
+});
@@ -6,7 +6,7 @@
  * text_text, image_text, text_image, image_image.
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   PromptChainParams,
   PromptChainResponse,
@@ -14,6 +14,8 @@ import type {
   ChainCallDefinition,
   LLMApiConfig,
   LLMResponse,
+  LLMRequestOptions,
+  PromptLookupOptions,
   TextTextParams,
   ImageTextParams,
   TextImageParams,
@@ -34,6 +36,9 @@ import {
   parse_llm_json_response,
   resolve_chain_image_definition,
 } from './chain_helpers.js';
+import { sum_usage } from './usage_helper.js';
+import { get_request_options } from './provider_helper.js';
+import { get_prompt_lookup_options } from './prompt_helper.js';
 
 // =============================================================================
 // Constants
@@ -203,9 +208,11 @@ function build_service_params(
  * @param params - Service-specific parameters
  * @param prompt_area - Prompt area for dynamic prompt lookup
  * @param prompt_key - Prompt key for dynamic prompt lookup
- * @param db - Database instance
+ * @param prompt_version - Pinned prompt version (undefined = current version)
+ * @param store - Prompt store for dynamic prompts
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name
+ * @param options - Request options and prompt lookup options (locals, user_id, scope_id) for the call
  * @returns LLM response
  */
 async function dispatch_service_call(
@@ -213,29 +220,33 @@ async function dispatch_service_call(
   params: ServiceParams,
   prompt_area: string,
   prompt_key: string,
-  db: SqlJsDatabase | null,
+  prompt_version: number | undefined,
+  store: PromptStore | null,
   config: LLMApiConfig,
-  llm: string | undefined
+  llm: string | undefined,
+  options: LLMRequestOptions & PromptLookupOptions
 ): Promise<LLMResponse> {
-  // Add prompt_area and prompt_key for dynamic prompt lookup
+  // Add prompt_area, prompt_key and prompt_version for dynamic prompt lookup
   const params_with_prompt = {
     ...params,
+    ...options,
     prompt_area,
     prompt_key,
+    ...(prompt_version !== undefined && { prompt_version }),
   };
 
   switch (call_type) {
     case 'text_text':
-      return await hazo_llm_text_text(params_with_prompt as TextTextParams, db, config, llm);
+      return await hazo_llm_text_text(params_with_prompt as TextTextParams, store, config, llm);
 
     case 'image_text':
-      return await hazo_llm_image_text(params_with_prompt as ImageTextParams, db, config, llm);
+      return await hazo_llm_image_text(params_with_prompt as ImageTextParams, store, config, llm);
 
     case 'text_image':
-      return await hazo_llm_text_image(params_with_prompt as TextImageParams, db, config, llm);
+      return await hazo_llm_text_image(params_with_prompt as TextImageParams, store, config, llm);
 
     case 'image_image':
-      return await hazo_llm_image_image(params_with_prompt as ImageImageParams, db, config, llm);
+      return await hazo_llm_image_image(params_with_prompt as ImageImageParams, store, config, llm);
 
     default:
       throw new Error(`Unsupported call_type: ${call_type}`);
@@ -264,14 +275,14 @@ function is_image_output_type(call_type: ServiceType): boolean {
  * Execute a chain of prompt calls with dynamic value resolution
  *
  * @param params - Chain parameters including call definitions
- * @param db - Database instance for prompt retrieval
+ * @param store - Prompt store for prompt retrieval
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name
  * @returns Chain response with merged results and individual call outcomes
  */
 export async function hazo_llm_prompt_chain(
   params: PromptChainParams,
-  db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<PromptChainResponse> {
@@ -302,6 +313,14 @@ export async function hazo_llm_prompt_chain(
   for (let i = 0; i < params.chain_calls.length; i++) {
     const call_def = params.chain_calls[i];
 
+    // Stop the chain once the caller aborts, even with continue_on_error
+    if (params.signal?.aborted) {
+      const error_msg = `Prompt chain aborted before call ${i}`;
+      logger.warn(error_msg, { file: FILE_NAME, data: { call_index: i } });
+      errors.push({ call_index: i, error: error_msg });
+      break;
+    }
+
     logger.debug(`Chain Step ${i + 1}/${params.chain_calls.length}`, {
       file: FILE_NAME,
     });
@@ -400,9 +419,16 @@ export async function hazo_llm_prompt_chain(
         param_result.params!,
         prompt_area,
         prompt_key,
-        db,
+        call_def.prompt_version,
+        store,
         config,
-        llm
+        llm,
+        {
+          ...get_request_options(params),
+          // Lookup options on the call override those of the chain
+          ...get_prompt_lookup_options(params),
+          ...get_prompt_lookup_options(call_def),
+        }
       );
 
       if (!response.success) {
@@ -419,6 +445,8 @@ export async function hazo_llm_prompt_chain(
           error: error_msg,
           prompt_area,
           prompt_key,
+          // Failed calls can still be billed, so their usage counts toward total_usage
+          ...(response.usage && { usage: response.usage }),
         });
 
         if (!continue_on_error) {
@@ -433,6 +461,8 @@ export async function hazo_llm_prompt_chain(
         success: true,
         prompt_area,
         prompt_key,
+        ...(response.prompt_version !== undefined && { prompt_version: response.prompt_version }),
+        ...(response.usage && { usage: response.usage }),
       };
 
       // Text output types (text_text, image_text)
@@ -484,6 +514,7 @@ export async function hazo_llm_prompt_chain(
   // Merge all successful results
   const merged_result = merge_chain_results(call_results, logger);
   const successful_calls = call_results.filter((r) => r.success).length;
+  const total_usage = sum_usage(call_results.map((r) => r.usage));
 
   logger.info('Prompt chain execution complete', {
     file: FILE_NAME,
@@ -509,5 +540,6 @@ export async function hazo_llm_prompt_chain(
     errors,
     total_calls: params.chain_calls.length,
     successful_calls,
+    ...(total_usage && { total_usage }),
   };
 }
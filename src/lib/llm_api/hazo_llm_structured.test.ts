@@ -0,0 +1,88 @@
+/**
+ * hazo_llm_structured Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { hazo_llm_structured } from './index.js';
+import type { JsonSchema } from './types.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const TITLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { title: { type: 'string' } },
+  required: ['title'],
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('hazo_llm_structured', () => {
+  let mock: MockProvider;
+
+  beforeEach(async () => {
+    mock = new MockProvider({ strict: true });
+    await initialize_llm_api_for_testing({ providers: [mock] });
+  });
+
+  it('sends variable values and the previous reply containing {{ }} without templating them again', async () => {
+    mock
+      .add_response({ match: 'Your previous response was', json: { title: 'Fixed' } })
+      .add_response({ match: 'Title for:', text: '{"heading": "{{#if x}} {{name}}"}' });
+
+    const response = await hazo_llm_structured<{ title: string }>({
+      prompt: 'Title for: {{text}}',
+      prompt_variables: [{ text: 'use {{#if x}} here' }],
+      schema: TITLE_SCHEMA,
+    });
+
+    expect(response.success).toBe(true);
+    expect(response.data).toEqual({ title: 'Fixed' });
+    expect(response.attempts).toBe(2);
+
+    const [first_call, repair_call] = mock.get_calls('text_text');
+    expect(first_call.prompt).toBe('Title for: use {{#if x}} here');
+    expect(repair_call.prompt).toContain('Title for: use {{#if x}} here');
+    expect(repair_call.prompt).toContain('{"heading": "{{#if x}} {{name}}"}');
+  });
+
+  it('does not fail strict mode on {{ }} in a variable value', async () => {
+    await initialize_llm_api_for_testing({ providers: [mock], strict_variables: true });
+    mock.add_response({ match: 'Title for:', json: { title: 'Done' } });
+
+    const response = await hazo_llm_structured<{ title: string }>({
+      prompt: 'Title for: {{text}}',
+      prompt_variables: [{ text: 'Dear {{customer}}' }],
+      schema: TITLE_SCHEMA,
+    });
+
+    expect(response.success).toBe(true);
+    expect(response.data).toEqual({ title: 'Done' });
+    expect(mock.get_last_call()?.prompt).toBe('Title for: Dear {{customer}}');
+  });
+
+  it('sums usage across repair attempts on success and on failure', async () => {
+    const usage = { input_tokens: 100, output_tokens: 10, total_tokens: 110 };
+    mock
+      .add_response({ match: 'Your previous response was', json: { title: 'Fixed' }, usage, times: 1 })
+      .add_response({ match: 'Title for:', json: { heading: 'x' }, usage });
+
+    const repaired = await hazo_llm_structured({ prompt: 'Title for: report', schema: TITLE_SCHEMA });
+    expect(repaired.success).toBe(true);
+    expect(repaired.usage).toEqual({ input_tokens: 200, output_tokens: 20, total_tokens: 220 });
+
+    const failed = await hazo_llm_structured({
+      prompt: 'Title for: report',
+      schema: TITLE_SCHEMA,
+      max_repair_attempts: 2,
+    });
+    expect(failed.success).toBe(false);
+    expect(failed.attempts).toBe(3);
+    expect(failed.usage).toEqual({ input_tokens: 300, output_tokens: 30, total_tokens: 330 });
+  });
+});
@@ -0,0 +1,326 @@
+/**
+ * hazo_llm_structured Function
+ *
+ * Prompt (optionally with an image) → JSON validated against a schema.
+ * Uses the provider's native structured-output mode (Gemini responseSchema,
+ * Qwen response_format) and re-prompts the model with the validation errors
+ * when the reply does not conform.
+ */
+
+import type { PromptStore } from '../prompt_store/types.js';
+import type {
+  StructuredParams,
+  StructuredResponse,
+  SchemaValidationError,
+  GenerationOverrides,
+  LLMApiConfig,
+  LLMResponse,
+  LLMUsage,
+  Logger,
+  TextTextParams,
+  ImageTextParams,
+} from './types.js';
+import { LLM_ERROR_CODES } from './types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import { parse_llm_json_response } from './chain_helpers.js';
+import { validate_json_schema, format_validation_errors } from './json_schema_validator.js';
+import { sum_usage } from './usage_helper.js';
+import { resolve_prompt_text } from './prompt_helper.js';
+import {
+  build_error_response,
+  log_api_start,
+  log_api_complete,
+  log_api_response,
+  handle_caught_error,
+  call_provider_with_fallback,
+} from './provider_helper.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'hazo_llm_structured.ts';
+const API_NAME = 'structured';
+
+/** Default number of repair re-prompts when the reply does not match the schema */
+const DEFAULT_MAX_REPAIR_ATTEMPTS = 1;
+
+// =============================================================================
+// hazo_llm_structured Function
+// =============================================================================
+
+/**
+ * Call the LLM and get a JSON result that conforms to a JSON Schema
+ *
+ * @param params - Structured output parameters including the schema
+ * @param store - Prompt store for dynamic prompts
+ * @param config - LLM API configuration
+ * @param llm - Optional LLM provider name (uses primary LLM if not specified)
+ * @returns Structured response with validated data, or a validation error
+ */
+export async function hazo_llm_structured<T = unknown>(
+  params: StructuredParams,
+  store: PromptStore | null,
+  config: LLMApiConfig,
+  llm?: string
+): Promise<StructuredResponse<T>> {
+  // Use default logger if not provided
+  const { default_logger } = await import('./index.js');
+  const logger = config.logger || default_logger;
+  // Usage of every attempt (each repair re-prompt is billed)
+  const usages: Array<LLMUsage | undefined> = [];
+  let attempts = 0;
+
+  try {
+    log_api_start(API_NAME, FILE_NAME, logger);
+
+    // ==========================================================================
+    // Step 1: Validate parameters
+    // ==========================================================================
+    if (!params.schema || typeof params.schema !== 'object') {
+      const error_msg = 'schema is required and must be a JSON Schema object';
+      logger.error(error_msg, { file: FILE_NAME });
+      return { ...build_error_response(LLM_ERROR_CODES.INVALID_REQUEST, error_msg), attempts };
+    }
+
+    if (params.image_b64 && !params.image_mime_type) {
+      const error_msg = 'image_mime_type is required when image_b64 is provided';
+      logger.error(error_msg, { file: FILE_NAME });
+      return { ...build_error_response(LLM_ERROR_CODES.INVALID_REQUEST, error_msg), attempts };
+    }
+
+    // ==========================================================================
+    // Step 2: Resolve the prompt text and substitute variables
+    // ==========================================================================
+    const prompt_result = await resolve_prompt_text(params, store, logger, FILE_NAME, config.strict_variables);
+
+    if (!prompt_result.success) {
+      return { ...prompt_result.error_response, attempts };
+    }
+
+    const base_prompt = prompt_result.prompt_text;
+    const prompt_version = prompt_result.prompt_version;
+    const max_repair_attempts = Math.max(0, params.max_repair_attempts ?? DEFAULT_MAX_REPAIR_ATTEMPTS);
+    const generation_overrides: GenerationOverrides = {
+      ...params.generation_overrides,
+      response_mime_type: 'application/json',
+      response_schema: params.schema,
+    };
+
+    // ==========================================================================
+    // Step 3: Call the model, validate, and repair if needed
+    // ==========================================================================
+    let prompt = base_prompt;
+    let last_response: LLMResponse | null = null;
+    let validation_errors: SchemaValidationError[] = [];
+
+    while (attempts <= max_repair_attempts) {
+      attempts++;
+
+      last_response = await call_model(params, prompt, generation_overrides, logger, llm);
+      usages.push(last_response.usage);
+      const usage = sum_usage(usages);
+
+      if (!last_response.success) {
+        log_api_complete(API_NAME, FILE_NAME, false, logger);
+        return { ...last_response, ...(usage && { usage }), attempts, prompt_version };
+      }
+
+      const reply_text = last_response.text || '';
+      const parsed = parse_structured_reply(reply_text, logger);
+
+      validation_errors = parsed.success
+        ? validate_json_schema(parsed.value, params.schema)
+        : [{ path: '$', message: 'Response is not valid JSON' }];
+
+      if (parsed.success && validation_errors.length === 0) {
+        logger.debug('Structured response validated', {
+          file: FILE_NAME,
+          data: { attempts },
+        });
+        log_api_complete(API_NAME, FILE_NAME, true, logger);
+
+        return {
+          ...last_response,
+          ...(usage && { usage }),
+          data: parsed.value as T,
+          attempts,
+          prompt_version,
+        };
+      }
+
+      logger.warn('Structured response did not match schema', {
+        file: FILE_NAME,
+        data: {
+          attempt: attempts,
+          max_repair_attempts,
+          validation_errors,
+          text_preview: reply_text.substring(0, 200),
+        },
+      });
+
+      prompt = build_repair_prompt(base_prompt, reply_text, validation_errors);
+    }
+
+    // ==========================================================================
+    // Step 4: All attempts failed validation
+    // ==========================================================================
+    const error_msg = `Response did not match the schema after ${attempts} attempt(s):\n${format_validation_errors(validation_errors)}`;
+    logger.error('Structured response validation failed', {
+      file: FILE_NAME,
+      data: { attempts, validation_errors },
+    });
+    log_api_complete(API_NAME, FILE_NAME, false, logger);
+    const usage = sum_usage(usages);
+
+    return {
+      ...build_error_response(
+        LLM_ERROR_CODES.SCHEMA_VALIDATION_FAILED,
+        error_msg,
+        false,
+        { validation_errors }
+      ),
+      text: last_response?.text,
+      raw_response: last_response?.raw_response,
+      ...(usage && { usage }),
+      validation_errors,
+      attempts,
+      prompt_version,
+    };
+  } catch (error) {
+    const usage = sum_usage(usages);
+    return {
+      ...handle_caught_error(error, 'hazo_llm_structured', FILE_NAME, logger),
+      ...(usage && { usage }),
+      attempts,
+    };
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Call the provider's text_text or image_text method with the prepared prompt
+ * The prompt is already rendered, so it is sent as-is: variable values and the
+ * model's previous reply may contain {{ }} that must not be templated again.
+ *
+ * @param params - Original structured params (for image, system instruction and request options)
+ * @param prompt - Final prompt text (partials expanded, variables substituted)
+ * @param generation_overrides - Overrides including the response schema
+ * @param logger - Logger instance
+ * @param llm - Optional LLM provider name
+ * @returns LLM response
+ */
+async function call_model(
+  params: StructuredParams,
+  prompt: string,
+  generation_overrides: GenerationOverrides,
+  logger: Logger,
+  llm?: string
+): Promise<LLMResponse> {
+  let response: LLMResponse;
+
+  if (params.image_b64 && params.image_mime_type) {
+    const call_params: ImageTextParams = {
+      prompt,
+      image_b64: params.image_b64,
+      image_mime_type: params.image_mime_type,
+      system_instruction: params.system_instruction,
+      generation_overrides,
+    };
+
+    response = await call_provider_with_fallback(
+      {
+        llm,
+        service_type: SERVICE_TYPES.IMAGE_TEXT,
+        logger,
+        file_name: FILE_NAME,
+        log_details: {
+          prompt_text: prompt,
+          image_mime_type: params.image_mime_type,
+          image_b64: `[BASE64_DATA: ${params.image_b64.length} chars]`,
+          llm_requested: llm || 'primary',
+        },
+      },
+      call_params,
+      (provider, signal) => provider.image_text({ ...call_params, signal }, logger),
+      params
+    );
+  } else {
+    const call_params: TextTextParams = {
+      prompt,
+      system_instruction: params.system_instruction,
+      generation_overrides,
+    };
+
+    response = await call_provider_with_fallback(
+      {
+        llm,
+        service_type: SERVICE_TYPES.TEXT_TEXT,
+        logger,
+        file_name: FILE_NAME,
+        log_details: {
+          prompt_text: prompt,
+          llm_requested: llm || 'primary',
+        },
+      },
+      call_params,
+      (provider, signal) => provider.text_text({ ...call_params, signal }, logger),
+      params
+    );
+  }
+
+  log_api_response(response, FILE_NAME, logger);
+  return response;
+}
+
+/**
+ * Parse the model reply as JSON
+ * Native JSON mode normally returns bare JSON; falls back to extracting JSON
+ * from markdown code blocks or surrounding text.
+ *
+ * @param text - Raw reply text
+ * @param logger - Logger instance
+ * @returns Parsed value or failure
+ */
+function parse_structured_reply(
+  text: string,
+  logger: Logger
+): { success: true; value: unknown } | { success: false } {
+  try {
+    return { success: true, value: JSON.parse(text.trim()) };
+  } catch {
+    // Fall back to lenient extraction
+  }
+
+  const extracted = parse_llm_json_response(text, logger);
+  return extracted ? { success: true, value: extracted } : { success: false };
+}
+
+/**
+ * Build a repair prompt that asks the model to correct its previous reply
+ *
+ * @param base_prompt - The original prompt
+ * @param previous_reply - The non-conforming reply
+ * @param errors - Validation errors for the reply
+ * @returns Prompt text for the repair attempt
+ */
+function build_repair_prompt(
+  base_prompt: string,
+  previous_reply: string,
+  errors: SchemaValidationError[]
+): string {
+  return [
+    base_prompt,
+    '',
+    'Your previous response was:',
+    previous_reply,
+    '',
+    'It does not conform to the required JSON schema:',
+    format_validation_errors(errors),
+    '',
+    'Respond again with only corrected JSON that conforms to the schema.',
+  ].join('\n');
+}
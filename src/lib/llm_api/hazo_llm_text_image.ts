@@ -6,21 +6,20 @@
  * Uses image generation capable models.
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   TextImageParams,
   LLMResponse,
   LLMApiConfig,
 } from './types.js';
-import { substitute_variables } from '../prompts/substitute_variables.js';
+import { render_prompt_text } from './prompt_helper.js';
 import { SERVICE_TYPES } from '../providers/types.js';
 import {
-  get_validated_provider,
   log_api_start,
   log_api_complete,
-  log_api_details,
   log_api_response,
   handle_caught_error,
+  call_provider_with_fallback,
 } from './provider_helper.js';
 
 // =============================================================================
@@ -38,14 +37,14 @@ const API_NAME = 'text_image';
  * Call the LLM with text input and get image output
  *
  * @param params - Text input parameters for image generation
- * @param _db - Database instance (unused, kept for API consistency)
+ * @param store - Prompt store for {{> area/key}} partials
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name (uses primary LLM if not specified)
  * @returns LLM response with generated image data
  */
 export async function hazo_llm_text_image(
   params: TextImageParams,
-  _db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<LLMResponse> {
@@ -57,39 +56,40 @@ export async function hazo_llm_text_image(
     log_api_start(API_NAME, FILE_NAME, logger);
 
     // ==========================================================================
-    // Step 1: Prepare prompt with variable substitution
+    // Step 1: Prepare prompt (partials and variable substitution)
     // ==========================================================================
-    const final_prompt = substitute_variables(params.prompt, params.prompt_variables, logger);
-
-    // ==========================================================================
-    // Step 2: Get and validate provider
-    // ==========================================================================
-    const provider_result = get_validated_provider({
-      llm,
-      service_type: SERVICE_TYPES.TEXT_IMAGE,
-      logger,
+    const rendered = await render_prompt_text(params.prompt, params, store, logger, FILE_NAME, {
+      strict_variables: config.strict_variables,
     });
 
-    if (!provider_result.success) {
-      return provider_result.error_response;
+    if (!rendered.success) {
+      return rendered.error_response;
     }
 
-    const provider = provider_result.provider;
-
-    log_api_details(provider, SERVICE_TYPES.TEXT_IMAGE, FILE_NAME, logger, {
-      prompt_text: final_prompt,
-      llm_requested: llm || 'primary',
-    });
+    const final_prompt = rendered.prompt_text;
 
     // ==========================================================================
-    // Step 3: Call the provider
+    // Step 2: Call the provider (falling back to fallback_llms on failure)
     // ==========================================================================
-    const response = await provider.text_image(
+    const call_params: TextImageParams = {
+      ...params,
+      prompt: final_prompt,
+    };
+
+    const response = await call_provider_with_fallback(
       {
-        ...params,
-        prompt: final_prompt,
+        llm,
+        service_type: SERVICE_TYPES.TEXT_IMAGE,
+        logger,
+        file_name: FILE_NAME,
+        log_details: {
+          prompt_text: final_prompt,
+          llm_requested: llm || 'primary',
+        },
       },
-      logger
+      call_params,
+      (provider, signal) => provider.text_image({ ...call_params, signal }, logger),
+      params
     );
 
     log_api_response(response, FILE_NAME, logger);
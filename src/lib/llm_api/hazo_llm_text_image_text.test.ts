@@ -0,0 +1,56 @@
+/**
+ * hazo_llm_text_image_text Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { hazo_llm_text_image_text } from './index.js';
+import { LLM_ERROR_CODES } from './types.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+describe('hazo_llm_text_image_text', () => {
+  let mock: MockProvider;
+
+  beforeEach(async () => {
+    mock = new MockProvider();
+    await initialize_llm_api_for_testing({ providers: [mock] });
+  });
+
+  it('sums the usage of the image and analysis steps', async () => {
+    mock
+      .add_response({ method: 'text_image', usage: { input_tokens: 10, output_tokens: 0, total_tokens: 10 } })
+      .add_response({ method: 'image_text', text: 'A cat', usage: { input_tokens: 300, output_tokens: 5, total_tokens: 305 } });
+
+    const response = await hazo_llm_text_image_text({ prompt_image: 'Draw a cat', prompt_text: 'Describe it' });
+
+    expect(response.success).toBe(true);
+    expect(response.text).toBe('A cat');
+    expect(response.usage).toEqual({ input_tokens: 310, output_tokens: 5, total_tokens: 315, image_count: 2 });
+  });
+
+  it('reports the usage gathered before a failed step', async () => {
+    mock
+      .add_response({ method: 'text_image', usage: { input_tokens: 10, output_tokens: 0, total_tokens: 10 } })
+      .add_response({ method: 'image_text', error_code: LLM_ERROR_CODES.API_ERROR, retryable: false });
+
+    const response = await hazo_llm_text_image_text({ prompt_image: 'Draw a cat', prompt_text: 'Describe it' });
+
+    expect(response.success).toBe(false);
+    expect(response.image_b64).toBeTruthy();
+    expect(response.usage).toEqual({ input_tokens: 10, output_tokens: 0, total_tokens: 10, image_count: 1 });
+  });
+
+  it('reports the provider of the last step and every provider tried', async () => {
+    const primary = new MockProvider({ name: 'primary' })
+      .add_response({ method: 'image_text', error_code: LLM_ERROR_CODES.RATE_LIMITED });
+    const backup = new MockProvider({ name: 'backup' });
+    await initialize_llm_api_for_testing({ providers: [primary, backup], fallback_llms: ['backup'] });
+
+    const response = await hazo_llm_text_image_text({ prompt_image: 'Draw a cat', prompt_text: 'Describe it' });
+
+    expect(response.success).toBe(true);
+    expect(response.provider).toBe('backup');
+    expect(response.providers_tried).toEqual(['primary', 'primary', 'backup']);
+  });
+});
+
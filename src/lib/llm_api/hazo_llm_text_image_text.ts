@@ -7,7 +7,7 @@
  * 3. Return both the generated image and the analysis text
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   TextImageTextParams,
   LLMResponse,
@@ -15,6 +15,8 @@ import type {
 } from './types.js';
 import { hazo_llm_text_image } from './hazo_llm_text_image.js';
 import { hazo_llm_image_text } from './hazo_llm_image_text.js';
+import { get_request_options } from './provider_helper.js';
+import { combine_step_responses } from './chain_helpers.js';
 
 // =============================================================================
 // hazo_llm_text_image_text Function
@@ -29,14 +31,14 @@ import { hazo_llm_image_text } from './hazo_llm_image_text.js';
  * 3. Return the generated image and the text analysis from step 2
  * 
  * @param params - Parameters with two prompts: one for image gen, one for analysis
- * @param db - Database instance
+ * @param store - Prompt store for dynamic prompts
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name (uses primary LLM if not specified)
  * @returns LLM response with generated image and analysis text
  */
 export async function hazo_llm_text_image_text(
   params: TextImageTextParams,
-  db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<LLMResponse> {
@@ -45,6 +47,8 @@ export async function hazo_llm_text_image_text(
   const { default_logger } = await import('./index.js');
   const logger = config.logger || default_logger;
 
+  // Responses of the steps that ran (for usage accounting)
+  const step_responses: LLMResponse[] = [];
   const api_name = 'text_image_text';
   
   try {
@@ -82,11 +86,13 @@ export async function hazo_llm_text_image_text(
       {
         prompt: params.prompt_image,
         prompt_variables: params.prompt_image_variables,
+        ...get_request_options(params),
       },
-      db,
+      store,
       config,
       llm
     );
+    step_responses.push(image_response);
     
     // Check if image generation succeeded
     if (!image_response.success) {
@@ -98,6 +104,7 @@ export async function hazo_llm_text_image_text(
       return {
         success: false,
         error: `Image generation failed: ${image_response.error}`,
+        ...combine_step_responses(step_responses),
       };
     }
     
@@ -111,6 +118,7 @@ export async function hazo_llm_text_image_text(
         success: false,
         error: 'Image generation did not return an image',
         text: image_response.text, // Include any text that was returned
+        ...combine_step_responses(step_responses),
       };
     }
     
@@ -128,11 +136,13 @@ export async function hazo_llm_text_image_text(
         image_b64: image_response.image_b64,
         image_mime_type: image_response.image_mime_type,
         prompt_variables: params.prompt_text_variables,
+        ...get_request_options(params),
       },
-      db,
+      store,
       config,
       llm
     );
+    step_responses.push(text_response);
     
     // Check if text analysis succeeded
     if (!text_response.success) {
@@ -147,6 +157,7 @@ export async function hazo_llm_text_image_text(
         // Still return the generated image even if analysis failed
         image_b64: image_response.image_b64,
         image_mime_type: image_response.image_mime_type,
+        ...combine_step_responses(step_responses),
       };
     }
     
@@ -176,6 +187,7 @@ export async function hazo_llm_text_image_text(
       text: text_response.text,
       image_b64: image_response.image_b64,
       image_mime_type: image_response.image_mime_type,
+      ...combine_step_responses(step_responses),
     };
     
   } catch (error) {
@@ -185,7 +197,7 @@ export async function hazo_llm_text_image_text(
       line: 138,
       data: { error: error_message },
     });
-    return { success: false, error: error_message };
+    return { success: false, error: error_message, ...combine_step_responses(step_responses) };
   }
 }
 
@@ -0,0 +1,36 @@
+/**
+ * hazo_llm_text_text Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { hazo_llm_text_text } from './index.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('hazo_llm_text_text', () => {
+  let mock: MockProvider;
+
+  beforeEach(async () => {
+    mock = new MockProvider();
+    await initialize_llm_api_for_testing({ providers: [mock] });
+  });
+
+  it('passes the per-call system instruction and generation overrides to the provider', async () => {
+    await hazo_llm_text_text({
+      prompt: 'Hello {{name}}',
+      prompt_variables: [{ name: 'Ann' }],
+      system_instruction: 'Answer in French',
+      generation_overrides: { temperature: 0, max_tokens: 64 },
+    });
+
+    expect(mock.get_last_call()?.params).toMatchObject({
+      prompt: 'Hello Ann',
+      system_instruction: 'Answer in French',
+      generation_overrides: { temperature: 0, max_tokens: 64 },
+    });
+  });
+});
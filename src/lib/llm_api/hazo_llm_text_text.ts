@@ -6,22 +6,20 @@
  * Supports static prompts, dynamic prompts from database, and variable substitution.
  */
 
-import type { Database as SqlJsDatabase } from 'sql.js';
+import type { PromptStore } from '../prompt_store/types.js';
 import type {
   TextTextParams,
   LLMResponse,
   LLMApiConfig,
 } from './types.js';
-import { get_prompt_text } from '../prompts/get_prompt.js';
-import { substitute_variables } from '../prompts/substitute_variables.js';
 import { SERVICE_TYPES } from '../providers/types.js';
+import { resolve_prompt_text } from './prompt_helper.js';
 import {
-  get_validated_provider,
   log_api_start,
   log_api_complete,
-  log_api_details,
   log_api_response,
   handle_caught_error,
+  call_provider_with_fallback,
 } from './provider_helper.js';
 
 // =============================================================================
@@ -39,14 +37,14 @@ const API_NAME = 'text_text';
  * Call the LLM with text input and get text output
  *
  * @param params - Text input parameters
- * @param db - Database instance for dynamic prompts
+ * @param store - Prompt store for dynamic prompts
  * @param config - LLM API configuration
  * @param llm - Optional LLM provider name (uses primary LLM if not specified)
  * @returns LLM response with generated text
  */
 export async function hazo_llm_text_text(
   params: TextTextParams,
-  db: SqlJsDatabase | null,
+  store: PromptStore | null,
   config: LLMApiConfig,
   llm?: string
 ): Promise<LLMResponse> {
@@ -58,66 +56,44 @@ export async function hazo_llm_text_text(
     log_api_start(API_NAME, FILE_NAME, logger);
 
     // ==========================================================================
-    // Step 1: Get the prompt text
+    // Step 1: Resolve the prompt text and substitute variables
     // ==========================================================================
-    let prompt_text: string;
+    const prompt_result = await resolve_prompt_text(params, store, logger, FILE_NAME, config.strict_variables);
 
-    if (params.prompt_area && params.prompt_key) {
-      if (!db) {
-        const error_msg = 'Database not initialized for dynamic prompt retrieval';
-        logger.error(error_msg, { file: FILE_NAME });
-        return { success: false, error: error_msg };
-      }
-
-      const dynamic_prompt = get_prompt_text(db, params.prompt_area, params.prompt_key, logger);
-
-      if (!dynamic_prompt) {
-        const error_msg = `Prompt not found for area="${params.prompt_area}" key="${params.prompt_key}"`;
-        logger.error(error_msg, { file: FILE_NAME });
-        return { success: false, error: error_msg };
-      }
-
-      prompt_text = dynamic_prompt;
-    } else {
-      prompt_text = params.prompt;
+    if (!prompt_result.success) {
+      return prompt_result.error_response;
     }
 
-    // ==========================================================================
-    // Step 2: Substitute variables
-    // ==========================================================================
-    const final_prompt = substitute_variables(prompt_text, params.prompt_variables, logger);
+    const final_prompt = prompt_result.prompt_text;
 
     // ==========================================================================
-    // Step 3: Get and validate provider
+    // Step 2: Call the provider (falling back to fallback_llms on failure)
     // ==========================================================================
-    const provider_result = get_validated_provider({
-      llm,
-      service_type: SERVICE_TYPES.TEXT_TEXT,
-      logger,
-    });
-
-    if (!provider_result.success) {
-      return provider_result.error_response;
-    }
+    const call_params: TextTextParams = {
+      ...params,
+      prompt: final_prompt,
+    };
 
-    const provider = provider_result.provider;
-
-    log_api_details(provider, SERVICE_TYPES.TEXT_TEXT, FILE_NAME, logger, {
-      prompt_text: final_prompt,
-      llm_requested: llm || 'primary',
-    });
-
-    // ==========================================================================
-    // Step 4: Call the provider
-    // ==========================================================================
-    const response = await provider.text_text(
+    const response = await call_provider_with_fallback(
       {
-        ...params,
-        prompt: final_prompt,
+        llm,
+        service_type: SERVICE_TYPES.TEXT_TEXT,
+        logger,
+        file_name: FILE_NAME,
+        log_details: {
+          prompt_text: final_prompt,
+          llm_requested: llm || 'primary',
+        },
       },
-      logger
+      call_params,
+      (provider, signal) => provider.text_text({ ...call_params, signal }, logger),
+      params
     );
 
+    if (prompt_result.prompt_version !== undefined) {
+      response.prompt_version = prompt_result.prompt_version;
+    }
+
     log_api_response(response, FILE_NAME, logger);
     log_api_complete(API_NAME, FILE_NAME, response.success, logger);
 
@@ -0,0 +1,117 @@
+/**
+ * hazo_llm_text_text_stream Function
+ *
+ * Text input → Text output (streaming)
+ * Streams generated text as it arrives from the provider.
+ * Supports static prompts, dynamic prompts from database, and variable substitution.
+ */
+
+import type { PromptStore } from '../prompt_store/types.js';
+import type {
+  TextTextParams,
+  LLMStreamResponse,
+  LLMApiConfig,
+} from './types.js';
+import type { LLMProvider } from '../providers/types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import { resolve_prompt_text } from './prompt_helper.js';
+import {
+  build_stream_error_from_response,
+  stream_provider_with_fallback,
+  log_api_start,
+  log_api_complete,
+  handle_caught_error,
+} from './provider_helper.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'hazo_llm_text_text_stream.ts';
+const API_NAME = 'text_text_stream';
+
+/** Provider streaming method (checked by required_feature before the call) */
+type StreamMethod = NonNullable<LLMProvider['text_text_stream']>;
+
+// =============================================================================
+// hazo_llm_text_text_stream Function
+// =============================================================================
+
+/**
+ * Call the LLM with text input and stream text output
+ *
+ * @param params - Text input parameters
+ * @param store - Prompt store for dynamic prompts
+ * @param config - LLM API configuration
+ * @param llm - Optional LLM provider name (uses primary LLM if not specified)
+ * @returns Async generator yielding text chunks
+ */
+export async function* hazo_llm_text_text_stream(
+  params: TextTextParams,
+  store: PromptStore | null,
+  config: LLMApiConfig,
+  llm?: string
+): LLMStreamResponse {
+  // Use default logger if not provided
+  const { default_logger } = await import('./index.js');
+  const logger = config.logger || default_logger;
+
+  try {
+    log_api_start(API_NAME, FILE_NAME, logger);
+
+    // ==========================================================================
+    // Step 1: Resolve the prompt text and substitute variables
+    // ==========================================================================
+    const prompt_result = await resolve_prompt_text(params, store, logger, FILE_NAME, config.strict_variables);
+
+    if (!prompt_result.success) {
+      yield build_stream_error_from_response(prompt_result.error_response);
+      return;
+    }
+
+    const final_prompt = prompt_result.prompt_text;
+
+    // ==========================================================================
+    // Step 2: Stream from the provider (falling back to fallback_llms on failure)
+    // ==========================================================================
+    const call_params: TextTextParams = {
+      ...params,
+      prompt: final_prompt,
+    };
+
+    let success = true;
+    for await (const chunk of stream_provider_with_fallback(
+      {
+        llm,
+        service_type: SERVICE_TYPES.TEXT_TEXT,
+        logger,
+        file_name: FILE_NAME,
+        required_feature: {
+          name: 'streaming for text_text',
+          is_supported: (provider) => typeof provider.text_text_stream === 'function',
+        },
+        log_details: {
+          prompt_text: final_prompt,
+          llm_requested: llm || 'primary',
+          streaming: true,
+        },
+      },
+      call_params,
+      (provider, signal) => (provider.text_text_stream as StreamMethod)({ ...call_params, signal }, logger),
+      params
+    )) {
+      if (chunk.error) {
+        success = false;
+      }
+      yield chunk.done && prompt_result.prompt_version !== undefined
+        ? { ...chunk, prompt_version: prompt_result.prompt_version }
+        : chunk;
+    }
+
+    log_api_complete(API_NAME, FILE_NAME, success, logger);
+  } catch (error) {
+    yield build_stream_error_from_response(
+      handle_caught_error(error, 'hazo_llm_text_text_stream', FILE_NAME, logger)
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * hazo_llm_tool_call Tests
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { hazo_llm_tool_call } from './index.js';
+import type { ToolDefinition } from './types.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const WEATHER_TOOL: ToolDefinition = {
+  name: 'get_weather',
+  description: 'Get the weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+  },
+  handler: () => ({ temperature: 21 }),
+};
+
+const TOOL_TURN = {
+  method: 'call_with_tools' as const,
+  tool_calls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }],
+  usage: { input_tokens: 100, output_tokens: 10, total_tokens: 110 },
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('hazo_llm_tool_call', () => {
+  let mock: MockProvider;
+
+  beforeEach(async () => {
+    mock = new MockProvider();
+    await initialize_llm_api_for_testing({ providers: [mock] });
+  });
+
+  it('sums usage across every model call of the loop', async () => {
+    mock
+      .add_response({ ...TOOL_TURN, times: 1 })
+      .add_response({
+        method: 'call_with_tools',
+        text: 'It is 21 degrees',
+        usage: { input_tokens: 150, output_tokens: 20, total_tokens: 170 },
+      });
+
+    const response = await hazo_llm_tool_call({ prompt: 'Weather in Paris?', tools: [WEATHER_TOOL] });
+
+    expect(response.success).toBe(true);
+    expect(response.iterations).toBe(2);
+    expect(response.usage).toEqual({ input_tokens: 250, output_tokens: 30, total_tokens: 280 });
+  });
+
+  it('reports the summed usage when the iteration limit is reached', async () => {
+    mock.add_response(TOOL_TURN);
+
+    const response = await hazo_llm_tool_call({
+      prompt: 'Weather in Paris?',
+      tools: [WEATHER_TOOL],
+      max_iterations: 3,
+    });
+
+    expect(response.success).toBe(false);
+    expect(response.iterations).toBe(3);
+    expect(response.usage).toEqual({ input_tokens: 300, output_tokens: 30, total_tokens: 330 });
+  });
+});
@@ -0,0 +1,363 @@
+/**
+ * hazo_llm_tool_call Function
+ *
+ * Text input + tools → Text output
+ * Runs a model → tool call → tool result → model loop: the model is called
+ * with the tool declarations, requested tools are executed locally, and their
+ * results are sent back until the model returns a final answer.
+ */
+
+import type { PromptStore } from '../prompt_store/types.js';
+import type {
+  ToolCallParams,
+  ToolCallResponse,
+  ToolDefinition,
+  ToolDeclaration,
+  ToolCall,
+  ToolInvocation,
+  ToolMessage,
+  ToolTurnParams,
+  LLMApiConfig,
+  LLMUsage,
+  Logger,
+} from './types.js';
+import { LLM_ERROR_CODES } from './types.js';
+import type { LLMProvider } from '../providers/types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import { resolve_prompt_text } from './prompt_helper.js';
+import { get_registered_tool, get_registered_tools, validate_tool_definition } from './tool_registry.js';
+import { validate_json_schema, format_validation_errors } from './json_schema_validator.js';
+import { sum_usage } from './usage_helper.js';
+import {
+  build_error_response,
+  log_api_start,
+  log_api_complete,
+  log_api_response,
+  handle_caught_error,
+  call_provider_with_fallback,
+} from './provider_helper.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'hazo_llm_tool_call.ts';
+const API_NAME = 'tool_call';
+
+/** Default maximum number of model calls in the loop */
+const DEFAULT_MAX_ITERATIONS = 5;
+
+/** Provider tool-calling method (checked by required_feature before the call) */
+type ToolCallMethod = NonNullable<LLMProvider['call_with_tools']>;
+
+// =============================================================================
+// hazo_llm_tool_call Function
+// =============================================================================
+
+/**
+ * Call the LLM with tools and run the tool loop until it returns a final answer
+ *
+ * Uses the text_text capability. Tool errors (unknown tool, arguments that do
+ * not match the parameters schema, handler exceptions) are reported back to
+ * the model as the tool result so it can recover.
+ *
+ * @param params - Tool call parameters including the tools to offer
+ * @param store - Prompt store for dynamic prompts
+ * @param config - LLM API configuration
+ * @param llm - Optional LLM provider name (uses primary LLM if not specified)
+ * @returns Final text plus a trace of every tool invocation and the usage summed across all model calls
+ */
+export async function hazo_llm_tool_call(
+  params: ToolCallParams,
+  store: PromptStore | null,
+  config: LLMApiConfig,
+  llm?: string
+): Promise<ToolCallResponse> {
+  // Use default logger if not provided
+  const { default_logger } = await import('./index.js');
+  const logger = config.logger || default_logger;
+  const tool_trace: ToolInvocation[] = [];
+  const messages: ToolMessage[] = [];
+  // Usage of every model call (each iteration is billed)
+  const usages: Array<LLMUsage | undefined> = [];
+  let iterations = 0;
+
+  try {
+    log_api_start(API_NAME, FILE_NAME, logger);
+
+    // ==========================================================================
+    // Step 1: Resolve the tools
+    // ==========================================================================
+    const tools_result = resolve_tools(params.tools);
+
+    if (typeof tools_result === 'string') {
+      logger.error(tools_result, { file: FILE_NAME });
+      return {
+        ...build_error_response(LLM_ERROR_CODES.INVALID_REQUEST, tools_result),
+        tool_trace,
+        iterations,
+        messages,
+      };
+    }
+
+    const tools_by_name = tools_result;
+    const declarations: ToolDeclaration[] = Array.from(tools_by_name.values()).map(tool => ({
+      name: tool.name,
+      description: tool.description,
+      parameters: tool.parameters,
+    }));
+    const max_iterations = Math.max(1, params.max_iterations ?? DEFAULT_MAX_ITERATIONS);
+
+    // ==========================================================================
+    // Step 2: Resolve the prompt text and substitute variables
+    // ==========================================================================
+    const prompt_result = await resolve_prompt_text(params, store, logger, FILE_NAME, config.strict_variables);
+
+    if (!prompt_result.success) {
+      return { ...prompt_result.error_response, tool_trace, iterations, messages };
+    }
+
+    messages.push({ role: 'user', content: prompt_result.prompt_text });
+    const prompt_version = prompt_result.prompt_version;
+
+    // ==========================================================================
+    // Step 3: Model → tools → model loop
+    // ==========================================================================
+    // Later turns start with the provider that answered the previous turn
+    let active_llm = llm;
+
+    while (iterations < max_iterations) {
+      iterations++;
+
+      const call_params: ToolTurnParams = {
+        messages: [...messages],
+        tools: declarations,
+        system_instruction: params.system_instruction,
+        generation_overrides: params.generation_overrides,
+      };
+
+      const response = await call_provider_with_fallback(
+        {
+          llm: active_llm,
+          service_type: SERVICE_TYPES.TEXT_TEXT,
+          logger,
+          file_name: FILE_NAME,
+          required_feature: {
+            name: 'tool calling',
+            is_supported: (provider) => typeof provider.call_with_tools === 'function',
+          },
+          log_details: {
+            prompt_length: prompt_result.prompt_text.length,
+            tool_names: declarations.map(tool => tool.name),
+            iteration: iterations,
+            max_iterations,
+            llm_requested: llm || 'primary',
+          },
+        },
+        call_params,
+        (provider, signal) => (provider.call_with_tools as ToolCallMethod)({ ...call_params, signal }, logger),
+        params
+      );
+
+      active_llm = response.provider || active_llm;
+      usages.push(response.usage);
+      const usage = sum_usage(usages);
+
+      log_api_response(response, FILE_NAME, logger);
+
+      if (!response.success) {
+        log_api_complete(API_NAME, FILE_NAME, false, logger);
+        return { ...response, ...(usage && { usage }), tool_trace, iterations, messages, prompt_version };
+      }
+
+      const tool_calls: ToolCall[] = (response.tool_calls || []).map((call, index) => ({
+        ...call,
+        id: call.id || `call_${iterations}_${index + 1}`,
+      }));
+
+      // No tool calls - the model has produced its final answer
+      if (tool_calls.length === 0) {
+        messages.push({ role: 'assistant', content: response.text || '' });
+        log_api_complete(API_NAME, FILE_NAME, true, logger);
+
+        return { ...response, ...(usage && { usage }), tool_trace, iterations, messages, prompt_version };
+      }
+
+      messages.push({ role: 'assistant', content: response.text || '', tool_calls });
+
+      // Execute tools in the order the model requested them
+      for (const call of tool_calls) {
+        const invocation = await execute_tool(call, tools_by_name, iterations, logger);
+        tool_trace.push(invocation);
+
+        messages.push({
+          role: 'tool',
+          tool_call_id: call.id,
+          name: call.name,
+          content: serialize_tool_result(invocation),
+        });
+      }
+    }
+
+    // ==========================================================================
+    // Step 4: Loop limit reached while the model was still calling tools
+    // ==========================================================================
+    const error_msg = `Model was still requesting tools after ${max_iterations} iteration(s)`;
+    logger.error(error_msg, {
+      file: FILE_NAME,
+      data: { max_iterations, tool_invocations: tool_trace.length },
+    });
+    log_api_complete(API_NAME, FILE_NAME, false, logger);
+    const usage = sum_usage(usages);
+
+    return {
+      ...build_error_response(
+        LLM_ERROR_CODES.MAX_ITERATIONS_EXCEEDED,
+        error_msg,
+        false,
+        { max_iterations }
+      ),
+      ...(usage && { usage }),
+      tool_trace,
+      iterations,
+      messages,
+      prompt_version,
+    };
+  } catch (error) {
+    const usage = sum_usage(usages);
+    return {
+      ...handle_caught_error(error, 'hazo_llm_tool_call', FILE_NAME, logger),
+      ...(usage && { usage }),
+      tool_trace,
+      iterations,
+      messages,
+    };
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Resolve the tools for a call from names and inline definitions
+ *
+ * @param tools - Tool names and/or definitions (undefined = all registered tools)
+ * @returns Map of tools by name, or an error message
+ */
+function resolve_tools(
+  tools: ToolCallParams['tools']
+): Map<string, ToolDefinition> | string {
+  const candidates = tools === undefined ? get_registered_tools() : tools;
+  const tools_by_name = new Map<string, ToolDefinition>();
+
+  for (const entry of candidates) {
+    const tool = typeof entry === 'string' ? get_registered_tool(entry) : entry;
+
+    if (!tool) {
+      return `Tool "${entry}" is not registered`;
+    }
+
+    const validation_error = validate_tool_definition(tool);
+    if (validation_error) {
+      return validation_error;
+    }
+
+    if (tools_by_name.has(tool.name)) {
+      return `Tool "${tool.name}" is listed more than once`;
+    }
+
+    tools_by_name.set(tool.name, tool);
+  }
+
+  if (tools_by_name.size === 0) {
+    return 'At least one tool is required. Register tools with register_tool or pass them in params.tools';
+  }
+
+  return tools_by_name;
+}
+
+/**
+ * Execute a single tool call
+ * Never throws - failures are recorded in the invocation's error field.
+ *
+ * @param call - Tool call requested by the model
+ * @param tools_by_name - Tools available for this call
+ * @param iteration - Current loop iteration
+ * @param logger - Logger instance
+ * @returns Trace entry for the invocation
+ */
+async function execute_tool(
+  call: ToolCall,
+  tools_by_name: Map<string, ToolDefinition>,
+  iteration: number,
+  logger: Logger
+): Promise<ToolInvocation> {
+  const invocation: ToolInvocation = {
+    iteration,
+    id: call.id,
+    name: call.name,
+    arguments: call.arguments,
+    duration_ms: 0,
+  };
+
+  const tool = tools_by_name.get(call.name);
+
+  if (!tool) {
+    invocation.error = `Unknown tool "${call.name}". Available tools: ${Array.from(tools_by_name.keys()).join(', ')}`;
+    logger.warn('Model called an unknown tool', {
+      file: FILE_NAME,
+      data: { tool: call.name, iteration },
+    });
+    return invocation;
+  }
+
+  const validation_errors = validate_json_schema(call.arguments, tool.parameters);
+
+  if (validation_errors.length > 0) {
+    invocation.error = `Invalid arguments:\n${format_validation_errors(validation_errors)}`;
+    logger.warn('Tool call arguments did not match the parameters schema', {
+      file: FILE_NAME,
+      data: { tool: call.name, iteration, validation_errors },
+    });
+    return invocation;
+  }
+
+  const start_time = Date.now();
+
+  try {
+    invocation.result = await tool.handler(call.arguments);
+    invocation.duration_ms = Date.now() - start_time;
+
+    logger.debug('Tool executed', {
+      file: FILE_NAME,
+      data: { tool: call.name, iteration, duration_ms: invocation.duration_ms },
+    });
+  } catch (error) {
+    invocation.duration_ms = Date.now() - start_time;
+    invocation.error = error instanceof Error ? error.message : String(error);
+
+    logger.warn('Tool handler threw an error', {
+      file: FILE_NAME,
+      data: { tool: call.name, iteration, error: invocation.error },
+    });
+  }
+
+  return invocation;
+}
+
+/**
+ * Serialize a tool invocation result for the model
+ *
+ * @param invocation - Executed tool invocation
+ * @returns Result text: strings as-is, other values as JSON, errors as { error }
+ */
+function serialize_tool_result(invocation: ToolInvocation): string {
+  if (invocation.error !== undefined) {
+    return JSON.stringify({ error: invocation.error });
+  }
+  if (typeof invocation.result === 'string') {
+    return invocation.result;
+  }
+  return JSON.stringify(invocation.result ?? null);
+}
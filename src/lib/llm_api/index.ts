@@ -8,6 +8,9 @@
  * - hazo_llm_text_image: Text input → Image output
  * - hazo_llm_image_image: Image input → Image output
  * - hazo_llm_document_text: Document input → Text output (PDF analysis)
+ * - hazo_llm_chat: Multi-turn conversation → Text output
+ * - hazo_llm_structured: Text/Image input → Schema-validated JSON output
+ * - hazo_llm_tool_call: Text input + tools → Text output (model/tool loop)
  * - hazo_llm_text_image_text: Text → Image → Text (chained)
  * - hazo_llm_image_image_text: Images → Image → Text (chained)
  *
@@ -25,6 +28,12 @@ import type {
   TextImageParams,
   ImageImageParams,
   DocumentTextParams,
+  ChatParams,
+  ChatResponse,
+  StructuredParams,
+  StructuredResponse,
+  ToolCallParams,
+  ToolCallResponse,
   TextImageTextParams,
   ImageImageTextParams,
   PromptChainParams,
@@ -32,10 +41,36 @@ import type {
   DynamicDataExtractParams,
   DynamicDataExtractResponse,
   Logger,
+  LLMHooks,
   GeminiGenerationConfig,
+  RetryOptions,
+  TimeoutConfig,
+  ConfigReloadContext,
+  ConfigReloadResult,
+  PromptVariables,
+  RenderPromptOptions,
+  PromptRecord,
+  PromptVersionDiff,
+  PromptVersionInfo,
+  PromptVersionRecord,
 } from './types.js';
 import { LLM_ERROR_CODES } from './types.js';
-import { initialize_database, get_database } from '../database/init_database.js';
+import { call_on_config_reload_hook } from './provider_helper.js';
+import {
+  initialize_database,
+  reset_database,
+  close_database,
+  resolve_sqlite_path,
+  IN_MEMORY_SQLITE_PATH,
+  type DatabaseOptions,
+} from '../database/init_database.js';
+import {
+  create_client_scope,
+  get_client_scope,
+  run_in_client_scope,
+  get_scoped_state,
+  bind_stream_to_scope,
+} from './client_scope.js';
 import { hazo_llm_text_text as hazo_llm_text_text_internal } from './hazo_llm_text_text.js';
 import { hazo_llm_image_text as hazo_llm_image_text_internal } from './hazo_llm_image_text.js';
 import { hazo_llm_text_image as hazo_llm_text_image_internal } from './hazo_llm_text_image.js';
@@ -45,30 +80,68 @@ import { hazo_llm_image_image_text as hazo_llm_image_image_text_internal } from
 import { hazo_llm_prompt_chain as hazo_llm_prompt_chain_internal } from './hazo_llm_prompt_chain.js';
 import { hazo_llm_document_text as hazo_llm_document_text_internal } from './hazo_llm_document_text.js';
 import { hazo_llm_dynamic_data_extract as hazo_llm_dynamic_data_extract_internal } from './hazo_llm_dynamic_data_extract.js';
+import { hazo_llm_chat as hazo_llm_chat_internal } from './hazo_llm_chat.js';
+import { hazo_llm_structured as hazo_llm_structured_internal } from './hazo_llm_structured.js';
+import { hazo_llm_tool_call as hazo_llm_tool_call_internal } from './hazo_llm_tool_call.js';
+import { hazo_llm_text_text_stream as hazo_llm_text_text_stream_internal } from './hazo_llm_text_text_stream.js';
+import { hazo_llm_image_text_stream as hazo_llm_image_text_stream_internal } from './hazo_llm_image_text_stream.js';
 import { get_gemini_api_url } from '../providers/gemini/gemini_client.js';
+import { set_provider_pricing, parse_model_pricing } from './usage_helper.js';
+import { set_retry_policy, parse_retry_policy } from './retry_helper.js';
+import { set_timeout_config, parse_timeout_config } from './timeout_helper.js';
 import {
   register_provider,
   set_enabled_llms,
   set_primary_llm,
   get_primary_llm,
   get_registered_providers,
-  get_provider,
+  set_fallback_llms,
+  clear_fallback_llms,
+  clear_registry,
 } from '../providers/registry.js';
 import { GeminiProvider, type GeminiProviderConfig } from '../providers/gemini/index.js';
 import { QwenProvider, type QwenProviderConfig, type QwenGenerationConfig } from '../providers/qwen/index.js';
-import type { ServiceType, ProviderName } from '../providers/types.js';
-import { SERVICE_TYPES, LLM_PROVIDERS } from '../providers/types.js';
+import { openai_compatible_factory } from '../providers/openai_compatible/index.js';
+import { anthropic_factory } from '../providers/anthropic/index.js';
+import { register_provider_factory, load_provider_from_config } from '../config/provider_loader.js';
+import {
+  find_config_file,
+  load_config_sections,
+  to_config_section,
+  diff_config_sections,
+  type ConfigSections,
+} from '../config/config_parser.js';
+import { validate_config_sections, type ConfigValidationReport } from '../config/config_validator.js';
+import {
+  configure_prompt_cache,
+  clear_prompt_cache,
+  get_prompt_cache_stats,
+  type CacheStats,
+} from '../prompts/prompt_cache.js';
+import { get_prompt_store, set_prompt_store } from '../prompt_store/active_store.js';
+import { find_partial_dependents, type PartialDependent } from '../prompts/prompt_partials.js';
+import { build_prompt_version_diff } from '../prompts/prompt_versions.js';
+import { resolve_prompt_text } from './prompt_helper.js';
+import { create_prompt_store, is_prompt_store } from '../prompt_store/prompt_store_factory.js';
+import {
+  PROMPT_STORE_TYPES,
+  type PromptStore,
+  type PromptStoreConfig,
+} from '../prompt_store/types.js';
+import type { LLMProvider, ServiceType, ProviderName } from '../providers/types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as ini from 'ini';
 
 // =============================================================================
 // Module State
 // =============================================================================
 
-let initialized = false;
 let db_auto_initialized = false;
-let current_config: LLMApiConfig | null = null;
+
+// Providers loaded through the generic provider loader ([llm_<name>] provider_type=...)
+register_provider_factory(anthropic_factory);
+register_provider_factory(openai_compatible_factory);
 
 // =============================================================================
 // Default Logger
@@ -94,14 +167,57 @@ export const default_logger: Logger = {
 };
 
 /**
- * Stored logger instance - set during initialization
+ * Initialization state of one client (see client_scope.ts)
  */
-let stored_logger: Logger = default_logger;
+interface ApiState {
+  /** Whether initialization has completed */
+  initialized: boolean;
+
+  /** Configuration the client was initialized with */
+  current_config: LLMApiConfig | null;
+
+  /** Stored logger instance - set during initialization */
+  logger: Logger;
+
+  /** Stored hooks instance - set during initialization */
+  hooks: LLMHooks;
+
+  /** Config sections providers were last loaded from (null if not loaded from config) */
+  config_sections: ConfigSections | null;
+
+  /** Stops the config file watcher (null if not watching) */
+  stop_config_watcher: (() => void) | null;
+}
+
+const API_STATE_KEY = Symbol('llm_api');
 
 /**
- * Stored hooks instance - set during initialization
+ * Create the state of a client that is not yet initialized
+ * @returns Uninitialized API state
  */
-let stored_hooks: import('./types.js').LLMHooks = {};
+function create_api_state(): ApiState {
+  return {
+    initialized: false,
+    current_config: null,
+    logger: default_logger,
+    hooks: {},
+    config_sections: null,
+    stop_config_watcher: null,
+  };
+}
+
+/**
+ * State of the default instance (top-level functions)
+ */
+const default_api_state = create_api_state();
+
+/**
+ * Get the state of the active client
+ * @returns API state of the active client scope, or the default state
+ */
+function get_api_state(): ApiState {
+  return get_scoped_state(API_STATE_KEY, default_api_state, create_api_state);
+}
 
 /**
  * Get the current logger instance
@@ -118,7 +234,7 @@ let stored_hooks: import('./types.js').LLMHooks = {};
  * ```
  */
 export function get_logger(): Logger {
-  return stored_logger;
+  return get_api_state().logger;
 }
 
 /**
@@ -128,7 +244,7 @@ export function get_logger(): Logger {
  * @param logger - Logger instance to use
  */
 export function set_logger(logger: Logger): void {
-  stored_logger = logger;
+  get_api_state().logger = logger;
 }
 
 /**
@@ -136,8 +252,8 @@ export function set_logger(logger: Logger): void {
  *
  * @returns Current hooks configuration
  */
-export function get_hooks(): import('./types.js').LLMHooks {
-  return stored_hooks;
+export function get_hooks(): LLMHooks {
+  return get_api_state().hooks;
 }
 
 /**
@@ -146,8 +262,8 @@ export function get_hooks(): import('./types.js').LLMHooks {
  *
  * @param hooks - Hooks configuration to use
  */
-export function set_hooks(hooks: import('./types.js').LLMHooks): void {
-  stored_hooks = hooks;
+export function set_hooks(hooks: LLMHooks): void {
+  get_api_state().hooks = hooks;
 }
 
 // =============================================================================
@@ -155,58 +271,20 @@ export function set_hooks(hooks: import('./types.js').LLMHooks): void {
 // =============================================================================
 
 /**
- * Find the config file path
- * Searches in config/ subdirectory and parent directories
- * @returns The path to the config file or null if not found
- */
-function find_config_file(): string | null {
-  const config_filename = 'hazo_llm_api_config.ini';
-
-  // Search paths: config/ in current dir, parent dir, grandparent dir
-  const search_paths = [
-    path.join(process.cwd(), 'config', config_filename),
-    path.join(process.cwd(), '..', 'config', config_filename),
-    path.join(process.cwd(), '..', '..', 'config', config_filename),
-  ];
-  
-  for (const config_path of search_paths) {
-    try {
-      if (fs.existsSync(config_path)) {
-        return config_path;
-      }
-    } catch {
-      // Continue to next path
-    }
-  }
-  
-  return null;
-}
-
-/**
- * Read sqlite_path from hazo_llm_api_config.ini file
+ * Read sqlite_path from the [llm] section (config file or HAZO_LLM_SQLITE_PATH)
  * Searches in current directory and parent directories
  */
 function get_sqlite_path_from_config(): string {
   const default_path = 'prompt_library.sqlite';
-  
-  const config_path = find_config_file();
-  if (config_path) {
-    try {
-      const config_content = fs.readFileSync(config_path, 'utf-8');
-      const config = ini.parse(config_content);
-      const sqlite_path = config.llm?.sqlite_path;
-      
-      if (sqlite_path) {
-        default_logger.debug('Found sqlite_path in config', {
-          file: 'index.ts',
-          line: 137,
-          data: { config_path, sqlite_path },
-        });
-        return sqlite_path;
-      }
-    } catch {
-      // Use default
-    }
+  const sqlite_path = load_config_sections().llm?.sqlite_path;
+
+  if (sqlite_path) {
+    default_logger.debug('Found sqlite_path in config', {
+      file: 'index.ts',
+      line: 137,
+      data: { sqlite_path },
+    });
+    return sqlite_path;
   }
   
   default_logger.debug('Using default sqlite_path', {
@@ -454,6 +532,74 @@ function parse_enabled_llms(value: string | undefined): string[] {
   return [];
 }
 
+/**
+ * Fallback LLM lists from the [llm] section
+ */
+interface FallbackLLMConfig {
+  /** fallback_llms - used for every service type */
+  all: string[];
+  /** fallback_llms_<service_type> - overrides the list for one service type */
+  per_service: Partial<Record<ServiceType, string[]>>;
+}
+
+/**
+ * Parse fallback_llms and fallback_llms_<service_type> from the [llm] section
+ * Same formats as enabled_llms (comma-separated or JSON array).
+ *
+ * @param section - The parsed [llm] section
+ * @returns Fallback LLM lists
+ */
+function parse_fallback_llms(section: Record<string, string>): FallbackLLMConfig {
+  const config: FallbackLLMConfig = {
+    all: section.fallback_llms ? parse_enabled_llms(section.fallback_llms) : [],
+    per_service: {},
+  };
+
+  for (const service_type of Object.values(SERVICE_TYPES)) {
+    const value = section[`fallback_llms_${service_type}`];
+    if (value !== undefined) {
+      config.per_service[service_type] = value ? parse_enabled_llms(value) : [];
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Parse prompt_store, prompt_store_url and prompt_store_dir from the [llm] section
+ * @param section - The parsed [llm] section
+ * @returns Prompt store config (default: sqljs)
+ */
+function parse_prompt_store_config(section: Record<string, string>): PromptStoreConfig {
+  return {
+    type: (section.prompt_store || PROMPT_STORE_TYPES.SQLJS).toLowerCase(),
+    ...(section.prompt_store_url && { connection_string: section.prompt_store_url }),
+    ...(section.prompt_store_dir && { directory: section.prompt_store_dir }),
+  };
+}
+
+/**
+ * Parse sqlite_save_debounce_ms from the [llm] section
+ * An invalid value is ignored with a warning.
+ * @param section - The parsed [llm] section
+ * @param logger - Logger instance
+ * @returns Save delay in ms, or undefined when not set
+ */
+function parse_save_debounce_ms(section: Record<string, string>, logger: Logger): number | undefined {
+  if (section.sqlite_save_debounce_ms === undefined) {
+    return undefined;
+  }
+  const value = Number(section.sqlite_save_debounce_ms);
+  if (isNaN(value) || value < 0) {
+    logger.warn('Ignoring invalid sqlite_save_debounce_ms in config', {
+      file: 'index.ts (llm_api)',
+      data: { value: section.sqlite_save_debounce_ms },
+    });
+    return undefined;
+  }
+  return value;
+}
+
 /**
  * Load API key from environment variable
  * @param provider_name - Provider name (e.g., "gemini")
@@ -467,78 +613,60 @@ function load_api_key_from_env(provider_name: string): string | undefined {
 
 /**
  * Read LLM global config from [llm] section
- * @returns Object with enabled_llms and primary_llm
+ * @param sections - Effective config sections (config file, environment overrides, programmatic settings)
+ * @param logger - Logger for invalid setting warnings (default: default_logger)
+ * @returns Object with enabled_llms, primary_llm, sqlite_path, save debounce, prompt store, fallback LLMs, retry policy and timeouts
  */
-function get_llm_global_config(): {
+function get_llm_global_config(sections: ConfigSections, logger: Logger = default_logger): {
   enabled_llms: string[];
   primary_llm: string;
   sqlite_path: string;
+  sqlite_save_debounce_ms: number | undefined;
+  prompt_store: PromptStoreConfig;
+  fallback_llms: FallbackLLMConfig;
+  retry: RetryOptions;
+  timeout: Partial<TimeoutConfig>;
 } {
-  const config_path = find_config_file();
   const default_enabled = ['gemini'];
   const default_primary = 'gemini';
   const default_sqlite = 'prompt_library.sqlite';
+  const llm_section = sections.llm || {};
   
-  if (!config_path) {
-    return {
-      enabled_llms: default_enabled,
-      primary_llm: default_primary,
-      sqlite_path: default_sqlite,
-    };
-  }
+  const enabled_llms = parse_enabled_llms(llm_section.enabled_llms);
+  const primary_llm = llm_section.primary_llm || default_primary;
+  const sqlite_path = llm_section.sqlite_path || default_sqlite;
   
-  try {
-    const config_content = fs.readFileSync(config_path, 'utf-8');
-    const config = ini.parse(config_content);
-    const llm_section = config.llm || {};
-    
-    const enabled_llms = parse_enabled_llms(llm_section.enabled_llms);
-    const primary_llm = llm_section.primary_llm || default_primary;
-    const sqlite_path = llm_section.sqlite_path || default_sqlite;
-    
-    return {
-      enabled_llms: enabled_llms.length > 0 ? enabled_llms : default_enabled,
-      primary_llm,
-      sqlite_path,
-    };
-  } catch {
-    return {
-      enabled_llms: default_enabled,
-      primary_llm: default_primary,
-      sqlite_path: default_sqlite,
-    };
-  }
+  return {
+    enabled_llms: enabled_llms.length > 0 ? enabled_llms : default_enabled,
+    primary_llm,
+    sqlite_path,
+    sqlite_save_debounce_ms: parse_save_debounce_ms(llm_section, logger),
+    prompt_store: parse_prompt_store_config(llm_section),
+    fallback_llms: parse_fallback_llms(llm_section),
+    retry: parse_retry_policy(llm_section, logger),
+    timeout: parse_timeout_config(llm_section, logger),
+  };
 }
 
 /**
  * Load and initialize Gemini provider from config
  * @param logger - Logger instance
+ * @param sections - Effective config sections ([llm_gemini] from the file, environment or LLMApiConfig.providers)
  * @returns GeminiProvider instance or null if config invalid
  */
-function load_gemini_provider_from_config(logger: Logger): GeminiProvider | null {
-  const config_path = find_config_file();
-  if (!config_path) {
-    logger.warn('Config file not found, cannot load Gemini provider', {
-      file: 'index.ts',
-      line: 340,
-    });
-    return null;
-  }
-
+function load_gemini_provider_from_config(logger: Logger, sections: ConfigSections): GeminiProvider | null {
   try {
-    const config_content = fs.readFileSync(config_path, 'utf-8');
-    const config = ini.parse(config_content);
-    const gemini_section = config.llm_gemini || {};
+    const gemini_section = sections.llm_gemini || {};
 
-    // Support custom env var name via api_key_env config option
+    // API key set programmatically, or from the env var named by api_key_env
     const env_var_name = gemini_section.api_key_env || 'GEMINI_API_KEY';
-    const api_key = process.env[env_var_name];
+    const api_key = gemini_section.api_key || process.env[env_var_name];
 
     if (!api_key) {
       logger.error(`${env_var_name} not found in environment variables`, {
         file: 'index.ts',
         line: 352,
-        data: { config_path, env_var_name },
+        data: { env_var_name },
       });
       return null;
     }
@@ -571,7 +699,7 @@ function load_gemini_provider_from_config(logger: Logger): GeminiProvider | null
     logger.error('Failed to load Gemini provider from config', {
       file: 'index.ts',
       line: 378,
-      data: { error: error_message, config_path },
+      data: { error: error_message },
     });
     return null;
   }
@@ -693,32 +821,22 @@ function parse_prefixed_qwen_generation_config(
 /**
  * Load and initialize Qwen provider from config
  * @param logger - Logger instance
+ * @param sections - Effective config sections ([llm_qwen] from the file, environment or LLMApiConfig.providers)
  * @returns QwenProvider instance or null if config invalid
  */
-function load_qwen_provider_from_config(logger: Logger): QwenProvider | null {
-  const config_path = find_config_file();
-  if (!config_path) {
-    logger.warn('Config file not found, cannot load Qwen provider', {
-      file: 'index.ts',
-      line: 500,
-    });
-    return null;
-  }
-
+function load_qwen_provider_from_config(logger: Logger, sections: ConfigSections): QwenProvider | null {
   try {
-    const config_content = fs.readFileSync(config_path, 'utf-8');
-    const config = ini.parse(config_content);
-    const qwen_section = config.llm_qwen || {};
+    const qwen_section = sections.llm_qwen || {};
 
-    // Support custom env var name via api_key_env config option
+    // API key set programmatically, or from the env var named by api_key_env
     const env_var_name = qwen_section.api_key_env || 'QWEN_API_KEY';
-    const api_key = process.env[env_var_name];
+    const api_key = qwen_section.api_key || process.env[env_var_name];
 
     if (!api_key) {
       logger.error(`${env_var_name} not found in environment variables`, {
         file: 'index.ts',
         line: 512,
-        data: { config_path, env_var_name },
+        data: { env_var_name },
       });
       return null;
     }
@@ -754,45 +872,139 @@ function load_qwen_provider_from_config(logger: Logger): QwenProvider | null {
     logger.error('Failed to load Qwen provider from config', {
       file: 'index.ts',
       line: 543,
-      data: { error: error_message, config_path },
+      data: { error: error_message },
     });
     return null;
   }
 }
 
 /**
- * Load and register all enabled providers from config file
+ * Build the effective config sections for initialization
+ * LLMApiConfig.providers become [llm_<name>] sections and enabled_llms /
+ * primary_llm go to [llm], overriding the config file and HAZO_LLM_* variables.
+ * When providers are given without enabled_llms, exactly those providers are
+ * enabled; without primary_llm the first enabled one is primary unless the
+ * configured primary is among them.
+ *
+ * @param config - LLM API configuration
+ * @returns Effective config sections
+ */
+function load_api_config_sections(config: LLMApiConfig): ConfigSections {
+  const overrides: ConfigSections = {};
+
+  for (const [name, settings] of Object.entries(config.providers || {})) {
+    overrides[`llm_${name.toLowerCase()}`] = to_config_section(settings);
+  }
+
+  const enabled_llms = config.enabled_llms ?? (config.providers ? Object.keys(config.providers) : undefined);
+  const llm_overrides: Record<string, string> = {};
+  if (enabled_llms && enabled_llms.length > 0) {
+    llm_overrides.enabled_llms = JSON.stringify(enabled_llms);
+  }
+  if (config.primary_llm) {
+    llm_overrides.primary_llm = config.primary_llm;
+  }
+  overrides.llm = llm_overrides;
+
+  const sections = load_config_sections(overrides);
+
+  // Keep the primary LLM within a programmatic enabled list
+  if (!config.primary_llm && enabled_llms && enabled_llms.length > 0) {
+    const configured_primary = sections.llm?.primary_llm?.toLowerCase();
+    const enabled_lower = enabled_llms.map(name => name.toLowerCase());
+    if (!configured_primary || !enabled_lower.includes(configured_primary)) {
+      sections.llm = { ...sections.llm, primary_llm: enabled_lower[0] };
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Validate the effective config sections of an LLMApiConfig
+ * @param config - LLM API configuration (sqlite_path overrides [llm] sqlite_path,
+ *                 prompt_store overrides the [llm] prompt_store keys)
+ * @param sections - Effective config sections built from the configuration
+ * @returns Validation report
+ */
+function validate_api_config_sections(config: LLMApiConfig, sections: ConfigSections): ConfigValidationReport {
+  let effective_sections = sections;
+  if (config.prompt_store) {
+    const { prompt_store: _type, prompt_store_url: _url, prompt_store_dir: _dir, ...llm_section } = sections.llm || {};
+    effective_sections = { ...sections, llm: llm_section };
+  }
+
+  const global_config = get_llm_global_config(effective_sections);
+  const prompt_store = config.prompt_store || global_config.prompt_store;
+  const uses_sqlite = !is_prompt_store(prompt_store) && prompt_store.type === PROMPT_STORE_TYPES.SQLJS;
+  const sqlite_path = config.sqlite_path || global_config.sqlite_path;
+
+  return validate_config_sections(effective_sections, {
+    sqlite_path: !uses_sqlite || sqlite_path === IN_MEMORY_SQLITE_PATH ? undefined : resolve_sqlite_path(sqlite_path),
+  });
+}
+
+/**
+ * Validate the LLM API configuration without initializing
+ * Checks the same settings initialize_llm_api would use (config file,
+ * HAZO_LLM_* variables and the given programmatic settings) and reports
+ * unknown keys, invalid or out-of-range values, missing API keys and models,
+ * a primary LLM that is not enabled and an unwritable database path.
+ *
+ * @param config - Configuration to validate (same as for initialize_llm_api)
+ * @returns Report with errors and warnings
+ *
+ * @example
+ * ```typescript
+ * const report = validate_llm_config();
+ * if (!report.valid) {
+ *   report.errors.forEach(issue => console.error(`[${issue.section}] ${issue.message}`));
+ * }
+ * ```
+ */
+export function validate_llm_config(config: LLMApiConfig = {}): ConfigValidationReport {
+  return validate_api_config_sections(config, load_api_config_sections(config));
+}
+
+/**
+ * Global settings and provider instances built from config sections
+ */
+interface LoadedProviders {
+  /** Parsed [llm] settings */
+  global_config: ReturnType<typeof get_llm_global_config>;
+
+  /** Providers that loaded successfully, with the section they were loaded from */
+  providers: Array<{ provider: LLMProvider; section: Record<string, string> }>;
+}
+
+/**
+ * Build all enabled providers from config without registering them
  * @param logger - Logger instance
+ * @param sections - Effective config sections
+ * @returns Global settings and the providers that loaded
  */
-function load_and_register_providers(logger: Logger): void {
-  const global_config = get_llm_global_config();
-  
-  // Set enabled LLMs and primary LLM in registry
-  set_enabled_llms(global_config.enabled_llms);
-  set_primary_llm(global_config.primary_llm);
-  
+function load_providers(logger: Logger, sections: ConfigSections): LoadedProviders {
+  const global_config = get_llm_global_config(sections, logger);
+  const providers: LoadedProviders['providers'] = [];
+
   logger.info('Loading LLM providers from config', {
     file: 'index.ts',
     line: 395,
     data: {
       enabled_llms: global_config.enabled_llms,
       primary_llm: global_config.primary_llm,
+      fallback_llms: global_config.fallback_llms,
+      retry_policy: global_config.retry,
+      timeouts: global_config.timeout,
     },
   });
   
   // Load each enabled provider
   for (const llm_name of global_config.enabled_llms) {
     if (llm_name.toLowerCase() === 'gemini') {
-      const provider = load_gemini_provider_from_config(logger);
+      const provider = load_gemini_provider_from_config(logger, sections);
       if (provider) {
-        register_provider(provider);
-        logger.info('Registered Gemini provider', {
-          file: 'index.ts',
-          line: 636,
-          data: {
-            capabilities: Array.from(provider.get_capabilities()),
-          },
-        });
+        providers.push({ provider, section: sections.llm_gemini || {} });
       } else {
         logger.warn('Gemini provider is enabled in config but failed to load. Check GEMINI_API_KEY in environment variables.', {
           file: 'index.ts',
@@ -801,16 +1013,9 @@ function load_and_register_providers(logger: Logger): void {
         });
       }
     } else if (llm_name.toLowerCase() === 'qwen') {
-      const provider = load_qwen_provider_from_config(logger);
+      const provider = load_qwen_provider_from_config(logger, sections);
       if (provider) {
-        register_provider(provider);
-        logger.info('Registered Qwen provider', {
-          file: 'index.ts',
-          line: 646,
-          data: {
-            capabilities: Array.from(provider.get_capabilities()),
-          },
-        });
+        providers.push({ provider, section: sections.llm_qwen || {} });
       } else {
         logger.warn('Qwen provider is enabled in config but failed to load. Check QWEN_API_KEY in environment variables.', {
           file: 'index.ts',
@@ -818,9 +1023,74 @@ function load_and_register_providers(logger: Logger): void {
           data: { llm_name: llm_name.toLowerCase() },
         });
       }
+    } else {
+      // Any other name is loaded through its registered factory
+      // (e.g., [llm_ollama] with provider_type=openai_compatible)
+      const result = load_provider_from_config(llm_name, logger, sections);
+      if (result.success) {
+        providers.push({ provider: result.provider, section: result.section });
+      } else {
+        logger.warn(`${llm_name} provider is enabled in config but failed to load`, {
+          file: 'index.ts',
+          data: { llm_name: llm_name.toLowerCase(), error: result.error },
+        });
+      }
     }
-    // Future: Add other providers here (OpenAI, Anthropic, etc.)
   }
+
+  return { global_config, providers };
+}
+
+/**
+ * Register loaded providers and apply the [llm] settings
+ * Runs synchronously, so a call sees either the previous or the new
+ * configuration. Calls already in flight keep the provider instance they
+ * started with. Providers that failed to load keep their previous instance.
+ *
+ * @param logger - Logger instance
+ * @param loaded - Result of load_providers
+ */
+function apply_loaded_providers(logger: Logger, loaded: LoadedProviders): void {
+  const { global_config } = loaded;
+
+  // Set enabled LLMs and primary LLM in registry
+  set_enabled_llms(global_config.enabled_llms);
+  set_primary_llm(global_config.primary_llm);
+  clear_fallback_llms();
+  set_fallback_llms(global_config.fallback_llms.all);
+  for (const [service_type, names] of Object.entries(global_config.fallback_llms.per_service)) {
+    set_fallback_llms(names, service_type as ServiceType);
+  }
+
+  // Default retry policy for all provider calls
+  set_retry_policy(global_config.retry);
+
+  // Default timeouts for all provider calls
+  set_timeout_config(global_config.timeout);
+
+  for (const { provider, section } of loaded.providers) {
+    register_provider(provider);
+
+    // Per-model prices for cost estimation (price_<model>=...)
+    set_provider_pricing(provider.get_name(), parse_model_pricing(section, logger));
+
+    logger.info(`Registered ${provider.get_name()} provider`, {
+      file: 'index.ts',
+      line: 636,
+      data: {
+        capabilities: Array.from(provider.get_capabilities()),
+      },
+    });
+  }
+}
+
+/**
+ * Load and register all enabled providers from config
+ * @param logger - Logger instance
+ * @param sections - Effective config sections
+ */
+function load_and_register_providers(logger: Logger, sections: ConfigSections): void {
+  apply_loaded_providers(logger, load_providers(logger, sections));
 }
 
 // =============================================================================
@@ -839,7 +1109,18 @@ async function auto_initialize_database(): Promise<void> {
   const file_name = 'index.ts (llm_api)';
   
   try {
+    // Prompts live elsewhere: no sql.js database to open
+    const prompt_store_type = parse_prompt_store_config(load_config_sections().llm || {}).type;
+    if (prompt_store_type !== PROMPT_STORE_TYPES.SQLJS) {
+      default_logger.debug('Skipping database auto-initialization', {
+        file: file_name,
+        data: { prompt_store: prompt_store_type },
+      });
+      return;
+    }
+
     const sqlite_path = get_sqlite_path_from_config();
+    const save_debounce_ms = parse_save_debounce_ms(load_config_sections().llm || {}, default_logger);
     
     default_logger.info('Auto-initializing database on module import', {
       file: file_name,
@@ -847,7 +1128,7 @@ async function auto_initialize_database(): Promise<void> {
       data: { sqlite_path },
     });
     
-    await initialize_database(sqlite_path, default_logger);
+    await initialize_database(sqlite_path, default_logger, { save_debounce_ms });
     db_auto_initialized = true;
     
     default_logger.info('Database auto-initialized successfully', {
@@ -867,8 +1148,8 @@ async function auto_initialize_database(): Promise<void> {
 }
 
 // Trigger auto-initialization when module is imported
-// Using void to handle the promise without blocking
-void auto_initialize_database();
+// The promise is kept (not awaited) so later initialization can wait for it
+const auto_initialization = auto_initialize_database();
 
 // =============================================================================
 // Initialization Function
@@ -907,14 +1188,37 @@ export async function initialize_llm_api(config: LLMApiConfig = {}): Promise<LLM
     set_hooks(config.hooks);
   }
 
-  // Get global config from file
-  const global_config = get_llm_global_config();
+  // Config file, HAZO_LLM_* overrides and programmatic settings
+  const sections = load_api_config_sections(config);
+  const global_config = get_llm_global_config(sections);
+
+  // Strict mode: refuse to start with an invalid configuration
+  if (config.strict_config) {
+    const report = validate_api_config_sections(config, sections);
+    for (const warning of report.warnings) {
+      logger.warn(warning.message, {
+        file: file_name,
+        data: { code: warning.code, section: warning.section, key: warning.key },
+      });
+    }
 
-  // Use provided sqlite_path or fall back to config file value
+    if (!report.valid) {
+      const error_msg = `Invalid LLM API configuration: ${report.errors.map(issue => issue.message).join('; ')}`;
+      logger.error('Config validation failed (strict_config)', {
+        file: file_name,
+        data: { errors: report.errors },
+      });
+      throw new Error(error_msg);
+    }
+  }
+
+  // Use provided sqlite_path / prompt_store or fall back to config file values
   const sqlite_path = config.sqlite_path || global_config.sqlite_path;
+  const save_debounce_ms = config.sqlite_save_debounce_ms ?? global_config.sqlite_save_debounce_ms;
+  const prompt_store = config.prompt_store || global_config.prompt_store;
 
-  // Load and register providers from config file
-  load_and_register_providers(logger);
+  // Load and register providers
+  load_and_register_providers(logger, sections);
 
   // Validate that primary_llm is enabled
   const primary_llm_name = get_primary_llm();
@@ -932,6 +1236,7 @@ export async function initialize_llm_api(config: LLMApiConfig = {}): Promise<LLM
     line: 620,
     data: {
       sqlite_path,
+      prompt_store: prompt_store.type,
       enabled_llms: global_config.enabled_llms,
       primary_llm: primary_llm_name,
     },
@@ -941,14 +1246,27 @@ export async function initialize_llm_api(config: LLMApiConfig = {}): Promise<LLM
   const final_config: LLMApiConfig = {
     logger,
     sqlite_path,
+    sqlite_save_debounce_ms: config.sqlite_save_debounce_ms,
     hooks: config.hooks,
+    providers: config.providers,
+    enabled_llms: config.enabled_llms,
+    primary_llm: config.primary_llm,
+    strict_config: config.strict_config,
+    strict_variables: config.strict_variables,
+    watch_config: config.watch_config,
+    prompt_cache: config.prompt_cache,
+    prompt_store: config.prompt_store,
   };
 
-  // Initialize the database (async)
+  // Open the prompt store (the sql.js database by default)
   try {
-    await initialize_database(sqlite_path, logger);
-    initialized = true;
-    current_config = final_config;
+    await open_prompt_store(prompt_store, sqlite_path, { save_debounce_ms }, logger);
+    // Fresh prompt cache: entries of a previously opened database must not be served
+    configure_prompt_cache(config.prompt_cache || {});
+    const state = get_api_state();
+    state.initialized = true;
+    state.current_config = final_config;
+    state.config_sections = sections;
 
     logger.info('LLM API initialized successfully', {
       file: file_name,
@@ -967,43 +1285,435 @@ export async function initialize_llm_api(config: LLMApiConfig = {}): Promise<LLM
     });
     throw error;
   }
+
+  // Reload providers when the config file changes (opt-in)
+  stop_config_watcher();
+  if (config.watch_config) {
+    start_config_watcher(logger);
+  }
   
-  // Create and return the client instance
+  return create_llm_api_client(final_config);
+}
+
+/**
+ * Open the prompt store of the active client
+ * sql.js (the default) opens the database at sqlite_path; other stores are
+ * created from their config (or used as given), initialized and made active.
+ *
+ * @param prompt_store - Store instance or config
+ * @param sqlite_path - Database path for the sql.js store
+ * @param database_options - Save options for the sql.js store
+ * @param logger - Logger instance
+ */
+async function open_prompt_store(
+  prompt_store: PromptStore | PromptStoreConfig,
+  sqlite_path: string,
+  database_options: DatabaseOptions,
+  logger: Logger
+): Promise<void> {
+  if (!is_prompt_store(prompt_store) && prompt_store.type === PROMPT_STORE_TYPES.SQLJS) {
+    await set_prompt_store(null, logger);
+    await initialize_database(sqlite_path, logger, database_options);
+    return;
+  }
+
+  const store = is_prompt_store(prompt_store) ? prompt_store : create_prompt_store(prompt_store);
+  await store.initialize(logger);
+  await set_prompt_store(store, logger);
+}
+
+/**
+ * Create the client object returned by initialize_llm_api and create_llm_client
+ * The client is bound to the client scope active when it is created (none for
+ * the default instance), so its methods always use that client's state.
+ *
+ * @param final_config - The resolved LLM API configuration
+ * @returns Client whose methods call the module-level functions in its scope
+ */
+function create_llm_api_client(final_config: LLMApiConfig): LLMApiClient {
+  const scope = get_client_scope();
+  const in_scope = <T>(fn: () => T): T => run_in_client_scope(scope, fn);
+
   const client: LLMApiClient = {
     config: final_config,
-    db_initialized: initialized,
+    db_initialized: get_api_state().initialized,
     hazo_llm_text_text: async (params: TextTextParams, llm?: ProviderName): Promise<LLMResponse> => {
-      return hazo_llm_text_text(params, llm);
+      return in_scope(() => hazo_llm_text_text(params, llm));
     },
     hazo_llm_image_text: async (params: ImageTextParams, llm?: ProviderName): Promise<LLMResponse> => {
-      return hazo_llm_image_text(params, llm);
+      return in_scope(() => hazo_llm_image_text(params, llm));
     },
     hazo_llm_text_image: async (params: TextImageParams, llm?: ProviderName): Promise<LLMResponse> => {
-      return hazo_llm_text_image(params, llm);
+      return in_scope(() => hazo_llm_text_image(params, llm));
     },
     hazo_llm_image_image: async (params: ImageImageParams, llm?: ProviderName): Promise<LLMResponse> => {
-      return hazo_llm_image_image(params, llm);
+      return in_scope(() => hazo_llm_image_image(params, llm));
     },
     hazo_llm_text_image_text: async (params: TextImageTextParams, llm?: ProviderName): Promise<LLMResponse> => {
-      return hazo_llm_text_image_text(params, llm);
+      return in_scope(() => hazo_llm_text_image_text(params, llm));
     },
     hazo_llm_image_image_text: async (params: ImageImageTextParams, llm?: ProviderName): Promise<LLMResponse> => {
-      return hazo_llm_image_image_text(params, llm);
+      return in_scope(() => hazo_llm_image_image_text(params, llm));
     },
     hazo_llm_document_text: async (params: DocumentTextParams, llm?: ProviderName): Promise<LLMResponse> => {
-      return hazo_llm_document_text(params, llm);
+      return in_scope(() => hazo_llm_document_text(params, llm));
+    },
+    hazo_llm_chat: async (params: ChatParams, llm?: ProviderName): Promise<ChatResponse> => {
+      return in_scope(() => hazo_llm_chat(params, llm));
+    },
+    hazo_llm_structured: async <T = unknown>(params: StructuredParams, llm?: ProviderName): Promise<StructuredResponse<T>> => {
+      return in_scope(() => hazo_llm_structured<T>(params, llm));
+    },
+    hazo_llm_tool_call: async (params: ToolCallParams, llm?: ProviderName): Promise<ToolCallResponse> => {
+      return in_scope(() => hazo_llm_tool_call(params, llm));
     },
     hazo_llm_prompt_chain: async (params: PromptChainParams, llm?: ProviderName): Promise<PromptChainResponse> => {
-      return hazo_llm_prompt_chain(params, llm);
+      return in_scope(() => hazo_llm_prompt_chain(params, llm));
     },
     hazo_llm_dynamic_data_extract: async (params: DynamicDataExtractParams, llm?: ProviderName): Promise<DynamicDataExtractResponse> => {
-      return hazo_llm_dynamic_data_extract(params, llm);
+      return in_scope(() => hazo_llm_dynamic_data_extract(params, llm));
+    },
+    hazo_llm_text_text_stream: (params: TextTextParams, llm?: ProviderName): LLMStreamResponse => {
+      return bind_stream_to_scope(scope, hazo_llm_text_text_stream(params, llm));
+    },
+    hazo_llm_image_text_stream: (params: ImageTextParams, llm?: ProviderName): LLMStreamResponse => {
+      return bind_stream_to_scope(scope, hazo_llm_image_text_stream(params, llm));
+    },
+    run: in_scope,
+    reload_llm_config: async (): Promise<ConfigReloadResult> => {
+      return in_scope(() => reload_llm_config());
+    },
+    get_prompt_cache_stats: (): CacheStats => {
+      return in_scope(() => get_prompt_cache_stats());
+    },
+    get_prompt_store: (): PromptStore | null => {
+      return in_scope(() => get_prompt_store());
+    },
+    render_prompt: async (
+      prompt_area: string,
+      prompt_key: string,
+      prompt_variables?: PromptVariables,
+      options?: RenderPromptOptions
+    ): Promise<string> => {
+      return in_scope(() => render_prompt(prompt_area, prompt_key, prompt_variables, options));
+    },
+    get_partial_dependents: async (prompt_area: string, prompt_key: string): Promise<PartialDependent[]> => {
+      return in_scope(() => get_partial_dependents(prompt_area, prompt_key));
+    },
+    get_prompt_versions: async (prompt_id: string): Promise<PromptVersionRecord[]> => {
+      return in_scope(() => get_prompt_versions(prompt_id));
+    },
+    compare_prompt_versions: async (
+      prompt_id: string,
+      from_version: number,
+      to_version: number
+    ): Promise<PromptVersionDiff | null> => {
+      return in_scope(() => compare_prompt_versions(prompt_id, from_version, to_version));
+    },
+    restore_prompt_version: async (
+      prompt_id: string,
+      version: number,
+      version_info?: PromptVersionInfo
+    ): Promise<PromptRecord | null> => {
+      return in_scope(() => restore_prompt_version(prompt_id, version, version_info));
+    },
+    close: (): void => {
+      in_scope(() => {
+        stop_config_watcher();
+        clear_prompt_cache();
+        // Not awaited: connections of the store are released in the background
+        void set_prompt_store(null, get_logger());
+        close_database(get_logger());
+        get_api_state().initialized = false;
+      });
     },
   };
 
   return client;
 }
 
+/**
+ * Create an isolated LLM API client
+ * The client has its own provider registry, database handle, prompt cache,
+ * tools, retry policy, timeouts, logger and hooks, so one process can hold
+ * several configurations (e.g. one per tenant). Providers and settings are
+ * loaded from the config file as in initialize_llm_api. The top-level
+ * functions keep using the default instance and are not affected.
+ *
+ * @param config - Configuration options for the client (use a separate sqlite_path per client)
+ * @returns Initialized, isolated LLM API client
+ *
+ * @example
+ * ```typescript
+ * const tenant_a = await create_llm_client({ sqlite_path: 'data/tenant_a.sqlite', logger: logger_a });
+ * const tenant_b = await create_llm_client({ sqlite_path: 'data/tenant_b.sqlite', hooks: hooks_b });
+ *
+ * const response = await tenant_a.hazo_llm_text_text({ prompt_area: 'support', prompt_key: 'reply' });
+ *
+ * // Other module functions (prompt CRUD, tools, registry) act on the client inside run()
+ * tenant_b.run(() => register_tool(lookup_order_tool));
+ * ```
+ */
+export async function create_llm_client(config: LLMApiConfig = {}): Promise<LLMApiClient> {
+  const scope = create_client_scope();
+  return run_in_client_scope(scope, () => initialize_llm_api(config));
+}
+
+/**
+ * Initialize the LLM API with provider instances instead of the config file
+ * The config file is not read: only the given providers are registered and
+ * enabled, fallback is off, and the retry policy and timeouts use their
+ * defaults. Any previously opened database is closed without saving and
+ * replaced. Used by the testing entry point (hazo_llm_api/testing).
+ *
+ * @param providers - Provider instances to register
+ * @param config - Configuration options (sqlite_path defaults to an in-memory database)
+ * @param primary_llm - Primary LLM name (default: the first provider)
+ * @returns LLM API client instance
+ *
+ * @example
+ * ```typescript
+ * const client = await initialize_llm_api_with_providers([new MockProvider()]);
+ * const response = await client.hazo_llm_text_text({ prompt: 'Hello' });
+ * ```
+ */
+export async function initialize_llm_api_with_providers(
+  providers: LLMProvider[],
+  config: LLMApiConfig = {},
+  primary_llm?: string
+): Promise<LLMApiClient> {
+  const file_name = 'index.ts (llm_api)';
+  const logger = config.logger || default_logger;
+
+  if (providers.length === 0) {
+    throw new Error('initialize_llm_api_with_providers requires at least one provider');
+  }
+
+  set_logger(logger);
+  set_hooks(config.hooks || {});
+
+  // Register only the given providers
+  clear_registry();
+  for (const provider of providers) {
+    register_provider(provider);
+  }
+  set_enabled_llms(providers.map(provider => provider.get_name()));
+  set_primary_llm(primary_llm || providers[0].get_name());
+  set_retry_policy({});
+  set_timeout_config({});
+
+  const sqlite_path = config.sqlite_path || IN_MEMORY_SQLITE_PATH;
+  const final_config: LLMApiConfig = {
+    logger,
+    sqlite_path,
+    sqlite_save_debounce_ms: config.sqlite_save_debounce_ms,
+    hooks: config.hooks,
+    strict_variables: config.strict_variables,
+    prompt_cache: config.prompt_cache,
+    prompt_store: config.prompt_store,
+  };
+
+  // Replace the database opened on import (or by an earlier initialization)
+  await auto_initialization;
+  reset_database(logger);
+  await open_prompt_store(
+    config.prompt_store || { type: PROMPT_STORE_TYPES.SQLJS },
+    sqlite_path,
+    { save_debounce_ms: config.sqlite_save_debounce_ms },
+    logger
+  );
+  configure_prompt_cache(config.prompt_cache || {});
+  const state = get_api_state();
+  state.initialized = true;
+  state.current_config = final_config;
+  state.config_sections = null;
+  stop_config_watcher();
+
+  logger.info('LLM API initialized with provider instances', {
+    file: file_name,
+    data: {
+      sqlite_path,
+      primary_llm: get_primary_llm(),
+      registered_providers: get_registered_providers(),
+    },
+  });
+
+  return create_llm_api_client(final_config);
+}
+
+// =============================================================================
+// Config Reload
+// =============================================================================
+
+/** Delay after the last config file change before reloading (editors write in several steps) */
+const CONFIG_WATCH_DEBOUNCE_MS = 200;
+
+/**
+ * Re-read the configuration and swap the providers
+ * Re-parses the config file and HAZO_LLM_* variables (programmatic settings
+ * from initialization still take precedence), builds the new providers and
+ * then swaps them in one synchronous step: calls already in flight finish with
+ * the provider they started with, later calls use the new one. A provider that
+ * fails to load keeps its previous instance. sqlite_path changes are not
+ * applied until the next initialization.
+ *
+ * The onConfigReload hook is called when [llm] or [llm_<provider>] values changed.
+ * With strict_config, a configuration with validation errors is rejected.
+ *
+ * @returns Reload result with the changed values
+ *
+ * @example
+ * ```typescript
+ * const result = await reload_llm_config();
+ * if (result.success) {
+ *   console.log(`${result.changes.length} config values changed`);
+ * }
+ * ```
+ */
+export async function reload_llm_config(): Promise<ConfigReloadResult> {
+  return reload_config('manual');
+}
+
+/**
+ * Reload the configuration of the active client
+ * @param trigger - What started the reload
+ * @returns Reload result with the changed values
+ */
+async function reload_config(trigger: ConfigReloadContext['trigger']): Promise<ConfigReloadResult> {
+  const file_name = 'index.ts (llm_api)';
+  const state = get_api_state();
+
+  if (!state.initialized || !state.current_config) {
+    return { success: false, changes: [], error: 'LLM API not initialized. Call initialize_llm_api first.' };
+  }
+  if (!state.config_sections) {
+    return {
+      success: false,
+      changes: [],
+      error: 'Providers were not loaded from config (initialize_llm_api_with_providers); nothing to reload.',
+    };
+  }
+
+  const config = state.current_config;
+  const logger = get_logger();
+
+  try {
+    const sections = load_api_config_sections(config);
+
+    if (config.strict_config) {
+      const report = validate_api_config_sections(config, sections);
+      if (!report.valid) {
+        logger.error('Config reload rejected: configuration has errors (strict_config)', {
+          file: file_name,
+          data: { trigger, errors: report.errors },
+        });
+        return {
+          success: false,
+          changes: [],
+          error: `Invalid LLM API configuration: ${report.errors.map(issue => issue.message).join('; ')}`,
+        };
+      }
+    }
+
+    const changes = diff_config_sections(state.config_sections, sections)
+      .filter(change => change.section === 'llm' || change.section.startsWith('llm_'));
+    if (changes.length === 0) {
+      logger.debug('Config reload found no changes', { file: file_name, data: { trigger } });
+      return { success: true, changes };
+    }
+
+    // Build everything first, then swap in one synchronous step
+    const loaded = load_providers(logger, sections);
+    apply_loaded_providers(logger, loaded);
+    state.config_sections = sections;
+
+    logger.info('LLM config reloaded', {
+      file: file_name,
+      data: { trigger, changes, registered_providers: get_registered_providers() },
+    });
+
+    await call_on_config_reload_hook({
+      changes,
+      providers: get_registered_providers(),
+      trigger,
+      timestamp: new Date(),
+    });
+
+    return { success: true, changes };
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to reload LLM config', {
+      file: file_name,
+      data: { trigger, error: error_message },
+    });
+    return { success: false, changes: [], error: error_message };
+  }
+}
+
+/**
+ * Watch the config file of the active client and reload on changes
+ * The directory is watched (editors often replace the file on save) and
+ * changes are debounced. The watcher does not keep the process alive.
+ *
+ * @param logger - Logger instance
+ */
+function start_config_watcher(logger: Logger): void {
+  const file_name = 'index.ts (llm_api)';
+  const config_path = find_config_file();
+
+  if (!config_path) {
+    logger.warn('watch_config is enabled but no config file was found', { file: file_name });
+    return;
+  }
+
+  const scope = get_client_scope();
+  const config_file_name = path.basename(config_path);
+  let timer: NodeJS.Timeout | null = null;
+
+  const watcher = fs.watch(path.dirname(config_path), (_event, changed_file) => {
+    if (changed_file && changed_file.toString() !== config_file_name) {
+      return;
+    }
+
+    if (timer) {
+      clearTimeout(timer);
+    }
+    timer = setTimeout(() => {
+      timer = null;
+      void run_in_client_scope(scope, () => reload_config('watcher'));
+    }, CONFIG_WATCH_DEBOUNCE_MS);
+    timer.unref();
+  });
+
+  watcher.on('error', (error) => {
+    logger.error('Config file watcher failed', {
+      file: file_name,
+      data: { config_path, error: error.message },
+    });
+  });
+  watcher.unref();
+
+  get_api_state().stop_config_watcher = () => {
+    if (timer) {
+      clearTimeout(timer);
+    }
+    watcher.close();
+  };
+
+  logger.info('Watching config file for changes', { file: file_name, data: { config_path } });
+}
+
+/**
+ * Stop the config file watcher of the active client (if any)
+ */
+function stop_config_watcher(): void {
+  const state = get_api_state();
+  if (state.stop_config_watcher) {
+    state.stop_config_watcher();
+    state.stop_config_watcher = null;
+  }
+}
+
 // =============================================================================
 // Module Level Functions
 // =============================================================================
@@ -1013,6 +1723,7 @@ export async function initialize_llm_api(config: LLMApiConfig = {}): Promise<LLM
  * Ensures logger is always present in returned config
  */
 function check_initialized(): LLMApiConfig & { logger: Logger } {
+  const { initialized, current_config } = get_api_state();
   if (!initialized || !current_config) {
     throw new Error('LLM API not initialized. Call initialize_llm_api first.');
   }
@@ -1028,7 +1739,16 @@ function check_initialized(): LLMApiConfig & { logger: Logger } {
  * @returns true if database is ready for use
  */
 export function is_database_ready(): boolean {
-  return db_auto_initialized || initialized;
+  return is_auto_initialized() || get_api_state().initialized;
+}
+
+/**
+ * Check whether the import-time database initialization applies and succeeded
+ * Isolated clients never use the auto-initialized default database.
+ * @returns true if the default database was auto-initialized
+ */
+function is_auto_initialized(): boolean {
+  return db_auto_initialized && !get_client_scope();
 }
 
 /**
@@ -1036,13 +1756,21 @@ export function is_database_ready(): boolean {
  * Useful if you need to ensure database is ready before operations
  */
 export async function ensure_database_ready(): Promise<boolean> {
-  if (db_auto_initialized || initialized) {
+  if (is_database_ready()) {
     return true;
   }
+
+  // Isolated clients open their database in create_llm_client
+  if (get_client_scope()) {
+    return false;
+  }
   
-  // If not yet initialized, trigger it now
-  await auto_initialize_database();
-  return db_auto_initialized;
+  // Wait for the import-time initialization, then retry it if it failed
+  await auto_initialization;
+  if (!is_database_ready()) {
+    await auto_initialize_database();
+  }
+  return is_database_ready();
 }
 
 /**
@@ -1063,8 +1791,8 @@ export async function ensure_database_ready(): Promise<boolean> {
 export async function hazo_llm_text_text(params: TextTextParams, llm?: ProviderName): Promise<LLMResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_text_text_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_text_text_internal(params, store, config, llm);
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
@@ -1081,8 +1809,8 @@ export async function hazo_llm_text_text(params: TextTextParams, llm?: ProviderN
 export async function hazo_llm_image_text(params: ImageTextParams, llm?: ProviderName): Promise<LLMResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_image_text_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_image_text_internal(params, store, config, llm);
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
@@ -1099,8 +1827,8 @@ export async function hazo_llm_image_text(params: ImageTextParams, llm?: Provide
 export async function hazo_llm_text_image(params: TextImageParams, llm?: ProviderName): Promise<LLMResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_text_image_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_text_image_internal(params, store, config, llm);
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
@@ -1117,8 +1845,8 @@ export async function hazo_llm_text_image(params: TextImageParams, llm?: Provide
 export async function hazo_llm_image_image(params: ImageImageParams, llm?: ProviderName): Promise<LLMResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_image_image_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_image_image_internal(params, store, config, llm);
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
@@ -1135,8 +1863,8 @@ export async function hazo_llm_image_image(params: ImageImageParams, llm?: Provi
 export async function hazo_llm_text_image_text(params: TextImageTextParams, llm?: ProviderName): Promise<LLMResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_text_image_text_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_text_image_text_internal(params, store, config, llm);
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
@@ -1153,8 +1881,8 @@ export async function hazo_llm_text_image_text(params: TextImageTextParams, llm?
 export async function hazo_llm_image_image_text(params: ImageImageTextParams, llm?: ProviderName): Promise<LLMResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_image_image_text_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_image_image_text_internal(params, store, config, llm);
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
@@ -1182,13 +1910,144 @@ export async function hazo_llm_image_image_text(params: ImageImageTextParams, ll
 export async function hazo_llm_document_text(params: DocumentTextParams, llm?: ProviderName): Promise<LLMResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_document_text_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_document_text_internal(params, store, config, llm);
   } catch (error) {
     return { success: false, error: error instanceof Error ? error.message : String(error) };
   }
 }
 
+/**
+ * Multi-turn chat
+ * Send a conversation history and get the next assistant reply
+ *
+ * @param params - Chat parameters with ordered message history
+ * @param llm - Optional LLM provider name (uses primary LLM if not specified). Use LLM_PROVIDERS constants for type safety.
+ * @returns Chat response with the assistant reply and the updated history
+ *
+ * @example
+ * ```typescript
+ * import { hazo_llm_chat } from 'hazo_llm_api/server';
+ *
+ * let history: ChatMessage[] = [
+ *   { role: 'system', content: 'You are a friendly support assistant.' },
+ *   { role: 'user', content: 'My order has not arrived.' },
+ * ];
+ *
+ * const response = await hazo_llm_chat({ messages: history });
+ * if (response.success) {
+ *   history = response.messages; // includes the assistant reply
+ * }
+ * ```
+ */
+export async function hazo_llm_chat(params: ChatParams, llm?: ProviderName): Promise<ChatResponse> {
+  try {
+    const config = check_initialized();
+    const store = get_prompt_store();
+    return hazo_llm_chat_internal(params, store, config, llm);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      messages: params.messages || [],
+    };
+  }
+}
+
+/**
+ * Structured output
+ * Get JSON from the LLM that is validated against a JSON Schema
+ * Uses the provider's native JSON mode and re-prompts with the validation
+ * errors when the reply does not conform (max_repair_attempts, default 1).
+ *
+ * @param params - Structured output parameters including the JSON Schema
+ * @param llm - Optional LLM provider name (uses primary LLM if not specified). Use LLM_PROVIDERS constants for type safety.
+ * @returns Structured response with typed data, or SCHEMA_VALIDATION_FAILED with validation_errors
+ *
+ * @example
+ * ```typescript
+ * import { hazo_llm_structured } from 'hazo_llm_api/server';
+ *
+ * const response = await hazo_llm_structured<{ name: string; price: number }>({
+ *   prompt: 'Extract the product name and price: "Blue Widget, $12.50"',
+ *   schema: {
+ *     type: 'object',
+ *     properties: { name: { type: 'string' }, price: { type: 'number' } },
+ *     required: ['name', 'price'],
+ *   },
+ * });
+ *
+ * if (response.success) {
+ *   console.log(response.data?.price); // 12.5
+ * }
+ * ```
+ */
+export async function hazo_llm_structured<T = unknown>(
+  params: StructuredParams,
+  llm?: ProviderName
+): Promise<StructuredResponse<T>> {
+  try {
+    const config = check_initialized();
+    const store = get_prompt_store();
+    return hazo_llm_structured_internal<T>(params, store, config, llm);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      attempts: 0,
+    };
+  }
+}
+
+/**
+ * Tool calling
+ * Offer tools (functions) to the model and run the model → tool → model loop
+ * until it returns a final answer or max_iterations is reached
+ *
+ * @param params - Tool call parameters (prompt, tools, max_iterations)
+ * @param llm - Optional LLM provider name (uses primary LLM if not specified). Use LLM_PROVIDERS constants for type safety.
+ * @returns Final text plus a trace of every tool invocation
+ *
+ * @example
+ * ```typescript
+ * import { register_tool, hazo_llm_tool_call } from 'hazo_llm_api/server';
+ *
+ * register_tool({
+ *   name: 'get_order_status',
+ *   description: 'Look up the shipping status of an order',
+ *   parameters: {
+ *     type: 'object',
+ *     properties: { order_id: { type: 'string' } },
+ *     required: ['order_id'],
+ *   },
+ *   handler: async ({ order_id }) => ({ order_id, status: 'shipped' }),
+ * });
+ *
+ * const response = await hazo_llm_tool_call({
+ *   prompt: 'Where is order A-1001?',
+ *   tools: ['get_order_status'],
+ * });
+ *
+ * console.log(response.text);       // final answer
+ * console.log(response.tool_trace); // [{ name: 'get_order_status', arguments: {...}, result: {...} }]
+ * ```
+ */
+export async function hazo_llm_tool_call(params: ToolCallParams, llm?: ProviderName): Promise<ToolCallResponse> {
+  try {
+    const config = check_initialized();
+    const store = get_prompt_store();
+    return hazo_llm_tool_call_internal(params, store, config, llm);
+  } catch (error) {
+    return {
+      success: false,
+      error: error instanceof Error ? error.message : String(error),
+      tool_trace: [],
+      iterations: 0,
+      messages: [],
+    };
+  }
+}
+
 /**
  * Execute a chain of prompts with dynamic value resolution
  * Each call can reference values from previous call results
@@ -1223,8 +2082,8 @@ export async function hazo_llm_document_text(params: DocumentTextParams, llm?: P
 export async function hazo_llm_prompt_chain(params: PromptChainParams, llm?: ProviderName): Promise<PromptChainResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_prompt_chain_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_prompt_chain_internal(params, store, config, llm);
   } catch (error) {
     return {
       success: false,
@@ -1268,8 +2127,8 @@ export async function hazo_llm_prompt_chain(params: PromptChainParams, llm?: Pro
 export async function hazo_llm_dynamic_data_extract(params: DynamicDataExtractParams, llm?: ProviderName): Promise<DynamicDataExtractResponse> {
   try {
     const config = check_initialized();
-    const db = get_database();
-    return hazo_llm_dynamic_data_extract_internal(params, db, config, llm);
+    const store = get_prompt_store();
+    return hazo_llm_dynamic_data_extract_internal(params, store, config, llm);
   } catch (error) {
     return {
       success: false,
@@ -1289,7 +2148,8 @@ export async function hazo_llm_dynamic_data_extract(params: DynamicDataExtractPa
 
 /**
  * Text input → Text output (Streaming)
- * Generate text from a prompt with streaming response
+ * Generate text from a prompt with streaming response.
+ * Supports dynamic prompts (prompt_area/prompt_key), variable substitution and lifecycle hooks.
  *
  * @param params - Text input parameters
  * @param llm - Optional LLM provider name (uses primary LLM if not specified)
@@ -1315,42 +2175,8 @@ export async function* hazo_llm_text_text_stream(
 ): LLMStreamResponse {
   try {
     const config = check_initialized();
-    const logger = config.logger || get_logger();
-
-    // Get provider
-    const provider = get_provider(llm, logger);
-    if (!provider) {
-      yield {
-        text: '',
-        done: true,
-        error: `Provider "${llm || 'primary'}" not found`,
-        error_info: {
-          code: LLM_ERROR_CODES.PROVIDER_NOT_FOUND,
-          message: `Provider "${llm || 'primary'}" not found`,
-          retryable: false,
-        },
-      };
-      return;
-    }
-
-    // Check if provider supports streaming
-    if (!provider.text_text_stream) {
-      yield {
-        text: '',
-        done: true,
-        error: `Provider "${provider.get_name()}" does not support streaming`,
-        error_info: {
-          code: LLM_ERROR_CODES.CAPABILITY_NOT_SUPPORTED,
-          message: `Provider "${provider.get_name()}" does not support streaming for text_text`,
-          retryable: false,
-        },
-      };
-      return;
-    }
-
-    // Call streaming method
-    const stream = await provider.text_text_stream(params, logger);
-    yield* stream;
+    const store = get_prompt_store();
+    yield* hazo_llm_text_text_stream_internal(params, store, config, llm);
   } catch (error) {
     const error_message = error instanceof Error ? error.message : String(error);
     yield {
@@ -1380,42 +2206,8 @@ export async function* hazo_llm_image_text_stream(
 ): LLMStreamResponse {
   try {
     const config = check_initialized();
-    const logger = config.logger || get_logger();
-
-    // Get provider
-    const provider = get_provider(llm, logger);
-    if (!provider) {
-      yield {
-        text: '',
-        done: true,
-        error: `Provider "${llm || 'primary'}" not found`,
-        error_info: {
-          code: LLM_ERROR_CODES.PROVIDER_NOT_FOUND,
-          message: `Provider "${llm || 'primary'}" not found`,
-          retryable: false,
-        },
-      };
-      return;
-    }
-
-    // Check if provider supports streaming
-    if (!provider.image_text_stream) {
-      yield {
-        text: '',
-        done: true,
-        error: `Provider "${provider.get_name()}" does not support streaming`,
-        error_info: {
-          code: LLM_ERROR_CODES.CAPABILITY_NOT_SUPPORTED,
-          message: `Provider "${provider.get_name()}" does not support streaming for image_text`,
-          retryable: false,
-        },
-      };
-      return;
-    }
-
-    // Call streaming method
-    const stream = await provider.image_text_stream(params, logger);
-    yield* stream;
+    const store = get_prompt_store();
+    yield* hazo_llm_image_text_stream_internal(params, store, config, llm);
   } catch (error) {
     const error_message = error instanceof Error ? error.message : String(error);
     yield {
@@ -1431,6 +2223,154 @@ export async function* hazo_llm_image_text_stream(
   }
 }
 
+// =============================================================================
+// Prompt Rendering
+// =============================================================================
+
+/**
+ * Render a dynamic prompt without calling an LLM
+ * Resolves the prompt like the service functions do (user/scope/locals
+ * fallback, optional version pin), expands its {{> area/key}} partials and
+ * substitutes the variables.
+ *
+ * @param prompt_area - Area of the prompt
+ * @param prompt_key - Key of the prompt
+ * @param prompt_variables - Variables to substitute
+ * @param options - Lookup options, prompt_version and strict_variables
+ * @returns The fully expanded prompt text
+ * @throws Error if the API is not initialized, the prompt or a partial is not
+ *         found, or the template cannot be rendered
+ *
+ * @example
+ * ```typescript
+ * const text = await render_prompt('support', 'reply', [{ customer: { name: 'Ann' } }], { scope_id: 'acme' });
+ * ```
+ */
+export async function render_prompt(
+  prompt_area: string,
+  prompt_key: string,
+  prompt_variables?: PromptVariables,
+  options: RenderPromptOptions = {}
+): Promise<string> {
+  const config = check_initialized();
+  const result = await resolve_prompt_text(
+    { ...options, prompt: '', prompt_area, prompt_key, prompt_variables },
+    get_prompt_store(),
+    config.logger,
+    'index.ts (llm_api)',
+    config.strict_variables
+  );
+
+  if (!result.success) {
+    throw new Error(result.error_response.error || 'Prompt could not be rendered');
+  }
+  return result.prompt_text;
+}
+
+/**
+ * List the prompts that include a partial, directly or through other partials
+ * Use it to check which prompts an edit to a shared prompt affects.
+ *
+ * @param prompt_area - Area of the partial
+ * @param prompt_key - Key of the partial
+ * @returns Dependent prompts with the partials they include it through
+ * @throws Error if the API is not initialized
+ *
+ * @example
+ * ```typescript
+ * const dependents = await get_partial_dependents('shared', 'persona');
+ * console.log(dependents.map(({ prompt }) => `${prompt.prompt_area}/${prompt.prompt_key}`));
+ * ```
+ */
+export async function get_partial_dependents(prompt_area: string, prompt_key: string): Promise<PartialDependent[]> {
+  const config = check_initialized();
+  return find_partial_dependents(require_prompt_store(), prompt_area, prompt_key, config.logger);
+}
+
+/**
+ * List every version of a prompt in the active prompt store, newest first
+ * Works with every store (the sql.js database, PostgreSQL, directory).
+ *
+ * @param prompt_id - ID (UUID) of the prompt
+ * @returns Version records (empty if the store has no history for the prompt)
+ * @throws Error if the API is not initialized
+ *
+ * @example
+ * ```typescript
+ * for (const version of await get_prompt_versions(prompt.id)) {
+ *   console.log(`v${version.version} by ${version.author ?? 'unknown'}: ${version.note}`);
+ * }
+ * ```
+ */
+export async function get_prompt_versions(prompt_id: string): Promise<PromptVersionRecord[]> {
+  const config = check_initialized();
+  return require_prompt_store().get_prompt_history(prompt_id, config.logger);
+}
+
+/**
+ * Compare two versions of a prompt in the active prompt store
+ *
+ * @param prompt_id - ID (UUID) of the prompt
+ * @param from_version - Older version number
+ * @param to_version - Newer version number
+ * @returns The diff, or null if either version does not exist
+ * @throws Error if the API is not initialized
+ *
+ * @example
+ * ```typescript
+ * const diff = await compare_prompt_versions(prompt.id, 1, 3);
+ * console.log(diff?.changed_fields);
+ * ```
+ */
+export async function compare_prompt_versions(
+  prompt_id: string,
+  from_version: number,
+  to_version: number
+): Promise<PromptVersionDiff | null> {
+  const config = check_initialized();
+  const store = require_prompt_store();
+  const from = await store.get_prompt_version(prompt_id, from_version, config.logger);
+  const to = await store.get_prompt_version(prompt_id, to_version, config.logger);
+  return from && to ? build_prompt_version_diff(from, to) : null;
+}
+
+/**
+ * Roll a prompt in the active prompt store back to an earlier version
+ * The old content is recorded as a new version, so the history is kept intact.
+ *
+ * @param prompt_id - ID (UUID) of the prompt
+ * @param version - Version number to restore
+ * @param version_info - Optional author and note (default note: "Rollback to version N")
+ * @returns The updated prompt record, or null if the prompt or version does not exist
+ * @throws Error if the API is not initialized or the store is read-only
+ *
+ * @example
+ * ```typescript
+ * await restore_prompt_version(prompt.id, 2, { author: 'alice' });
+ * ```
+ */
+export async function restore_prompt_version(
+  prompt_id: string,
+  version: number,
+  version_info: PromptVersionInfo = {}
+): Promise<PromptRecord | null> {
+  const config = check_initialized();
+  return require_prompt_store().rollback_prompt(prompt_id, version, config.logger, version_info);
+}
+
+/**
+ * Get the active prompt store
+ * @returns The active client's prompt store
+ * @throws Error if no store is open
+ */
+function require_prompt_store(): PromptStore {
+  const store = get_prompt_store();
+  if (!store) {
+    throw new Error('Prompt store not initialized. Call initialize_llm_api first.');
+  }
+  return store;
+}
+
 // =============================================================================
 // Utility Functions
 // =============================================================================
@@ -1440,7 +2380,7 @@ export async function* hazo_llm_image_text_stream(
  * @returns true if initialized
  */
 export function is_initialized(): boolean {
-  return initialized;
+  return get_api_state().initialized;
 }
 
 /**
@@ -1448,6 +2388,7 @@ export function is_initialized(): boolean {
  * @returns Current configuration or null if not initialized
  */
 export function get_current_config(): Omit<LLMApiConfig, 'logger'> | null {
+  const { current_config } = get_api_state();
   if (!current_config) {
     return null;
   }
@@ -1464,8 +2405,16 @@ export function get_current_config(): Omit<LLMApiConfig, 'logger'> | null {
 
 export type {
   LLMApiConfig,
+  ProviderSettings,
   LLMApiClient,
   LLMResponse,
+  LLMUsage,
+  ModelPricing,
+  RetryPolicy,
+  RetryOptions,
+  TimeoutConfig,
+  LLMRequestOptions,
+  RenderPromptOptions,
   TextTextParams,
   ImageTextParams,
   TextImageParams,
@@ -1474,8 +2423,30 @@ export type {
   TextImageTextParams,
   ImageImageTextParams,
   ChainImage,
+  ChatRole,
+  ChatMessage,
+  ChatParams,
+  ChatResponse,
+  // Structured Output Types
+  StructuredParams,
+  StructuredResponse,
+  JsonSchema,
+  JsonSchemaType,
+  SchemaValidationError,
+  // Tool Calling Types
+  ToolHandler,
+  ToolDefinition,
+  ToolDeclaration,
+  ToolCall,
+  ToolMessage,
+  ToolTurnParams,
+  ToolTurnResponse,
+  ToolCallParams,
+  ToolInvocation,
+  ToolCallResponse,
   Logger,
   PromptVariable,
+  PromptVariableValue,
   PromptVariables,
   Base64Data,
   PromptTextMode,
@@ -1483,6 +2454,7 @@ export type {
   CallLLMParams,
   GeminiGenerationConfig,
   GeminiApiGenerationConfig,
+  GenerationOverrides,
   // Prompt Chain Types
   ChainMatchType,
   ChainFieldDefinition,
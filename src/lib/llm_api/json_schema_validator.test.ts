@@ -0,0 +1,57 @@
+/**
+ * JSON Schema Validator Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { validate_json_schema, format_validation_errors } from './json_schema_validator.js';
+import type { JsonSchema } from './types.js';
+
+const product_schema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1 },
+    price: { type: 'number', minimum: 0 },
+    tags: { type: 'array', items: { type: 'string' }, maxItems: 2 },
+    status: { enum: ['draft', 'live'] },
+  },
+  required: ['name', 'price'],
+  additionalProperties: false,
+};
+
+describe('validate_json_schema', () => {
+  it('accepts a valid value', () => {
+    expect(validate_json_schema({ name: 'Widget', price: 12, tags: ['a'], status: 'live' }, product_schema)).toEqual([]);
+  });
+
+  it('reports every error with its path', () => {
+    const errors = validate_json_schema({ price: '12', tags: ['a', 1, 'c'], status: 'gone', color: 'red' }, product_schema);
+
+    expect(errors).toEqual([
+      { path: '$.name', message: 'Required property is missing' },
+      { path: '$.price', message: 'Expected type number but got string' },
+      { path: '$.tags', message: 'Array must contain at most 2 items' },
+      { path: '$.tags[1]', message: 'Expected type string but got number' },
+      { path: '$.status', message: 'Value must be one of: "draft", "live"' },
+      { path: '$.color', message: 'Additional property is not allowed' },
+    ]);
+    expect(format_validation_errors(errors.slice(0, 1))).toBe('- $.name: Required property is missing');
+  });
+
+  it('does not treat inherited properties as present', () => {
+    expect(validate_json_schema({}, { type: 'object', required: ['constructor'] })).toEqual([
+      { path: '$.constructor', message: 'Required property is missing' },
+    ]);
+  });
+
+  it('supports nullable, integer and the anyOf / oneOf / allOf combinators', () => {
+    expect(validate_json_schema(null, { type: 'string', nullable: true })).toEqual([]);
+    expect(validate_json_schema(1.5, { type: 'integer' })).toHaveLength(1);
+    expect(validate_json_schema(3, { anyOf: [{ type: 'string' }, { type: 'number' }] })).toEqual([]);
+    expect(validate_json_schema(3, { oneOf: [{ type: 'number' }, { type: 'integer' }] })).toEqual([
+      { path: '$', message: 'Value must match exactly one schema (oneOf), matched 2' },
+    ]);
+    expect(validate_json_schema('ab', { allOf: [{ minLength: 1 }, { pattern: '^a' }, { maxLength: 1 }] })).toEqual([
+      { path: '$', message: 'String must be at most 1 characters' },
+    ]);
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * JSON Schema Validator
+ *
+ * Lightweight validator for the commonly used JSON Schema subset
+ * (type, properties, required, additionalProperties, items, enum, const,
+ * string/number/array bounds, pattern, anyOf/oneOf/allOf, nullable).
+ * Used to check structured LLM output without adding a runtime dependency.
+ */
+
+import type { JsonSchema, JsonSchemaType, SchemaValidationError } from './types.js';
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate a value against a JSON Schema
+ *
+ * @param value - The value to validate
+ * @param schema - JSON Schema definition
+ * @param path - Location of the value, used in error messages (default: "$")
+ * @returns Array of validation errors (empty if the value is valid)
+ *
+ * @example
+ * ```typescript
+ * const errors = validate_json_schema(
+ *   { name: 'Widget', price: '12' },
+ *   {
+ *     type: 'object',
+ *     properties: { name: { type: 'string' }, price: { type: 'number' } },
+ *     required: ['name', 'price'],
+ *   }
+ * );
+ * // [{ path: '$.price', message: 'Expected type number but got string' }]
+ * ```
+ */
+export function validate_json_schema(
+  value: unknown,
+  schema: JsonSchema,
+  path: string = '$'
+): SchemaValidationError[] {
+  const errors: SchemaValidationError[] = [];
+
+  if (value === null && schema.nullable) {
+    return errors;
+  }
+
+  // ==========================================================================
+  // Type check - stop here if the type is wrong
+  // ==========================================================================
+  if (schema.type !== undefined) {
+    const allowed_types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const matches = allowed_types.some(type => matches_type(value, type));
+
+    if (!matches) {
+      errors.push({
+        path,
+        message: `Expected type ${allowed_types.join(' | ')} but got ${describe_type(value)}`,
+      });
+      return errors;
+    }
+  }
+
+  // ==========================================================================
+  // Value constraints
+  // ==========================================================================
+  if (schema.const !== undefined && !deep_equal(value, schema.const)) {
+    errors.push({ path, message: `Expected constant value ${JSON.stringify(schema.const)}` });
+  }
+
+  if (schema.enum && !schema.enum.some(option => deep_equal(value, option))) {
+    errors.push({
+      path,
+      message: `Value must be one of: ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`,
+    });
+  }
+
+  if (typeof value === 'string') {
+    validate_string(value, schema, path, errors);
+  } else if (typeof value === 'number') {
+    validate_number(value, schema, path, errors);
+  } else if (Array.isArray(value)) {
+    validate_array(value, schema, path, errors);
+  } else if (typeof value === 'object' && value !== null) {
+    validate_object(value as Record<string, unknown>, schema, path, errors);
+  }
+
+  // ==========================================================================
+  // Combinators
+  // ==========================================================================
+  if (schema.allOf) {
+    for (const sub_schema of schema.allOf) {
+      errors.push(...validate_json_schema(value, sub_schema, path));
+    }
+  }
+
+  if (schema.anyOf) {
+    const any_valid = schema.anyOf.some(sub_schema => validate_json_schema(value, sub_schema, path).length === 0);
+    if (!any_valid) {
+      errors.push({ path, message: 'Value does not match any of the allowed schemas (anyOf)' });
+    }
+  }
+
+  if (schema.oneOf) {
+    const valid_count = schema.oneOf.filter(sub_schema => validate_json_schema(value, sub_schema, path).length === 0).length;
+    if (valid_count !== 1) {
+      errors.push({ path, message: `Value must match exactly one schema (oneOf), matched ${valid_count}` });
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Format validation errors as a bullet list for logs and repair prompts
+ *
+ * @param errors - Validation errors
+ * @returns One line per error, e.g. "- $.price: Expected type number but got string"
+ */
+export function format_validation_errors(errors: SchemaValidationError[]): string {
+  return errors.map(error => `- ${error.path}: ${error.message}`).join('\n');
+}
+
+// =============================================================================
+// Type-Specific Validation
+// =============================================================================
+
+/**
+ * Validate string constraints (minLength, maxLength, pattern)
+ */
+function validate_string(
+  value: string,
+  schema: JsonSchema,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    errors.push({ path, message: `String must be at least ${schema.minLength} characters` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    errors.push({ path, message: `String must be at most ${schema.maxLength} characters` });
+  }
+  if (schema.pattern !== undefined) {
+    try {
+      if (!new RegExp(schema.pattern).test(value)) {
+        errors.push({ path, message: `String does not match pattern ${schema.pattern}` });
+      }
+    } catch {
+      // Invalid pattern in schema - skip the check rather than failing the value
+    }
+  }
+}
+
+/**
+ * Validate number constraints (minimum, maximum, exclusive bounds)
+ */
+function validate_number(
+  value: number,
+  schema: JsonSchema,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    errors.push({ path, message: `Number must be >= ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    errors.push({ path, message: `Number must be <= ${schema.maximum}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    errors.push({ path, message: `Number must be > ${schema.exclusiveMinimum}` });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    errors.push({ path, message: `Number must be < ${schema.exclusiveMaximum}` });
+  }
+}
+
+/**
+ * Validate array constraints (minItems, maxItems, items)
+ */
+function validate_array(
+  value: unknown[],
+  schema: JsonSchema,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    errors.push({ path, message: `Array must contain at least ${schema.minItems} items` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    errors.push({ path, message: `Array must contain at most ${schema.maxItems} items` });
+  }
+  if (schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validate_json_schema(item, schema.items as JsonSchema, `${path}[${index}]`));
+    });
+  }
+}
+
+/**
+ * Validate object constraints (required, properties, additionalProperties)
+ */
+function validate_object(
+  value: Record<string, unknown>,
+  schema: JsonSchema,
+  path: string,
+  errors: SchemaValidationError[]
+): void {
+  for (const key of schema.required || []) {
+    if (!Object.prototype.hasOwnProperty.call(value, key)) {
+      errors.push({ path: `${path}.${key}`, message: 'Required property is missing' });
+    }
+  }
+
+  const properties = schema.properties || {};
+
+  for (const [key, property_value] of Object.entries(value)) {
+    const property_schema = properties[key];
+
+    if (property_schema) {
+      errors.push(...validate_json_schema(property_value, property_schema, `${path}.${key}`));
+    } else if (schema.additionalProperties === false) {
+      errors.push({ path: `${path}.${key}`, message: 'Additional property is not allowed' });
+    } else if (typeof schema.additionalProperties === 'object') {
+      errors.push(...validate_json_schema(property_value, schema.additionalProperties, `${path}.${key}`));
+    }
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Check whether a value matches a JSON Schema type name
+ */
+function matches_type(value: unknown, type: JsonSchemaType): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Describe the JSON type of a value for error messages
+ */
+function describe_type(value: unknown): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    return 'array';
+  }
+  return typeof value;
+}
+
+/**
+ * Structural equality for enum/const comparison
+ */
+function deep_equal(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
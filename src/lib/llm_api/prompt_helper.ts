@@ -0,0 +1,277 @@
+/**
+ * Prompt Helper Utilities
+ *
+ * Centralized prompt resolution shared by the non-streaming and streaming
+ * service functions: dynamic prompt lookup by area/key (with user, scope and
+ * locals overrides, optionally pinned to a prompt version) followed by
+ * partial expansion and variable substitution.
+ */
+
+import type { PromptStore } from '../prompt_store/types.js';
+import type {
+  Logger,
+  LLMResponse,
+  PromptLookupOptions,
+  PromptVariables,
+} from './types.js';
+import { LLM_ERROR_CODES } from './types.js';
+import { substitute_variables } from '../prompts/substitute_variables.js';
+import { expand_partials, type PartialReference } from '../prompts/prompt_partials.js';
+import { build_error_response } from './provider_helper.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Parameters that identify the prompt to send
+ */
+export interface PromptSourceParams extends PromptLookupOptions {
+  /** Static prompt text (used when prompt_area/prompt_key are not set) */
+  prompt: string;
+  /** Variables to substitute into the prompt */
+  prompt_variables?: PromptVariables;
+  /** Prompt area for dynamic prompt lookup */
+  prompt_area?: string;
+  /** Prompt key for dynamic prompt lookup */
+  prompt_key?: string;
+  /** Version of the dynamic prompt to use (default: the current version) */
+  prompt_version?: number;
+  /** Fail when a variable is missing (overrides the default passed to resolve_prompt_text) */
+  strict_variables?: boolean;
+}
+
+/**
+ * Parameters for rendering a prompt: variables, strictness and the lookup
+ * options used for its partials
+ */
+export type PromptTemplateParams = Pick<PromptSourceParams, 'prompt_variables' | 'strict_variables' | keyof PromptLookupOptions>;
+
+/**
+ * Options for render_prompt_text
+ */
+export interface PromptRenderOptions {
+  /** Fail on missing variables when params.strict_variables is not set */
+  strict_variables?: boolean;
+
+  /** Dynamic prompt being rendered (for partial cycle detection) */
+  source?: PartialReference;
+}
+
+/**
+ * Result of prompt resolution - either the final prompt text or an error response
+ * prompt_version is set for dynamic prompts that have version history.
+ */
+export type PromptResolutionResult =
+  | { success: true; prompt_text: string; prompt_version?: number }
+  | { success: false; error_response: LLMResponse };
+
+/**
+ * Result of prompt rendering - either the final prompt text or an error response
+ */
+export type PromptRenderResult =
+  | { success: true; prompt_text: string }
+  | { success: false; error_response: LLMResponse };
+
+// =============================================================================
+// Prompt Resolution
+// =============================================================================
+
+/**
+ * Resolve the final prompt text for a request
+ *
+ * Looks up the prompt from the prompt store when prompt_area and prompt_key are
+ * provided (user/scope/locals overrides first, then the base prompt),
+ * otherwise uses the static prompt. With prompt_version the text of
+ * that version is used instead of the current one. Partials are then expanded
+ * and variables substituted.
+ *
+ * @param params - Prompt source parameters
+ * @param store - Prompt store for dynamic prompts
+ * @param logger - Logger instance
+ * @param file_name - Calling file name for log entries
+ * @param strict_variables - Fail on missing variables when params.strict_variables is not set
+ * @returns Final prompt text, or error response if the prompt could not be resolved
+ *
+ * @example
+ * ```typescript
+ * const prompt_result = await resolve_prompt_text(params, store, logger, FILE_NAME, config.strict_variables);
+ *
+ * if (!prompt_result.success) {
+ *   return prompt_result.error_response;
+ * }
+ * ```
+ */
+export async function resolve_prompt_text(
+  params: PromptSourceParams,
+  store: PromptStore | null,
+  logger: Logger,
+  file_name: string,
+  strict_variables: boolean = false
+): Promise<PromptResolutionResult> {
+  let prompt_text: string;
+  let prompt_version: number | undefined;
+
+  if (params.prompt_area && params.prompt_key) {
+    if (!store) {
+      const error_msg = 'Prompt store not initialized for dynamic prompt retrieval';
+      logger.error(error_msg, { file: file_name });
+      return {
+        success: false,
+        error_response: build_error_response(LLM_ERROR_CODES.DATABASE_ERROR, error_msg),
+      };
+    }
+
+    const dynamic_prompt = await store.get_prompt(
+      params.prompt_area,
+      params.prompt_key,
+      get_prompt_lookup_options(params),
+      logger
+    );
+
+    if (!dynamic_prompt) {
+      const error_msg = `Prompt not found for area="${params.prompt_area}" key="${params.prompt_key}"`;
+      logger.error(error_msg, { file: file_name });
+      return {
+        success: false,
+        error_response: build_error_response(
+          LLM_ERROR_CODES.PROMPT_NOT_FOUND,
+          error_msg,
+          false,
+          { prompt_area: params.prompt_area, prompt_key: params.prompt_key, ...get_prompt_lookup_options(params) }
+        ),
+      };
+    }
+
+    if (params.prompt_version !== undefined) {
+      const pinned = await store.get_prompt_version(dynamic_prompt.id, params.prompt_version, logger);
+
+      if (!pinned) {
+        const error_msg = `Prompt version ${params.prompt_version} not found for area="${params.prompt_area}" key="${params.prompt_key}"`;
+        logger.error(error_msg, { file: file_name });
+        return {
+          success: false,
+          error_response: build_error_response(
+            LLM_ERROR_CODES.PROMPT_NOT_FOUND,
+            error_msg,
+            false,
+            {
+              prompt_area: params.prompt_area,
+              prompt_key: params.prompt_key,
+              prompt_version: params.prompt_version,
+            }
+          ),
+        };
+      }
+
+      prompt_text = pinned.prompt_text;
+      prompt_version = pinned.version;
+    } else {
+      prompt_text = dynamic_prompt.prompt_text;
+      prompt_version = await store.get_current_prompt_version(dynamic_prompt.id, logger) ?? undefined;
+    }
+  } else {
+    prompt_text = params.prompt;
+  }
+
+  const rendered = await render_prompt_text(prompt_text, params, store, logger, file_name, {
+    strict_variables,
+    ...(params.prompt_area && params.prompt_key && {
+      source: { prompt_area: params.prompt_area, prompt_key: params.prompt_key },
+    }),
+  });
+  if (!rendered.success) {
+    return rendered;
+  }
+
+  return {
+    success: true,
+    prompt_text: rendered.prompt_text,
+    ...(prompt_version !== undefined && { prompt_version }),
+  };
+}
+
+/**
+ * Expand the {{> area/key}} partials of a prompt and substitute its variables,
+ * returning an error response instead of throwing
+ *
+ * @param prompt_text - Prompt template
+ * @param params - Variables, the per-call strict_variables setting and the partial lookup options
+ * @param store - Prompt store the partials are read from
+ * @param logger - Logger instance
+ * @param file_name - Calling file name for log entries
+ * @param options - Default strictness and the dynamic prompt being rendered
+ * @returns Final prompt text, or a TEMPLATE_ERROR response for a missing or
+ *          cyclic partial, a malformed template or (in strict mode) missing variables
+ *
+ * @example
+ * ```typescript
+ * const rendered = await render_prompt_text(params.prompt, params, store, logger, FILE_NAME, {
+ *   strict_variables: config.strict_variables,
+ * });
+ *
+ * if (!rendered.success) {
+ *   return rendered.error_response;
+ * }
+ * ```
+ */
+export async function render_prompt_text(
+  prompt_text: string,
+  params: PromptTemplateParams,
+  store: PromptStore | null,
+  logger: Logger,
+  file_name: string,
+  options: PromptRenderOptions = {}
+): Promise<PromptRenderResult> {
+  try {
+    let expanded = prompt_text;
+    if (prompt_text.includes('{{>')) {
+      if (!store) {
+        throw new Error('Prompt store not initialized for partial ({{> area/key}}) lookup');
+      }
+      expanded = await expand_partials(prompt_text, store, get_prompt_lookup_options(params), logger, {
+        ...(options.source && { source: options.source }),
+      });
+    }
+
+    return {
+      success: true,
+      prompt_text: substitute_variables(expanded, params.prompt_variables, logger, {
+        strict: params.strict_variables ?? options.strict_variables ?? false,
+      }),
+    };
+  } catch (error) {
+    const error_msg = error instanceof Error ? error.message : String(error);
+    logger.error(error_msg, { file: file_name });
+    return {
+      success: false,
+      error_response: build_error_response(LLM_ERROR_CODES.TEMPLATE_ERROR, error_msg),
+    };
+  }
+}
+
+/**
+ * Extract the prompt lookup options (locals, user_id, scope_id) from params
+ *
+ * @param params - Params that may carry lookup options
+ * @returns Only the lookup options that are set
+ *
+ * @example
+ * ```typescript
+ * const text_params: TextTextParams = {
+ *   prompt: '',
+ *   prompt_area,
+ *   prompt_key,
+ *   ...get_prompt_lookup_options(params),
+ * };
+ * ```
+ */
+export function get_prompt_lookup_options(params: PromptLookupOptions): PromptLookupOptions {
+  return {
+    ...(params.local_1 && { local_1: params.local_1 }),
+    ...(params.local_2 && { local_2: params.local_2 }),
+    ...(params.local_3 && { local_3: params.local_3 }),
+    ...(params.user_id && { user_id: params.user_id }),
+    ...(params.scope_id && { scope_id: params.scope_id }),
+  };
+}
@@ -0,0 +1,60 @@
+/**
+ * Provider Call Tests
+ *
+ * Retry, timeout and cancellation of provider calls, through
+ * hazo_llm_text_text and the mock provider.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { hazo_llm_text_text } from './index.js';
+import { MockProvider } from '../testing/mock_provider.js';
+import { initialize_llm_api_for_testing } from '../testing/test_setup.js';
+
+describe('provider calls', () => {
+  let mock: MockProvider;
+
+  beforeEach(async () => {
+    mock = new MockProvider({ strict: true });
+    await initialize_llm_api_for_testing({ providers: [mock] });
+  });
+
+  it('retries retryable errors and returns the first success', async () => {
+    mock
+      .add_response({ error_code: 'RATE_LIMITED', times: 1 })
+      .add_response({ text: 'Hello' });
+
+    const response = await hazo_llm_text_text({ prompt: 'Hi', retry: { max_attempts: 3, base_delay_ms: 1, jitter: 0 } });
+
+    expect(response).toMatchObject({ success: true, text: 'Hello' });
+    expect(mock.get_calls()).toHaveLength(2);
+  });
+
+  it('does not retry errors that are not retryable', async () => {
+    mock.add_response({ error_code: 'INVALID_REQUEST' });
+
+    const response = await hazo_llm_text_text({ prompt: 'Hi', retry: { max_attempts: 3, base_delay_ms: 1 } });
+
+    expect(response.error_info?.code).toBe('INVALID_REQUEST');
+    expect(mock.get_calls()).toHaveLength(1);
+  });
+
+  it('fails an attempt that exceeds timeout_ms with a retryable TIMEOUT', async () => {
+    mock.add_response({ text: 'Late', latency_ms: 200 });
+
+    const response = await hazo_llm_text_text({ prompt: 'Hi', timeout_ms: 20, retry: { max_attempts: 1 } });
+
+    expect(response.success).toBe(false);
+    expect(response.error_info).toMatchObject({ code: 'TIMEOUT', retryable: true });
+  });
+
+  it('stops without retrying when the caller aborts', async () => {
+    mock.add_response({ text: 'Late', latency_ms: 200 });
+    const controller = new AbortController();
+    setTimeout(() => controller.abort(), 20);
+
+    const response = await hazo_llm_text_text({ prompt: 'Hi', signal: controller.signal, retry: { max_attempts: 3, base_delay_ms: 1 } });
+
+    expect(response.error_info).toMatchObject({ code: 'ABORTED', retryable: false });
+    expect(mock.get_calls()).toHaveLength(1);
+  });
+});
@@ -9,15 +9,34 @@ import type { LLMProvider, ServiceType, ProviderName } from '../providers/types.
 import type {
   Logger,
   LLMResponse,
+  LLMStreamChunk,
+  LLMStreamResponse,
   LLMErrorCode,
   LLMError,
   LLMRequestContext,
   LLMResponseContext,
   LLMErrorContext,
+  ConfigReloadContext,
+  LLMUsage,
+  LLMRequestOptions,
 } from './types.js';
 import { LLM_ERROR_CODES } from './types.js';
-import { get_provider, validate_capability } from '../providers/registry.js';
+import { get_provider, validate_capability, get_fallback_providers } from '../providers/registry.js';
 import { get_hooks } from './index.js';
+import { apply_usage_accounting } from './usage_helper.js';
+import {
+  resolve_retry_policy,
+  should_retry,
+  compute_retry_delay,
+  wait_for_retry,
+} from './retry_helper.js';
+import type { AttemptSignal } from './timeout_helper.js';
+import {
+  resolve_timeout_ms,
+  create_attempt_signal,
+  build_timeout_error,
+  build_aborted_error,
+} from './timeout_helper.js';
 
 // =============================================================================
 // Types
@@ -42,6 +61,25 @@ export interface ProviderValidationOptions {
   logger: Logger;
 }
 
+/**
+ * Options for a provider call with fallback
+ */
+export interface FallbackCallOptions extends ProviderValidationOptions {
+  /** Source file name for logging */
+  file_name: string;
+
+  /** Additional data logged with the API call details of each provider */
+  log_details?: Record<string, unknown>;
+
+  /** Optional provider method the call needs beyond the service capability (e.g. tool calling) */
+  required_feature?: {
+    /** Feature name used in the error message */
+    name: string;
+    /** Check whether a provider implements the feature */
+    is_supported: (provider: LLMProvider) => boolean;
+  };
+}
+
 // =============================================================================
 // Provider Validation Helper
 // =============================================================================
@@ -468,23 +506,625 @@ export async function call_on_error_hook(
   }
 }
 
+/**
+ * Call the onConfigReload hook if configured
+ *
+ * @param context - Config reload context
+ */
+export async function call_on_config_reload_hook(
+  context: ConfigReloadContext
+): Promise<void> {
+  const hooks = get_hooks();
+  if (hooks.onConfigReload) {
+    try {
+      await hooks.onConfigReload(context);
+    } catch {
+      // Silently ignore hook errors to not affect main flow
+    }
+  }
+}
+
 /**
  * Create a request context for hooks
  *
  * @param service_type - Service type being called
  * @param provider - Provider name
  * @param params - Request parameters
+ * @param attempt - Attempt number (default: 1)
  * @returns Request context
  */
 export function create_request_context(
   service_type: ServiceType,
   provider: string,
-  params: Record<string, unknown>
+  params: Record<string, unknown>,
+  attempt: number = 1
 ): LLMRequestContext {
   return {
     service_type,
     provider,
     params,
     timestamp: new Date(),
+    attempt,
+  };
+}
+
+// =============================================================================
+// Request Options
+// =============================================================================
+
+/**
+ * Pick the request options from public call parameters
+ * Used by composite functions (chains, structured output, dynamic extract)
+ * to pass the caller's options on to each underlying service call.
+ *
+ * @param params - Public call parameters
+ * @returns Request options that were set
+ */
+export function get_request_options(params: LLMRequestOptions): LLMRequestOptions {
+  return {
+    ...(params.retry && { retry: params.retry }),
+    ...(params.timeout_ms !== undefined && { timeout_ms: params.timeout_ms }),
+    ...(params.signal && { signal: params.signal }),
+    ...(params.fallback_llms && { fallback_llms: params.fallback_llms }),
+  };
+}
+
+// =============================================================================
+// Hooked Provider Calls
+// =============================================================================
+
+/**
+ * Get the structured error from a failed response
+ * Falls back to classifying the legacy error string when error_info is not set
+ *
+ * @param response - The failed LLM response
+ * @returns Structured error information
+ */
+export function get_response_error(response: LLMResponse): LLMError {
+  if (response.error_info) {
+    return response.error_info;
+  }
+
+  return get_thrown_error(new Error(response.error || 'Unknown error'));
+}
+
+/**
+ * Get structured error information for a thrown error
+ *
+ * @param error - The caught error
+ * @returns Structured error information with detected code and retryable flag
+ */
+function get_thrown_error(error: unknown): LLMError {
+  return {
+    code: detect_error_code(error),
+    message: error instanceof Error ? error.message : String(error),
+    retryable: is_retryable_error(error),
+  };
+}
+
+/**
+ * Convert a failed response into a terminal stream chunk
+ *
+ * @param response - The failed LLM response
+ * @returns Final stream chunk carrying the error
+ */
+export function build_stream_error_from_response(response: LLMResponse): LLMStreamChunk {
+  const error_info = get_response_error(response);
+
+  return {
+    text: '',
+    done: true,
+    error: error_info.message,
+    error_info,
   };
 }
+
+/**
+ * Call a provider method wrapped in the lifecycle hooks and retry policy
+ *
+ * Invokes beforeRequest, then afterResponse on success or onError on a
+ * failed response or thrown error. Retryable failures (error_info.retryable)
+ * are retried with exponential backoff per the configured retry policy and
+ * the call's retry overrides; every attempt fires the hooks with its attempt
+ * number. Thrown errors are re-thrown after the final attempt so the caller's
+ * error handling still applies. Successful responses get their usage
+ * completed (image count, estimated cost) before afterResponse runs.
+ *
+ * Each attempt receives an abort signal that fires when the attempt exceeds
+ * its timeout (a retryable TIMEOUT error) or the caller's signal is aborted
+ * (an ABORTED error, never retried).
+ *
+ * @param service_type - Service type being called
+ * @param provider - The provider handling the call
+ * @param params - Final request parameters (after prompt resolution)
+ * @param call - Function performing the provider call with the attempt's abort signal
+ * @param options - Request options from the public call (retry, timeout, signal)
+ * @returns The provider response
+ *
+ * @example
+ * ```typescript
+ * const response = await call_provider_with_hooks(
+ *   SERVICE_TYPES.TEXT_TEXT,
+ *   provider,
+ *   call_params,
+ *   (signal) => provider.text_text({ ...call_params, signal }, logger),
+ *   params
+ * );
+ * ```
+ */
+export async function call_provider_with_hooks<T extends LLMResponse = LLMResponse>(
+  service_type: ServiceType,
+  provider: LLMProvider,
+  params: object,
+  call: (signal: AbortSignal) => Promise<T>,
+  options: LLMRequestOptions = {}
+): Promise<T> {
+  const policy = resolve_retry_policy(options.retry);
+  const timeout_ms = resolve_timeout_ms(service_type, options.timeout_ms);
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) {
+      return build_aborted_error() as T;
+    }
+
+    const context = create_request_context(
+      service_type,
+      provider.get_name(),
+      params as Record<string, unknown>,
+      attempt
+    );
+
+    await call_before_request_hook(context);
+    const start_time = Date.now();
+    const attempt_signal = create_attempt_signal(timeout_ms, options.signal);
+    let response: T;
+
+    try {
+      response = await call(attempt_signal.signal);
+    } catch (error) {
+      if (!attempt_signal.signal.aborted) {
+        const error_info = get_thrown_error(error);
+        const will_retry = should_retry(error_info, attempt, policy);
+
+        await call_on_error_hook({
+          ...context,
+          error: error_info,
+          duration_ms: Date.now() - start_time,
+          will_retry,
+        });
+
+        if (!will_retry) {
+          throw error;
+        }
+
+        await wait_for_retry(compute_retry_delay(attempt, policy, error_info), options.signal);
+        continue;
+      }
+
+      // Aborted requests are reported below as TIMEOUT / ABORTED
+      response = { success: false } as T;
+    } finally {
+      attempt_signal.dispose();
+    }
+
+    if (!response.success && attempt_signal.signal.aborted) {
+      response = get_abort_response(attempt_signal, timeout_ms) as T;
+    }
+
+    response = apply_usage_accounting(response, provider, service_type, params);
+    const duration_ms = Date.now() - start_time;
+
+    if (response.success) {
+      await call_after_response_hook({ ...context, response, duration_ms });
+      return response;
+    }
+
+    const error_info = get_response_error(response);
+    const will_retry = should_retry(error_info, attempt, policy) && !options.signal?.aborted;
+
+    await call_on_error_hook({ ...context, error: error_info, duration_ms, will_retry });
+
+    if (!will_retry) {
+      return response;
+    }
+
+    await wait_for_retry(compute_retry_delay(attempt, policy, error_info), options.signal);
+  }
+}
+
+/**
+ * Stream from a provider method wrapped in the lifecycle hooks and retry policy
+ *
+ * Invokes beforeRequest before opening the stream. When the stream finishes,
+ * afterResponse receives the accumulated text (and usage, if the provider
+ * reported it on the final chunk) as a regular LLMResponse; an error chunk or
+ * thrown error triggers onError instead. A retryable failure before the first
+ * text chunk (e.g. a 429 when opening the stream) is retried per the retry
+ * policy; once text has been yielded the error is passed through.
+ *
+ * The timeout applies to the wait for each chunk (time spent by the consumer
+ * is not counted). A timeout or an aborted caller signal ends the stream with
+ * a TIMEOUT or ABORTED error chunk.
+ *
+ * @param service_type - Service type being called
+ * @param provider - The provider handling the call
+ * @param params - Final request parameters (after prompt resolution)
+ * @param open_stream - Function opening the provider stream with the attempt's abort signal
+ * @param options - Request options from the public call (retry, timeout, signal)
+ * @returns Async generator yielding the provider's chunks
+ */
+export async function* stream_provider_with_hooks(
+  service_type: ServiceType,
+  provider: LLMProvider,
+  params: object,
+  open_stream: (signal: AbortSignal) => Promise<LLMStreamResponse>,
+  options: LLMRequestOptions = {}
+): LLMStreamResponse {
+  const policy = resolve_retry_policy(options.retry);
+  const timeout_ms = resolve_timeout_ms(service_type, options.timeout_ms);
+
+  for (let attempt = 1; ; attempt++) {
+    if (options.signal?.aborted) {
+      yield build_stream_error_from_response(build_aborted_error());
+      return;
+    }
+
+    const context = create_request_context(
+      service_type,
+      provider.get_name(),
+      params as Record<string, unknown>,
+      attempt
+    );
+
+    await call_before_request_hook(context);
+    const start_time = Date.now();
+    const attempt_signal = create_attempt_signal(timeout_ms, options.signal);
+    let full_text = '';
+    let usage: LLMUsage | undefined;
+    let has_yielded = false;
+    let error_chunk: LLMStreamChunk | undefined;
+    let has_thrown = false;
+    let thrown_error: unknown;
+
+    try {
+      const stream = await open_stream(attempt_signal.signal);
+
+      for await (let chunk of stream) {
+        if (chunk.error || chunk.error_info) {
+          error_chunk = chunk;
+          break;
+        }
+
+        full_text += chunk.text;
+
+        if (chunk.done && chunk.usage) {
+          usage = apply_usage_accounting(
+            { success: true, usage: chunk.usage },
+            provider,
+            service_type,
+            params
+          ).usage;
+          chunk = { ...chunk, usage };
+        }
+
+        has_yielded = true;
+        attempt_signal.pause();
+        yield chunk;
+        attempt_signal.reset();
+
+        if (chunk.done) {
+          break;
+        }
+      }
+    } catch (error) {
+      has_thrown = true;
+      thrown_error = error;
+    } finally {
+      attempt_signal.dispose();
+    }
+
+    // Timeouts and aborts end the stream with a TIMEOUT / ABORTED error chunk
+    if (attempt_signal.signal.aborted && (has_thrown || error_chunk)) {
+      has_thrown = false;
+      error_chunk = build_stream_error_from_response(get_abort_response(attempt_signal, timeout_ms));
+    }
+
+    if (!has_thrown && !error_chunk) {
+      await call_after_response_hook({
+        ...context,
+        response: { success: true, text: full_text, ...(usage && { usage }) },
+        duration_ms: Date.now() - start_time,
+      });
+      return;
+    }
+
+    const error_info = has_thrown
+      ? get_thrown_error(thrown_error)
+      : error_chunk?.error_info || {
+        code: LLM_ERROR_CODES.UNKNOWN,
+        message: error_chunk?.error || 'Unknown streaming error',
+        retryable: false,
+      };
+    const will_retry = !has_yielded &&
+      should_retry(error_info, attempt, policy) &&
+      !options.signal?.aborted;
+
+    await call_on_error_hook({
+      ...context,
+      error: error_info,
+      duration_ms: Date.now() - start_time,
+      will_retry,
+    });
+
+    if (!will_retry) {
+      if (has_thrown) {
+        throw thrown_error;
+      }
+      yield error_chunk as LLMStreamChunk;
+      return;
+    }
+
+    // Retryable failure before any output - back off and reopen the stream
+    await wait_for_retry(compute_retry_delay(attempt, policy, error_info), options.signal);
+  }
+}
+
+/**
+ * Build the error response for an attempt whose signal was aborted
+ *
+ * @param attempt_signal - The attempt's abort signal
+ * @param timeout_ms - The attempt's timeout
+ * @returns TIMEOUT error if the timeout fired, otherwise ABORTED
+ */
+function get_abort_response(attempt_signal: AttemptSignal, timeout_ms: number): LLMResponse {
+  return attempt_signal.timed_out() ? build_timeout_error(timeout_ms) : build_aborted_error();
+}
+
+// =============================================================================
+// Provider Fallback
+// =============================================================================
+
+/**
+ * Call the requested provider, falling back to the configured fallback providers
+ *
+ * The requested LLM (or the primary LLM) is called through
+ * call_provider_with_hooks, so its retry policy runs first. If it still fails
+ * with a retryable error or CAPABILITY_NOT_SUPPORTED, the call moves on to the
+ * next enabled fallback provider that supports the service type (fallback_llms
+ * for the service type, or the call's fallback_llms override). The response
+ * records the provider that answered and every provider tried.
+ *
+ * @param options - Provider selection and logging options
+ * @param params - Final request parameters (after prompt resolution)
+ * @param call - Function performing the call on a provider with the attempt's abort signal
+ * @param request_options - Request options from the public call (retry, timeout, signal, fallback_llms)
+ * @returns The response from the provider that answered (or the last failure)
+ *
+ * @example
+ * ```typescript
+ * const response = await call_provider_with_fallback(
+ *   { llm, service_type: SERVICE_TYPES.TEXT_TEXT, logger, file_name: FILE_NAME },
+ *   call_params,
+ *   (provider, signal) => provider.text_text({ ...call_params, signal }, logger),
+ *   params
+ * );
+ * ```
+ */
+export async function call_provider_with_fallback<T extends LLMResponse = LLMResponse>(
+  options: FallbackCallOptions,
+  params: object,
+  call: (provider: LLMProvider, signal: AbortSignal) => Promise<T>,
+  request_options: LLMRequestOptions = {}
+): Promise<T> {
+  const { llm, service_type, logger } = options;
+  const providers_tried: string[] = [];
+  let provider = get_provider(llm, logger);
+
+  if (!provider) {
+    return build_provider_not_found_error(llm) as T;
+  }
+
+  for (;;) {
+    const current: LLMProvider = provider;
+    providers_tried.push(current.get_name());
+
+    let response = get_unsupported_response(current, options) as T | null;
+
+    if (!response) {
+      log_api_details(current, service_type, options.file_name, logger, options.log_details);
+
+      try {
+        response = await call_provider_with_hooks(
+          service_type,
+          current,
+          params,
+          (signal) => call(current, signal),
+          request_options
+        );
+      } catch (error) {
+        const next = get_next_fallback(get_thrown_error(error), service_type, providers_tried, request_options);
+        if (!next) {
+          throw error;
+        }
+        log_fallback(current, next, get_thrown_error(error), options);
+        provider = next;
+        continue;
+      }
+    }
+
+    const next = response.success
+      ? null
+      : get_next_fallback(get_response_error(response), service_type, providers_tried, request_options);
+
+    if (!next) {
+      return { ...response, provider: current.get_name(), providers_tried: [...providers_tried] };
+    }
+
+    log_fallback(current, next, get_response_error(response), options);
+    provider = next;
+  }
+}
+
+/**
+ * Stream from the requested provider, falling back to the configured fallback providers
+ *
+ * Same provider selection as call_provider_with_fallback; a stream falls back
+ * only if it fails before yielding any text. The final chunk records the
+ * provider that served the stream and every provider tried.
+ *
+ * @param options - Provider selection and logging options
+ * @param params - Final request parameters (after prompt resolution)
+ * @param open_stream - Function opening the stream on a provider with the attempt's abort signal
+ * @param request_options - Request options from the public call (retry, timeout, signal, fallback_llms)
+ * @returns Async generator yielding the serving provider's chunks
+ */
+export async function* stream_provider_with_fallback(
+  options: FallbackCallOptions,
+  params: object,
+  open_stream: (provider: LLMProvider, signal: AbortSignal) => Promise<LLMStreamResponse>,
+  request_options: LLMRequestOptions = {}
+): LLMStreamResponse {
+  const { llm, service_type, logger } = options;
+  const providers_tried: string[] = [];
+  let provider = get_provider(llm, logger);
+
+  if (!provider) {
+    yield build_stream_error_from_response(build_provider_not_found_error(llm));
+    return;
+  }
+
+  for (;;) {
+    const current: LLMProvider = provider;
+    providers_tried.push(current.get_name());
+
+    const unsupported = get_unsupported_response(current, options);
+    let error_chunk = unsupported ? build_stream_error_from_response(unsupported) : undefined;
+    let has_yielded = false;
+
+    if (!error_chunk) {
+      log_api_details(current, service_type, options.file_name, logger, options.log_details);
+
+      try {
+        for await (let chunk of stream_provider_with_hooks(
+          service_type,
+          current,
+          params,
+          (signal) => open_stream(current, signal),
+          request_options
+        )) {
+          if (chunk.error || chunk.error_info) {
+            error_chunk = chunk;
+            break;
+          }
+
+          if (chunk.done) {
+            chunk = { ...chunk, provider: current.get_name(), providers_tried: [...providers_tried] };
+          }
+
+          has_yielded = true;
+          yield chunk;
+        }
+      } catch (error) {
+        const next = has_yielded
+          ? null
+          : get_next_fallback(get_thrown_error(error), service_type, providers_tried, request_options);
+        if (!next) {
+          throw error;
+        }
+        log_fallback(current, next, get_thrown_error(error), options);
+        provider = next;
+        continue;
+      }
+    }
+
+    if (!error_chunk) {
+      return;
+    }
+
+    const error_info = error_chunk.error_info || get_response_error({ success: false, error: error_chunk.error });
+    const next = has_yielded
+      ? null
+      : get_next_fallback(error_info, service_type, providers_tried, request_options);
+
+    if (!next) {
+      yield { ...error_chunk, provider: current.get_name(), providers_tried: [...providers_tried] };
+      return;
+    }
+
+    log_fallback(current, next, error_info, options);
+    provider = next;
+  }
+}
+
+/**
+ * Check that a provider can serve the call
+ *
+ * @param provider - Provider to check
+ * @param options - Fallback call options (service type and required feature)
+ * @returns CAPABILITY_NOT_SUPPORTED error response, or null if the provider can serve the call
+ */
+function get_unsupported_response(
+  provider: LLMProvider,
+  options: FallbackCallOptions
+): LLMResponse | null {
+  if (!validate_capability(provider, options.service_type, options.logger)) {
+    return build_capability_error(provider.get_name(), options.service_type);
+  }
+
+  const feature = options.required_feature;
+  if (feature && !feature.is_supported(provider)) {
+    return build_error_response(
+      LLM_ERROR_CODES.CAPABILITY_NOT_SUPPORTED,
+      `LLM provider "${provider.get_name()}" does not support ${feature.name}`,
+      false,
+      { provider: provider.get_name(), service_type: options.service_type }
+    );
+  }
+
+  return null;
+}
+
+/**
+ * Get the provider to fall back to after a failure
+ *
+ * @param error - Error from the failed provider
+ * @param service_type - Service type being called
+ * @param providers_tried - Providers already tried
+ * @param request_options - Request options (fallback_llms override, signal)
+ * @returns Next fallback provider, or null if the error does not fall back or none is left
+ */
+function get_next_fallback(
+  error: LLMError,
+  service_type: ServiceType,
+  providers_tried: string[],
+  request_options: LLMRequestOptions
+): LLMProvider | null {
+  const falls_back = error.retryable || error.code === LLM_ERROR_CODES.CAPABILITY_NOT_SUPPORTED;
+
+  if (!falls_back || request_options.signal?.aborted) {
+    return null;
+  }
+
+  return get_fallback_providers(service_type, providers_tried, request_options.fallback_llms)[0] || null;
+}
+
+/**
+ * Log a switch to a fallback provider
+ */
+function log_fallback(
+  from: LLMProvider,
+  to: LLMProvider,
+  error: LLMError,
+  options: FallbackCallOptions
+): void {
+  options.logger.warn('LLM provider failed, falling back to the next provider', {
+    file: options.file_name,
+    data: {
+      failed_provider: from.get_name(),
+      fallback_provider: to.get_name(),
+      service_type: options.service_type,
+      error_code: error.code,
+      error: error.message,
+    },
+  });
+}
@@ -0,0 +1,45 @@
+/**
+ * Retry Helper Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { compute_retry_delay, should_retry, resolve_retry_policy, DEFAULT_RETRY_POLICY } from './retry_helper.js';
+import type { LLMError, RetryPolicy } from './types.js';
+
+const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, jitter: 0 };
+
+const rate_limited: LLMError = { code: 'RATE_LIMITED', message: 'Too many requests', retryable: true };
+
+describe('retry policy', () => {
+  it('retries retryable errors until max_attempts', () => {
+    expect(should_retry(rate_limited, 1, policy)).toBe(true);
+    expect(should_retry(rate_limited, 3, policy)).toBe(false);
+    expect(should_retry({ ...rate_limited, retryable: false }, 1, policy)).toBe(false);
+  });
+
+  it('doubles the backoff delay up to max_delay_ms', () => {
+    expect(compute_retry_delay(1, policy, rate_limited)).toBe(1000);
+    expect(compute_retry_delay(2, policy, rate_limited)).toBe(2000);
+    expect(compute_retry_delay(10, policy, rate_limited)).toBe(30000);
+  });
+
+  it('waits for a Retry-After delay within max_delay_ms', () => {
+    const error = { ...rate_limited, details: { retry_after_ms: 5000 } };
+
+    expect(should_retry(error, 1, policy)).toBe(true);
+    expect(compute_retry_delay(1, policy, error)).toBe(5000);
+    expect(compute_retry_delay(1, { ...policy, respect_retry_after: false }, error)).toBe(1000);
+  });
+
+  it('returns the error instead of waiting for a Retry-After longer than max_delay_ms', () => {
+    const error = { ...rate_limited, details: { retry_after_ms: 3600 * 1000 } };
+
+    expect(should_retry(error, 1, policy)).toBe(false);
+    expect(compute_retry_delay(1, policy, error)).toBe(30000);
+    expect(should_retry(error, 1, { ...policy, respect_retry_after: false })).toBe(true);
+  });
+
+  it('clamps per-call overrides to valid ranges', () => {
+    expect(resolve_retry_policy({ max_attempts: 0, jitter: 2 })).toMatchObject({ max_attempts: 1, jitter: 1 });
+  });
+});
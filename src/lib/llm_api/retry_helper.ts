@@ -0,0 +1,229 @@
+/**
+ * Retry Helper Utilities
+ *
+ * Retry policy for provider calls: configured defaults from the [llm] section,
+ * per-call overrides, and exponential backoff with jitter that honours the
+ * provider's Retry-After delay.
+ */
+
+import type { LLMError, Logger, RetryOptions, RetryPolicy } from './types.js';
+import { get_scoped_state } from './client_scope.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'retry_helper.ts';
+
+/**
+ * Default retry policy: up to 3 attempts, 1s → 2s backoff with ±20% jitter
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  max_attempts: 3,
+  base_delay_ms: 1000,
+  max_delay_ms: 30000,
+  jitter: 0.2,
+  respect_retry_after: true,
+};
+
+// =============================================================================
+// Policy Management
+// =============================================================================
+
+/**
+ * Retry policy state of one client (see client_scope.ts)
+ */
+interface RetryState {
+  /** The configured retry policy (from the [llm] section) */
+  configured_policy: RetryPolicy;
+}
+
+const RETRY_STATE_KEY = Symbol('retry_policy');
+
+/**
+ * Create the retry state with the default policy
+ * @returns Retry state
+ */
+function create_retry_state(): RetryState {
+  return { configured_policy: { ...DEFAULT_RETRY_POLICY } };
+}
+
+/**
+ * Retry state of the default instance (top-level functions)
+ */
+const default_retry_state = create_retry_state();
+
+/**
+ * Get the retry state of the active client
+ * @returns Retry state of the active client scope, or the default state
+ */
+function get_retry_state(): RetryState {
+  return get_scoped_state(RETRY_STATE_KEY, default_retry_state, create_retry_state);
+}
+
+/**
+ * Set the default retry policy used by all provider calls
+ * @param policy - Policy fields to set (unset fields use DEFAULT_RETRY_POLICY)
+ */
+export function set_retry_policy(policy: RetryOptions): void {
+  get_retry_state().configured_policy = normalize_retry_policy({ ...DEFAULT_RETRY_POLICY, ...policy });
+}
+
+/**
+ * Get the configured default retry policy
+ * @returns Copy of the current policy
+ */
+export function get_retry_policy(): RetryPolicy {
+  return { ...get_retry_state().configured_policy };
+}
+
+/**
+ * Resolve the retry policy for a call
+ * @param overrides - Per-call overrides (optional)
+ * @returns Configured policy with the overrides applied
+ */
+export function resolve_retry_policy(overrides?: RetryOptions): RetryPolicy {
+  if (!overrides) {
+    return get_retry_policy();
+  }
+  return normalize_retry_policy({ ...get_retry_state().configured_policy, ...overrides });
+}
+
+/**
+ * Parse retry settings from the [llm] INI section
+ * Reads retry_max_attempts, retry_base_delay_ms, retry_max_delay_ms,
+ * retry_jitter and retry_respect_retry_after. Invalid values are ignored with a warning.
+ *
+ * @param section - The parsed [llm] section
+ * @param logger - Logger instance
+ * @returns Retry policy fields found in the section
+ */
+export function parse_retry_policy(
+  section: Record<string, string>,
+  logger: Logger
+): RetryOptions {
+  const policy: RetryOptions = {};
+  const numeric_keys: Array<[string, 'max_attempts' | 'base_delay_ms' | 'max_delay_ms' | 'jitter']> = [
+    ['retry_max_attempts', 'max_attempts'],
+    ['retry_base_delay_ms', 'base_delay_ms'],
+    ['retry_max_delay_ms', 'max_delay_ms'],
+    ['retry_jitter', 'jitter'],
+  ];
+
+  for (const [key, field] of numeric_keys) {
+    if (section[key] === undefined) {
+      continue;
+    }
+
+    const value = Number(section[key]);
+    if (isNaN(value) || value < 0) {
+      logger.warn('Ignoring invalid retry setting in config', {
+        file: FILE_NAME,
+        data: { key, value: section[key] },
+      });
+      continue;
+    }
+    policy[field] = value;
+  }
+
+  const respect_retry_after = section.retry_respect_retry_after;
+  if (respect_retry_after !== undefined) {
+    policy.respect_retry_after = String(respect_retry_after).toLowerCase() !== 'false';
+  }
+
+  return policy;
+}
+
+// =============================================================================
+// Retry Decisions
+// =============================================================================
+
+/**
+ * Check whether a failed attempt should be retried
+ * A Retry-After delay longer than max_delay_ms (with respect_retry_after set)
+ * is not waited for: the error is returned instead of blocking the call.
+ * @param error - Error from the failed attempt
+ * @param attempt - Attempt number that failed (1-based)
+ * @param policy - Retry policy for the call
+ * @returns True if the error is retryable, attempts remain and the requested wait is within max_delay_ms
+ */
+export function should_retry(error: LLMError, attempt: number, policy: RetryPolicy): boolean {
+  const retry_after_ms = get_retry_after_ms(error, policy);
+  if (retry_after_ms !== null && retry_after_ms > policy.max_delay_ms) {
+    return false;
+  }
+  return error.retryable && attempt < policy.max_attempts;
+}
+
+/**
+ * Compute the delay before the next attempt
+ * Uses the provider's Retry-After delay (error_info.details.retry_after_ms) when
+ * present and respect_retry_after is set; otherwise exponential backoff
+ * (base_delay_ms * 2^(attempt-1)) with jitter. Both are capped at max_delay_ms.
+ *
+ * @param attempt - Attempt number that failed (1-based)
+ * @param policy - Retry policy for the call
+ * @param error - Error from the failed attempt
+ * @returns Delay in milliseconds
+ */
+export function compute_retry_delay(attempt: number, policy: RetryPolicy, error: LLMError): number {
+  const retry_after_ms = get_retry_after_ms(error, policy);
+  if (retry_after_ms !== null) {
+    return Math.min(retry_after_ms, policy.max_delay_ms);
+  }
+
+  const backoff = Math.min(policy.base_delay_ms * 2 ** (attempt - 1), policy.max_delay_ms);
+  const jitter = backoff * policy.jitter * (Math.random() * 2 - 1);
+
+  return Math.max(0, Math.round(backoff + jitter));
+}
+
+/**
+ * Wait before the next attempt, ending early if the call is aborted
+ * @param delay_ms - Delay in milliseconds
+ * @param signal - The caller's AbortSignal (optional)
+ */
+export function wait_for_retry(delay_ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise(resolve => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+
+    const on_abort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', on_abort);
+      resolve();
+    }, delay_ms);
+
+    signal?.addEventListener('abort', on_abort, { once: true });
+  });
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Get the provider's Retry-After delay when the policy respects it
+ */
+function get_retry_after_ms(error: LLMError, policy: RetryPolicy): number | null {
+  const retry_after_ms = error.details?.retry_after_ms;
+  return policy.respect_retry_after && typeof retry_after_ms === 'number' ? retry_after_ms : null;
+}
+
+/**
+ * Clamp policy values to valid ranges
+ */
+function normalize_retry_policy(policy: RetryPolicy): RetryPolicy {
+  return {
+    ...policy,
+    max_attempts: Math.max(1, Math.floor(policy.max_attempts)),
+    base_delay_ms: Math.max(0, policy.base_delay_ms),
+    max_delay_ms: Math.max(0, policy.max_delay_ms),
+    jitter: Math.min(1, Math.max(0, policy.jitter)),
+  };
+}
@@ -0,0 +1,256 @@
+/**
+ * Timeout Helper Utilities
+ *
+ * Provider request timeouts and cancellation: configured per-service timeouts
+ * from the [llm] section, per-call overrides, and the abort signal handed to
+ * each provider attempt (combining the caller's AbortSignal with the timeout).
+ */
+
+import type { ServiceType } from '../providers/types.js';
+import type { Logger, LLMResponse, TimeoutConfig } from './types.js';
+import { LLM_ERROR_CODES } from './types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import { build_error_response } from './provider_helper.js';
+import { get_scoped_state } from './client_scope.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'timeout_helper.ts';
+
+/** Default timeout per provider attempt (2 minutes) */
+export const DEFAULT_TIMEOUT_MS = 120000;
+
+/** INI key for the timeout applied to every service */
+const DEFAULT_TIMEOUT_KEY = 'timeout_ms';
+
+// =============================================================================
+// Timeout Configuration
+// =============================================================================
+
+/**
+ * Timeout state of one client (see client_scope.ts)
+ */
+interface TimeoutState {
+  /** The configured timeouts (from the [llm] section) */
+  configured_timeouts: TimeoutConfig;
+}
+
+const TIMEOUT_STATE_KEY = Symbol('timeouts');
+
+/**
+ * Create the timeout state with the default timeout
+ * @returns Timeout state
+ */
+function create_timeout_state(): TimeoutState {
+  return { configured_timeouts: { default_ms: DEFAULT_TIMEOUT_MS, per_service: {} } };
+}
+
+/**
+ * Timeout state of the default instance (top-level functions)
+ */
+const default_timeout_state = create_timeout_state();
+
+/**
+ * Get the timeout state of the active client
+ * @returns Timeout state of the active client scope, or the default state
+ */
+function get_timeout_state(): TimeoutState {
+  return get_scoped_state(TIMEOUT_STATE_KEY, default_timeout_state, create_timeout_state);
+}
+
+/**
+ * Set the provider request timeouts
+ * @param config - Default timeout and per-service timeouts (unset fields keep their defaults)
+ */
+export function set_timeout_config(config: Partial<TimeoutConfig>): void {
+  get_timeout_state().configured_timeouts = {
+    default_ms: config.default_ms ?? DEFAULT_TIMEOUT_MS,
+    per_service: { ...config.per_service },
+  };
+}
+
+/**
+ * Get the configured provider request timeouts
+ * @returns Copy of the current timeout configuration
+ */
+export function get_timeout_config(): TimeoutConfig {
+  const { configured_timeouts } = get_timeout_state();
+  return {
+    default_ms: configured_timeouts.default_ms,
+    per_service: { ...configured_timeouts.per_service },
+  };
+}
+
+/**
+ * Resolve the timeout for a provider call
+ * @param service_type - Service type being called
+ * @param override_ms - Per-call timeout (optional)
+ * @returns Timeout in milliseconds (0 = no timeout)
+ */
+export function resolve_timeout_ms(service_type: ServiceType, override_ms?: number): number {
+  if (override_ms !== undefined) {
+    return Math.max(0, override_ms);
+  }
+  const { configured_timeouts } = get_timeout_state();
+  return configured_timeouts.per_service[service_type] ?? configured_timeouts.default_ms;
+}
+
+/**
+ * Parse timeout settings from the [llm] INI section
+ * Reads timeout_ms (all services) and timeout_<service_type>_ms
+ * (e.g. timeout_text_image_ms). Invalid values are ignored with a warning.
+ *
+ * @param section - The parsed [llm] section
+ * @param logger - Logger instance
+ * @returns Timeout settings found in the section
+ */
+export function parse_timeout_config(
+  section: Record<string, string>,
+  logger: Logger
+): Partial<TimeoutConfig> {
+  const config: Partial<TimeoutConfig> = {};
+  const per_service: Partial<Record<ServiceType, number>> = {};
+
+  const read_timeout = (key: string): number | undefined => {
+    if (section[key] === undefined) {
+      return undefined;
+    }
+    const value = Number(section[key]);
+    if (isNaN(value) || value < 0) {
+      logger.warn('Ignoring invalid timeout setting in config', {
+        file: FILE_NAME,
+        data: { key, value: section[key] },
+      });
+      return undefined;
+    }
+    return value;
+  };
+
+  const default_ms = read_timeout(DEFAULT_TIMEOUT_KEY);
+  if (default_ms !== undefined) {
+    config.default_ms = default_ms;
+  }
+
+  for (const service_type of Object.values(SERVICE_TYPES)) {
+    const value = read_timeout(`timeout_${service_type}_ms`);
+    if (value !== undefined) {
+      per_service[service_type] = value;
+    }
+  }
+
+  if (Object.keys(per_service).length > 0) {
+    config.per_service = per_service;
+  }
+
+  return config;
+}
+
+// =============================================================================
+// Attempt Signals
+// =============================================================================
+
+/**
+ * Abort signal for one provider attempt
+ */
+export interface AttemptSignal {
+  /** Signal to pass to the provider (aborted on timeout or caller abort) */
+  signal: AbortSignal;
+
+  /** Whether the attempt was aborted by its timeout */
+  timed_out: () => boolean;
+
+  /** Restart the timeout (used between stream chunks) */
+  reset: () => void;
+
+  /** Stop the timeout until the next reset (while the stream consumer has a chunk) */
+  pause: () => void;
+
+  /** Clear the timer and detach from the caller's signal */
+  dispose: () => void;
+}
+
+/**
+ * Create the abort signal for one provider attempt
+ * The signal aborts when the caller's signal aborts or the timeout elapses.
+ *
+ * @param timeout_ms - Timeout in milliseconds (0 = no timeout)
+ * @param parent_signal - The caller's AbortSignal (optional)
+ * @returns Attempt signal with timeout state and cleanup
+ */
+export function create_attempt_signal(
+  timeout_ms: number,
+  parent_signal?: AbortSignal
+): AttemptSignal {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let has_timed_out = false;
+
+  const on_parent_abort = () => controller.abort(parent_signal?.reason);
+
+  const clear_timer = () => {
+    if (timer) {
+      clearTimeout(timer);
+      timer = undefined;
+    }
+  };
+
+  const start_timer = () => {
+    clear_timer();
+    if (timeout_ms > 0 && !controller.signal.aborted) {
+      timer = setTimeout(() => {
+        has_timed_out = true;
+        controller.abort(new Error(`Request timed out after ${timeout_ms}ms`));
+      }, timeout_ms);
+    }
+  };
+
+  if (parent_signal?.aborted) {
+    on_parent_abort();
+  } else {
+    parent_signal?.addEventListener('abort', on_parent_abort, { once: true });
+    start_timer();
+  }
+
+  return {
+    signal: controller.signal,
+    timed_out: () => has_timed_out,
+    reset: start_timer,
+    pause: clear_timer,
+    dispose: () => {
+      clear_timer();
+      parent_signal?.removeEventListener('abort', on_parent_abort);
+    },
+  };
+}
+
+// =============================================================================
+// Error Responses
+// =============================================================================
+
+/**
+ * Build the error response for an attempt that hit its timeout
+ * @param timeout_ms - The timeout that elapsed
+ * @returns TIMEOUT error response (retryable)
+ */
+export function build_timeout_error(timeout_ms: number): LLMResponse {
+  return build_error_response(
+    LLM_ERROR_CODES.TIMEOUT,
+    `Request timed out after ${timeout_ms}ms`,
+    true,
+    { timeout_ms }
+  );
+}
+
+/**
+ * Build the error response for a call cancelled through its AbortSignal
+ * @returns ABORTED error response (not retryable)
+ */
+export function build_aborted_error(): LLMResponse {
+  return build_error_response(
+    LLM_ERROR_CODES.ABORTED,
+    'Request was aborted',
+    false
+  );
+}
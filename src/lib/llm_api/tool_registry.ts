@@ -0,0 +1,129 @@
+/**
+ * Tool Registry
+ *
+ * Registry of tools (functions) that models can call through hazo_llm_tool_call.
+ * Tools are registered once (e.g. at startup) and referenced by name per call.
+ */
+
+import type { ToolDefinition } from './types.js';
+import { get_scoped_state } from './client_scope.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Tool names accepted by both Gemini and OpenAI-compatible APIs */
+const TOOL_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]{0,63}$/;
+
+// =============================================================================
+// Tool Registry
+// =============================================================================
+
+const TOOL_REGISTRY_STATE_KEY = Symbol('tool_registry');
+
+/**
+ * Map of registered tools by name for the default instance (top-level functions)
+ */
+const default_tool_map = new Map<string, ToolDefinition>();
+
+/**
+ * Get the tools of the active client (see client_scope.ts)
+ * @returns Tool map of the active client scope, or the default map
+ */
+function get_tool_map(): Map<string, ToolDefinition> {
+  return get_scoped_state(TOOL_REGISTRY_STATE_KEY, default_tool_map, () => new Map());
+}
+
+// =============================================================================
+// Registry Management
+// =============================================================================
+
+/**
+ * Register a tool that models can call
+ * Replaces any existing tool with the same name.
+ *
+ * @param tool - Tool definition with name, description, parameters schema and handler
+ * @throws Error if the tool definition is invalid
+ *
+ * @example
+ * ```typescript
+ * register_tool({
+ *   name: 'get_order_status',
+ *   description: 'Look up the shipping status of an order',
+ *   parameters: {
+ *     type: 'object',
+ *     properties: { order_id: { type: 'string' } },
+ *     required: ['order_id'],
+ *   },
+ *   handler: async ({ order_id }) => orders.get_status(order_id as string),
+ * });
+ * ```
+ */
+export function register_tool(tool: ToolDefinition): void {
+  const validation_error = validate_tool_definition(tool);
+  if (validation_error) {
+    throw new Error(validation_error);
+  }
+  get_tool_map().set(tool.name, tool);
+}
+
+/**
+ * Remove a registered tool
+ * @param name - Tool name
+ * @returns True if the tool was registered
+ */
+export function unregister_tool(name: string): boolean {
+  return get_tool_map().delete(name);
+}
+
+/**
+ * Get a registered tool by name
+ * @param name - Tool name
+ * @returns Tool definition or undefined if not registered
+ */
+export function get_registered_tool(name: string): ToolDefinition | undefined {
+  return get_tool_map().get(name);
+}
+
+/**
+ * Get all registered tools
+ * @returns Array of registered tool definitions
+ */
+export function get_registered_tools(): ToolDefinition[] {
+  return Array.from(get_tool_map().values());
+}
+
+/**
+ * Remove all registered tools
+ */
+export function clear_registered_tools(): void {
+  get_tool_map().clear();
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+/**
+ * Validate a tool definition
+ * @param tool - Tool definition to validate
+ * @returns Error message, or null if the definition is valid
+ */
+export function validate_tool_definition(tool: ToolDefinition): string | null {
+  if (!tool || typeof tool !== 'object') {
+    return 'Tool definition must be an object';
+  }
+  if (typeof tool.name !== 'string' || !TOOL_NAME_PATTERN.test(tool.name)) {
+    return `Invalid tool name "${String(tool.name)}". Use letters, digits, underscores and dashes (max 64 characters)`;
+  }
+  if (typeof tool.description !== 'string' || !tool.description.trim()) {
+    return `Tool "${tool.name}" requires a description`;
+  }
+  if (!tool.parameters || typeof tool.parameters !== 'object') {
+    return `Tool "${tool.name}" requires a parameters JSON Schema`;
+  }
+  if (typeof tool.handler !== 'function') {
+    return `Tool "${tool.name}" requires a handler function`;
+  }
+  return null;
+}
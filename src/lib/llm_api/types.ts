@@ -6,6 +6,10 @@
  */
 
 import type { ServiceType, ProviderName } from '../providers/types.js';
+import type { ConfigChange } from '../config/config_parser.js';
+import type { CacheStats, PromptCacheConfig } from '../prompts/prompt_cache.js';
+import type { PromptStore, PromptStoreConfig } from '../prompt_store/types.js';
+import type { PartialDependent } from '../prompts/prompt_partials.js';
 
 // =============================================================================
 // Logger Interface
@@ -54,6 +58,85 @@ export interface GeminiGenerationConfig {
   
   /** Format of the response: "text/plain" or "application/json" */
   response_mime_type?: string;
+  
+  /** JSON Schema for structured output (converted to responseSchema) */
+  response_schema?: JsonSchema;
+}
+
+/**
+ * Per-call generation parameter overrides
+ * Provider-neutral; merged over the provider's configured text_config/image_config for a single call.
+ * Only the parameters that are set are overridden.
+ */
+export interface GenerationOverrides {
+  /** Controls randomness in output (0.0-2.0). Lower = more deterministic */
+  temperature?: number;
+
+  /** Maximum number of tokens in the response (Gemini: maxOutputTokens, Qwen: max_tokens) */
+  max_tokens?: number;
+
+  /** Nucleus sampling probability (0.0-1.0) */
+  top_p?: number;
+
+  /** Sequences that stop generation when encountered */
+  stop_sequences?: string[];
+
+  /** Format of the response: "text/plain" or "application/json" */
+  response_mime_type?: string;
+
+  /** JSON Schema the response must follow (uses the provider's native structured-output mode) */
+  response_schema?: JsonSchema;
+}
+
+// =============================================================================
+// JSON Schema Types
+// =============================================================================
+
+/**
+ * JSON Schema primitive type names
+ */
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/**
+ * JSON Schema definition (the commonly supported subset)
+ * Used for structured output and tool parameter definitions
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  enum?: unknown[];
+  const?: unknown;
+  format?: string;
+  nullable?: boolean;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+  [key: string]: unknown;
+}
+
+/**
+ * A single JSON Schema validation failure
+ */
+export interface SchemaValidationError {
+  /** Location of the invalid value (e.g., "$.items[0].price") */
+  path: string;
+
+  /** Description of the failure */
+  message: string;
 }
 
 // =============================================================================
@@ -75,6 +158,9 @@ export interface LLMRequestContext {
 
   /** Timestamp when request started */
   timestamp: Date;
+
+  /** Attempt number for this request (1 = first call, 2+ = retries) */
+  attempt: number;
 }
 
 /**
@@ -97,6 +183,9 @@ export interface LLMErrorContext extends LLMRequestContext {
 
   /** Duration until error in milliseconds */
   duration_ms: number;
+
+  /** Whether the request will be retried after this error */
+  will_retry: boolean;
 }
 
 /**
@@ -117,6 +206,29 @@ export type AfterResponseHook = (context: LLMResponseContext) => void | Promise<
  */
 export type OnErrorHook = (context: LLMErrorContext) => void | Promise<void>;
 
+/**
+ * Context passed to onConfigReload hook
+ */
+export interface ConfigReloadContext {
+  /** Config values that changed ([llm] and [llm_<provider>] sections) */
+  changes: ConfigChange[];
+
+  /** Registered providers after the reload */
+  providers: string[];
+
+  /** What started the reload */
+  trigger: 'manual' | 'watcher';
+
+  /** Timestamp of the reload */
+  timestamp: Date;
+}
+
+/**
+ * Hook function called after the configuration was reloaded with changes
+ * Can be async for logging/notifications
+ */
+export type OnConfigReloadHook = (context: ConfigReloadContext) => void | Promise<void>;
+
 /**
  * Lifecycle hooks for LLM API calls
  * All hooks are optional and can be async
@@ -147,6 +259,23 @@ export interface LLMHooks {
 
   /** Called when an error occurs */
   onError?: OnErrorHook;
+
+  /** Called after reload_llm_config (or the config watcher) applied changes */
+  onConfigReload?: OnConfigReloadHook;
+}
+
+/**
+ * Result of reload_llm_config
+ */
+export interface ConfigReloadResult {
+  /** Whether the configuration was reloaded (true with no changes as well) */
+  success: boolean;
+
+  /** Config values that changed ([llm] and [llm_<provider>] sections) */
+  changes: ConfigChange[];
+
+  /** Error message if the reload was rejected */
+  error?: string;
 }
 
 // =============================================================================
@@ -190,27 +319,105 @@ export interface LLMApiConfig {
    */
   sqlite_path?: string;
 
+  /**
+   * Delay database saves until writes stop for this many ms (bulk imports)
+   * Default: sqlite_save_debounce_ms in the [llm] section, else 0 (save after every write)
+   */
+  sqlite_save_debounce_ms?: number;
+
   /**
    * Lifecycle hooks for monitoring, logging, and analytics
    * Optional - hooks are called at various points during LLM API calls
    */
   hooks?: LLMHooks;
+
+  /**
+   * Provider settings by provider name, in place of [llm_<provider>] INI sections
+   * Keys are the same as in the INI file (api_key, model_text_text, capabilities, ...)
+   * Optional - settings here override the config file and HAZO_LLM_* variables
+   * @example { gemini: { api_key: '...', capabilities: ['text_text'] } }
+   */
+  providers?: Record<string, ProviderSettings>;
+
+  /**
+   * LLM providers to enable (overrides [llm] enabled_llms)
+   * Default: the names in providers if given, otherwise the config file value
+   */
+  enabled_llms?: string[];
+
+  /**
+   * Primary/default LLM provider (overrides [llm] primary_llm)
+   * Default: the config file value, or the first enabled LLM if that is not enabled
+   */
+  primary_llm?: string;
+
+  /**
+   * Refuse to initialize when validate_llm_config reports errors
+   * (and reject reloads whose configuration has errors)
+   * Default: false (problems are only logged while loading providers)
+   */
+  strict_config?: boolean;
+
+  /**
+   * Watch the config file and call reload_llm_config when it changes
+   * Default: false
+   */
+  watch_config?: boolean;
+
+  /**
+   * Fail calls with TEMPLATE_ERROR when a prompt variable is missing
+   * (per call: strict_variables in the request options)
+   * Default: false (the {{tag}} is left in the prompt and a warning is logged)
+   */
+  strict_variables?: boolean;
+
+  /**
+   * Prompt cache settings (ttl_ms, max_size, enabled)
+   * Default: enabled, 5 minute TTL, 100 entries
+   */
+  prompt_cache?: PromptCacheConfig;
+
+  /**
+   * Where dynamic prompts are stored: a PromptStore instance or the config of
+   * a built-in store (sqljs, postgres, directory)
+   * Default: prompt_store in the [llm] section, else the sql.js database at sqlite_path
+   */
+  prompt_store?: PromptStore | PromptStoreConfig;
 }
 
+/**
+ * Settings of one provider in LLMApiConfig.providers
+ * Arrays and objects are stored the way the INI file expects (JSON)
+ */
+export type ProviderSettings = Record<string, string | number | boolean | string[] | Record<string, unknown> | undefined>;
+
 // =============================================================================
 // Prompt Variable Types
 // =============================================================================
 
+/**
+ * Value of a prompt variable: text or any JSON value
+ * Objects and arrays can be used with nested access ({{customer.name}}),
+ * {{#if}}, {{#each}} and filters.
+ */
+export type PromptVariableValue =
+  | string
+  | number
+  | boolean
+  | null
+  | PromptVariableValue[]
+  | { [key: string]: PromptVariableValue };
+
 /**
  * Single prompt variable key-value pair
  */
 export interface PromptVariable {
-  [key: string]: string;
+  [key: string]: PromptVariableValue;
 }
 
 /**
  * Array of prompt variables for substitution
- * Format: [{ "variable1": "value1", "variable2": "value2" }]
+ * Format: [{ "variable1": "value1", "customer": { "name": "Ann" }, "items": [1, 2] }]
  */
 export type PromptVariables = PromptVariable[];
 
@@ -328,6 +535,90 @@ export interface PromptRecord {
   next_prompt: string | null;
 }
 
+/**
+ * Prompt fields that are versioned in hazo_prompt_versions
+ * Changing any of these through update_prompt records a new version.
+ */
+export type PromptVersionField = 'prompt_text' | 'prompt_variables' | 'prompt_notes' | 'next_prompt';
+
+/**
+ * Revision record from the hazo_prompt_versions table
+ * Each version is a full snapshot of the versioned prompt fields.
+ */
+export interface PromptVersionRecord {
+  /** Unique identifier for the revision (UUID) */
+  id: string;
+
+  /** ID of the prompt in hazo_prompts */
+  prompt_id: string;
+
+  /** Version number (1 for the first revision, incremented on each change) */
+  version: number;
+
+  /** Prompt text of this version */
+  prompt_text: string;
+
+  /** JSON string of variables of this version */
+  prompt_variables: string;
+
+  /** Prompt notes of this version */
+  prompt_notes: string;
+
+  /** next_prompt configuration of this version */
+  next_prompt: string | null;
+
+  /** Who made the change (null when not provided) */
+  author: string | null;
+
+  /** Change note, e.g. "Tighten output format" */
+  note: string;
+
+  /** Timestamp when the version was recorded */
+  created_at: string;
+}
+
+/**
+ * Author and note to record with a new prompt version
+ */
+export interface PromptVersionInfo {
+  /** Who made the change */
+  author?: string;
+
+  /** Why the change was made */
+  note?: string;
+}
+
+/**
+ * A line in a prompt text diff
+ */
+export interface PromptDiffLine {
+  /** Whether the line is in both versions, only the newer one or only the older one */
+  type: 'unchanged' | 'added' | 'removed';
+
+  /** Line content */
+  text: string;
+}
+
+/**
+ * Difference between two versions of a prompt
+ */
+export interface PromptVersionDiff {
+  /** ID of the prompt */
+  prompt_id: string;
+
+  /** Version compared from */
+  from_version: number;
+
+  /** Version compared to */
+  to_version: number;
+
+  /** Versioned fields that differ between the two versions */
+  changed_fields: PromptVersionField[];
+
+  /** Line-by-line diff of prompt_text (from_version → to_version) */
+  text_diff: PromptDiffLine[];
+}
+
 // =============================================================================
 // LLM Error Types
 // =============================================================================
@@ -368,6 +659,14 @@ export const LLM_ERROR_CODES = {
   DATABASE_ERROR: 'DATABASE_ERROR',
   /** Prompt not found */
   PROMPT_NOT_FOUND: 'PROMPT_NOT_FOUND',
+  /** Prompt template is malformed, or variables are missing (strict_variables) */
+  TEMPLATE_ERROR: 'TEMPLATE_ERROR',
+  /** Response did not match the requested JSON schema */
+  SCHEMA_VALIDATION_FAILED: 'SCHEMA_VALIDATION_FAILED',
+  /** Tool-calling loop hit max_iterations while the model was still requesting tools */
+  MAX_ITERATIONS_EXCEEDED: 'MAX_ITERATIONS_EXCEEDED',
+  /** Request was cancelled through its AbortSignal */
+  ABORTED: 'ABORTED',
   /** Unknown/unexpected error */
   UNKNOWN: 'UNKNOWN',
 } as const;
@@ -426,6 +725,172 @@ export interface LLMResponse {
 
   /** MIME type of the generated image */
   image_mime_type?: string;
+
+  /** Token usage (and estimated cost) reported for this call */
+  usage?: LLMUsage;
+
+  /** Provider that produced this response (the last one tried if every provider failed) */
+  provider?: string;
+
+  /** Providers called for this response in order, including failed ones before a fallback */
+  providers_tried?: string[];
+
+  /** Version of the database prompt that was sent (prompt_area/prompt_key calls only) */
+  prompt_version?: number;
+}
+
+// =============================================================================
+// Usage Types
+// =============================================================================
+
+/**
+ * Normalized token usage for an LLM call
+ * Gemini usageMetadata and Qwen usage are mapped to the same fields.
+ */
+export interface LLMUsage {
+  /** Prompt/input tokens */
+  input_tokens: number;
+
+  /** Generated/output tokens */
+  output_tokens: number;
+
+  /** Total tokens as reported by the provider (may include extras such as thinking tokens) */
+  total_tokens: number;
+
+  /** Images sent (image_text) or generated (text_image, image_image) */
+  image_count?: number;
+
+  /** Estimated cost from the configured per-model prices (set when a price is configured) */
+  estimated_cost?: number;
+}
+
+/**
+ * Per-model price used to estimate call cost
+ * Configured in the provider INI section as price_<model>={"input": 0.3, "output": 2.5, "image": 0.039}
+ */
+export interface ModelPricing {
+  /** Price per 1M input tokens */
+  input: number;
+
+  /** Price per 1M output tokens */
+  output: number;
+
+  /** Price per image counted in usage.image_count (optional) */
+  image?: number;
+}
+
+// =============================================================================
+// Retry Types
+// =============================================================================
+
+/**
+ * Retry policy for provider calls that fail with a retryable error
+ * (error_info.retryable: RATE_LIMITED, NETWORK_ERROR, TIMEOUT, 5xx API errors)
+ *
+ * Configured in the [llm] section (retry_max_attempts, retry_base_delay_ms,
+ * retry_max_delay_ms, retry_jitter, retry_respect_retry_after) and overridable per call.
+ */
+export interface RetryPolicy {
+  /** Total attempts including the first call (1 = no retries) */
+  max_attempts: number;
+
+  /** Delay before the first retry; doubles with each further retry */
+  base_delay_ms: number;
+
+  /** Upper bound for the backoff delay; a longer Retry-After stops retrying */
+  max_delay_ms: number;
+
+  /** Random jitter as a fraction of the delay (0-1, e.g. 0.2 = ±20%, 0 = none) */
+  jitter: number;
+
+  /** Wait for the provider's Retry-After header instead of the backoff delay when present */
+  respect_retry_after: boolean;
+}
+
+/**
+ * Per-call retry overrides (unset fields use the configured policy)
+ */
+export type RetryOptions = Partial<RetryPolicy>;
+
+// =============================================================================
+// Timeout Types
+// =============================================================================
+
+/**
+ * Provider request timeouts
+ * Configured in the [llm] section as timeout_ms (all services) and
+ * timeout_<service_type>_ms (e.g. timeout_text_image_ms).
+ */
+export interface TimeoutConfig {
+  /** Timeout for every service without its own setting (0 = no timeout) */
+  default_ms: number;
+
+  /** Per-service timeouts */
+  per_service: Partial<Record<ServiceType, number>>;
+}
+
+/**
+ * Request options accepted by every public service function
+ */
+export interface LLMRequestOptions {
+  /** Retry policy overrides for this call */
+  retry?: RetryOptions;
+
+  /**
+   * Timeout per provider attempt in milliseconds (overrides the configured
+   * timeout, 0 = no timeout). For streams it limits the wait for each chunk.
+   */
+  timeout_ms?: number;
+
+  /** Signal to cancel the call; aborted calls fail with ABORTED */
+  signal?: AbortSignal;
+
+  /**
+   * Fallback providers for this call (overrides fallback_llms from config,
+   * [] = no fallback)
+   */
+  fallback_llms?: string[];
+
+  /**
+   * Fail with TEMPLATE_ERROR when a prompt variable is missing instead of
+   * sending the prompt with the {{tag}} left in (overrides strict_variables from config)
+   */
+  strict_variables?: boolean;
+}
+
+/**
+ * Options for render_prompt
+ */
+export interface RenderPromptOptions extends PromptLookupOptions {
+  /** Version of the prompt to render (default: the current version) */
+  prompt_version?: number;
+
+  /** Throw when a variable is missing (default: strict_variables from the config) */
+  strict_variables?: boolean;
+}
+
+/**
+ * Selects which variant of a dynamic prompt (prompt_area/prompt_key) is used
+ *
+ * Lookup order, most specific first: user_id (+ scope_id) → scope_id → shared
+ * prompts. Within each level the locals fall back from local_1..3 to
+ * local_1 + local_2, local_1, then none.
+ */
+export interface PromptLookupOptions {
+  /** Local filter 1 (e.g. company or region) */
+  local_1?: string | null;
+
+  /** Local filter 2 (e.g. department or product line) */
+  local_2?: string | null;
+
+  /** Local filter 3 (e.g. sub-category) */
+  local_3?: string | null;
+
+  /** User whose prompt overrides apply */
+  user_id?: string | null;
+
+  /** Scope (e.g. organization) whose prompt overrides apply */
+  scope_id?: string | null;
 }
 
 // =============================================================================
@@ -450,6 +915,18 @@ export interface LLMStreamChunk {
 
   /** Structured error information if streaming failed */
   error_info?: LLMError;
+
+  /** Token usage for the whole stream (final chunk only, when reported by the provider) */
+  usage?: LLMUsage;
+
+  /** Provider that served the stream (final chunk only) */
+  provider?: string;
+
+  /** Providers called for the stream in order (final chunk only) */
+  providers_tried?: string[];
+
+  /** Version of the database prompt that was sent (final chunk only, prompt_area/prompt_key calls) */
+  prompt_version?: number;
 }
 
 /**
@@ -478,7 +955,7 @@ export type LLMStreamResponse = AsyncGenerator<LLMStreamChunk, void, unknown>;
 /**
  * Parameters for hazo_llm_text_text (text input → text output)
  */
-export interface TextTextParams {
+export interface TextTextParams extends LLMRequestOptions, PromptLookupOptions {
   /** Static prompt text */
   prompt: string;
   
@@ -490,12 +967,22 @@ export interface TextTextParams {
   
   /** Key for dynamic prompt (optional) */
   prompt_key?: string;
+
+  /** Version of the dynamic prompt to use (default: the current version) */
+  prompt_version?: number;
+
+  /** System instruction for this call only (overrides the provider default) */
+  system_instruction?: string;
+
+  /** Generation parameter overrides for this call only */
+  generation_overrides?: GenerationOverrides;
 }
 
 /**
  * Parameters for hazo_llm_image_text (image input → text output)
+ * The lookup options (user_id, scope_id, local_*) select the {{> area/key}} partials.
  */
-export interface ImageTextParams {
+export interface ImageTextParams extends LLMRequestOptions, PromptLookupOptions {
   /** Prompt/instruction for analyzing the image */
   prompt: string;
   
@@ -507,12 +994,18 @@ export interface ImageTextParams {
   
   /** Variables to substitute in the prompt text */
   prompt_variables?: PromptVariables;
+
+  /** System instruction for this call only (overrides the provider default) */
+  system_instruction?: string;
+
+  /** Generation parameter overrides for this call only */
+  generation_overrides?: GenerationOverrides;
 }
 
 /**
  * Parameters for hazo_llm_text_image (text input → image output)
  */
-export interface TextImageParams {
+export interface TextImageParams extends LLMRequestOptions {
   /** Text prompt describing the image to generate */
   prompt: string;
   
@@ -523,7 +1016,7 @@ export interface TextImageParams {
 /**
  * Parameters for hazo_llm_image_image (image input → image output)
  */
-export interface ImageImageParams {
+export interface ImageImageParams extends LLMRequestOptions {
   /** Prompt/instruction for transforming the image(s) */
   prompt: string;
 
@@ -543,7 +1036,7 @@ export interface ImageImageParams {
 /**
  * Parameters for hazo_llm_document_text (document input → text output)
  */
-export interface DocumentTextParams {
+export interface DocumentTextParams extends LLMRequestOptions {
   /** Prompt/instruction for analyzing the document */
   prompt: string;
 
@@ -558,13 +1051,19 @@ export interface DocumentTextParams {
 
   /** Maximum number of pages to process (optional, for large documents) */
   max_pages?: number;
+
+  /** System instruction for this call only (overrides the provider default) */
+  system_instruction?: string;
+
+  /** Generation parameter overrides for this call only */
+  generation_overrides?: GenerationOverrides;
 }
 
 /**
  * Parameters for hazo_llm_text_image_text (text → image → text)
  * Generates an image from prompt_image, then analyzes it with prompt_text
  */
-export interface TextImageTextParams {
+export interface TextImageTextParams extends LLMRequestOptions {
   /** Prompt for image generation (step 1) */
   prompt_image: string;
   
@@ -603,7 +1102,7 @@ export interface ChainImage {
  * - Minimum 2 images required
  * - Number of prompts = number of images - 1
  */
-export interface ImageImageTextParams {
+export interface ImageImageTextParams extends LLMRequestOptions {
   /** Array of images to chain (minimum 2) */
   images: ChainImage[];
   
@@ -617,6 +1116,288 @@ export interface ImageImageTextParams {
   description_prompt_variables?: PromptVariables;
 }
 
+// =============================================================================
+// Structured Output Types
+// =============================================================================
+
+/**
+ * Parameters for hazo_llm_structured (prompt → JSON matching a schema)
+ */
+export interface StructuredParams extends LLMRequestOptions, PromptLookupOptions {
+  /** Static prompt text */
+  prompt: string;
+
+  /** Variables to substitute in the prompt text */
+  prompt_variables?: PromptVariables;
+
+  /** Area/category for dynamic prompt (optional) */
+  prompt_area?: string;
+
+  /** Key for dynamic prompt (optional) */
+  prompt_key?: string;
+
+  /** Version of the dynamic prompt to use (default: the current version) */
+  prompt_version?: number;
+
+  /** JSON Schema the response must conform to */
+  schema: JsonSchema;
+
+  /** Optional image to extract structured data from (uses image_text service) */
+  image_b64?: string;
+
+  /** MIME type of the image (required when image_b64 is set) */
+  image_mime_type?: string;
+
+  /** System instruction for this call only */
+  system_instruction?: string;
+
+  /** Generation parameter overrides for this call only */
+  generation_overrides?: GenerationOverrides;
+
+  /**
+   * Number of times to re-prompt the model with the validation errors when
+   * the reply does not conform to the schema (default: 1, 0 disables repair)
+   */
+  max_repair_attempts?: number;
+}
+
+/**
+ * Response from hazo_llm_structured
+ */
+export interface StructuredResponse<T = unknown> extends LLMResponse {
+  /** Aggregate token usage (and estimated cost) across all attempts */
+  usage?: LLMUsage;
+
+  /** Parsed and validated data (only set when success is true) */
+  data?: T;
+
+  /** Validation errors from the last attempt (set when the reply did not conform) */
+  validation_errors?: SchemaValidationError[];
+
+  /** Number of model calls made (1 + repair attempts used) */
+  attempts: number;
+}
+
+// =============================================================================
+// Chat Types
+// =============================================================================
+
+/**
+ * Role of a message in a chat conversation
+ * - "system": Instructions for the model (not part of the visible conversation)
+ * - "user": Message from the user
+ * - "assistant": Previous reply from the model
+ */
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+/**
+ * A single message in a chat conversation
+ */
+export interface ChatMessage {
+  /** Who sent the message */
+  role: ChatRole;
+
+  /** Text content of the message */
+  content: string;
+
+  /** Optional inline images attached to this turn (user messages only) */
+  images?: Base64Data[];
+}
+
+/**
+ * Parameters for hazo_llm_chat (multi-turn conversation)
+ */
+export interface ChatParams extends LLMRequestOptions {
+  /** Ordered conversation history; the last message must be from the user */
+  messages: ChatMessage[];
+}
+
+/**
+ * Response from hazo_llm_chat
+ * Includes the assistant reply and the conversation history with the reply appended
+ */
+export interface ChatResponse extends LLMResponse {
+  /** Conversation history including the new assistant reply (unchanged on failure) */
+  messages: ChatMessage[];
+}
+
+// =============================================================================
+// Tool Calling Types
+// =============================================================================
+
+/**
+ * Handler invoked when the model calls a tool
+ * Receives the arguments (validated against the tool's parameters schema) and
+ * returns the result sent back to the model. Thrown errors are reported to the
+ * model as a tool error instead of failing the call.
+ */
+export type ToolHandler = (args: Record<string, unknown>) => unknown | Promise<unknown>;
+
+/**
+ * A tool (function) the model can call
+ */
+export interface ToolDefinition {
+  /** Unique tool name (letters, digits, underscores and dashes, max 64 characters) */
+  name: string;
+
+  /** What the tool does and when the model should use it */
+  description: string;
+
+  /** JSON Schema for the tool arguments (type "object") */
+  parameters: JsonSchema;
+
+  /** Function that executes the tool */
+  handler: ToolHandler;
+}
+
+/**
+ * Tool declaration sent to the provider (definition without the handler)
+ */
+export type ToolDeclaration = Omit<ToolDefinition, 'handler'>;
+
+/**
+ * A tool call requested by the model
+ */
+export interface ToolCall {
+  /** Call ID from the provider (generated by the tool loop when the provider does not supply one) */
+  id: string;
+
+  /** Name of the tool to call */
+  name: string;
+
+  /** Arguments for the tool */
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * Message in a tool-calling conversation
+ * - "user": The prompt
+ * - "assistant": Model turn, optionally requesting tool calls
+ * - "tool": Result of one tool call (content is the result serialized as text/JSON)
+ */
+export interface ToolMessage {
+  role: 'user' | 'assistant' | 'tool';
+
+  /** Text content (tool result for "tool" messages) */
+  content: string;
+
+  /** Tool calls requested by the model ("assistant" messages only) */
+  tool_calls?: ToolCall[];
+
+  /** ID of the call this result answers ("tool" messages only) */
+  tool_call_id?: string;
+
+  /** Name of the tool that produced this result ("tool" messages only) */
+  name?: string;
+}
+
+/**
+ * Parameters for a single model turn with tools (provider-level)
+ */
+export interface ToolTurnParams {
+  /** Conversation so far, starting with the user prompt */
+  messages: ToolMessage[];
+
+  /** Tools the model may call */
+  tools: ToolDeclaration[];
+
+  /** System instruction for this call only */
+  system_instruction?: string;
+
+  /** Generation parameter overrides for this call only */
+  generation_overrides?: GenerationOverrides;
+
+  /** Abort signal for the request (cancellation / timeout) */
+  signal?: AbortSignal;
+}
+
+/**
+ * Provider response for a single model turn with tools
+ * Either text (final answer) or tool_calls (or both) are set on success
+ */
+export interface ToolTurnResponse extends LLMResponse {
+  /** Tool calls requested by the model (empty/undefined for a final answer) */
+  tool_calls?: ToolCall[];
+}
+
+/**
+ * Parameters for hazo_llm_tool_call (model → tool → model loop)
+ */
+export interface ToolCallParams extends LLMRequestOptions, PromptLookupOptions {
+  /** Static prompt text */
+  prompt: string;
+
+  /** Variables to substitute in the prompt text */
+  prompt_variables?: PromptVariables;
+
+  /** Area/category for dynamic prompt (optional) */
+  prompt_area?: string;
+
+  /** Key for dynamic prompt (optional) */
+  prompt_key?: string;
+
+  /** Version of the dynamic prompt to use (default: the current version) */
+  prompt_version?: number;
+
+  /**
+   * Tools available for this call: names of registered tools and/or inline
+   * definitions (default: all tools registered with register_tool)
+   */
+  tools?: Array<string | ToolDefinition>;
+
+  /** System instruction for this call only */
+  system_instruction?: string;
+
+  /** Generation parameter overrides for this call only */
+  generation_overrides?: GenerationOverrides;
+
+  /** Maximum number of model calls in the loop (default: 5) */
+  max_iterations?: number;
+}
+
+/**
+ * Record of one tool invocation in the loop
+ */
+export interface ToolInvocation {
+  /** Loop iteration (model call number) that requested the tool */
+  iteration: number;
+
+  /** Tool call ID */
+  id: string;
+
+  /** Tool name */
+  name: string;
+
+  /** Arguments passed by the model */
+  arguments: Record<string, unknown>;
+
+  /** Value returned by the handler (when it succeeded) */
+  result?: unknown;
+
+  /** Error message (unknown tool, invalid arguments, or handler error) */
+  error?: string;
+
+  /** Handler execution time in milliseconds */
+  duration_ms: number;
+}
+
+/**
+ * Response from hazo_llm_tool_call
+ */
+export interface ToolCallResponse extends LLMResponse {
+  /** Aggregate token usage (and estimated cost) across all model calls */
+  usage?: LLMUsage;
+
+  /** Every tool invocation in order */
+  tool_trace: ToolInvocation[];
+
+  /** Number of model calls made */
+  iterations: number;
+
+  /** Full conversation including tool calls and results */
+  messages: ToolMessage[];
+}
+
 // =============================================================================
 // Gemini-specific Types
 // =============================================================================
@@ -639,14 +1420,52 @@ export interface GeminiInlineDataPart {
 }
 
 /**
- * Gemini API part (either text or inline data)
+ * Gemini API function call part (model requesting a tool call)
  */
-export type GeminiPart = GeminiTextPart | GeminiInlineDataPart;
+export interface GeminiFunctionCallPart {
+  functionCall: {
+    id?: string;
+    name: string;
+    args?: Record<string, unknown>;
+  };
+}
+
+/**
+ * Gemini API function response part (tool result sent back to the model)
+ */
+export interface GeminiFunctionResponsePart {
+  functionResponse: {
+    name: string;
+    response: Record<string, unknown>;
+  };
+}
+
+/**
+ * Gemini API part (text, inline data, or function call/response)
+ */
+export type GeminiPart =
+  | GeminiTextPart
+  | GeminiInlineDataPart
+  | GeminiFunctionCallPart
+  | GeminiFunctionResponsePart;
+
+/**
+ * Gemini API tool (function declarations)
+ */
+export interface GeminiTool {
+  functionDeclarations: Array<{
+    name: string;
+    description: string;
+    parameters?: Record<string, unknown>;
+  }>;
+}
 
 /**
  * Gemini API content structure
  */
 export interface GeminiContent {
+  /** Author of the content: "user" or "model" (omitted for single-turn requests) */
+  role?: 'user' | 'model';
   parts: GeminiPart[];
 }
 
@@ -661,6 +1480,7 @@ export interface GeminiApiGenerationConfig {
   candidateCount?: number;
   stopSequences?: string[];
   responseMimeType?: string;
+  responseSchema?: Record<string, unknown>;
 }
 
 /**
@@ -668,7 +1488,9 @@ export interface GeminiApiGenerationConfig {
  */
 export interface GeminiRequestBody {
   contents: GeminiContent[];
+  systemInstruction?: GeminiContent;
   generationConfig?: GeminiApiGenerationConfig;
+  tools?: GeminiTool[];
 }
 
 /**
@@ -676,7 +1498,7 @@ export interface GeminiRequestBody {
  */
 export interface GeminiCandidate {
   content: {
-    parts: Array<{ text: string }>;
+    parts: Array<{ text?: string; functionCall?: GeminiFunctionCallPart['functionCall'] }>;
     role: string;
   };
   finishReason: string;
@@ -688,6 +1510,13 @@ export interface GeminiCandidate {
  */
 export interface GeminiApiResponse {
   candidates?: GeminiCandidate[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    thoughtsTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  modelVersion?: string;
   promptFeedback?: {
     safetyRatings: Array<{
       category: string;
@@ -736,11 +1565,65 @@ export interface LLMApiClient {
   /** Document input → Text output (document analysis) */
   hazo_llm_document_text: (params: DocumentTextParams, llm?: ProviderName) => Promise<LLMResponse>;
 
+  /** Multi-turn chat with conversation history */
+  hazo_llm_chat: (params: ChatParams, llm?: ProviderName) => Promise<ChatResponse>;
+
+  /** Prompt → JSON validated against a schema */
+  hazo_llm_structured: <T = unknown>(params: StructuredParams, llm?: ProviderName) => Promise<StructuredResponse<T>>;
+
+  /** Prompt → model/tool loop → Text output */
+  hazo_llm_tool_call: (params: ToolCallParams, llm?: ProviderName) => Promise<ToolCallResponse>;
+
   /** Execute a chain of prompts with dynamic value resolution */
   hazo_llm_prompt_chain: (params: PromptChainParams, llm?: ProviderName) => Promise<PromptChainResponse>;
 
   /** Execute a dynamic chain where next prompt is determined by JSON output */
   hazo_llm_dynamic_data_extract: (params: DynamicDataExtractParams, llm?: ProviderName) => Promise<DynamicDataExtractResponse>;
+
+  /** Text input → Text output (streaming) */
+  hazo_llm_text_text_stream: (params: TextTextParams, llm?: ProviderName) => LLMStreamResponse;
+
+  /** Image input → Text output (streaming) */
+  hazo_llm_image_text_stream: (params: ImageTextParams, llm?: ProviderName) => LLMStreamResponse;
+
+  /**
+   * Run a function against this client's state
+   * Module functions called inside (get_database, insert_prompt, register_tool,
+   * register_provider, ...) act on this client instead of the default instance.
+   */
+  run: <T>(fn: () => T) => T;
+
+  /** Re-read the configuration and swap this client's providers */
+  reload_llm_config: () => Promise<ConfigReloadResult>;
+
+  /** Hits, misses, size and hit rate of this client's prompt cache */
+  get_prompt_cache_stats: () => CacheStats;
+
+  /** This client's prompt store (null before the database is opened) */
+  get_prompt_store: () => PromptStore | null;
+
+  /** Text of a dynamic prompt with partials expanded and variables substituted, without calling an LLM */
+  render_prompt: (
+    prompt_area: string,
+    prompt_key: string,
+    prompt_variables?: PromptVariables,
+    options?: RenderPromptOptions
+  ) => Promise<string>;
+
+  /** Prompts that include the partial area/key, directly or through other partials */
+  get_partial_dependents: (prompt_area: string, prompt_key: string) => Promise<PartialDependent[]>;
+
+  /** Versions of a prompt in this client's prompt store, newest first */
+  get_prompt_versions: (prompt_id: string) => Promise<PromptVersionRecord[]>;
+
+  /** Changed fields and prompt_text line diff of two versions of a prompt */
+  compare_prompt_versions: (prompt_id: string, from_version: number, to_version: number) => Promise<PromptVersionDiff | null>;
+
+  /** Restore an earlier version of a prompt (recorded as a new version) */
+  restore_prompt_version: (prompt_id: string, version: number, version_info?: PromptVersionInfo) => Promise<PromptRecord | null>;
+
+  /** Save and close this client's database and prompt store and stop its config watcher; later calls fail until re-initialized */
+  close: () => void;
 }
 
 // =============================================================================
@@ -796,8 +1679,9 @@ export interface ChainImageDefinition {
 /**
  * A single call definition in a prompt chain
  * Supports all 4 service types: text_text, image_text, text_image, image_image
+ * Lookup options set here override those of PromptChainParams for this call.
  */
-export interface ChainCallDefinition {
+export interface ChainCallDefinition extends PromptLookupOptions {
   /**
    * Service type to invoke
    * - 'text_text': Text input → Text output (default)
@@ -813,6 +1697,9 @@ export interface ChainCallDefinition {
   /** Prompt key for database lookup (required) */
   prompt_key: ChainFieldDefinition;
 
+  /** Version of the prompt to use (default: the current version) */
+  prompt_version?: number;
+
   /** Optional array of variables to substitute in the prompt */
   variables?: ChainVariableDefinition[];
 
@@ -865,12 +1752,18 @@ export interface ChainCallResult {
 
   /** The prompt_key used for this call */
   prompt_key: string;
+
+  /** Version of the prompt used for this call */
+  prompt_version?: number;
+
+  /** Token usage for this call, failed calls included (when reported by the provider) */
+  usage?: LLMUsage;
 }
 
 /**
  * Parameters for hazo_llm_prompt_chain function
  */
-export interface PromptChainParams {
+export interface PromptChainParams extends LLMRequestOptions, PromptLookupOptions {
   /** Array of chain call definitions */
   chain_calls: ChainCallDefinition[];
 
@@ -899,6 +1792,9 @@ export interface PromptChainResponse {
 
   /** Number of successful calls */
   successful_calls: number;
+
+  /** Aggregate token usage (and estimated cost) across all calls, including failed ones */
+  total_usage?: LLMUsage;
 }
 
 // =============================================================================
@@ -999,7 +1895,7 @@ export interface NextPromptConfig {
 /**
  * Parameters for hazo_llm_dynamic_data_extract function
  */
-export interface DynamicDataExtractParams {
+export interface DynamicDataExtractParams extends LLMRequestOptions, PromptLookupOptions {
   /** Area of the initial prompt to start the chain */
   initial_prompt_area: string;
 
@@ -1041,6 +1937,9 @@ export interface DynamicExtractStepResult {
   /** Prompt key used for this step */
   prompt_key: string;
 
+  /** Version of the prompt used for this step */
+  prompt_version?: number;
+
   /** Raw text response from LLM */
   raw_text?: string;
 
@@ -1050,6 +1949,9 @@ export interface DynamicExtractStepResult {
   /** Error message if step failed */
   error?: string;
 
+  /** Token usage for this step, failed steps included (when reported by the provider) */
+  usage?: LLMUsage;
+
   /** How next_prompt was resolved (for debugging) */
   next_prompt_resolution?: {
     /** The next_prompt config from the prompt */
@@ -1098,5 +2000,8 @@ export interface DynamicDataExtractResponse {
 
   /** Reason why the chain stopped */
   final_stop_reason: DynamicExtractStopReason;
+
+  /** Aggregate token usage (and estimated cost) across all steps, including failed ones */
+  total_usage?: LLMUsage;
 }
 
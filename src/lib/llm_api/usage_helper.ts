@@ -0,0 +1,249 @@
+/**
+ * Usage Helper Utilities
+ *
+ * Token usage accounting shared by all service functions: per-model price
+ * configuration, image counting, cost estimation and aggregation of usage
+ * across chain calls.
+ */
+
+import type { LLMProvider, ServiceType } from '../providers/types.js';
+import type { LLMResponse, LLMUsage, ModelPricing, Logger } from './types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import { get_scoped_state } from './client_scope.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'usage_helper.ts';
+
+/** INI key prefix for per-model prices (e.g. price_gemini-2.5-flash) */
+const PRICE_KEY_PREFIX = 'price_';
+
+/** Prices are configured per 1M tokens */
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+// =============================================================================
+// Pricing Registry
+// =============================================================================
+
+/**
+ * Map of provider name → model name → price
+ */
+type PricingRegistry = Map<string, Record<string, ModelPricing>>;
+
+const PRICING_STATE_KEY = Symbol('provider_pricing');
+
+/**
+ * Prices of the default instance (top-level functions)
+ */
+const default_pricing: PricingRegistry = new Map();
+
+/**
+ * Get the prices of the active client (see client_scope.ts)
+ * @returns Pricing registry of the active client scope, or the default registry
+ */
+function get_pricing_registry(): PricingRegistry {
+  return get_scoped_state(PRICING_STATE_KEY, default_pricing, () => new Map());
+}
+
+/**
+ * Set the per-model prices for a provider
+ * @param provider_name - Provider name (case-insensitive)
+ * @param pricing - Prices keyed by model name
+ */
+export function set_provider_pricing(
+  provider_name: string,
+  pricing: Record<string, ModelPricing>
+): void {
+  get_pricing_registry().set(provider_name.toLowerCase(), pricing);
+}
+
+/**
+ * Get the configured price for a provider's model
+ * @param provider_name - Provider name (case-insensitive)
+ * @param model - Model name
+ * @returns Price or undefined if none is configured
+ */
+export function get_model_pricing(
+  provider_name: string,
+  model: string
+): ModelPricing | undefined {
+  return get_pricing_registry().get(provider_name.toLowerCase())?.[model];
+}
+
+/**
+ * Parse per-model prices from a provider INI section
+ * Reads keys of the form price_<model>={"input": 0.3, "output": 2.5, "image": 0.039}
+ * (prices per 1M tokens, image price per image). Invalid entries are skipped with a warning.
+ *
+ * @param section - The parsed INI section
+ * @param logger - Logger instance
+ * @returns Prices keyed by model name
+ */
+export function parse_model_pricing(
+  section: Record<string, string>,
+  logger: Logger
+): Record<string, ModelPricing> {
+  const pricing: Record<string, ModelPricing> = {};
+
+  for (const [key, value] of Object.entries(section)) {
+    if (!key.startsWith(PRICE_KEY_PREFIX)) {
+      continue;
+    }
+
+    const model = key.slice(PRICE_KEY_PREFIX.length);
+
+    try {
+      const parsed = JSON.parse(value) as Partial<ModelPricing>;
+      const input = Number(parsed.input ?? 0);
+      const output = Number(parsed.output ?? 0);
+      const image = parsed.image !== undefined ? Number(parsed.image) : undefined;
+
+      if (!model || isNaN(input) || isNaN(output) || (image !== undefined && isNaN(image))) {
+        throw new Error('prices must be numbers');
+      }
+
+      pricing[model] = { input, output, ...(image !== undefined && { image }) };
+    } catch (error) {
+      logger.warn('Ignoring invalid model price in config', {
+        file: FILE_NAME,
+        data: {
+          key,
+          value,
+          error: error instanceof Error ? error.message : String(error),
+        },
+      });
+    }
+  }
+
+  return pricing;
+}
+
+// =============================================================================
+// Usage Accounting
+// =============================================================================
+
+/**
+ * Estimate the cost of a call from its usage and a model price
+ * @param usage - Token usage for the call
+ * @param pricing - Model price
+ * @returns Estimated cost (rounded to 6 decimal places)
+ */
+export function estimate_cost(usage: LLMUsage, pricing: ModelPricing): number {
+  const token_cost =
+    (usage.input_tokens * pricing.input + usage.output_tokens * pricing.output) / TOKENS_PER_PRICE_UNIT;
+  const image_cost = (usage.image_count || 0) * (pricing.image || 0);
+  return round_cost(token_cost + image_cost);
+}
+
+/**
+ * Complete the usage on a provider response
+ * Adds the image count for image services and the estimated cost when a
+ * price is configured for the model serving the request.
+ *
+ * @param response - Provider response (usage tokens filled by the provider, if reported)
+ * @param provider - The provider that handled the call
+ * @param service_type - Service type that was called
+ * @param params - Request parameters (used to count input images)
+ * @returns Response with usage completed (unchanged if nothing to add)
+ */
+export function apply_usage_accounting<T extends LLMResponse>(
+  response: T,
+  provider: LLMProvider,
+  service_type: ServiceType,
+  params: object
+): T {
+  if (!response.success) {
+    return response;
+  }
+
+  const image_count = count_images(service_type, params, response);
+  if (!response.usage && image_count === undefined) {
+    return response;
+  }
+
+  const usage: LLMUsage = {
+    ...(response.usage || { input_tokens: 0, output_tokens: 0, total_tokens: 0 }),
+    ...(image_count !== undefined && { image_count }),
+  };
+
+  const model = provider.get_model_for_service(service_type);
+  const pricing = model ? get_model_pricing(provider.get_name(), model) : undefined;
+  if (pricing) {
+    usage.estimated_cost = estimate_cost(usage, pricing);
+  }
+
+  return { ...response, usage };
+}
+
+/**
+ * Sum usage across several calls (e.g. the steps of a chain)
+ * @param usages - Usage of each call (undefined entries are skipped)
+ * @returns Aggregate usage, or undefined if no call reported usage
+ */
+export function sum_usage(usages: Array<LLMUsage | undefined>): LLMUsage | undefined {
+  const reported = usages.filter((usage): usage is LLMUsage => !!usage);
+  if (reported.length === 0) {
+    return undefined;
+  }
+
+  const total: LLMUsage = { input_tokens: 0, output_tokens: 0, total_tokens: 0 };
+
+  for (const usage of reported) {
+    total.input_tokens += usage.input_tokens;
+    total.output_tokens += usage.output_tokens;
+    total.total_tokens += usage.total_tokens;
+    if (usage.image_count !== undefined) {
+      total.image_count = (total.image_count || 0) + usage.image_count;
+    }
+    if (usage.estimated_cost !== undefined) {
+      total.estimated_cost = round_cost((total.estimated_cost || 0) + usage.estimated_cost);
+    }
+  }
+
+  return total;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Count the images for an image service call
+ * image_text counts the images sent; text_image/image_image count the image generated.
+ *
+ * @param service_type - Service type that was called
+ * @param params - Request parameters
+ * @param response - Provider response
+ * @returns Image count, or undefined for services without images
+ */
+function count_images(
+  service_type: ServiceType,
+  params: object,
+  response: LLMResponse
+): number | undefined {
+  switch (service_type) {
+    case SERVICE_TYPES.IMAGE_TEXT: {
+      const image_params = params as {
+        image_b64?: string;
+        messages?: Array<{ images?: unknown[] }>;
+      };
+      const message_images = (image_params.messages || [])
+        .reduce((count, msg) => count + (msg.images?.length || 0), 0);
+      return (image_params.image_b64 ? 1 : 0) + message_images;
+    }
+    case SERVICE_TYPES.TEXT_IMAGE:
+    case SERVICE_TYPES.IMAGE_IMAGE:
+      return response.image_b64 ? 1 : 0;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Round a cost to 6 decimal places to avoid floating point noise
+ */
+function round_cost(cost: number): number {
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
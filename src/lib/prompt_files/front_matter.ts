@@ -0,0 +1,392 @@
+/**
+ * Front Matter Module
+ *
+ * Reads and writes Markdown files with a YAML front matter block:
+ *
+ * ```markdown
+ * ---
+ * prompt_area: marketing
+ * prompt_key: greeting
+ * ---
+ * Hello {{name}}
+ * ```
+ *
+ * Supports the YAML subset prompt files need: plain, quoted and block (|)
+ * scalars, null, flow values written as JSON, and one level of block
+ * sequences/mappings (e.g. a list of { name, description } variables).
+ */
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Front matter value
+ */
+export type FrontMatterValue =
+  | string
+  | number
+  | boolean
+  | null
+  | FrontMatterValue[]
+  | { [key: string]: FrontMatterValue };
+
+/**
+ * Parsed front matter file
+ */
+export interface FrontMatterDocument {
+  /** Front matter fields, in file order */
+  data: Record<string, FrontMatterValue>;
+
+  /** Markdown body after the closing --- line */
+  body: string;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const DELIMITER = '---';
+
+/** Plain scalars that YAML would not read back as the same string */
+const RESERVED_PLAIN = /^(null|~|true|false|yes|no|on|off|[-+]?(\d[\d_]*(\.\d*)?|\.\d+)([eE][-+]?\d+)?|\.inf|\.nan)$/i;
+
+/** Strings that can be written without quotes */
+const SAFE_PLAIN = /^[A-Za-z0-9_./()][A-Za-z0-9_ ./()@+-]*$/;
+
+// =============================================================================
+// Serialize
+// =============================================================================
+
+/**
+ * Write a front matter document
+ * Null and undefined fields are left out.
+ *
+ * @param data - Front matter fields (written in key order)
+ * @param body - Markdown body
+ * @returns File content
+ *
+ * @example
+ * ```typescript
+ * stringify_front_matter({ prompt_area: 'marketing', prompt_key: 'greeting' }, 'Hello {{name}}');
+ * // "---\nprompt_area: marketing\nprompt_key: greeting\n---\nHello {{name}}\n"
+ * ```
+ */
+export function stringify_front_matter(data: Record<string, FrontMatterValue | undefined>, body: string): string {
+  const lines = [DELIMITER];
+
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === null) {
+      continue;
+    }
+    lines.push(...stringify_field(key, value));
+  }
+
+  lines.push(DELIMITER);
+  return `${lines.join('\n')}\n${body}\n`;
+}
+
+/**
+ * Write one top-level field
+ * Lists of flat objects and lists of strings use block style; anything
+ * deeper is written as JSON (valid YAML flow style).
+ */
+function stringify_field(key: string, value: FrontMatterValue): string[] {
+  if (Array.isArray(value) && value.length > 0 && value.every(is_block_item)) {
+    const lines = [`${key}:`];
+    for (const item of value) {
+      if (is_flat_object(item)) {
+        Object.entries(item).forEach(([item_key, item_value], index) => {
+          lines.push(`${index === 0 ? '  - ' : '    '}${item_key}: ${stringify_scalar(item_value)}`);
+        });
+      } else {
+        lines.push(`  - ${stringify_scalar(item)}`);
+      }
+    }
+    return lines;
+  }
+
+  if (value !== null && typeof value === 'object') {
+    return [`${key}: ${JSON.stringify(value)}`];
+  }
+
+  return [`${key}: ${stringify_scalar(value)}`];
+}
+
+/**
+ * Write a scalar value (strings are quoted when needed)
+ */
+function stringify_scalar(value: FrontMatterValue): string {
+  if (typeof value !== 'string') {
+    return JSON.stringify(value);
+  }
+  return SAFE_PLAIN.test(value) && !RESERVED_PLAIN.test(value) && value.trim() === value
+    ? value
+    : JSON.stringify(value);
+}
+
+/**
+ * Check whether a list item can be written in block style
+ */
+function is_block_item(item: FrontMatterValue): boolean {
+  return typeof item === 'string' || (is_flat_object(item) && Object.keys(item).length > 0);
+}
+
+/**
+ * Check whether a value is an object whose values are all scalars
+ */
+function is_flat_object(value: FrontMatterValue): value is { [key: string]: FrontMatterValue } {
+  return value !== null
+    && typeof value === 'object'
+    && !Array.isArray(value)
+    && Object.values(value).every(item => item === null || typeof item !== 'object');
+}
+
+// =============================================================================
+// Parse
+// =============================================================================
+
+/**
+ * Parse a front matter document
+ *
+ * @param content - File content
+ * @returns Front matter fields and body
+ * @throws Error if the front matter block is missing or malformed
+ *
+ * @example
+ * ```typescript
+ * const { data, body } = parse_front_matter(fs.readFileSync('prompts/marketing/greeting.md', 'utf-8'));
+ * ```
+ */
+export function parse_front_matter(content: string): FrontMatterDocument {
+  const text = content.replace(/^\uFEFF/, '');
+  const lines = text.split(/\r?\n/);
+  if (!has_front_matter(text)) {
+    throw new Error('Missing front matter: the file must start with ---');
+  }
+
+  const end = lines.indexOf(DELIMITER, 1);
+  if (end === -1) {
+    throw new Error('Unterminated front matter: closing --- not found');
+  }
+
+  const data = parse_block(lines.slice(1, end));
+
+  // The writer uses LF outside the body, so the body keeps its own line endings
+  // (CRLF in prompt text survives a round trip). A file whose front matter has
+  // CRLF was converted as a whole (e.g. by git autocrlf): its body is read as LF.
+  let body_start = 0;
+  for (let line = 0; line <= end; line++) {
+    const line_end = text.indexOf('\n', body_start);
+    body_start = line_end === -1 ? text.length : line_end + 1;
+  }
+  let body = text.slice(body_start);
+  if (text.slice(0, text.indexOf('\n')).endsWith('\r')) {
+    body = body.replace(/\r\n/g, '\n');
+  }
+
+  // The writer ends the body with one newline
+  if (body.endsWith('\n')) {
+    body = body.slice(0, -1);
+  }
+
+  return { data, body };
+}
+
+/**
+ * Check whether a file starts with a front matter block
+ * Used to tell prompt files from other Markdown (e.g. a README).
+ *
+ * @param content - File content
+ * @returns True if the first line is ---
+ */
+export function has_front_matter(content: string): boolean {
+  return content.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0].trim() === DELIMITER;
+}
+
+/**
+ * Parse the top-level fields of the front matter
+ */
+function parse_block(lines: string[]): Record<string, FrontMatterValue> {
+  const data: Record<string, FrontMatterValue> = {};
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+    if (is_blank(line)) {
+      index++;
+      continue;
+    }
+    if (indent_of(line) > 0) {
+      throw new Error(`Unexpected indentation in front matter: "${line.trim()}"`);
+    }
+
+    const { key, rest } = split_key(line);
+    index++;
+
+    if (rest === '|' || rest === '|-' || rest === '|+') {
+      const block = take_indented(lines, index);
+      index += block.length;
+      data[key] = parse_literal_block(block, rest);
+    } else if (rest === '') {
+      const block = take_indented(lines, index);
+      index += block.length;
+      data[key] = block.some(item => !is_blank(item)) ? parse_nested(block) : null;
+    } else {
+      data[key] = parse_scalar(rest);
+    }
+  }
+
+  return data;
+}
+
+/**
+ * Parse an indented block: a sequence (of scalars or flat mappings) or a flat mapping
+ */
+function parse_nested(lines: string[]): FrontMatterValue {
+  const content = lines.filter(line => !is_blank(line));
+  const base = indent_of(content[0]);
+
+  if (!content[0].trim().startsWith('-')) {
+    const mapping: Record<string, FrontMatterValue> = {};
+    for (const line of content) {
+      const { key, rest } = split_key(line.trim());
+      mapping[key] = parse_scalar(rest);
+    }
+    return mapping;
+  }
+
+  const items: FrontMatterValue[] = [];
+  let current: Record<string, FrontMatterValue> | null = null;
+
+  for (const line of content) {
+    const text = line.trim();
+    if (indent_of(line) === base && (text === '-' || text.startsWith('- '))) {
+      const item = text.slice(1).trim();
+      if (item === '' || is_mapping_entry(item)) {
+        current = {};
+        items.push(current);
+        if (item !== '') {
+          const { key, rest } = split_key(item);
+          current[key] = parse_scalar(rest);
+        }
+      } else {
+        current = null;
+        items.push(parse_scalar(item));
+      }
+    } else if (current && indent_of(line) > base) {
+      const { key, rest } = split_key(text);
+      current[key] = parse_scalar(rest);
+    } else {
+      throw new Error(`Unexpected line in front matter list: "${text}"`);
+    }
+  }
+
+  return items;
+}
+
+/**
+ * Parse a literal block scalar (|, |- or |+)
+ */
+function parse_literal_block(lines: string[], indicator: string): string {
+  const content = lines.filter(line => line.trim() !== '');
+  const indent = content.length > 0 ? Math.min(...content.map(indent_of)) : 0;
+  const text = lines.map(line => line.slice(indent)).join('\n');
+
+  if (indicator === '|+') {
+    return `${text}\n`;
+  }
+  const trimmed = text.replace(/\n+$/, '');
+  return indicator === '|-' ? trimmed : `${trimmed}\n`;
+}
+
+/**
+ * Parse a scalar or flow (JSON) value
+ */
+function parse_scalar(raw: string): FrontMatterValue {
+  const value = strip_comment(raw).trim();
+
+  if (value === '' || value === '~' || value.toLowerCase() === 'null') {
+    return null;
+  }
+  if (value.startsWith('"') || value.startsWith('[') || value.startsWith('{')) {
+    try {
+      return JSON.parse(value) as FrontMatterValue;
+    } catch {
+      throw new Error(`Invalid quoted or JSON value in front matter: ${value}`);
+    }
+  }
+  if (value.startsWith("'")) {
+    if (!value.endsWith("'") || value.length < 2) {
+      throw new Error(`Unterminated quoted value in front matter: ${value}`);
+    }
+    return value.slice(1, -1).replace(/''/g, "'");
+  }
+  if (/^(true|false)$/i.test(value)) {
+    return value.toLowerCase() === 'true';
+  }
+  if (/^[-+]?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  return value;
+}
+
+/**
+ * Split "key: value" into key and the raw value
+ */
+function split_key(line: string): { key: string; rest: string } {
+  const match = /^([A-Za-z0-9_-]+):(?:\s+(.*))?$/.exec(line.trim());
+  if (!match) {
+    throw new Error(`Expected "key: value" in front matter: "${line.trim()}"`);
+  }
+  return { key: match[1], rest: (match[2] || '').trim() };
+}
+
+/**
+ * Check whether a list item starts a mapping ("name: value")
+ */
+function is_mapping_entry(text: string): boolean {
+  return /^[A-Za-z0-9_-]+:(\s|$)/.test(text);
+}
+
+/**
+ * Remove a trailing "# comment" from an unquoted value
+ */
+function strip_comment(value: string): string {
+  if (/^["'[{]/.test(value.trim())) {
+    return value;
+  }
+  const index = value.search(/\s#/);
+  return index === -1 ? value : value.slice(0, index);
+}
+
+/**
+ * Collect the lines indented below a key (blank lines included)
+ * List items may also start at column 0 ("key:" followed by "- item").
+ */
+function take_indented(lines: string[], start: number): string[] {
+  let end = start;
+  while (end < lines.length && (is_blank(lines[end]) || indent_of(lines[end]) > 0 || /^-(\s|$)/.test(lines[end]))) {
+    end++;
+  }
+  // Trailing blank lines belong to the next field
+  while (end > start && is_blank(lines[end - 1])) {
+    end--;
+  }
+  return lines.slice(start, end);
+}
+
+/**
+ * Number of leading spaces of a line
+ */
+function indent_of(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+/**
+ * Check whether a line is empty or a comment
+ */
+function is_blank(line: string): boolean {
+  const text = line.trim();
+  return text === '' || text.startsWith('#');
+}
@@ -0,0 +1,28 @@
+/**
+ * Prompt Files Module Exports
+ *
+ * Export prompt file import/export functions and types from this module
+ */
+
+export {
+  PROMPT_FILE_EXTENSION,
+  PROMPT_IMPORT_MODES,
+  type PromptImportMode,
+  type PromptExportOptions,
+  type PromptExportResult,
+  type PromptExportSkip,
+  type PromptImportOptions,
+  type PromptImportResult,
+  type PromptFileChange,
+} from './types.js';
+
+export {
+  export_prompts,
+  import_prompts,
+} from './prompt_files.js';
+
+export {
+  format_prompt_file,
+  parse_prompt_file,
+  get_prompt_file_path,
+} from './prompt_file_format.js';
@@ -0,0 +1,181 @@
+/**
+ * Prompt File Format
+ *
+ * Converts prompts to and from Markdown files with YAML front matter. The
+ * front matter holds the prompt's identity (area, key, locals, user, scope),
+ * variables, notes and next_prompt; the body is the prompt text.
+ *
+ * ```markdown
+ * ---
+ * prompt_area: support
+ * prompt_key: reply
+ * scope_id: acme
+ * prompt_variables:
+ *   - name: message
+ *     description: Customer message
+ * prompt_notes: Used by the help desk
+ * ---
+ * Reply politely to {{message}}.
+ * ```
+ */
+
+import type { PromptInput } from '../prompt_store/types.js';
+import { PROMPT_FILE_EXTENSION } from './types.js';
+import {
+  parse_front_matter,
+  stringify_front_matter,
+  type FrontMatterValue,
+} from './front_matter.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Identity fields, in front matter order */
+const IDENTITY_FIELDS = ['prompt_area', 'prompt_key', 'local_1', 'local_2', 'local_3', 'user_id', 'scope_id'] as const;
+
+/** Fields allowed in the front matter */
+const FRONT_MATTER_FIELDS = new Set<string>([...IDENTITY_FIELDS, 'prompt_variables', 'prompt_notes', 'next_prompt']);
+
+/** File name qualifiers of the optional identity fields (e.g. reply.scope-acme.md) */
+const FILE_NAME_QUALIFIERS = [
+  ['user_id', 'user'],
+  ['scope_id', 'scope'],
+  ['local_1', 'l1'],
+  ['local_2', 'l2'],
+  ['local_3', 'l3'],
+] as const;
+
+// =============================================================================
+// Format
+// =============================================================================
+
+/**
+ * Write a prompt as a Markdown file with front matter
+ * Empty optional fields are left out; prompt_variables and next_prompt are
+ * written as YAML when they hold JSON. The prompt text is written as it is,
+ * including CRLF line endings.
+ *
+ * @param prompt - Prompt to write
+ * @returns File content
+ * @throws Error if the prompt text is empty (the file could not be read back)
+ */
+export function format_prompt_file(prompt: PromptInput): string {
+  if (!prompt.prompt_text || prompt.prompt_text.trim() === '') {
+    throw new Error('Prompt text is empty');
+  }
+
+  const variables = parse_json_text(prompt.prompt_variables);
+
+  return stringify_front_matter({
+    prompt_area: prompt.prompt_area,
+    prompt_key: prompt.prompt_key,
+    local_1: prompt.local_1 || null,
+    local_2: prompt.local_2 || null,
+    local_3: prompt.local_3 || null,
+    user_id: prompt.user_id || null,
+    scope_id: prompt.scope_id || null,
+    prompt_variables: Array.isArray(variables) && variables.length === 0 ? null : variables,
+    prompt_notes: prompt.prompt_notes || null,
+    next_prompt: prompt.next_prompt ? parse_json_text(prompt.next_prompt) : null,
+  }, prompt.prompt_text);
+}
+
+/**
+ * Read a prompt from a Markdown file with front matter
+ *
+ * @param content - File content
+ * @returns Prompt fields (prompt_variables and next_prompt as stored text)
+ * @throws Error if the front matter is invalid, has an unknown field or misses
+ *         prompt_area, prompt_key or the prompt text
+ */
+export function parse_prompt_file(content: string): PromptInput {
+  const { data, body } = parse_front_matter(content);
+
+  for (const field of Object.keys(data)) {
+    if (!FRONT_MATTER_FIELDS.has(field)) {
+      throw new Error(`Unknown field "${field}" (allowed: ${[...FRONT_MATTER_FIELDS].join(', ')})`);
+    }
+  }
+
+  const prompt_area = to_text(data.prompt_area);
+  const prompt_key = to_text(data.prompt_key);
+  if (!prompt_area || !prompt_key) {
+    throw new Error('prompt_area and prompt_key are required');
+  }
+  if (body.trim() === '') {
+    throw new Error('Prompt text (the file body) is empty');
+  }
+
+  return {
+    prompt_area,
+    prompt_key,
+    local_1: to_text(data.local_1),
+    local_2: to_text(data.local_2),
+    local_3: to_text(data.local_3),
+    user_id: to_text(data.user_id),
+    scope_id: to_text(data.scope_id),
+    prompt_text: body,
+    prompt_variables: to_stored_json(data.prompt_variables) || '[]',
+    prompt_notes: to_text(data.prompt_notes) || '',
+    next_prompt: to_stored_json(data.next_prompt),
+  };
+}
+
+/**
+ * Relative path of a prompt's file: <area>/<key>[.<qualifier>-<value>...].md
+ * e.g. support/reply.md, support/reply.scope-acme.md, support/reply.user-u1.l1-en.md
+ *
+ * @param prompt - Prompt identity
+ * @returns Path with forward slashes
+ */
+export function get_prompt_file_path(prompt: Pick<PromptInput, typeof IDENTITY_FIELDS[number]>): string {
+  const qualifiers = FILE_NAME_QUALIFIERS
+    .filter(([field]) => prompt[field])
+    .map(([field, label]) => `.${label}-${to_file_name(prompt[field] || '')}`)
+    .join('');
+
+  return `${to_file_name(prompt.prompt_area)}/${to_file_name(prompt.prompt_key)}${qualifiers}${PROMPT_FILE_EXTENSION}`;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Parse stored JSON text for writing as YAML (non-JSON text is kept as a string)
+ */
+function parse_json_text(text: string): FrontMatterValue {
+  try {
+    return JSON.parse(text) as FrontMatterValue;
+  } catch {
+    return text;
+  }
+}
+
+/**
+ * Convert a front matter value to stored JSON text (strings are kept as they are)
+ */
+function to_stored_json(value: FrontMatterValue | undefined): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
+
+/**
+ * Convert a front matter scalar to text
+ */
+function to_text(value: FrontMatterValue | undefined): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Make a value safe for use in a file name
+ */
+function to_file_name(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]+/g, '_') || '_';
+}
@@ -0,0 +1,137 @@
+/**
+ * Prompt Files Tests
+ *
+ * Front matter parsing and export/import round trips against a pg-mem
+ * PostgreSQL prompt store.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { newDb } from 'pg-mem';
+import { parse_front_matter, stringify_front_matter } from './front_matter.js';
+import { format_prompt_file, parse_prompt_file } from './prompt_file_format.js';
+import { export_prompts, import_prompts } from './prompt_files.js';
+import { PostgresPromptStore } from '../prompt_store/postgres_prompt_store.js';
+import type { PostgresClient, PromptInput } from '../prompt_store/types.js';
+import { silent_logger } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+/**
+ * Build a prompt input with empty optional fields
+ */
+function prompt_input(fields: Pick<PromptInput, 'prompt_area' | 'prompt_key' | 'prompt_text'> & Partial<PromptInput>): PromptInput {
+  return {
+    local_1: null,
+    local_2: null,
+    local_3: null,
+    user_id: null,
+    scope_id: null,
+    prompt_variables: '[]',
+    prompt_notes: '',
+    next_prompt: null,
+    ...fields,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('front matter', () => {
+  it('parses scalars, quoted values, block scalars and block lists', () => {
+    const { data, body } = parse_front_matter([
+      '---',
+      'prompt_area: support',
+      'prompt_key: "reply: short"',
+      'local_1: null',
+      'prompt_notes: |',
+      '  Line one',
+      '  Line two',
+      'prompt_variables:',
+      '  - name: message',
+      '    description: Customer message',
+      '---',
+      'Reply to {{message}}.',
+      '',
+    ].join('\n'));
+
+    expect(data).toEqual({
+      prompt_area: 'support',
+      prompt_key: 'reply: short',
+      local_1: null,
+      prompt_notes: 'Line one\nLine two\n',
+      prompt_variables: [{ name: 'message', description: 'Customer message' }],
+    });
+    expect(body).toBe('Reply to {{message}}.');
+  });
+
+  it('reads back what it writes', () => {
+    const data = { prompt_area: 'a', prompt_key: 'yes', next_prompt: { prompt_area: 'b', prompt_key: 'c' } };
+    const content = stringify_front_matter(data, 'Body\n\nwith blank line');
+
+    expect(parse_front_matter(content)).toEqual({ data, body: 'Body\n\nwith blank line' });
+  });
+
+  it('rejects files without front matter or without a closing delimiter', () => {
+    expect(() => parse_front_matter('# Prompts\n')).toThrow('Missing front matter');
+    expect(() => parse_front_matter('---\nprompt_area: a\n')).toThrow('Unterminated front matter');
+  });
+});
+
+describe('prompt file format', () => {
+  it('keeps CRLF line endings in the prompt text', () => {
+    const prompt = prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'Line one\r\nLine two' });
+
+    expect(parse_prompt_file(format_prompt_file(prompt)).prompt_text).toBe('Line one\r\nLine two');
+  });
+
+  it('reads the body of a file converted to CRLF as LF', () => {
+    const content = format_prompt_file(prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'a\nb' }));
+
+    expect(parse_prompt_file(content.replace(/\n/g, '\r\n')).prompt_text).toBe('a\nb');
+  });
+
+  it('rejects prompts with empty text', () => {
+    expect(() => format_prompt_file(prompt_input({ prompt_area: 'docs', prompt_key: 'empty', prompt_text: ' ' })))
+      .toThrow('Prompt text is empty');
+  });
+});
+
+describe('export_prompts and import_prompts', () => {
+  let store: PostgresPromptStore;
+  let directory: string;
+
+  beforeEach(async () => {
+    const { Pool } = newDb().adapters.createPg();
+    store = new PostgresPromptStore({ client: new Pool() as PostgresClient });
+    await store.initialize(logger);
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'hazo-prompt-files-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('skips prompts with empty text on export and Markdown without front matter on import', async () => {
+    await store.insert_prompt(prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'Summarize\r\n{{text}}' }), logger);
+    const empty = await store.insert_prompt(prompt_input({ prompt_area: 'docs', prompt_key: 'empty', prompt_text: '' }), logger);
+    fs.writeFileSync(path.join(directory, 'README.md'), '# Prompts\n');
+
+    const exported = await export_prompts(directory, { store, logger, clean: true });
+    expect(exported.written).toEqual(['docs/summary.md']);
+    expect(exported.skipped).toEqual([
+      { id: empty.id, prompt_area: 'docs', prompt_key: 'empty', reason: 'Prompt text is empty' },
+    ]);
+    expect(fs.existsSync(path.join(directory, 'README.md'))).toBe(true);
+
+    const imported = await import_prompts(directory, { store, logger, dry_run: true });
+    expect(imported).toMatchObject({ added: [], updated: [], deleted: [], unchanged: 1 });
+  });
+});
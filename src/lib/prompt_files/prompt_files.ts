@@ -0,0 +1,431 @@
+/**
+ * Prompt Files Module
+ *
+ * Exports the prompt library to a directory of Markdown files (one file per
+ * prompt) and imports or syncs it back, so prompt changes can be reviewed in
+ * git and deployed from CI.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { Logger, PromptRecord, PromptVersionInfo } from '../llm_api/types.js';
+import type { PromptStore, PromptInput, PromptUpdate, PromptListFilter } from '../prompt_store/types.js';
+import type {
+  PromptExportOptions,
+  PromptExportResult,
+  PromptImportOptions,
+  PromptImportResult,
+  PromptFileChange,
+} from './types.js';
+import { PROMPT_FILE_EXTENSION, PROMPT_IMPORT_MODES } from './types.js';
+import { format_prompt_file, parse_prompt_file, get_prompt_file_path } from './prompt_file_format.js';
+import { has_front_matter } from './front_matter.js';
+import { get_prompt_store } from '../prompt_store/active_store.js';
+import { resolve_sqlite_path } from '../database/init_database.js';
+import { PROMPT_LOOKUP_COLUMNS } from '../prompts/lookup_levels.js';
+import { get_logger } from '../llm_api/index.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'prompt_files.ts';
+
+/** Fields compared to decide whether a file updates a prompt */
+const CONTENT_FIELDS = ['prompt_text', 'prompt_variables', 'prompt_notes', 'next_prompt'] as const;
+
+/** Fields that identify a prompt across databases (IDs differ per database) */
+const IDENTITY_FIELDS = ['prompt_area', 'prompt_key', ...PROMPT_LOOKUP_COLUMNS] as const;
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Prompt read from a file
+ */
+interface PromptFile {
+  /** Path relative to the directory */
+  file: string;
+
+  prompt: PromptInput;
+}
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Write every prompt to <directory>/<area>/<key>[...].md
+ * Only files whose content changed are written, so re-exporting an unchanged
+ * library leaves git clean.
+ *
+ * @param directory - Target directory (relative to the app root, ~ and $VAR expanded)
+ * @param options - Store, logger, filter and clean option
+ * @returns Written, unchanged and removed files, and prompts that were skipped
+ * @throws Error if no prompt store is initialized
+ *
+ * @example
+ * ```typescript
+ * const result = await export_prompts('prompts', { clean: true });
+ * console.log(`${result.written.length} files written`);
+ * ```
+ */
+export async function export_prompts(
+  directory: string,
+  options: PromptExportOptions = {}
+): Promise<PromptExportResult> {
+  const logger = options.logger || get_logger();
+  const store = require_store(options.store);
+  const root = resolve_sqlite_path(directory);
+
+  const prompts = await store.list_prompts(options.filter || {}, logger);
+  const result: PromptExportResult = { directory: root, written: [], unchanged: 0, removed: [], skipped: [] };
+  const used_paths = new Set<string>();
+
+  for (const prompt of prompts) {
+    let content: string;
+    try {
+      content = format_prompt_file(prompt);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      result.skipped.push({ id: prompt.id, prompt_area: prompt.prompt_area, prompt_key: prompt.prompt_key, reason });
+      logger.warn('Prompt skipped by export', {
+        file: FILE_NAME,
+        data: { id: prompt.id, prompt_area: prompt.prompt_area, prompt_key: prompt.prompt_key, reason },
+      });
+      continue;
+    }
+
+    const relative_path = unique_path(get_prompt_file_path(prompt), used_paths);
+    const file_path = path.join(root, relative_path);
+
+    if (fs.existsSync(file_path) && fs.readFileSync(file_path, 'utf-8') === content) {
+      result.unchanged++;
+      continue;
+    }
+
+    fs.mkdirSync(path.dirname(file_path), { recursive: true });
+    fs.writeFileSync(file_path, content);
+    result.written.push(relative_path);
+  }
+
+  if (options.clean && fs.existsSync(root)) {
+    for (const relative_path of list_prompt_files(root)) {
+      // Only remove prompt files (other Markdown, e.g. a README, is kept)
+      if (!used_paths.has(relative_path) && read_prompt_file(root, relative_path) !== null) {
+        fs.rmSync(path.join(root, relative_path));
+        result.removed.push(relative_path);
+      }
+    }
+  }
+
+  logger.info('Prompts exported', {
+    file: FILE_NAME,
+    data: {
+      directory: root,
+      count: prompts.length,
+      written: result.written.length,
+      removed: result.removed.length,
+      skipped: result.skipped.length,
+    },
+  });
+
+  return result;
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Import the prompt files of a directory into the prompt store
+ * Prompts are matched by area, key, locals, user and scope (not by ID), so
+ * files exported from one database can be imported into another. All files
+ * are validated before anything is written.
+ *
+ * - mode 'import' (default): add new prompts and update changed ones
+ * - mode 'sync': also delete prompts that have no file
+ * - dry_run: only report the changes
+ *
+ * @param directory - Directory with the prompt files (relative to the app root)
+ * @param options - Mode, dry run, filter, version author/note, store and logger
+ * @returns Added, updated and deleted prompts
+ * @throws Error if a file is invalid, two files define the same prompt,
+ *         no prompt store is initialized or the store is read-only
+ *
+ * @example
+ * ```typescript
+ * // CI check on a pull request
+ * const plan = await import_prompts('prompts', { mode: 'sync', dry_run: true });
+ * console.log(`+${plan.added.length} ~${plan.updated.length} -${plan.deleted.length}`);
+ *
+ * // Deploy
+ * await import_prompts('prompts', { mode: 'sync', author: 'ci' });
+ * ```
+ */
+export async function import_prompts(
+  directory: string,
+  options: PromptImportOptions = {}
+): Promise<PromptImportResult> {
+  const logger = options.logger || get_logger();
+  const store = require_store(options.store);
+  const root = resolve_sqlite_path(directory);
+  const mode = options.mode || PROMPT_IMPORT_MODES.IMPORT;
+  const filter = options.filter || {};
+
+  if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+    throw new Error(`Prompt directory not found: ${root}`);
+  }
+
+  const files = read_prompt_files(root, logger).filter(({ prompt }) => matches_filter(prompt, filter));
+  const existing = new Map(
+    (await store.list_prompts(filter, logger)).map(prompt => [identity_key(prompt), prompt] as const)
+  );
+
+  // Plan
+  const result: PromptImportResult = { mode, applied: false, added: [], updated: [], deleted: [], unchanged: 0 };
+  const updates: Array<{ record: PromptRecord; file: PromptFile; changed_fields: Array<typeof CONTENT_FIELDS[number]> }> = [];
+  const file_keys = new Set<string>();
+
+  for (const file of files) {
+    const key = identity_key(file.prompt);
+    file_keys.add(key);
+
+    const record = existing.get(key);
+    if (!record) {
+      result.added.push(to_change(file.prompt, file.file, null));
+      continue;
+    }
+
+    const changed_fields = CONTENT_FIELDS.filter(field =>
+      normalize_field(field, record[field]) !== normalize_field(field, file.prompt[field])
+    );
+    if (changed_fields.length === 0) {
+      result.unchanged++;
+      continue;
+    }
+    updates.push({ record, file, changed_fields });
+    result.updated.push({ ...to_change(record, file.file, record.id), changed_fields });
+  }
+
+  const deletions = mode === PROMPT_IMPORT_MODES.SYNC
+    ? [...existing.entries()].filter(([key]) => !file_keys.has(key)).map(([, record]) => record)
+    : [];
+  result.deleted = deletions.map(record => to_change(record, null, record.id));
+
+  const has_changes = result.added.length + result.updated.length + result.deleted.length > 0;
+  if (options.dry_run || !has_changes) {
+    log_import(logger, root, result, options.dry_run === true);
+    return result;
+  }
+
+  if (store.read_only) {
+    throw new Error(`Cannot import prompts: prompt store "${store.type}" is read-only`);
+  }
+
+  // Apply
+  for (const file of files) {
+    if (!existing.has(identity_key(file.prompt))) {
+      const record = await store.insert_prompt(file.prompt, logger, version_info(options, file.file));
+      const change = result.added.find(item => item.file === file.file);
+      if (change) {
+        change.id = record.id;
+      }
+    }
+  }
+
+  for (const { record, file, changed_fields } of updates) {
+    // Only the changed fields, so unchanged ones keep their stored formatting
+    const changes: PromptUpdate = {};
+    for (const field of changed_fields) {
+      Object.assign(changes, { [field]: file.prompt[field] });
+    }
+    await store.update_prompt(record.id, changes, logger, version_info(options, file.file));
+  }
+
+  for (const record of deletions) {
+    await store.delete_prompt(record.id, logger);
+  }
+
+  result.applied = true;
+  log_import(logger, root, result, false);
+  return result;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Get the store to export from / import into
+ * @throws Error if no store is given or initialized
+ */
+function require_store(store: PromptStore | undefined): PromptStore {
+  const resolved = store || get_prompt_store();
+  if (!resolved) {
+    throw new Error('Prompt store not initialized. Call initialize_llm_api first.');
+  }
+  return resolved;
+}
+
+/**
+ * Read and validate every prompt file of a directory
+ * Markdown files without front matter (e.g. a README) are not prompt files:
+ * they are skipped with a warning, as export_prompts' clean option keeps them.
+ * @throws Error listing every invalid file and duplicate prompt
+ */
+function read_prompt_files(root: string, logger: Logger): PromptFile[] {
+  const files: PromptFile[] = [];
+  const errors: string[] = [];
+  const seen = new Map<string, string>();
+
+  for (const relative_path of list_prompt_files(root)) {
+    const content = fs.readFileSync(path.join(root, relative_path), 'utf-8');
+    if (!has_front_matter(content)) {
+      logger.warn('Markdown file without front matter skipped by import', {
+        file: FILE_NAME,
+        data: { directory: root, file: relative_path },
+      });
+      continue;
+    }
+
+    try {
+      const prompt = parse_prompt_file(content);
+      const key = identity_key(prompt);
+      const duplicate_of = seen.get(key);
+      if (duplicate_of) {
+        errors.push(`${relative_path}: defines the same prompt as ${duplicate_of}`);
+        continue;
+      }
+      seen.set(key, relative_path);
+      files.push({ file: relative_path, prompt });
+    } catch (error) {
+      errors.push(`${relative_path}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid prompt files:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+
+  return files;
+}
+
+/**
+ * Read one prompt file, or null if it is not a valid prompt file
+ */
+function read_prompt_file(root: string, relative_path: string): PromptInput | null {
+  try {
+    return parse_prompt_file(fs.readFileSync(path.join(root, relative_path), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the prompt files under a directory (relative paths with forward slashes, sorted)
+ */
+function list_prompt_files(root: string, prefix = ''): string[] {
+  const files: string[] = [];
+  const entries = fs.readdirSync(path.join(root, prefix), { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const relative_path = prefix ? `${prefix}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...list_prompt_files(root, relative_path));
+    } else if (entry.isFile() && entry.name.endsWith(PROMPT_FILE_EXTENSION)) {
+      files.push(relative_path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Add a numeric suffix when two prompts map to the same file name
+ */
+function unique_path(relative_path: string, used_paths: Set<string>): string {
+  let candidate = relative_path;
+  const base = relative_path.slice(0, -PROMPT_FILE_EXTENSION.length);
+  for (let index = 2; used_paths.has(candidate); index++) {
+    candidate = `${base}-${index}${PROMPT_FILE_EXTENSION}`;
+  }
+  used_paths.add(candidate);
+  return candidate;
+}
+
+/**
+ * Key of a prompt's identity (area, key, locals, user, scope)
+ */
+function identity_key(prompt: PromptInput): string {
+  return JSON.stringify(IDENTITY_FIELDS.map(field => prompt[field] || null));
+}
+
+/**
+ * Check whether a prompt matches a list filter (null matches an unset column)
+ */
+function matches_filter(prompt: PromptInput, filter: PromptListFilter): boolean {
+  return IDENTITY_FIELDS.every(field =>
+    filter[field] === undefined || (prompt[field] || null) === (filter[field] || null)
+  );
+}
+
+/**
+ * Normalize a content field for comparison (JSON is compared by value, empty optional fields as null)
+ */
+function normalize_field(field: typeof CONTENT_FIELDS[number], value: string | null | undefined): string {
+  if (field === 'prompt_text' || field === 'prompt_notes') {
+    return value || '';
+  }
+  if (!value || (field === 'prompt_variables' && value.trim() === '[]')) {
+    return '';
+  }
+  try {
+    return JSON.stringify(JSON.parse(value));
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Build the change entry of a prompt
+ */
+function to_change(prompt: PromptInput, file: string | null, id: string | null): PromptFileChange {
+  return {
+    file,
+    id,
+    prompt_area: prompt.prompt_area,
+    prompt_key: prompt.prompt_key,
+    local_1: prompt.local_1 || null,
+    local_2: prompt.local_2 || null,
+    local_3: prompt.local_3 || null,
+    user_id: prompt.user_id || null,
+    scope_id: prompt.scope_id || null,
+  };
+}
+
+/**
+ * Version author/note for a prompt written from a file
+ */
+function version_info(options: PromptImportOptions, file: string): PromptVersionInfo {
+  return { author: options.author, note: options.note || `Imported from ${file}` };
+}
+
+/**
+ * Log the outcome of an import
+ */
+function log_import(logger: Logger, root: string, result: PromptImportResult, dry_run: boolean): void {
+  logger.info(dry_run ? 'Prompt import planned (dry run)' : 'Prompts imported', {
+    file: FILE_NAME,
+    data: {
+      directory: root,
+      mode: result.mode,
+      added: result.added.length,
+      updated: result.updated.length,
+      deleted: result.deleted.length,
+      unchanged: result.unchanged,
+    },
+  });
+}
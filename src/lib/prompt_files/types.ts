@@ -0,0 +1,163 @@
+/**
+ * Prompt Files Type Definitions
+ *
+ * Types for exporting prompts to, and importing them from, a directory of
+ * Markdown files with YAML front matter (one file per prompt).
+ */
+
+import type { Logger } from '../llm_api/types.js';
+import type { PromptStore, PromptListFilter } from '../prompt_store/types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/**
+ * Extension of prompt files
+ */
+export const PROMPT_FILE_EXTENSION = '.md';
+
+/**
+ * How import_prompts applies the files
+ * - import: add new prompts and update changed ones
+ * - sync: also delete prompts that have no file (the directory is the source of truth)
+ */
+export const PROMPT_IMPORT_MODES = {
+  IMPORT: 'import',
+  SYNC: 'sync',
+} as const;
+
+export type PromptImportMode = typeof PROMPT_IMPORT_MODES[keyof typeof PROMPT_IMPORT_MODES];
+
+// =============================================================================
+// Export
+// =============================================================================
+
+/**
+ * Options for export_prompts
+ */
+export interface PromptExportOptions {
+  /** Store to export from (default: the active prompt store) */
+  store?: PromptStore;
+
+  /** Logger (default: the API logger) */
+  logger?: Logger;
+
+  /** Only export matching prompts (e.g., { prompt_area: 'marketing' }) */
+  filter?: PromptListFilter;
+
+  /** Delete prompt files in the directory that no exported prompt wrote */
+  clean?: boolean;
+}
+
+/**
+ * Result of export_prompts
+ */
+export interface PromptExportResult {
+  /** Absolute path of the directory */
+  directory: string;
+
+  /** Files created or changed (paths relative to the directory) */
+  written: string[];
+
+  /** Number of files already up to date */
+  unchanged: number;
+
+  /** Files deleted by the clean option */
+  removed: string[];
+
+  /** Prompts that could not be written as a file (e.g. empty prompt text) */
+  skipped: PromptExportSkip[];
+}
+
+/**
+ * Prompt left out of an export
+ */
+export interface PromptExportSkip {
+  /** Prompt ID */
+  id: string;
+
+  prompt_area: string;
+  prompt_key: string;
+
+  /** Why the prompt was not written */
+  reason: string;
+}
+
+// =============================================================================
+// Import
+// =============================================================================
+
+/**
+ * Options for import_prompts
+ */
+export interface PromptImportOptions {
+  /** Store to import into (default: the active prompt store) */
+  store?: PromptStore;
+
+  /** Logger (default: the API logger) */
+  logger?: Logger;
+
+  /**
+   * import (default) adds and updates; sync also deletes prompts without a file
+   * @default 'import'
+   */
+  mode?: PromptImportMode;
+
+  /** Report the changes without applying them (e.g., in a CI check) */
+  dry_run?: boolean;
+
+  /** Only import files and (in sync mode) delete prompts matching this filter */
+  filter?: PromptListFilter;
+
+  /** Author recorded on the prompt versions created by the import */
+  author?: string;
+
+  /** Note recorded on the prompt versions (default: "Imported from <file>") */
+  note?: string;
+}
+
+/**
+ * One prompt added, updated or deleted by import_prompts
+ */
+export interface PromptFileChange {
+  /** Prompt file (relative to the directory), null for deletions */
+  file: string | null;
+
+  /** Prompt ID, null for prompts not yet added */
+  id: string | null;
+
+  prompt_area: string;
+  prompt_key: string;
+  local_1: string | null;
+  local_2: string | null;
+  local_3: string | null;
+  user_id: string | null;
+  scope_id: string | null;
+
+  /** Fields that differ from the store (updates only) */
+  changed_fields?: string[];
+}
+
+/**
+ * Result of import_prompts
+ */
+export interface PromptImportResult {
+  /** Mode used */
+  mode: PromptImportMode;
+
+  /** Whether the changes were applied (false for dry runs and when there is nothing to do) */
+  applied: boolean;
+
+  /** Prompts with a file but not in the store */
+  added: PromptFileChange[];
+
+  /** Prompts whose file differs from the store */
+  updated: PromptFileChange[];
+
+  /** Prompts in the store without a file (sync mode only) */
+  deleted: PromptFileChange[];
+
+  /** Number of prompts already up to date */
+  unchanged: number;
+}
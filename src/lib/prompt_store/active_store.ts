@@ -0,0 +1,101 @@
+/**
+ * Active Prompt Store
+ *
+ * Tracks the prompt store each client resolves dynamic prompts from.
+ * Without an explicit store the client's sql.js database is used, so the
+ * default setup keeps working without any store configuration.
+ */
+
+import type { Logger } from '../llm_api/types.js';
+import type { PromptStore } from './types.js';
+import { SqlJsPromptStore } from './sqljs_prompt_store.js';
+import { get_database } from '../database/init_database.js';
+import { get_scoped_state } from '../llm_api/client_scope.js';
+
+// =============================================================================
+// Module State
+// =============================================================================
+
+/**
+ * Prompt store state of one client (see client_scope.ts)
+ */
+interface PromptStoreState {
+  /** Explicitly configured store, or null to use the sql.js database */
+  store: PromptStore | null;
+}
+
+const PROMPT_STORE_STATE_KEY = Symbol('prompt_store');
+
+/**
+ * Prompt store of the default instance (top-level functions)
+ */
+const default_prompt_store_state: PromptStoreState = { store: null };
+
+/**
+ * sql.js store that follows the active client's database (get_database)
+ */
+const database_prompt_store = new SqlJsPromptStore();
+
+/**
+ * Get the prompt store state of the active client
+ * @returns Prompt store state of the active client scope, or the default state
+ */
+function get_prompt_store_state(): PromptStoreState {
+  return get_scoped_state(PROMPT_STORE_STATE_KEY, default_prompt_store_state, () => ({ store: null }));
+}
+
+// =============================================================================
+// Store Access
+// =============================================================================
+
+/**
+ * Get the prompt store of the active client
+ * @returns The configured store, the sql.js store when the database is open, or null
+ *
+ * @example
+ * ```typescript
+ * const store = get_prompt_store();
+ * const matches = await store?.search_prompts('invoice', {}, logger);
+ * ```
+ */
+export function get_prompt_store(): PromptStore | null {
+  const { store } = get_prompt_store_state();
+  if (store) {
+    return store;
+  }
+  return get_database() ? database_prompt_store : null;
+}
+
+/**
+ * Set the prompt store of the active client
+ * The previous store (if different) is closed.
+ * @param store - Store to use, or null to go back to the sql.js database
+ * @param logger - Logger instance
+ */
+export async function set_prompt_store(store: PromptStore | null, logger: Logger): Promise<void> {
+  const state = get_prompt_store_state();
+  const previous = state.store;
+  state.store = store;
+
+  if (previous && previous !== store) {
+    try {
+      await previous.close(logger);
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to close prompt store', {
+        file: 'active_store.ts',
+        data: { error: error_message, type: previous.type },
+      });
+    }
+  }
+}
+
+/**
+ * Check whether a store is the active client's prompt store
+ * Stores only use the prompt cache while they are active.
+ * @param store - Store to check
+ * @returns True if the store is the one returned by get_prompt_store
+ */
+export function is_active_prompt_store(store: PromptStore): boolean {
+  return get_prompt_store() === store;
+}
@@ -0,0 +1,341 @@
+/**
+ * Directory Prompt Store
+ *
+ * Read-only PromptStore that loads prompts from a directory of JSON files
+ * or Markdown prompt files (as written by export_prompts), so prompts can be
+ * versioned and reviewed with the application code. Each JSON file (searched
+ * recursively) holds one prompt object or an array of them.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  Logger,
+  PromptLookupOptions,
+  PromptRecord,
+  PromptVersionRecord,
+} from '../llm_api/types.js';
+import type {
+  PromptStore,
+  PromptListFilter,
+  PromptSearchOptions,
+} from './types.js';
+import {
+  PROMPT_STORE_TYPES,
+  PROMPT_SEARCH_COLUMNS,
+  DEFAULT_PROMPT_SEARCH_LIMIT,
+} from './types.js';
+import { resolve_sqlite_path } from '../database/init_database.js';
+import {
+  get_prompt_lookup_levels,
+  has_prompt_lookup_filters,
+  prompt_matches_lookup_level,
+  PROMPT_LOOKUP_COLUMNS,
+} from '../prompts/lookup_levels.js';
+import { parse_prompt_file } from '../prompt_files/prompt_file_format.js';
+import { PROMPT_FILE_EXTENSION as MARKDOWN_FILE_EXTENSION } from '../prompt_files/types.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'directory_prompt_store.ts';
+
+/** Extension of JSON prompt files */
+const JSON_FILE_EXTENSION = '.json';
+
+/** Fields every prompt in a file must have */
+const REQUIRED_FIELDS = ['prompt_area', 'prompt_key', 'prompt_text'] as const;
+
+// =============================================================================
+// Directory Prompt Store Configuration
+// =============================================================================
+
+/**
+ * Configuration for DirectoryPromptStore
+ */
+export interface DirectoryPromptStoreConfig {
+  /** Directory with the prompt files (relative to the app root, ~ and $VAR expanded) */
+  directory: string;
+}
+
+// =============================================================================
+// Directory Prompt Store Class
+// =============================================================================
+
+/**
+ * Read-only prompt store backed by a directory of JSON files
+ *
+ * File format (one object, or an array of objects):
+ * ```json
+ * {
+ *   "prompt_area": "support",
+ *   "prompt_key": "reply",
+ *   "scope_id": "acme",
+ *   "prompt_text": "Reply politely to {{message}}. Sign as Acme Support.",
+ *   "prompt_variables": ["message"]
+ * }
+ * ```
+ * Optional fields: id (default: the file path), local_1..3, user_id,
+ * scope_id, prompt_notes, next_prompt (string or object), created_at, changed_at.
+ * Markdown files use the front matter format of export_prompts (id: the file path).
+ * Files are read on initialize() and reload(); the store keeps no version history.
+ *
+ * @example
+ * ```typescript
+ * await initialize_llm_api({ prompt_store: new DirectoryPromptStore({ directory: 'prompts' }) });
+ * ```
+ */
+export class DirectoryPromptStore implements PromptStore {
+  readonly type = PROMPT_STORE_TYPES.DIRECTORY;
+  readonly read_only = true;
+
+  private readonly directory: string;
+  private prompts: PromptRecord[] = [];
+
+  /**
+   * Create a directory prompt store
+   * @param config - Directory of the prompt files
+   */
+  constructor(config: DirectoryPromptStoreConfig) {
+    this.directory = config.directory;
+  }
+
+  /**
+   * Load the prompt files
+   * @param logger - Logger instance
+   * @throws Error if the directory is missing or a file is invalid
+   */
+  async initialize(logger: Logger): Promise<void> {
+    this.reload(logger);
+  }
+
+  /**
+   * Re-read the prompt files (e.g., after a deploy or git pull)
+   * The previous prompts stay loaded when reading fails.
+   * @param logger - Logger instance
+   * @throws Error if the directory is missing or a file is invalid
+   */
+  reload(logger: Logger): void {
+    const root = resolve_sqlite_path(this.directory);
+
+    if (!fs.existsSync(root) || !fs.statSync(root).isDirectory()) {
+      const error_msg = `Prompt directory not found: ${root}`;
+      logger.error(error_msg, { file: FILE_NAME });
+      throw new Error(error_msg);
+    }
+
+    const prompts: PromptRecord[] = [];
+    for (const file_path of list_prompt_files(root)) {
+      prompts.push(...read_prompt_file(root, file_path));
+    }
+    prompts.sort(compare_prompts);
+    this.prompts = prompts;
+
+    logger.info('Prompts loaded from directory', {
+      file: FILE_NAME,
+      data: { directory: root, count: prompts.length },
+    });
+  }
+
+  async get_prompt(
+    prompt_area: string,
+    prompt_key: string,
+    options: PromptLookupOptions | null,
+    logger: Logger
+  ): Promise<PromptRecord | null> {
+    const filters = has_prompt_lookup_filters(options) ? options : null;
+
+    for (const level of get_prompt_lookup_levels(filters)) {
+      const record = this.prompts.find(prompt => prompt_matches_lookup_level(prompt, prompt_area, prompt_key, level));
+      if (record) {
+        logger.debug('Prompt retrieved from directory', {
+          file: FILE_NAME,
+          data: { id: record.id, prompt_area, prompt_key, matched_level: level.description },
+        });
+        return record;
+      }
+    }
+
+    logger.warn('Prompt not found in directory', {
+      file: FILE_NAME,
+      data: { prompt_area, prompt_key, options: filters },
+    });
+    return null;
+  }
+
+  async get_prompt_by_id(id: string, _logger: Logger): Promise<PromptRecord | null> {
+    return this.prompts.find(prompt => prompt.id === id) || null;
+  }
+
+  async list_prompts(filter: PromptListFilter, _logger: Logger): Promise<PromptRecord[]> {
+    const columns = ['prompt_area', 'prompt_key', ...PROMPT_LOOKUP_COLUMNS] as const;
+    return this.prompts.filter(prompt => columns.every(column =>
+      filter[column] === undefined || (prompt[column] || null) === (filter[column] || null)
+    ));
+  }
+
+  async search_prompts(query: string, options: PromptSearchOptions, _logger: Logger): Promise<PromptRecord[]> {
+    const needle = query.toLowerCase();
+    return this.prompts
+      .filter(prompt => !options.prompt_area || prompt.prompt_area === options.prompt_area)
+      .filter(prompt => PROMPT_SEARCH_COLUMNS.some(column => prompt[column].toLowerCase().includes(needle)))
+      .slice(0, options.limit ?? DEFAULT_PROMPT_SEARCH_LIMIT);
+  }
+
+  async insert_prompt(): Promise<PromptRecord> {
+    throw read_only_error('insert_prompt');
+  }
+
+  async update_prompt(): Promise<PromptRecord | null> {
+    throw read_only_error('update_prompt');
+  }
+
+  async delete_prompt(): Promise<boolean> {
+    throw read_only_error('delete_prompt');
+  }
+
+  /**
+   * Directory prompts have no version history
+   * @returns Always null
+   */
+  async get_current_prompt_version(_prompt_id: string, _logger: Logger): Promise<number | null> {
+    return null;
+  }
+
+  /**
+   * Directory prompts have no version history
+   * @returns Always null
+   */
+  async get_prompt_version(_prompt_id: string, _version: number, _logger: Logger): Promise<PromptVersionRecord | null> {
+    return null;
+  }
+
+  /**
+   * Directory prompts have no version history
+   * @returns Always empty
+   */
+  async get_prompt_history(_prompt_id: string, _logger: Logger): Promise<PromptVersionRecord[]> {
+    return [];
+  }
+
+  async rollback_prompt(): Promise<PromptRecord | null> {
+    throw read_only_error('rollback_prompt');
+  }
+
+  async close(_logger: Logger): Promise<void> {
+    this.prompts = [];
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * List the prompt files under a directory, in a stable order
+ * @param directory - Directory to search (recursively)
+ * @returns Absolute file paths
+ */
+function list_prompt_files(directory: string): string[] {
+  const files: string[] = [];
+  const entries = fs.readdirSync(directory, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    const entry_path = path.join(directory, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...list_prompt_files(entry_path));
+    } else if (entry.isFile() && (entry.name.endsWith(JSON_FILE_EXTENSION) || entry.name.endsWith(MARKDOWN_FILE_EXTENSION))) {
+      files.push(entry_path);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Read the prompts of one file
+ * @param root - Prompt directory (ids are file paths relative to it)
+ * @param file_path - Absolute path of the file
+ * @returns Prompt records
+ * @throws Error if the file is not valid JSON or front matter, or a prompt misses a required field
+ */
+function read_prompt_file(root: string, file_path: string): PromptRecord[] {
+  const relative_path = path.relative(root, file_path).split(path.sep).join('/');
+  const modified_at = fs.statSync(file_path).mtime.toISOString().replace('T', ' ').slice(0, 19);
+
+  let parsed: unknown;
+  try {
+    const content = fs.readFileSync(file_path, 'utf-8');
+    if (file_path.endsWith(MARKDOWN_FILE_EXTENSION)) {
+      return [{ id: relative_path, ...parse_prompt_file(content), created_at: modified_at, changed_at: '' }];
+    }
+    parsed = JSON.parse(content);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read prompt file ${relative_path}: ${message}`);
+  }
+
+  const entries = Array.isArray(parsed) ? parsed : [parsed];
+
+  return entries.map((entry, index) => {
+    const location = Array.isArray(parsed) ? `${relative_path}#${index}` : relative_path;
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Invalid prompt file ${location}: expected an object`);
+    }
+
+    const fields = entry as Record<string, unknown>;
+    for (const field of REQUIRED_FIELDS) {
+      if (typeof fields[field] !== 'string' || fields[field] === '') {
+        throw new Error(`Invalid prompt file ${location}: missing ${field}`);
+      }
+    }
+
+    return {
+      id: to_text(fields.id) || location,
+      prompt_area: String(fields.prompt_area),
+      prompt_key: String(fields.prompt_key),
+      local_1: to_text(fields.local_1),
+      local_2: to_text(fields.local_2),
+      local_3: to_text(fields.local_3),
+      user_id: to_text(fields.user_id),
+      scope_id: to_text(fields.scope_id),
+      prompt_text: String(fields.prompt_text),
+      prompt_variables: to_text(fields.prompt_variables) || '[]',
+      prompt_notes: to_text(fields.prompt_notes) || '',
+      created_at: to_text(fields.created_at) || modified_at,
+      changed_at: to_text(fields.changed_at) || '',
+      next_prompt: to_text(fields.next_prompt),
+    };
+  });
+}
+
+/**
+ * Convert an optional file field to its stored text form
+ * Arrays and objects (prompt_variables, next_prompt) are stored as JSON.
+ * @param value - Field value
+ * @returns Text, or null when empty
+ */
+function to_text(value: unknown): string | null {
+  if (value === undefined || value === null || value === '') {
+    return null;
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Order prompts by area and key (as the database stores list them)
+ */
+function compare_prompts(a: PromptRecord, b: PromptRecord): number {
+  return a.prompt_area.localeCompare(b.prompt_area) || a.prompt_key.localeCompare(b.prompt_key);
+}
+
+/**
+ * Error thrown by the write operations of the read-only store
+ * @param operation - Attempted operation
+ * @returns Error to throw
+ */
+function read_only_error(operation: string): Error {
+  return new Error(`Prompt store "${PROMPT_STORE_TYPES.DIRECTORY}" is read-only: ${operation} is not supported`);
+}
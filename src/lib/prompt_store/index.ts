@@ -0,0 +1,46 @@
+/**
+ * Prompt Store Module Exports
+ *
+ * Export all prompt store interfaces, adapters and functions from this module
+ */
+
+export {
+  PROMPT_STORE_TYPES,
+  PROMPT_SEARCH_COLUMNS,
+  DEFAULT_PROMPT_SEARCH_LIMIT,
+  type PromptStore,
+  type PromptStoreType,
+  type PromptStoreConfig,
+  type PromptInput,
+  type PromptUpdate,
+  type PromptListFilter,
+  type PromptSearchOptions,
+  type PostgresClient,
+  type PostgresPoolClient,
+} from './types.js';
+
+export {
+  SqlJsPromptStore,
+  type SqlJsPromptStoreConfig,
+} from './sqljs_prompt_store.js';
+
+export {
+  PostgresPromptStore,
+  type PostgresPromptStoreConfig,
+} from './postgres_prompt_store.js';
+
+export {
+  DirectoryPromptStore,
+  type DirectoryPromptStoreConfig,
+} from './directory_prompt_store.js';
+
+export {
+  get_prompt_store,
+  set_prompt_store,
+  is_active_prompt_store,
+} from './active_store.js';
+
+export {
+  create_prompt_store,
+  is_prompt_store,
+} from './prompt_store_factory.js';
@@ -0,0 +1,232 @@
+/**
+ * PostgresPromptStore Tests
+ *
+ * Runs the store against pg-mem's in-memory PostgreSQL.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { newDb } from 'pg-mem';
+import { PostgresPromptStore } from './postgres_prompt_store.js';
+import type { PostgresClient, PromptInput } from './types.js';
+import { set_prompt_store } from './active_store.js';
+import { configure_prompt_cache } from '../prompts/prompt_cache.js';
+import { create_client_scope, run_in_client_scope } from '../llm_api/client_scope.js';
+import { initialize_llm_api_for_testing, silent_logger } from '../testing/test_setup.js';
+import { get_prompt_versions, compare_prompt_versions, restore_prompt_version } from '../llm_api/index.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+/**
+ * Build a prompt input with empty optional fields
+ */
+function prompt_input(fields: Pick<PromptInput, 'prompt_area' | 'prompt_key' | 'prompt_text'> & Partial<PromptInput>): PromptInput {
+  return {
+    local_1: null,
+    local_2: null,
+    local_3: null,
+    user_id: null,
+    scope_id: null,
+    prompt_variables: '[]',
+    prompt_notes: '',
+    next_prompt: null,
+    ...fields,
+  };
+}
+
+/**
+ * Create an initialized store on a fresh pg-mem database
+ * @param connection - Use a pool (default) or a single client
+ */
+async function create_store(connection: 'pool' | 'client' = 'pool'): Promise<PostgresPromptStore> {
+  const { Pool, Client } = newDb().adapters.createPg();
+  const client = (connection === 'pool' ? new Pool() : new Client()) as PostgresClient;
+  const store = new PostgresPromptStore({ client });
+  await store.initialize(logger);
+  return store;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('PostgresPromptStore', () => {
+  let store: PostgresPromptStore;
+
+  beforeEach(async () => {
+    store = await create_store();
+  });
+
+  it('looks up the most specific prompt for the user and scope', async () => {
+    await store.insert_prompt(prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'Shared' }), logger);
+    await store.insert_prompt(
+      prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'For ann', user_id: 'ann' }),
+      logger
+    );
+
+    expect((await store.get_prompt('docs', 'summary', { user_id: 'ann' }, logger))?.prompt_text).toBe('For ann');
+    expect((await store.get_prompt('docs', 'summary', { user_id: 'bob' }, logger))?.prompt_text).toBe('Shared');
+    expect(await store.get_prompt('docs', 'missing', null, logger)).toBeNull();
+  });
+
+  it('does not serve user or scope prompts to lookups without that user or scope', async () => {
+    await store.insert_prompt(
+      prompt_input({ prompt_area: 'docs', prompt_key: 'private', prompt_text: 'For acme', scope_id: 'acme' }),
+      logger
+    );
+
+    expect((await store.get_prompt('docs', 'private', { scope_id: 'acme' }, logger))?.prompt_text).toBe('For acme');
+    expect(await store.get_prompt('docs', 'private', null, logger)).toBeNull();
+    expect(await store.get_prompt('docs', 'private', { user_id: 'bob' }, logger)).toBeNull();
+  });
+
+  it('inserts, lists, searches, updates and deletes prompts', async () => {
+    const inserted = await store.insert_prompt(
+      prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'Summarize {{text}}' }),
+      logger
+    );
+    expect(inserted.id).toBeTruthy();
+    expect(inserted.local_1).toBeNull();
+
+    expect(await store.list_prompts({ prompt_area: 'docs' }, logger)).toHaveLength(1);
+    expect(await store.search_prompts('summarize', {}, logger)).toHaveLength(1);
+
+    const updated = await store.update_prompt(inserted.id, { prompt_text: 'Summarize briefly {{text}}' }, logger);
+    expect(updated?.prompt_text).toBe('Summarize briefly {{text}}');
+    expect(updated?.changed_at).toBeTruthy();
+    expect(await store.update_prompt('missing-id', { prompt_text: 'x' }, logger)).toBeNull();
+
+    expect(await store.delete_prompt(inserted.id, logger)).toBe(true);
+    expect(await store.get_prompt_by_id(inserted.id, logger)).toBeNull();
+    expect(await store.delete_prompt(inserted.id, logger)).toBe(false);
+  });
+
+  it('records a version for each versioned change and removes versions with the prompt', async () => {
+    const inserted = await store.insert_prompt(
+      prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'v1' }),
+      logger,
+      { author: 'ann', note: 'initial' }
+    );
+    expect(await store.get_current_prompt_version(inserted.id, logger)).toBe(1);
+
+    await store.update_prompt(inserted.id, { prompt_text: 'v2' }, logger);
+    // Unchanged text does not create a version
+    await store.update_prompt(inserted.id, { prompt_text: 'v2' }, logger);
+    expect(await store.get_current_prompt_version(inserted.id, logger)).toBe(2);
+
+    const first = await store.get_prompt_version(inserted.id, 1, logger);
+    expect(first).toMatchObject({ version: 1, prompt_text: 'v1', author: 'ann', note: 'initial' });
+    expect((await store.get_prompt_version(inserted.id, 2, logger))?.prompt_text).toBe('v2');
+
+    await store.delete_prompt(inserted.id, logger);
+    expect(await store.get_current_prompt_version(inserted.id, logger)).toBeNull();
+  });
+
+  it('lists the history newest first and rolls back as a new version', async () => {
+    const inserted = await store.insert_prompt(
+      prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'v1', prompt_notes: 'first' }),
+      logger
+    );
+    await store.update_prompt(inserted.id, { prompt_text: 'v2', prompt_notes: '' }, logger, { author: 'ann', note: 'shorter' });
+
+    const restored = await store.rollback_prompt(inserted.id, 1, logger, { author: 'bob' });
+
+    expect(restored).toMatchObject({ prompt_text: 'v1', prompt_notes: 'first' });
+    expect((await store.get_prompt_history(inserted.id, logger)).map(version => [version.version, version.author, version.note]))
+      .toEqual([
+        [3, 'bob', 'Rollback to version 1'],
+        [2, 'ann', 'shorter'],
+        [1, null, ''],
+      ]);
+    expect(await store.rollback_prompt(inserted.id, 9, logger)).toBeNull();
+    expect(await store.get_prompt_history('missing-id', logger)).toEqual([]);
+  });
+
+  it('numbers versions of concurrent updates on a single connection without conflicts', async () => {
+    store = await create_store('client');
+    const inserted = await store.insert_prompt(
+      prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'v1' }),
+      logger
+    );
+
+    await Promise.all([
+      store.update_prompt(inserted.id, { prompt_text: 'a' }, logger),
+      store.update_prompt(inserted.id, { prompt_text: 'b' }, logger),
+    ]);
+
+    expect(await store.get_current_prompt_version(inserted.id, logger)).toBe(3);
+  });
+});
+
+describe('PostgresPromptStore replicas', () => {
+  afterEach(async () => {
+    await set_prompt_store(null, logger);
+    configure_prompt_cache({});
+    vi.useRealTimers();
+  });
+
+  it('serves a change made through another store once the cache entry expires', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    configure_prompt_cache({ ttl_ms: 100 });
+
+    const { Pool } = newDb().adapters.createPg();
+    const store = new PostgresPromptStore({ client: new Pool() as PostgresClient });
+    await store.initialize(logger);
+    // Second instance on the same database (the tables already exist), used
+    // from its own client scope like another process with its own cache
+    const replica = new PostgresPromptStore({ client: new Pool() as PostgresClient });
+    await set_prompt_store(store, logger);
+
+    const inserted = await store.insert_prompt(
+      prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'v1' }),
+      logger
+    );
+    expect((await store.get_prompt('docs', 'summary', null, logger))?.prompt_text).toBe('v1');
+
+    await run_in_client_scope(create_client_scope(), () => replica.update_prompt(inserted.id, { prompt_text: 'v2' }, logger));
+
+    // Reads within the TTL keep the cached text and do not extend it
+    vi.advanceTimersByTime(60);
+    expect((await store.get_prompt('docs', 'summary', null, logger))?.prompt_text).toBe('v1');
+    vi.advanceTimersByTime(60);
+    expect((await store.get_prompt('docs', 'summary', null, logger))?.prompt_text).toBe('v2');
+  });
+});
+
+describe('prompt versions through the active store', () => {
+  afterEach(async () => {
+    await set_prompt_store(null, logger);
+  });
+
+  it('lists, compares and restores versions of PostgreSQL prompts', async () => {
+    await initialize_llm_api_for_testing();
+    const store = await create_store();
+    await set_prompt_store(store, logger);
+
+    const inserted = await store.insert_prompt(
+      prompt_input({ prompt_area: 'docs', prompt_key: 'summary', prompt_text: 'Summarize\n{{text}}' }),
+      logger
+    );
+    await store.update_prompt(inserted.id, { prompt_text: 'Summarize briefly\n{{text}}' }, logger);
+
+    expect((await get_prompt_versions(inserted.id)).map(version => version.version)).toEqual([2, 1]);
+    expect(await compare_prompt_versions(inserted.id, 1, 2)).toEqual({
+      prompt_id: inserted.id,
+      from_version: 1,
+      to_version: 2,
+      changed_fields: ['prompt_text'],
+      text_diff: [
+        { type: 'removed', text: 'Summarize' },
+        { type: 'added', text: 'Summarize briefly' },
+        { type: 'unchanged', text: '{{text}}' },
+      ],
+    });
+    expect(await compare_prompt_versions(inserted.id, 1, 5)).toBeNull();
+
+    expect((await restore_prompt_version(inserted.id, 1))?.prompt_text).toBe('Summarize\n{{text}}');
+    expect(await store.get_current_prompt_version(inserted.id, logger)).toBe(3);
+  });
+});
@@ -0,0 +1,778 @@
+/**
+ * PostgreSQL Prompt Store
+ *
+ * Implements the PromptStore interface on PostgreSQL with the same
+ * hazo_prompts and hazo_prompt_versions tables as the sql.js database, so
+ * several app replicas can share one prompt library. Works with any client
+ * exposing query(text, values) (pg.Pool, pg.Client, pg-mem); with a
+ * connection string the optional "pg" package is loaded on initialize.
+ */
+
+import { randomUUID } from 'crypto';
+import type {
+  Logger,
+  PromptLookupOptions,
+  PromptRecord,
+  PromptVersionInfo,
+  PromptVersionRecord,
+} from '../llm_api/types.js';
+import type {
+  PromptStore,
+  PromptInput,
+  PromptUpdate,
+  PromptListFilter,
+  PromptSearchOptions,
+  PostgresClient,
+  PostgresPoolClient,
+} from './types.js';
+import {
+  PROMPT_STORE_TYPES,
+  PROMPT_SEARCH_COLUMNS,
+  DEFAULT_PROMPT_SEARCH_LIMIT,
+} from './types.js';
+import { row_to_prompt_record, row_to_prompt_version_record } from '../database/utils.js';
+import { has_versioned_changes } from '../database/init_database.js';
+import { get_prompt_cache } from '../prompts/prompt_cache.js';
+import {
+  get_prompt_lookup_levels,
+  has_prompt_lookup_filters,
+  PROMPT_LOOKUP_COLUMNS,
+} from '../prompts/lookup_levels.js';
+import { is_active_prompt_store } from './active_store.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'postgres_prompt_store.ts';
+
+/** Prompt columns that may be set on insert/update, in table order */
+const PROMPT_INPUT_COLUMNS = [
+  'prompt_area',
+  'prompt_key',
+  'local_1',
+  'local_2',
+  'local_3',
+  'user_id',
+  'scope_id',
+  'prompt_text',
+  'prompt_variables',
+  'prompt_notes',
+  'next_prompt',
+] as const;
+
+/** Optional columns stored as NULL when empty */
+const NULLABLE_COLUMNS = new Set<string>([...PROMPT_LOOKUP_COLUMNS, 'next_prompt']);
+
+/** Tables and index, same layout as the sql.js database */
+const SCHEMA_STATEMENTS = [
+  `CREATE TABLE IF NOT EXISTS hazo_prompts (
+    id TEXT PRIMARY KEY,
+    prompt_area TEXT NOT NULL,
+    prompt_key TEXT NOT NULL,
+    local_1 TEXT DEFAULT NULL,
+    local_2 TEXT DEFAULT NULL,
+    local_3 TEXT DEFAULT NULL,
+    user_id TEXT DEFAULT NULL,
+    scope_id TEXT DEFAULT NULL,
+    prompt_text TEXT NOT NULL,
+    prompt_variables TEXT DEFAULT '[]',
+    prompt_notes TEXT DEFAULT '',
+    created_at TEXT DEFAULT NULL,
+    changed_at TEXT DEFAULT NULL,
+    next_prompt TEXT DEFAULT NULL
+  )`,
+  `CREATE INDEX IF NOT EXISTS idx_prompts_area_key
+    ON hazo_prompts(prompt_area, prompt_key, local_1, local_2, local_3, user_id, scope_id)`,
+  `CREATE TABLE IF NOT EXISTS hazo_prompt_versions (
+    id TEXT PRIMARY KEY,
+    prompt_id TEXT NOT NULL,
+    version INTEGER NOT NULL,
+    prompt_text TEXT NOT NULL,
+    prompt_variables TEXT DEFAULT '[]',
+    prompt_notes TEXT DEFAULT '',
+    next_prompt TEXT DEFAULT NULL,
+    author TEXT DEFAULT NULL,
+    note TEXT DEFAULT '',
+    created_at TEXT DEFAULT NULL,
+    UNIQUE (prompt_id, version)
+  )`,
+];
+
+// =============================================================================
+// PostgreSQL Prompt Store Configuration
+// =============================================================================
+
+/**
+ * Configuration for PostgresPromptStore
+ * Pass either an existing client or a connection string.
+ */
+export interface PostgresPromptStoreConfig {
+  /** Existing client or pool (not closed by the store) */
+  client?: PostgresClient;
+
+  /** Connection string for a pool opened by the store (requires the "pg" package) */
+  connection_string?: string;
+}
+
+/**
+ * Connection a write transaction runs on
+ */
+type PostgresConnection = Pick<PostgresClient, 'query'>;
+
+/**
+ * Shape of the "pg" module used to open a pool
+ */
+interface PgModule {
+  Pool: new (config: { connectionString: string }) => PostgresClient;
+}
+
+// =============================================================================
+// PostgreSQL Prompt Store Class
+// =============================================================================
+
+/**
+ * Prompt store backed by PostgreSQL
+ *
+ * Lookups of the active store use the prompt cache. With several replicas, a
+ * change made on one replica reaches the others when their cache entries
+ * expire (prompt_cache.ttl_ms).
+ *
+ * @example
+ * ```typescript
+ * import pg from 'pg';
+ *
+ * const store = new PostgresPromptStore({ client: new pg.Pool({ connectionString: process.env.DATABASE_URL }) });
+ * await initialize_llm_api({ prompt_store: store });
+ * ```
+ */
+export class PostgresPromptStore implements PromptStore {
+  readonly type = PROMPT_STORE_TYPES.POSTGRES;
+  readonly read_only = false;
+
+  private client: PostgresClient | null;
+  private readonly connection_string: string | undefined;
+  private owns_client = false;
+  private initialized = false;
+
+  /** Transactions on a single (non-pool) connection, run one at a time */
+  private transaction_queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a PostgreSQL prompt store
+   * @param config - Client or connection string
+   * @throws Error if neither client nor connection_string is given
+   */
+  constructor(config: PostgresPromptStoreConfig) {
+    if (!config.client && !config.connection_string) {
+      throw new Error('PostgresPromptStore requires a client or a connection_string');
+    }
+    this.client = config.client || null;
+    this.connection_string = config.connection_string;
+  }
+
+  /**
+   * Connect (when created from a connection string) and create the tables if needed
+   * Calling it again after a successful initialize does nothing.
+   * @param logger - Logger instance
+   */
+  async initialize(logger: Logger): Promise<void> {
+    if (this.initialized) {
+      return;
+    }
+
+    if (!this.client && this.connection_string) {
+      this.client = await open_pg_pool(this.connection_string);
+      this.owns_client = true;
+    }
+
+    try {
+      for (const statement of SCHEMA_STATEMENTS) {
+        await this.query(statement);
+      }
+      this.initialized = true;
+
+      logger.info('PostgreSQL prompt store initialized', {
+        file: FILE_NAME,
+        data: { owns_client: this.owns_client },
+      });
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to initialize PostgreSQL prompt store', {
+        file: FILE_NAME,
+        data: { error: error_message },
+      });
+      throw error;
+    }
+  }
+
+  async get_prompt(
+    prompt_area: string,
+    prompt_key: string,
+    options: PromptLookupOptions | null,
+    logger: Logger
+  ): Promise<PromptRecord | null> {
+    const filters = has_prompt_lookup_filters(options) ? options : undefined;
+
+    const cache = is_active_prompt_store(this) ? get_prompt_cache() : null;
+    const cached = cache?.get(prompt_area, prompt_key, filters);
+    if (cached) {
+      logger.debug('Prompt served from cache', {
+        file: FILE_NAME,
+        data: { id: cached.id, prompt_area, prompt_key, options: filters },
+      });
+      return cached;
+    }
+
+    try {
+      // Try each level in order, from most specific to least specific
+      for (const level of get_prompt_lookup_levels(filters || null)) {
+        const conditions = ['prompt_area = $1', 'prompt_key = $2'];
+        const values: string[] = [prompt_area, prompt_key];
+        for (const column of PROMPT_LOOKUP_COLUMNS) {
+          const value = level[column];
+          if (value === null) {
+            conditions.push(`${column} IS NULL`);
+          } else {
+            values.push(value);
+            conditions.push(`${column} = $${values.length}`);
+          }
+        }
+
+        const rows = await this.query(
+          `SELECT * FROM hazo_prompts WHERE ${conditions.join(' AND ')} LIMIT 1`,
+          values
+        );
+
+        if (rows.length > 0) {
+          const record = to_prompt_record(rows[0]);
+
+          logger.info('Prompt retrieved from PostgreSQL', {
+            file: FILE_NAME,
+            data: {
+              id: record.id,
+              prompt_area: record.prompt_area,
+              prompt_key: record.prompt_key,
+              matched_level: level.description,
+            },
+          });
+
+          cache?.set(record, filters);
+
+          return record;
+        }
+      }
+
+      logger.warn('Prompt not found in PostgreSQL', {
+        file: FILE_NAME,
+        data: { prompt_area, prompt_key, options: filters },
+      });
+      return null;
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Failed to retrieve prompt from PostgreSQL', {
+        file: FILE_NAME,
+        data: { error: error_message, prompt_area, prompt_key },
+      });
+      throw error;
+    }
+  }
+
+  async get_prompt_by_id(id: string, logger: Logger): Promise<PromptRecord | null> {
+    const cached = is_active_prompt_store(this) ? get_prompt_cache().get_by_id(id) : null;
+    if (cached) {
+      return cached;
+    }
+
+    const rows = await this.run_logged('Failed to retrieve prompt by ID', { id }, logger,
+      'SELECT * FROM hazo_prompts WHERE id = $1', [id]);
+    return rows.length > 0 ? to_prompt_record(rows[0]) : null;
+  }
+
+  async list_prompts(filter: PromptListFilter, logger: Logger): Promise<PromptRecord[]> {
+    const conditions: string[] = [];
+    const values: string[] = [];
+    for (const column of ['prompt_area', 'prompt_key', ...PROMPT_LOOKUP_COLUMNS] as const) {
+      const value = filter[column];
+      if (value === undefined) {
+        continue;
+      }
+      if (value === null) {
+        conditions.push(`${column} IS NULL`);
+      } else {
+        values.push(value);
+        conditions.push(`${column} = $${values.length}`);
+      }
+    }
+
+    const where_clause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await this.run_logged('Failed to list prompts', { filter }, logger,
+      `SELECT * FROM hazo_prompts ${where_clause} ORDER BY prompt_area, prompt_key`, values);
+    return rows.map(to_prompt_record);
+  }
+
+  async search_prompts(query: string, options: PromptSearchOptions, logger: Logger): Promise<PromptRecord[]> {
+    // Backslash is the default LIKE escape character in PostgreSQL
+    const values: Array<string | number> = [`%${query.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`];
+    const conditions = ['(' + PROMPT_SEARCH_COLUMNS.map(column => `LOWER(${column}) LIKE $1`).join(' OR ') + ')'];
+
+    if (options.prompt_area) {
+      values.push(options.prompt_area);
+      conditions.push(`prompt_area = $${values.length}`);
+    }
+    values.push(options.limit ?? DEFAULT_PROMPT_SEARCH_LIMIT);
+
+    const rows = await this.run_logged('Failed to search prompts', { query }, logger,
+      `SELECT * FROM hazo_prompts WHERE ${conditions.join(' AND ')} ORDER BY prompt_area, prompt_key LIMIT $${values.length}`,
+      values);
+    return rows.map(to_prompt_record);
+  }
+
+  async insert_prompt(prompt: PromptInput, logger: Logger, version_info: PromptVersionInfo = {}): Promise<PromptRecord> {
+    const id = randomUUID();
+    const now = current_timestamp();
+    const values = [id, ...PROMPT_INPUT_COLUMNS.map(column => to_column_value(column, prompt[column])), now];
+    const placeholders = values.map((_, index) => `$${index + 1}`);
+
+    const record = await this.with_transaction(async (connection) => {
+      await this.run_logged('Failed to insert prompt', { prompt_area: prompt.prompt_area, prompt_key: prompt.prompt_key }, logger,
+        `INSERT INTO hazo_prompts (id, ${PROMPT_INPUT_COLUMNS.join(', ')}, created_at) VALUES (${placeholders.join(', ')})`,
+        values, connection);
+      await this.record_prompt_version(connection, id, version_info, logger);
+      return this.get_prompt_row(id, logger, connection);
+    });
+
+    // A new prompt can change which prompt a cached lookup resolves to
+    get_prompt_cache().invalidate(prompt.prompt_area, prompt.prompt_key);
+
+    if (!record) {
+      throw new Error('Failed to retrieve inserted prompt');
+    }
+
+    logger.info('Prompt inserted into PostgreSQL', {
+      file: FILE_NAME,
+      data: { id, prompt_area: prompt.prompt_area, prompt_key: prompt.prompt_key },
+    });
+
+    return record;
+  }
+
+  async update_prompt(
+    id: string,
+    updates: PromptUpdate,
+    logger: Logger,
+    version_info: PromptVersionInfo = {}
+  ): Promise<PromptRecord | null> {
+    const assignments: string[] = [];
+    const values: Array<string | null> = [];
+    for (const column of PROMPT_INPUT_COLUMNS) {
+      if (updates[column] !== undefined) {
+        values.push(to_column_value(column, updates[column]));
+        assignments.push(`${column} = $${values.length}`);
+      }
+    }
+
+    if (assignments.length === 0) {
+      logger.warn('No fields to update', {
+        file: FILE_NAME,
+        data: { id },
+      });
+      return null;
+    }
+
+    values.push(current_timestamp());
+    assignments.push(`changed_at = $${values.length}`);
+    values.push(id);
+
+    // The row lock makes concurrent updates of the prompt (and their versions) run one after another
+    const result = await this.with_transaction(async (connection) => {
+      const previous = await this.get_prompt_row(id, logger, connection, true);
+      if (!previous) {
+        return null;
+      }
+
+      await this.run_logged('Failed to update prompt', { id }, logger,
+        `UPDATE hazo_prompts SET ${assignments.join(', ')} WHERE id = $${values.length}`, values, connection);
+
+      if (has_versioned_changes(previous, updates)) {
+        await this.record_prompt_version(connection, id, version_info, logger);
+      }
+
+      return { previous, record: await this.get_prompt_row(id, logger, connection) };
+    });
+
+    if (!result) {
+      logger.warn('Prompt not found for update', {
+        file: FILE_NAME,
+        data: { id },
+      });
+      return null;
+    }
+
+    const { previous, record } = result;
+
+    // Drop cached lookups of the old and the new area/key
+    const cache = get_prompt_cache();
+    cache.invalidate_by_id(id);
+    cache.invalidate(previous.prompt_area, previous.prompt_key);
+    if (record) {
+      cache.invalidate(record.prompt_area, record.prompt_key);
+    }
+
+    logger.info('Prompt updated in PostgreSQL', {
+      file: FILE_NAME,
+      data: { id },
+    });
+
+    return record;
+  }
+
+  async delete_prompt(id: string, logger: Logger): Promise<boolean> {
+    const existing = await this.with_transaction(async (connection) => {
+      const row = await this.get_prompt_row(id, logger, connection, true);
+      if (!row) {
+        return null;
+      }
+
+      await this.run_logged('Failed to delete prompt versions', { id }, logger,
+        'DELETE FROM hazo_prompt_versions WHERE prompt_id = $1', [id], connection);
+      await this.run_logged('Failed to delete prompt', { id }, logger,
+        'DELETE FROM hazo_prompts WHERE id = $1', [id], connection);
+      return row;
+    });
+
+    if (!existing) {
+      logger.warn('Prompt not found for deletion', {
+        file: FILE_NAME,
+        data: { id },
+      });
+      return false;
+    }
+
+    // Lookups that resolved to this prompt may now resolve to a less specific one
+    const cache = get_prompt_cache();
+    cache.invalidate_by_id(id);
+    cache.invalidate(existing.prompt_area, existing.prompt_key);
+
+    logger.info('Prompt deleted from PostgreSQL', {
+      file: FILE_NAME,
+      data: { id },
+    });
+
+    return true;
+  }
+
+  async get_current_prompt_version(prompt_id: string, logger: Logger): Promise<number | null> {
+    return this.get_max_prompt_version(prompt_id, logger);
+  }
+
+  async get_prompt_version(prompt_id: string, version: number, logger: Logger): Promise<PromptVersionRecord | null> {
+    const rows = await this.run_logged('Failed to retrieve prompt version', { prompt_id, version }, logger,
+      'SELECT * FROM hazo_prompt_versions WHERE prompt_id = $1 AND version = $2', [prompt_id, version]);
+    return rows.length > 0
+      ? row_to_prompt_version_record(Object.values(rows[0]), Object.keys(rows[0]))
+      : null;
+  }
+
+  async get_prompt_history(prompt_id: string, logger: Logger): Promise<PromptVersionRecord[]> {
+    const rows = await this.run_logged('Failed to retrieve prompt history', { prompt_id }, logger,
+      'SELECT * FROM hazo_prompt_versions WHERE prompt_id = $1 ORDER BY version DESC', [prompt_id]);
+    return rows.map(row => row_to_prompt_version_record(Object.values(row), Object.keys(row)));
+  }
+
+  async rollback_prompt(
+    prompt_id: string,
+    version: number,
+    logger: Logger,
+    version_info: PromptVersionInfo = {}
+  ): Promise<PromptRecord | null> {
+    const target = await this.get_prompt_version(prompt_id, version, logger);
+    if (!target) {
+      logger.warn('Prompt version not found', {
+        file: FILE_NAME,
+        data: { prompt_id, version },
+      });
+      return null;
+    }
+
+    const record = await this.update_prompt(
+      prompt_id,
+      {
+        prompt_text: target.prompt_text,
+        prompt_variables: target.prompt_variables,
+        prompt_notes: target.prompt_notes,
+        next_prompt: target.next_prompt,
+      },
+      logger,
+      {
+        author: version_info.author,
+        note: version_info.note ?? `Rollback to version ${version}`,
+      }
+    );
+
+    if (record) {
+      logger.info('Prompt rolled back in PostgreSQL', {
+        file: FILE_NAME,
+        data: { prompt_id, version },
+      });
+    }
+
+    return record;
+  }
+
+  /**
+   * End the pool opened from connection_string (a client passed in config is left open)
+   * @param logger - Logger instance
+   */
+  async close(logger: Logger): Promise<void> {
+    if (this.owns_client && this.client?.end) {
+      await this.client.end();
+      logger.info('PostgreSQL prompt store closed', { file: FILE_NAME });
+    }
+    if (this.owns_client) {
+      this.client = null;
+      this.owns_client = false;
+      this.initialized = false;
+    }
+  }
+
+  // ===========================================================================
+  // Private Helpers
+  // ===========================================================================
+
+  /**
+   * Get the client
+   * @returns Client or pool
+   * @throws Error if the store is not initialized
+   */
+  private get_client(): PostgresClient {
+    if (!this.client) {
+      throw new Error('PostgreSQL prompt store not initialized. Call initialize first.');
+    }
+    return this.client;
+  }
+
+  /**
+   * Run a query
+   * @param text - SQL with $1..$n placeholders
+   * @param values - Placeholder values
+   * @param connection - Transaction connection (default: the client)
+   * @returns Result rows
+   * @throws Error if the store is not initialized
+   */
+  private async query(
+    text: string,
+    values: unknown[] = [],
+    connection?: PostgresConnection
+  ): Promise<Array<Record<string, unknown>>> {
+    const result = await (connection || this.get_client()).query(text, values);
+    return result.rows;
+  }
+
+  /**
+   * Run work in a transaction, rolling back if it throws
+   * Pools check out a connection for the transaction; a single connection
+   * runs its transactions one at a time.
+   * @param work - Queries to run on the transaction connection
+   * @returns Result of work
+   */
+  private async with_transaction<T>(work: (connection: PostgresConnection) => Promise<T>): Promise<T> {
+    const client = this.get_client();
+
+    if (is_pool(client)) {
+      const connection = await client.connect() as PostgresPoolClient;
+      try {
+        return await run_in_transaction(connection, work);
+      } finally {
+        connection.release();
+      }
+    }
+
+    const run = this.transaction_queue.then(() => run_in_transaction(client, work));
+    this.transaction_queue = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Run a query, logging and rethrowing failures
+   * @param error_message - Log message on failure
+   * @param data - Log data on failure
+   * @param logger - Logger instance
+   * @param text - SQL with $1..$n placeholders
+   * @param values - Placeholder values
+   * @param connection - Transaction connection (default: the client)
+   * @returns Result rows
+   */
+  private async run_logged(
+    error_message: string,
+    data: Record<string, unknown>,
+    logger: Logger,
+    text: string,
+    values: unknown[],
+    connection?: PostgresConnection
+  ): Promise<Array<Record<string, unknown>>> {
+    try {
+      return await this.query(text, values, connection);
+    } catch (error) {
+      logger.error(error_message, {
+        file: FILE_NAME,
+        data: { ...data, error: error instanceof Error ? error.message : String(error) },
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch a prompt by ID without the cache
+   * @param id - Prompt ID
+   * @param logger - Logger instance
+   * @param connection - Transaction connection (default: the client)
+   * @param lock - Lock the row until the transaction ends (SELECT ... FOR UPDATE)
+   * @returns Prompt record or null if not found
+   */
+  private async get_prompt_row(
+    id: string,
+    logger: Logger,
+    connection?: PostgresConnection,
+    lock = false
+  ): Promise<PromptRecord | null> {
+    const rows = await this.run_logged('Failed to retrieve prompt by ID', { id }, logger,
+      `SELECT * FROM hazo_prompts WHERE id = $1${lock ? ' FOR UPDATE' : ''}`, [id], connection);
+    return rows.length > 0 ? to_prompt_record(rows[0]) : null;
+  }
+
+  /**
+   * Get the highest version number of a prompt
+   * @param prompt_id - Prompt ID
+   * @param logger - Logger instance
+   * @param connection - Transaction connection (default: the client)
+   * @returns Version number, or null if the prompt has no versions
+   */
+  private async get_max_prompt_version(
+    prompt_id: string,
+    logger: Logger,
+    connection?: PostgresConnection
+  ): Promise<number | null> {
+    const rows = await this.run_logged('Failed to retrieve current prompt version', { prompt_id }, logger,
+      'SELECT MAX(version) AS version FROM hazo_prompt_versions WHERE prompt_id = $1', [prompt_id], connection);
+    const value = rows[0]?.version;
+    return value != null ? Number(value) : null;
+  }
+
+  /**
+   * Record the current content of a prompt as its next version
+   * Runs inside the write's transaction, after the prompt row was inserted or locked.
+   * @param connection - Transaction connection
+   * @param prompt_id - Prompt ID
+   * @param version_info - Author and note for the version
+   * @param logger - Logger instance
+   */
+  private async record_prompt_version(
+    connection: PostgresConnection,
+    prompt_id: string,
+    version_info: PromptVersionInfo,
+    logger: Logger
+  ): Promise<void> {
+    const current = await this.get_max_prompt_version(prompt_id, logger, connection);
+
+    await this.run_logged('Failed to record prompt version', { prompt_id }, logger,
+      `INSERT INTO hazo_prompt_versions (id, prompt_id, version, prompt_text, prompt_variables, prompt_notes, next_prompt, author, note, created_at)
+       SELECT $1, id, $2::integer, prompt_text, prompt_variables, prompt_notes, next_prompt, $3, $4, $5
+       FROM hazo_prompts WHERE id = $6`,
+      [
+        randomUUID(),
+        (current ?? 0) + 1,
+        version_info.author || null,
+        version_info.note || '',
+        current_timestamp(),
+        prompt_id,
+      ], connection);
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Check whether a client is a pool (connect() checks out a connection)
+ * pg.Client and pool clients also have connect() but are single connections.
+ * @param client - Client or pool
+ * @returns True for a pool
+ */
+function is_pool(client: PostgresClient): client is PostgresClient & Required<Pick<PostgresClient, 'connect'>> {
+  return typeof client.connect === 'function'
+    && typeof (client as Partial<PostgresPoolClient>).release !== 'function'
+    && !('connectionParameters' in client);
+}
+
+/**
+ * Run work between BEGIN and COMMIT, rolling back if it throws
+ * @param connection - Connection to run the transaction on
+ * @param work - Queries to run
+ * @returns Result of work
+ */
+async function run_in_transaction<T>(
+  connection: PostgresConnection,
+  work: (connection: PostgresConnection) => Promise<T>
+): Promise<T> {
+  await connection.query('BEGIN');
+  try {
+    const result = await work(connection);
+    await connection.query('COMMIT');
+    return result;
+  } catch (error) {
+    // Keep the original error if the rollback fails too
+    await connection.query('ROLLBACK').catch(() => undefined);
+    throw error;
+  }
+}
+
+/**
+ * Convert a result row to a PromptRecord
+ * @param row - Row object keyed by column name
+ * @returns Prompt record
+ */
+function to_prompt_record(row: Record<string, unknown>): PromptRecord {
+  return row_to_prompt_record(Object.values(row), Object.keys(row));
+}
+
+/**
+ * Normalize a prompt field for storage (optional columns are NULL when empty)
+ * @param column - Column name
+ * @param value - Field value
+ * @returns Value to store
+ */
+function to_column_value(column: string, value: string | null | undefined): string | null {
+  if (NULLABLE_COLUMNS.has(column)) {
+    return value || null;
+  }
+  return value ?? null;
+}
+
+/**
+ * Current UTC time in the sql.js datetime('now') format (YYYY-MM-DD HH:MM:SS)
+ * @returns Timestamp string
+ */
+function current_timestamp(): string {
+  return new Date().toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Open a pool with the optional "pg" package
+ * @param connection_string - PostgreSQL connection string
+ * @returns Pool
+ * @throws Error if "pg" is not installed
+ */
+async function open_pg_pool(connection_string: string): Promise<PostgresClient> {
+  // Kept out of the static imports so "pg" stays an optional dependency
+  const module_name = 'pg';
+  let pg: PgModule;
+  try {
+    const loaded = await import(module_name);
+    pg = (loaded.default || loaded) as PgModule;
+  } catch {
+    throw new Error('The "pg" package is required for prompt_store=postgres with a connection string. Install it with: npm install pg');
+  }
+  return new pg.Pool({ connectionString: connection_string });
+}
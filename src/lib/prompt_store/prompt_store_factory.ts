@@ -0,0 +1,61 @@
+/**
+ * Prompt Store Factory
+ *
+ * Creates the built-in prompt stores from a PromptStoreConfig
+ * (LLMApiConfig.prompt_store or the prompt_store keys of the [llm] section).
+ */
+
+import type { PromptStore, PromptStoreConfig } from './types.js';
+import { PROMPT_STORE_TYPES } from './types.js';
+import { SqlJsPromptStore } from './sqljs_prompt_store.js';
+import { PostgresPromptStore } from './postgres_prompt_store.js';
+import { DirectoryPromptStore } from './directory_prompt_store.js';
+
+// =============================================================================
+// Factory Functions
+// =============================================================================
+
+/**
+ * Create a built-in prompt store
+ * The store still has to be initialized (initialize_llm_api does this).
+ *
+ * @param config - Store type and its settings
+ * @returns Prompt store
+ * @throws Error for an unknown type or missing settings
+ *
+ * @example
+ * ```typescript
+ * const store = create_prompt_store({ type: 'postgres', connection_string: process.env.DATABASE_URL });
+ * await store.initialize(logger);
+ * ```
+ */
+export function create_prompt_store(config: PromptStoreConfig): PromptStore {
+  switch (config.type) {
+    case PROMPT_STORE_TYPES.SQLJS:
+      return new SqlJsPromptStore();
+    case PROMPT_STORE_TYPES.POSTGRES:
+      return new PostgresPromptStore({
+        client: config.client,
+        connection_string: config.connection_string,
+      });
+    case PROMPT_STORE_TYPES.DIRECTORY:
+      if (!config.directory) {
+        throw new Error('Prompt store "directory" requires a directory (prompt_store_dir in [llm])');
+      }
+      return new DirectoryPromptStore({ directory: config.directory });
+    default:
+      throw new Error(
+        `Unknown prompt store type "${config.type}". ` +
+        `Use one of: ${Object.values(PROMPT_STORE_TYPES).join(', ')}, or pass a PromptStore instance.`
+      );
+  }
+}
+
+/**
+ * Check whether a value is a prompt store instance (rather than a PromptStoreConfig)
+ * @param value - Store or store config
+ * @returns True for a PromptStore
+ */
+export function is_prompt_store(value: PromptStore | PromptStoreConfig): value is PromptStore {
+  return typeof (value as PromptStore).get_prompt === 'function';
+}
@@ -0,0 +1,168 @@
+/**
+ * sql.js Prompt Store
+ *
+ * Implements the PromptStore interface on the bundled sql.js database
+ * (hazo_prompts and hazo_prompt_versions). Delegates to the functional
+ * database API, so lookups use the prompt cache and writes save the file.
+ */
+
+import type { Database as SqlJsDatabase } from 'sql.js';
+import type {
+  Logger,
+  PromptLookupOptions,
+  PromptRecord,
+  PromptVersionInfo,
+  PromptVersionRecord,
+} from '../llm_api/types.js';
+import type {
+  PromptStore,
+  PromptInput,
+  PromptUpdate,
+  PromptListFilter,
+  PromptSearchOptions,
+} from './types.js';
+import { PROMPT_STORE_TYPES } from './types.js';
+import {
+  get_database,
+  insert_prompt,
+  update_prompt,
+  delete_prompt,
+} from '../database/init_database.js';
+import {
+  get_prompt_by_area_key_and_locals,
+  get_prompt_by_id,
+  list_prompts,
+  search_prompts,
+} from '../prompts/get_prompt.js';
+import {
+  get_current_prompt_version,
+  get_prompt_version,
+  get_prompt_history,
+  rollback_prompt,
+} from '../prompts/prompt_versions.js';
+
+// =============================================================================
+// sql.js Prompt Store Configuration
+// =============================================================================
+
+/**
+ * Configuration for SqlJsPromptStore
+ */
+export interface SqlJsPromptStoreConfig {
+  /** Database to use (default: the active client's database, see initialize_database) */
+  db?: SqlJsDatabase;
+}
+
+// =============================================================================
+// sql.js Prompt Store Class
+// =============================================================================
+
+/**
+ * Prompt store backed by a sql.js database
+ *
+ * @example
+ * ```typescript
+ * const store = new SqlJsPromptStore();   // follows get_database()
+ * const prompt = await store.get_prompt('support', 'reply', { scope_id: 'acme' }, logger);
+ * ```
+ */
+export class SqlJsPromptStore implements PromptStore {
+  readonly type = PROMPT_STORE_TYPES.SQLJS;
+  readonly read_only = false;
+
+  private readonly db: SqlJsDatabase | null;
+
+  /**
+   * Create a sql.js prompt store
+   * @param config - Store configuration (default: the active client's database)
+   */
+  constructor(config: SqlJsPromptStoreConfig = {}) {
+    this.db = config.db || null;
+  }
+
+  /**
+   * Nothing to prepare: the database is opened by initialize_database
+   */
+  async initialize(_logger: Logger): Promise<void> {
+    return;
+  }
+
+  async get_prompt(
+    prompt_area: string,
+    prompt_key: string,
+    options: PromptLookupOptions | null,
+    logger: Logger
+  ): Promise<PromptRecord | null> {
+    return get_prompt_by_area_key_and_locals(this.get_db(), prompt_area, prompt_key, options, logger);
+  }
+
+  async get_prompt_by_id(id: string, logger: Logger): Promise<PromptRecord | null> {
+    return get_prompt_by_id(this.get_db(), id, logger);
+  }
+
+  async list_prompts(filter: PromptListFilter, logger: Logger): Promise<PromptRecord[]> {
+    return list_prompts(this.get_db(), filter, logger);
+  }
+
+  async search_prompts(query: string, options: PromptSearchOptions, logger: Logger): Promise<PromptRecord[]> {
+    return search_prompts(this.get_db(), query, options, logger);
+  }
+
+  async insert_prompt(prompt: PromptInput, logger: Logger, version_info?: PromptVersionInfo): Promise<PromptRecord> {
+    return insert_prompt(this.get_db(), prompt, logger, version_info);
+  }
+
+  async update_prompt(
+    id: string,
+    updates: PromptUpdate,
+    logger: Logger,
+    version_info?: PromptVersionInfo
+  ): Promise<PromptRecord | null> {
+    return update_prompt(this.get_db(), id, updates, logger, version_info);
+  }
+
+  async delete_prompt(id: string, logger: Logger): Promise<boolean> {
+    return delete_prompt(this.get_db(), id, logger);
+  }
+
+  async get_current_prompt_version(prompt_id: string, logger: Logger): Promise<number | null> {
+    return get_current_prompt_version(this.get_db(), prompt_id, logger);
+  }
+
+  async get_prompt_version(prompt_id: string, version: number, logger: Logger): Promise<PromptVersionRecord | null> {
+    return get_prompt_version(this.get_db(), prompt_id, version, logger);
+  }
+
+  async get_prompt_history(prompt_id: string, logger: Logger): Promise<PromptVersionRecord[]> {
+    return get_prompt_history(this.get_db(), prompt_id, logger);
+  }
+
+  async rollback_prompt(
+    prompt_id: string,
+    version: number,
+    logger: Logger,
+    version_info?: PromptVersionInfo
+  ): Promise<PromptRecord | null> {
+    return rollback_prompt(this.get_db(), prompt_id, version, logger, version_info);
+  }
+
+  /**
+   * Nothing to release: the database is closed by close_database
+   */
+  async close(_logger: Logger): Promise<void> {
+    return;
+  }
+
+  /**
+   * Get the database this store reads and writes
+   * @returns The configured database, or the active client's database
+   * @throws Error if no database is open
+   */
+  private get_db(): SqlJsDatabase {
+    const db = this.db || get_database();
+    if (!db) {
+      throw new Error('Database not initialized. Call initialize_database first.');
+    }
+    return db;
+  }
+}
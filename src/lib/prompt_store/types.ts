@@ -0,0 +1,266 @@
+/**
+ * Prompt Store Types
+ *
+ * Defines the interface every prompt store must implement. Services resolve
+ * dynamic prompts through the active store, so prompts can live in the
+ * bundled sql.js database, in PostgreSQL or in a directory of files.
+ */
+
+import type {
+  Logger,
+  PromptLookupOptions,
+  PromptRecord,
+  PromptVersionInfo,
+  PromptVersionRecord,
+} from '../llm_api/types.js';
+
+// =============================================================================
+// Store Type Constants
+// =============================================================================
+
+/**
+ * Built-in prompt store types
+ * Also the values accepted by `prompt_store` in the [llm] config section.
+ */
+export const PROMPT_STORE_TYPES = {
+  SQLJS: 'sqljs',
+  POSTGRES: 'postgres',
+  DIRECTORY: 'directory',
+} as const;
+
+/**
+ * Prompt store type - a built-in type or the name of a custom store
+ */
+export type PromptStoreType = typeof PROMPT_STORE_TYPES[keyof typeof PROMPT_STORE_TYPES] | (string & {});
+
+// =============================================================================
+// Prompt Data Types
+// =============================================================================
+
+/**
+ * Prompt fields supplied when creating a prompt (id and timestamps are set by the store)
+ */
+export type PromptInput = Omit<PromptRecord, 'id' | 'created_at' | 'changed_at'>;
+
+/**
+ * Prompt fields to change in an update
+ */
+export type PromptUpdate = Partial<PromptInput>;
+
+/**
+ * Filter for listing prompts
+ * Only the fields that are set are filtered on; null matches prompts with the column empty.
+ */
+export interface PromptListFilter {
+  prompt_area?: string;
+  prompt_key?: string;
+  local_1?: string | null;
+  local_2?: string | null;
+  local_3?: string | null;
+  user_id?: string | null;
+  scope_id?: string | null;
+}
+
+/**
+ * Prompt columns matched by search_prompts
+ */
+export const PROMPT_SEARCH_COLUMNS = ['prompt_area', 'prompt_key', 'prompt_text', 'prompt_notes'] as const;
+
+/** Default maximum number of search_prompts results */
+export const DEFAULT_PROMPT_SEARCH_LIMIT = 50;
+
+/**
+ * Options for searching prompts
+ */
+export interface PromptSearchOptions {
+  /** Only search prompts in this area */
+  prompt_area?: string;
+
+  /** Maximum number of results (default: DEFAULT_PROMPT_SEARCH_LIMIT) */
+  limit?: number;
+}
+
+// =============================================================================
+// Prompt Store Interface
+// =============================================================================
+
+/**
+ * Interface that all prompt stores must implement
+ *
+ * Lookups follow the same fallback order in every store (see
+ * get_prompt_lookup_levels). Read-only stores throw from insert_prompt,
+ * update_prompt, delete_prompt and rollback_prompt.
+ */
+export interface PromptStore {
+  /** Store type (e.g., "sqljs", "postgres", "directory") */
+  readonly type: PromptStoreType;
+
+  /** Whether insert/update/delete are unsupported */
+  readonly read_only: boolean;
+
+  /**
+   * Prepare the store (connect, create tables, load files)
+   * @param logger - Logger instance
+   */
+  initialize(logger: Logger): Promise<void>;
+
+  /**
+   * Resolve a prompt by area and key with user, scope and locals fallback
+   * @param prompt_area - Area/category of the prompt
+   * @param prompt_key - Key identifier for the prompt
+   * @param options - Lookup options (null = the base prompt only)
+   * @param logger - Logger instance
+   * @returns The most specific matching prompt, or null if none matches
+   */
+  get_prompt(
+    prompt_area: string,
+    prompt_key: string,
+    options: PromptLookupOptions | null,
+    logger: Logger
+  ): Promise<PromptRecord | null>;
+
+  /**
+   * Get a prompt by its ID
+   * @param id - Prompt ID
+   * @param logger - Logger instance
+   * @returns The prompt record if found, null otherwise
+   */
+  get_prompt_by_id(id: string, logger: Logger): Promise<PromptRecord | null>;
+
+  /**
+   * List prompts ordered by area and key
+   * @param filter - Optional column filter (default: all prompts)
+   * @param logger - Logger instance
+   * @returns Matching prompt records
+   */
+  list_prompts(filter: PromptListFilter, logger: Logger): Promise<PromptRecord[]>;
+
+  /**
+   * Search prompts by area, key, text and notes (case-insensitive substring match)
+   * @param query - Text to search for
+   * @param options - Area restriction and result limit
+   * @param logger - Logger instance
+   * @returns Matching prompt records ordered by area and key
+   */
+  search_prompts(query: string, options: PromptSearchOptions, logger: Logger): Promise<PromptRecord[]>;
+
+  /**
+   * Create a prompt (recorded as version 1 when the store keeps history)
+   * @param prompt - Prompt data
+   * @param logger - Logger instance
+   * @param version_info - Optional author and note for the version
+   * @returns The inserted prompt record
+   */
+  insert_prompt(prompt: PromptInput, logger: Logger, version_info?: PromptVersionInfo): Promise<PromptRecord>;
+
+  /**
+   * Update a prompt (content changes are recorded as a new version when the store keeps history)
+   * @param id - Prompt ID
+   * @param updates - Fields to update
+   * @param logger - Logger instance
+   * @param version_info - Optional author and note for the version
+   * @returns The updated prompt record, or null if not found or nothing to update
+   */
+  update_prompt(
+    id: string,
+    updates: PromptUpdate,
+    logger: Logger,
+    version_info?: PromptVersionInfo
+  ): Promise<PromptRecord | null>;
+
+  /**
+   * Delete a prompt and its history
+   * @param id - Prompt ID
+   * @param logger - Logger instance
+   * @returns True if deleted, false if not found
+   */
+  delete_prompt(id: string, logger: Logger): Promise<boolean>;
+
+  /**
+   * Get the current version number of a prompt
+   * @param prompt_id - Prompt ID
+   * @param logger - Logger instance
+   * @returns Latest version number, or null if the store has no history for the prompt
+   */
+  get_current_prompt_version(prompt_id: string, logger: Logger): Promise<number | null>;
+
+  /**
+   * Get one version of a prompt
+   * @param prompt_id - Prompt ID
+   * @param version - Version number
+   * @param logger - Logger instance
+   * @returns The version record, or null if not found
+   */
+  get_prompt_version(prompt_id: string, version: number, logger: Logger): Promise<PromptVersionRecord | null>;
+
+  /**
+   * List every version of a prompt, newest first
+   * @param prompt_id - Prompt ID
+   * @param logger - Logger instance
+   * @returns Version records (empty if the store has no history for the prompt)
+   */
+  get_prompt_history(prompt_id: string, logger: Logger): Promise<PromptVersionRecord[]>;
+
+  /**
+   * Restore an earlier version of a prompt, recorded as a new version
+   * @param prompt_id - Prompt ID
+   * @param version - Version number to restore
+   * @param logger - Logger instance
+   * @param version_info - Optional author and note (default note: "Rollback to version N")
+   * @returns The updated prompt record, or null if the prompt or version does not exist
+   */
+  rollback_prompt(
+    prompt_id: string,
+    version: number,
+    logger: Logger,
+    version_info?: PromptVersionInfo
+  ): Promise<PromptRecord | null>;
+
+  /**
+   * Release the store's resources (connections it opened itself)
+   * @param logger - Logger instance
+   */
+  close(logger: Logger): Promise<void>;
+}
+
+// =============================================================================
+// Store Configuration
+// =============================================================================
+
+/**
+ * Minimal PostgreSQL client used by PostgresPromptStore
+ * Satisfied by pg.Pool / pg.Client and by pg-mem's pg adapter.
+ * Pools are detected by connect() so each write can run in a transaction on
+ * a checked-out connection; a single connection runs its transactions one at a time.
+ */
+export interface PostgresClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: Array<Record<string, unknown>> }>;
+  end?(): Promise<void>;
+  connect?(): Promise<PostgresPoolClient | void>;
+}
+
+/**
+ * Connection checked out of a pool (pg.PoolClient)
+ */
+export interface PostgresPoolClient {
+  query(text: string, values?: unknown[]): Promise<{ rows: Array<Record<string, unknown>> }>;
+  release(): void;
+}
+
+/**
+ * Configuration for creating a built-in prompt store
+ * (LLMApiConfig.prompt_store, or prompt_store / prompt_store_url / prompt_store_dir in [llm])
+ */
+export interface PromptStoreConfig {
+  /** Store type (default in the config file: "sqljs") */
+  type: PromptStoreType;
+
+  /** postgres: connection string (requires the optional "pg" package) */
+  connection_string?: string;
+
+  /** postgres: existing client or pool to use instead of connection_string (not closed by the store) */
+  client?: PostgresClient;
+
+  /** directory: path of the prompt files (relative to the app root) */
+  directory?: string;
+}
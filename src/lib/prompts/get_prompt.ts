@@ -3,11 +3,26 @@
  *
  * Functions to retrieve prompts from the hazo_prompts database table.
  * Searches by prompt_area, prompt_key, and optional local filters.
+ * Single-prompt lookups on the active client's database go through the
+ * prompt cache; list queries always read the database.
  */
 
 import type { Database as SqlJsDatabase } from 'sql.js';
-import type { Logger, PromptRecord } from '../llm_api/types.js';
+import type { Logger, PromptLookupOptions, PromptRecord } from '../llm_api/types.js';
+import {
+  PROMPT_SEARCH_COLUMNS,
+  DEFAULT_PROMPT_SEARCH_LIMIT,
+  type PromptListFilter,
+  type PromptSearchOptions,
+} from '../prompt_store/types.js';
 import { row_to_prompt_record } from '../database/utils.js';
+import { get_database } from '../database/init_database.js';
+import { get_prompt_cache, type PromptCache } from './prompt_cache.js';
+import {
+  get_prompt_lookup_levels,
+  has_prompt_lookup_filters,
+  PROMPT_LOOKUP_COLUMNS,
+} from './lookup_levels.js';
 
 // =============================================================================
 // Local Filter Options Type
@@ -27,7 +42,8 @@ export interface LocalFilterOptions {
 // =============================================================================
 
 /**
- * Retrieve a prompt from the database by prompt_area and prompt_key
+ * Retrieve the base prompt by prompt_area and prompt_key
+ * (the shared prompt with no local, user or scope filters)
  * @param db - Database instance
  * @param prompt_area - Area/category of the prompt
  * @param prompt_key - Key identifier for the prompt
@@ -46,9 +62,20 @@ export function get_prompt_by_area_and_key(
     SELECT * FROM hazo_prompts
     WHERE prompt_area = ? AND prompt_key = ?
     AND local_1 IS NULL AND local_2 IS NULL AND local_3 IS NULL
+    AND user_id IS NULL AND scope_id IS NULL
     LIMIT 1
   `;
 
+  const cache = get_cache_for(db);
+  const cached = cache?.get(prompt_area, prompt_key);
+  if (cached) {
+    logger.debug('Prompt served from cache', {
+      file: file_name,
+      data: { id: cached.id, prompt_area, prompt_key },
+    });
+    return cached;
+  }
+
   try {
     logger.debug('Retrieving prompt from database', {
       file: file_name,
@@ -81,6 +108,8 @@ export function get_prompt_by_area_and_key(
       },
     });
 
+    cache?.set(record);
+
     return record;
   } catch (error) {
     const error_message = error instanceof Error ? error.message : String(error);
@@ -94,101 +123,81 @@ export function get_prompt_by_area_and_key(
 }
 
 /**
- * Retrieve a prompt from the database by prompt_area, prompt_key, and optional local filters
- * Uses fallback logic: tries most specific match first, then progressively less specific
- *
- * Fallback order:
- * 1. Exact match with all specified local filters
- * 2. Match with local_1 and local_2 only (if local_3 was specified)
- * 3. Match with local_1 only (if local_2 was specified)
- * 4. Match with no local filters (base prompt)
+ * Retrieve a prompt from the database by prompt_area, prompt_key, and optional
+ * local, user and scope filters
+ * Uses fallback logic: tries most specific match first, then progressively less
+ * specific (user → scope → shared, each falling back across the locals; see
+ * get_prompt_lookup_levels). The last level (shared, no locals) is the base prompt.
  *
  * @param db - Database instance
  * @param prompt_area - Area/category of the prompt
  * @param prompt_key - Key identifier for the prompt
- * @param locals - Optional local filter values
+ * @param options - Optional local, user and scope filter values
  * @param logger - Logger instance
  * @returns The prompt record if found, null otherwise
+ *
+ * @example
+ * ```typescript
+ * // Acme's override for Alice, else Acme's override, else the shared prompt
+ * const prompt = get_prompt_by_area_key_and_locals(db, 'support', 'reply', {
+ *   user_id: 'alice',
+ *   scope_id: 'acme',
+ *   local_1: 'en',
+ * }, logger);
+ * ```
  */
 export function get_prompt_by_area_key_and_locals(
   db: SqlJsDatabase,
   prompt_area: string,
   prompt_key: string,
-  locals: LocalFilterOptions | null,
+  options: PromptLookupOptions | null,
   logger: Logger
 ): PromptRecord | null {
   const file_name = 'get_prompt.ts';
 
-  // If no locals provided, use the base function
-  if (!locals || (!locals.local_1 && !locals.local_2 && !locals.local_3)) {
+  // If no filters provided, use the base function
+  if (!has_prompt_lookup_filters(options)) {
     return get_prompt_by_area_and_key(db, prompt_area, prompt_key, logger);
   }
 
-  try {
-    logger.debug('Retrieving prompt with local filters', {
+  const cache = get_cache_for(db);
+  const cached = cache?.get(prompt_area, prompt_key, options);
+  if (cached) {
+    logger.debug('Prompt served from cache', {
       file: file_name,
-      data: { prompt_area, prompt_key, locals },
+      data: { id: cached.id, prompt_area, prompt_key, options },
     });
+    return cached;
+  }
 
-    // Build fallback queries from most specific to least specific
-    const fallback_queries: Array<{ sql: string; params: (string | null)[]; description: string }> = [];
-
-    // Level 1: All three locals specified
-    if (locals.local_1 && locals.local_2 && locals.local_3) {
-      fallback_queries.push({
-        sql: `SELECT * FROM hazo_prompts
-              WHERE prompt_area = ? AND prompt_key = ?
-              AND local_1 = ? AND local_2 = ? AND local_3 = ?
-              LIMIT 1`,
-        params: [prompt_area, prompt_key, locals.local_1, locals.local_2, locals.local_3],
-        description: 'all locals',
-      });
-    }
-
-    // Level 2: local_1 and local_2 specified
-    if (locals.local_1 && locals.local_2) {
-      fallback_queries.push({
-        sql: `SELECT * FROM hazo_prompts
-              WHERE prompt_area = ? AND prompt_key = ?
-              AND local_1 = ? AND local_2 = ? AND local_3 IS NULL
-              LIMIT 1`,
-        params: [prompt_area, prompt_key, locals.local_1, locals.local_2],
-        description: 'local_1 and local_2',
-      });
-    }
-
-    // Level 3: Only local_1 specified
-    if (locals.local_1) {
-      fallback_queries.push({
-        sql: `SELECT * FROM hazo_prompts
-              WHERE prompt_area = ? AND prompt_key = ?
-              AND local_1 = ? AND local_2 IS NULL AND local_3 IS NULL
-              LIMIT 1`,
-        params: [prompt_area, prompt_key, locals.local_1],
-        description: 'local_1 only',
-      });
-    }
-
-    // Level 4: Base prompt (no locals)
-    fallback_queries.push({
-      sql: `SELECT * FROM hazo_prompts
-            WHERE prompt_area = ? AND prompt_key = ?
-            AND local_1 IS NULL AND local_2 IS NULL AND local_3 IS NULL
-            LIMIT 1`,
-      params: [prompt_area, prompt_key],
-      description: 'base (no locals)',
+  try {
+    logger.debug('Retrieving prompt with lookup filters', {
+      file: file_name,
+      data: { prompt_area, prompt_key, options },
     });
 
-    // Try each query in order
-    for (const query of fallback_queries) {
-      const result = db.exec(query.sql, query.params);
+    // Try each level in order, from most specific to least specific
+    for (const level of get_prompt_lookup_levels(options)) {
+      const conditions = ['prompt_area = ?', 'prompt_key = ?'];
+      const params = [prompt_area, prompt_key];
+      for (const column of PROMPT_LOOKUP_COLUMNS) {
+        const value = level[column];
+        if (value === null) {
+          conditions.push(`${column} IS NULL`);
+        } else {
+          conditions.push(`${column} = ?`);
+          params.push(value);
+        }
+      }
+
+      const result = db.exec(`SELECT * FROM hazo_prompts WHERE ${conditions.join(' AND ')} LIMIT 1`, params);
 
       if (result.length > 0 && result[0].values.length > 0) {
         const row = result[0].values[0];
         const columns = result[0].columns;
         const record = row_to_prompt_record(row, columns);
 
-        logger.info('Prompt retrieved with local filters', {
+        logger.info('Prompt retrieved with lookup filters', {
           file: file_name,
           data: {
             id: record.id,
@@ -197,24 +206,28 @@ export function get_prompt_by_area_key_and_locals(
             local_1: record.local_1,
             local_2: record.local_2,
             local_3: record.local_3,
-            matched_level: query.description,
+            user_id: record.user_id,
+            scope_id: record.scope_id,
+            matched_level: level.description,
           },
         });
 
+        cache?.set(record, options);
+
         return record;
       }
     }
 
-    logger.warn('Prompt not found with local filters', {
+    logger.warn('Prompt not found with lookup filters', {
       file: file_name,
-      data: { prompt_area, prompt_key, locals },
+      data: { prompt_area, prompt_key, options },
     });
     return null;
   } catch (error) {
     const error_message = error instanceof Error ? error.message : String(error);
-    logger.error('Failed to retrieve prompt with local filters', {
+    logger.error('Failed to retrieve prompt with lookup filters', {
       file: file_name,
-      data: { error: error_message, prompt_area, prompt_key, locals },
+      data: { error: error_message, prompt_area, prompt_key, options },
     });
     throw error;
   }
@@ -332,6 +345,12 @@ export function get_prompt_by_id(
     WHERE id = ?
   `;
 
+  // Served from cache when the prompt was recently resolved by area/key
+  const cached = get_cache_for(db)?.get_by_id(id);
+  if (cached) {
+    return cached;
+  }
+
   try {
     logger.debug('Retrieving prompt by ID', {
       file: file_name,
@@ -427,3 +446,139 @@ export function get_all_prompts(
     throw error;
   }
 }
+
+/**
+ * List prompts matching a column filter
+ * @param db - Database instance
+ * @param filter - Columns to filter on (null matches an empty column; omitted fields are not filtered)
+ * @param logger - Logger instance
+ * @returns Matching prompt records ordered by area and key
+ *
+ * @example
+ * ```typescript
+ * // All of Acme's overrides in the support area
+ * const prompts = list_prompts(db, { prompt_area: 'support', scope_id: 'acme' }, logger);
+ * ```
+ */
+export function list_prompts(
+  db: SqlJsDatabase,
+  filter: PromptListFilter,
+  logger: Logger
+): PromptRecord[] {
+  const file_name = 'get_prompt.ts';
+
+  const conditions: string[] = [];
+  const params: string[] = [];
+  for (const column of ['prompt_area', 'prompt_key', ...PROMPT_LOOKUP_COLUMNS] as const) {
+    const value = filter[column];
+    if (value === undefined) {
+      continue;
+    }
+    if (value === null) {
+      conditions.push(`${column} IS NULL`);
+    } else {
+      conditions.push(`${column} = ?`);
+      params.push(value);
+    }
+  }
+
+  const where_clause = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+  const select_sql = `SELECT * FROM hazo_prompts ${where_clause} ORDER BY prompt_area, prompt_key`;
+
+  try {
+    const result = db.exec(select_sql, params);
+    const records = result.length > 0
+      ? result[0].values.map(row => row_to_prompt_record(row, result[0].columns))
+      : [];
+
+    logger.debug('Prompts listed', {
+      file: file_name,
+      data: { filter, count: records.length },
+    });
+
+    return records;
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to list prompts', {
+      file: file_name,
+      data: { error: error_message, filter },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Search prompts by area, key, text and notes
+ * Case-insensitive substring match.
+ * @param db - Database instance
+ * @param query - Text to search for
+ * @param options - Area restriction and result limit (default: 50)
+ * @param logger - Logger instance
+ * @returns Matching prompt records ordered by area and key
+ *
+ * @example
+ * ```typescript
+ * const matches = search_prompts(db, 'invoice', { prompt_area: 'docs' }, logger);
+ * ```
+ */
+export function search_prompts(
+  db: SqlJsDatabase,
+  query: string,
+  options: PromptSearchOptions,
+  logger: Logger
+): PromptRecord[] {
+  const file_name = 'get_prompt.ts';
+
+  // LIKE is case-insensitive for ASCII in SQLite; escape the wildcards in the query
+  const pattern = `%${query.toLowerCase().replace(/[\\%_]/g, match => `\\${match}`)}%`;
+  const conditions = ['(' + PROMPT_SEARCH_COLUMNS.map(column => `LOWER(${column}) LIKE ? ESCAPE '\\'`).join(' OR ') + ')'];
+  const params: Array<string | number> = PROMPT_SEARCH_COLUMNS.map(() => pattern);
+
+  if (options.prompt_area) {
+    conditions.push('prompt_area = ?');
+    params.push(options.prompt_area);
+  }
+  params.push(options.limit ?? DEFAULT_PROMPT_SEARCH_LIMIT);
+
+  const select_sql = `
+    SELECT * FROM hazo_prompts
+    WHERE ${conditions.join(' AND ')}
+    ORDER BY prompt_area, prompt_key
+    LIMIT ?
+  `;
+
+  try {
+    const result = db.exec(select_sql, params);
+    const records = result.length > 0
+      ? result[0].values.map(row => row_to_prompt_record(row, result[0].columns))
+      : [];
+
+    logger.debug('Prompts searched', {
+      file: file_name,
+      data: { query, prompt_area: options.prompt_area, count: records.length },
+    });
+
+    return records;
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to search prompts', {
+      file: file_name,
+      data: { error: error_message, query },
+    });
+    throw error;
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Get the prompt cache to use for reads from a database
+ * Only the active client's database is cached; other databases are read directly.
+ * @param db - Database instance being read
+ * @returns Prompt cache, or null to bypass the cache
+ */
+function get_cache_for(db: SqlJsDatabase): PromptCache | null {
+  return db === get_database() ? get_prompt_cache() : null;
+}
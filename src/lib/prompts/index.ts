@@ -11,15 +11,50 @@ export {
   get_prompts_by_area,
   get_prompt_by_id,
   get_all_prompts,
+  list_prompts,
+  search_prompts,
   type LocalFilterOptions,
 } from './get_prompt.js';
 
+export {
+  get_prompt_lookup_levels,
+  has_prompt_lookup_filters,
+  prompt_matches_lookup_level,
+  PROMPT_LOOKUP_COLUMNS,
+  type PromptLookupLevel,
+} from './lookup_levels.js';
+
+export {
+  get_prompt_history,
+  get_prompt_version,
+  get_current_prompt_version,
+  diff_prompt_versions,
+  build_prompt_version_diff,
+  rollback_prompt,
+} from './prompt_versions.js';
+
 export {
   substitute_variables,
   parse_prompt_variables,
   validate_variables,
 } from './substitute_variables.js';
 
+export {
+  render_template,
+  type TemplateOptions,
+  type TemplateRenderResult,
+} from './prompt_template.js';
+
+export {
+  expand_partials,
+  find_partial_references,
+  find_partial_dependents,
+  MAX_PARTIAL_DEPTH,
+  type PartialReference,
+  type PartialDependent,
+  type ExpandPartialsOptions,
+} from './prompt_partials.js';
+
 export {
   PromptCache,
   type PromptCacheConfig,
@@ -27,5 +62,6 @@ export {
   get_prompt_cache,
   configure_prompt_cache,
   clear_prompt_cache,
+  get_prompt_cache_stats,
 } from './prompt_cache.js';
 
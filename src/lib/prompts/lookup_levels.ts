@@ -0,0 +1,135 @@
+/**
+ * Prompt Lookup Levels
+ *
+ * The fallback order used to resolve a prompt by area/key with local, user
+ * and scope filters. Shared by every prompt store so sql.js, Postgres and
+ * file-based prompts resolve identically.
+ */
+
+import type { PromptLookupOptions, PromptRecord } from '../llm_api/types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Column values a prompt must have to match one lookup level
+ * null means the column must be empty.
+ */
+export interface PromptLookupLevel {
+  local_1: string | null;
+  local_2: string | null;
+  local_3: string | null;
+  user_id: string | null;
+  scope_id: string | null;
+  /** Human-readable level name for logging (e.g., "scope, local_1 only") */
+  description: string;
+}
+
+/**
+ * Filter columns of a lookup level, in the order stores compare them
+ */
+export const PROMPT_LOOKUP_COLUMNS = ['local_1', 'local_2', 'local_3', 'user_id', 'scope_id'] as const;
+
+// =============================================================================
+// Lookup Functions
+// =============================================================================
+
+/**
+ * Check whether any local, user or scope filter is set
+ * @param options - Lookup options
+ * @returns True if at least one filter has a value
+ */
+export function has_prompt_lookup_filters(options: PromptLookupOptions | null): options is PromptLookupOptions {
+  return !!options && !!(
+    options.local_1 || options.local_2 || options.local_3 || options.user_id || options.scope_id
+  );
+}
+
+/**
+ * Build the lookup levels in fallback order (owner levels × locals levels)
+ *
+ * Owner levels (outer loop):
+ * 1. user_id (with scope_id, or no scope when scope_id is not given)
+ * 2. scope_id only (prompts with no user_id)
+ * 3. Shared prompts (no user_id and no scope_id)
+ *
+ * Locals levels within each owner level:
+ * 1. All specified locals
+ * 2. local_1 and local_2 only (if local_2 was specified)
+ * 3. local_1 only (if local_1 was specified)
+ * 4. No locals
+ *
+ * @param options - Local, user and scope filter values (null = base prompt only)
+ * @returns Levels from most specific to least specific (last one is the base prompt)
+ *
+ * @example
+ * ```typescript
+ * for (const level of get_prompt_lookup_levels({ scope_id: 'acme', local_1: 'en' })) {
+ *   const match = records.find(record => prompt_matches_lookup_level(record, 'support', 'reply', level));
+ *   if (match) return match;
+ * }
+ * ```
+ */
+export function get_prompt_lookup_levels(options: PromptLookupOptions | null): PromptLookupLevel[] {
+  const { local_1, local_2, local_3, user_id, scope_id } = options || {};
+
+  // Owner levels: user (+scope) → scope → shared
+  const owner_levels: Array<{ user_id: string | null; scope_id: string | null; description: string }> = [];
+  if (user_id) {
+    owner_levels.push({ user_id, scope_id: scope_id || null, description: scope_id ? 'user+scope' : 'user' });
+  }
+  if (scope_id) {
+    owner_levels.push({ user_id: null, scope_id, description: 'scope' });
+  }
+  owner_levels.push({ user_id: null, scope_id: null, description: 'shared' });
+
+  // Locals levels: all locals → local_1 and local_2 → local_1 → none
+  const local_levels: Array<{ values: [string | null, string | null, string | null]; description: string }> = [];
+  if (local_1 && local_2 && local_3) {
+    local_levels.push({ values: [local_1, local_2, local_3], description: 'all locals' });
+  }
+  if (local_1 && local_2) {
+    local_levels.push({ values: [local_1, local_2, null], description: 'local_1 and local_2' });
+  }
+  if (local_1) {
+    local_levels.push({ values: [local_1, null, null], description: 'local_1 only' });
+  }
+  local_levels.push({ values: [null, null, null], description: 'no locals' });
+
+  const levels: PromptLookupLevel[] = [];
+  for (const owner of owner_levels) {
+    for (const locals of local_levels) {
+      levels.push({
+        local_1: locals.values[0],
+        local_2: locals.values[1],
+        local_3: locals.values[2],
+        user_id: owner.user_id,
+        scope_id: owner.scope_id,
+        description: `${owner.description}, ${locals.description}`,
+      });
+    }
+  }
+
+  return levels;
+}
+
+/**
+ * Check whether a prompt record matches a lookup level exactly
+ * Used by stores that filter records in memory.
+ * @param record - Prompt record
+ * @param prompt_area - Area/category being looked up
+ * @param prompt_key - Key being looked up
+ * @param level - Lookup level
+ * @returns True if area, key and every filter column match
+ */
+export function prompt_matches_lookup_level(
+  record: PromptRecord,
+  prompt_area: string,
+  prompt_key: string,
+  level: PromptLookupLevel
+): boolean {
+  return record.prompt_area === prompt_area
+    && record.prompt_key === prompt_key
+    && PROMPT_LOOKUP_COLUMNS.every(column => (record[column] || null) === level[column]);
+}
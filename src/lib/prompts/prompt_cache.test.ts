@@ -0,0 +1,94 @@
+/**
+ * Prompt Cache Tests
+ */
+
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { PromptCache } from './prompt_cache.js';
+import type { PromptRecord } from '../llm_api/types.js';
+
+/**
+ * Build a shared prompt record
+ */
+function prompt_record(prompt_key: string): PromptRecord {
+  return {
+    id: `id-${prompt_key}`,
+    prompt_area: 'docs',
+    prompt_key,
+    local_1: null,
+    local_2: null,
+    local_3: null,
+    user_id: null,
+    scope_id: null,
+    prompt_text: `Text for ${prompt_key}`,
+    prompt_variables: '[]',
+    prompt_notes: '',
+    next_prompt: null,
+    created_at: '2024-01-01T00:00:00.000Z',
+    changed_at: '2024-01-01T00:00:00.000Z',
+  };
+}
+
+describe('PromptCache', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('expires entries ttl_ms after they were cached, even when read often', () => {
+    vi.useFakeTimers();
+    const cache = new PromptCache({ ttl_ms: 100 });
+    cache.set(prompt_record('summary'));
+
+    vi.advanceTimersByTime(50);
+    expect(cache.get('docs', 'summary')).not.toBeNull();
+    vi.advanceTimersByTime(50);
+    expect(cache.get('docs', 'summary')).not.toBeNull();
+    vi.advanceTimersByTime(50);
+    expect(cache.get('docs', 'summary')).toBeNull();
+  });
+
+  it('evicts the least recently read entry when full', () => {
+    vi.useFakeTimers();
+    const cache = new PromptCache({ max_size: 2 });
+    cache.set(prompt_record('a'));
+    vi.advanceTimersByTime(10);
+    cache.set(prompt_record('b'));
+    vi.advanceTimersByTime(10);
+    cache.get('docs', 'a');
+    vi.advanceTimersByTime(10);
+    cache.set(prompt_record('c'));
+
+    expect(cache.get('docs', 'a')).not.toBeNull();
+    expect(cache.get('docs', 'b')).toBeNull();
+    expect(cache.get('docs', 'c')).not.toBeNull();
+  });
+
+  it('keeps areas, keys and filters containing ":" and "|" apart', () => {
+    const cache = new PromptCache();
+    cache.set({ ...prompt_record('b:c'), id: 'first', prompt_area: 'a' });
+    cache.set({ ...prompt_record('c'), id: 'second', prompt_area: 'a:b' });
+    cache.set({ ...prompt_record('x'), id: 'third' }, { local_1: 'en|gb' });
+    cache.set({ ...prompt_record('x'), id: 'fourth' }, { local_1: 'en', local_2: 'gb' });
+
+    expect(cache.get('a', 'b:c')?.id).toBe('first');
+    expect(cache.get('a:b', 'c')?.id).toBe('second');
+    expect(cache.get('docs', 'x', { local_1: 'en|gb' })?.id).toBe('third');
+    expect(cache.get('docs', 'x', { local_1: 'en', local_2: 'gb' })?.id).toBe('fourth');
+  });
+
+  it('invalidates every variant of an area/key, and areas, without touching look-alikes', () => {
+    const cache = new PromptCache();
+    cache.set(prompt_record('x'));
+    cache.set(prompt_record('x'), { user_id: 'u1' });
+    cache.set(prompt_record('x:y'));
+    cache.set({ ...prompt_record('z'), prompt_area: 'docs:old' });
+
+    cache.invalidate('docs', 'x');
+    expect(cache.get('docs', 'x')).toBeNull();
+    expect(cache.get('docs', 'x', { user_id: 'u1' })).toBeNull();
+    expect(cache.get('docs', 'x:y')).not.toBeNull();
+
+    cache.invalidate_area('docs');
+    expect(cache.get('docs', 'x:y')).toBeNull();
+    expect(cache.get('docs:old', 'z')).not.toBeNull();
+  });
+});
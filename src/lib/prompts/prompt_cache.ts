@@ -2,10 +2,13 @@
  * Prompt Cache Module
  *
  * Simple LRU cache for frequently accessed prompts.
- * Reduces database queries for repeated prompt lookups.
+ * Reduces database queries for repeated prompt lookups. Entries are keyed by
+ * the lookup (area, key, locals, user and scope) that resolved them, and are
+ * invalidated by insert_prompt, update_prompt and delete_prompt.
  */
 
-import type { PromptRecord } from '../llm_api/types.js';
+import type { PromptLookupOptions, PromptRecord } from '../llm_api/types.js';
+import { get_scoped_state } from '../llm_api/client_scope.js';
 
 // =============================================================================
 // Cache Configuration
@@ -26,7 +29,10 @@ const DEFAULT_MAX_CACHE_SIZE = 100;
  */
 interface CacheEntry {
   prompt: PromptRecord;
-  timestamp: number;
+  /** When the prompt was cached (TTL starts here and is not extended by reads) */
+  cached_at: number;
+  /** When the entry was last read or written (used for LRU eviction only) */
+  last_access: number;
   access_count: number;
 }
 
@@ -95,17 +101,27 @@ export class PromptCache {
   }
 
   /**
-   * Generate cache key from area and key
+   * Generate cache key from area, key and lookup options
+   * A JSON array, so areas, keys and filter values containing ":" or "|" cannot collide.
    */
-  private make_key(area: string, key: string): string {
-    return `${area}:${key}`;
+  private make_key(area: string, key: string, options?: PromptLookupOptions): string {
+    const filters = [options?.local_1, options?.local_2, options?.local_3, options?.user_id, options?.scope_id];
+    return JSON.stringify([area, key, ...filters.map(value => value || '')]);
+  }
+
+  /**
+   * Read the area and key back from a cache key
+   */
+  private parse_key(cache_key: string): { area: string; key: string } {
+    const [area, key] = JSON.parse(cache_key) as string[];
+    return { area, key };
   }
 
   /**
    * Check if an entry is expired
    */
   private is_expired(entry: CacheEntry): boolean {
-    return Date.now() - entry.timestamp > this.ttl_ms;
+    return Date.now() - entry.cached_at > this.ttl_ms;
   }
 
   /**
@@ -116,13 +132,13 @@ export class PromptCache {
       return;
     }
 
-    // Find entry with oldest timestamp
+    // Find least recently accessed entry
     let oldest_key: string | null = null;
     let oldest_time = Infinity;
 
     for (const [key, entry] of this.cache.entries()) {
-      if (entry.timestamp < oldest_time) {
-        oldest_time = entry.timestamp;
+      if (entry.last_access < oldest_time) {
+        oldest_time = entry.last_access;
         oldest_key = key;
       }
     }
@@ -137,14 +153,15 @@ export class PromptCache {
    *
    * @param area - Prompt area
    * @param key - Prompt key
+   * @param options - Lookup options (locals, user_id, scope_id) the prompt was resolved with
    * @returns Cached prompt or null if not found/expired
    */
-  get(area: string, key: string): PromptRecord | null {
+  get(area: string, key: string, options?: PromptLookupOptions): PromptRecord | null {
     if (!this.enabled) {
       return null;
     }
 
-    const cache_key = this.make_key(area, key);
+    const cache_key = this.make_key(area, key, options);
     const entry = this.cache.get(cache_key);
 
     if (!entry) {
@@ -160,7 +177,7 @@ export class PromptCache {
 
     // Update access metadata
     entry.access_count++;
-    entry.timestamp = Date.now();
+    entry.last_access = Date.now();
     this.hits++;
 
     return entry.prompt;
@@ -186,7 +203,7 @@ export class PromptCache {
           return null;
         }
         entry.access_count++;
-        entry.timestamp = Date.now();
+        entry.last_access = Date.now();
         this.hits++;
         return entry.prompt;
       }
@@ -200,35 +217,42 @@ export class PromptCache {
    * Add a prompt to the cache
    *
    * @param prompt - Prompt record to cache
+   * @param options - Lookup options that resolved the prompt (default: the prompt's own locals, user_id and scope_id)
    */
-  set(prompt: PromptRecord): void {
+  set(prompt: PromptRecord, options: PromptLookupOptions = prompt): void {
     if (!this.enabled) {
       return;
     }
 
     this.evict_if_needed();
 
-    const cache_key = this.make_key(prompt.prompt_area, prompt.prompt_key);
+    const cache_key = this.make_key(prompt.prompt_area, prompt.prompt_key, options);
+    const now = Date.now();
     this.cache.set(cache_key, {
       prompt,
-      timestamp: Date.now(),
+      cached_at: now,
+      last_access: now,
       access_count: 1,
     });
   }
 
   /**
-   * Remove a prompt from the cache
+   * Remove every cached lookup of an area/key (all locals, user and scope variants)
    *
    * @param area - Prompt area
    * @param key - Prompt key
    */
   invalidate(area: string, key: string): void {
-    const cache_key = this.make_key(area, key);
-    this.cache.delete(cache_key);
+    for (const cache_key of this.cache.keys()) {
+      const parsed = this.parse_key(cache_key);
+      if (parsed.area === area && parsed.key === key) {
+        this.cache.delete(cache_key);
+      }
+    }
   }
 
   /**
-   * Remove a prompt by ID from the cache
+   * Remove a prompt by ID from the cache (every lookup that resolved to it)
    *
    * @param id - Prompt ID (UUID)
    */
@@ -236,7 +260,6 @@ export class PromptCache {
     for (const [key, entry] of this.cache.entries()) {
       if (entry.prompt.id === id) {
         this.cache.delete(key);
-        break;
       }
     }
   }
@@ -247,10 +270,9 @@ export class PromptCache {
    * @param area - Prompt area to invalidate
    */
   invalidate_area(area: string): void {
-    const prefix = `${area}:`;
-    for (const key of this.cache.keys()) {
-      if (key.startsWith(prefix)) {
-        this.cache.delete(key);
+    for (const cache_key of this.cache.keys()) {
+      if (this.parse_key(cache_key).area === area) {
+        this.cache.delete(cache_key);
       }
     }
   }
@@ -319,22 +341,40 @@ export class PromptCache {
 // =============================================================================
 
 /**
- * Global prompt cache instance
+ * Prompt cache state of one client (see client_scope.ts)
  * Can be configured via configure_prompt_cache()
  */
-let global_cache: PromptCache | null = null;
+interface PromptCacheState {
+  cache: PromptCache | null;
+}
+
+const PROMPT_CACHE_STATE_KEY = Symbol('prompt_cache');
+
+/**
+ * Cache state of the default instance (top-level functions)
+ */
+const default_cache_state: PromptCacheState = { cache: null };
+
+/**
+ * Get the cache state of the active client
+ * @returns Cache state of the active client scope, or the default state
+ */
+function get_cache_state(): PromptCacheState {
+  return get_scoped_state(PROMPT_CACHE_STATE_KEY, default_cache_state, () => ({ cache: null }));
+}
 
 /**
- * Get the global prompt cache instance
+ * Get the global prompt cache instance (per client for isolated clients)
  * Creates one with default settings if not configured
  *
  * @returns Global prompt cache
  */
 export function get_prompt_cache(): PromptCache {
-  if (!global_cache) {
-    global_cache = new PromptCache();
+  const state = get_cache_state();
+  if (!state.cache) {
+    state.cache = new PromptCache();
   }
-  return global_cache;
+  return state.cache;
 }
 
 /**
@@ -343,14 +383,27 @@ export function get_prompt_cache(): PromptCache {
  * @param config - Cache configuration options
  */
 export function configure_prompt_cache(config: PromptCacheConfig): void {
-  global_cache = new PromptCache(config);
+  get_cache_state().cache = new PromptCache(config);
 }
 
 /**
  * Clear the global prompt cache
  */
 export function clear_prompt_cache(): void {
-  if (global_cache) {
-    global_cache.clear();
-  }
+  get_cache_state().cache?.clear();
+}
+
+/**
+ * Get statistics of the global prompt cache (per client for isolated clients)
+ *
+ * @returns Hits, misses, size and hit rate
+ *
+ * @example
+ * ```typescript
+ * const stats = get_prompt_cache_stats();
+ * console.log(`Prompt cache hit rate: ${(stats.hit_rate * 100).toFixed(1)}%`);
+ * ```
+ */
+export function get_prompt_cache_stats(): CacheStats {
+  return get_prompt_cache().get_stats();
 }
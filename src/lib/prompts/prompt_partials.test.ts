@@ -0,0 +1,97 @@
+/**
+ * Prompt Partials Tests
+ *
+ * Expansion, cycle and depth limits, and dependents against a pg-mem
+ * PostgreSQL prompt store.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import { newDb } from 'pg-mem';
+import { expand_partials, find_partial_dependents } from './prompt_partials.js';
+import { PostgresPromptStore } from '../prompt_store/postgres_prompt_store.js';
+import type { PostgresClient, PromptInput } from '../prompt_store/types.js';
+import { silent_logger } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+/**
+ * Build a prompt input with empty optional fields
+ */
+function prompt_input(prompt_area: string, prompt_key: string, prompt_text: string): PromptInput {
+  return {
+    prompt_area,
+    prompt_key,
+    local_1: null,
+    local_2: null,
+    local_3: null,
+    user_id: null,
+    scope_id: null,
+    prompt_text,
+    prompt_variables: '[]',
+    prompt_notes: '',
+    next_prompt: null,
+  };
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('prompt partials', () => {
+  let store: PostgresPromptStore;
+
+  beforeEach(async () => {
+    const { Pool } = newDb().adapters.createPg();
+    store = new PostgresPromptStore({ client: new Pool() as PostgresClient });
+    await store.initialize(logger);
+  });
+
+  it('expands nested partials and leaves variables for substitution', async () => {
+    await store.insert_prompt(prompt_input('shared', 'persona', 'You are {{name}}. {{> shared/tone}}'), logger);
+    await store.insert_prompt(prompt_input('shared', 'tone', 'Be brief.'), logger);
+
+    const text = await expand_partials('{{> shared/persona}}\nAnswer {{question}}', store, {}, logger);
+
+    expect(text).toBe('You are {{name}}. Be brief.\nAnswer {{question}}');
+  });
+
+  it('reports cycles, including a prompt that includes itself', async () => {
+    await store.insert_prompt(prompt_input('shared', 'a', 'A {{> shared/b}}'), logger);
+    await store.insert_prompt(prompt_input('shared', 'b', 'B {{> shared/a}}'), logger);
+
+    await expect(expand_partials('{{> shared/a}}', store, {}, logger))
+      .rejects.toThrow('Partial cycle: shared/a > shared/b > shared/a');
+    await expect(expand_partials('B {{> shared/a}}', store, {}, logger, {
+      source: { prompt_area: 'shared', prompt_key: 'b' },
+    })).rejects.toThrow('Partial cycle: shared/b > shared/a > shared/b');
+  });
+
+  it('stops at the nesting limit and reports missing partials', async () => {
+    await store.insert_prompt(prompt_input('chain', 'p1', '{{> chain/p2}}'), logger);
+    await store.insert_prompt(prompt_input('chain', 'p2', '{{> chain/p3}}'), logger);
+    await store.insert_prompt(prompt_input('chain', 'p3', 'end'), logger);
+
+    expect(await expand_partials('{{> chain/p1}}', store, {}, logger, { max_depth: 3 })).toBe('end');
+    await expect(expand_partials('{{> chain/p1}}', store, {}, logger, { max_depth: 2 }))
+      .rejects.toThrow('Partial nesting limit (2) exceeded: chain/p1 > chain/p2 > chain/p3');
+    await expect(expand_partials('{{> chain/missing}}', store, {}, logger))
+      .rejects.toThrow('Partial not found: {{> chain/missing}}');
+  });
+
+  it('lists direct and indirect dependents of a partial', async () => {
+    await store.insert_prompt(prompt_input('shared', 'tone', 'Be brief.'), logger);
+    await store.insert_prompt(prompt_input('shared', 'persona', 'Helper. {{> shared/tone}}'), logger);
+    await store.insert_prompt(prompt_input('support', 'reply', '{{> shared/persona}} Reply.'), logger);
+
+    const dependents = await find_partial_dependents(store, 'shared', 'tone', logger);
+
+    expect(dependents.map(({ prompt, via }) => [`${prompt.prompt_area}/${prompt.prompt_key}`, via])).toEqual([
+      ['shared/persona', []],
+      ['support/reply', ['shared/persona']],
+    ]);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Prompt Partials Module
+ *
+ * Expands {{> area/key}} includes with the text of other prompts, so shared
+ * blocks (persona, output format, safety instructions) are stored once:
+ *
+ * ```text
+ * {{> shared/persona}}
+ * Summarize the ticket below.
+ * {{> shared/json_output}}
+ * ```
+ *
+ * Partials are looked up with the same user/scope/locals fallback as the
+ * prompt that includes them, may include other partials, and are expanded
+ * before variables are substituted (so they can use the caller's variables).
+ */
+
+import type { Logger, PromptLookupOptions, PromptRecord } from '../llm_api/types.js';
+import type { PromptStore } from '../prompt_store/types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Prompt referenced by a {{> area/key}} include
+ */
+export interface PartialReference {
+  prompt_area: string;
+  prompt_key: string;
+}
+
+/**
+ * Options for expand_partials
+ */
+export interface ExpandPartialsOptions {
+  /** Prompt whose text is expanded (lets a prompt including itself be reported as a cycle) */
+  source?: PartialReference;
+
+  /** Maximum nesting of partials (default: MAX_PARTIAL_DEPTH) */
+  max_depth?: number;
+}
+
+/**
+ * Prompt that includes a partial, directly or through other partials
+ */
+export interface PartialDependent {
+  /** The dependent prompt */
+  prompt: PromptRecord;
+
+  /**
+   * Partials between the prompt and the requested partial, outermost first
+   * (empty when the prompt includes the partial directly)
+   */
+  via: string[];
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default maximum nesting of partials */
+export const MAX_PARTIAL_DEPTH = 10;
+
+const PARTIAL_PATTERN = /\{\{>\s*([^\s{}/]+)\/([^\s{}]+)\s*\}\}/g;
+
+// =============================================================================
+// Expansion
+// =============================================================================
+
+/**
+ * Find the partials a prompt text includes
+ *
+ * @param prompt_text - Prompt text
+ * @returns Referenced partials, each once, in order of appearance
+ *
+ * @example
+ * ```typescript
+ * find_partial_references('{{> shared/persona}} Answer {{question}}');
+ * // [{ prompt_area: 'shared', prompt_key: 'persona' }]
+ * ```
+ */
+export function find_partial_references(prompt_text: string): PartialReference[] {
+  const references = new Map<string, PartialReference>();
+  for (const match of prompt_text.matchAll(PARTIAL_PATTERN)) {
+    references.set(`${match[1]}/${match[2]}`, { prompt_area: match[1], prompt_key: match[2] });
+  }
+  return [...references.values()];
+}
+
+/**
+ * Replace every {{> area/key}} include with the partial's text (recursively)
+ *
+ * @param prompt_text - Prompt text
+ * @param store - Prompt store the partials are read from
+ * @param lookup_options - Locals, user and scope used to look up the partials
+ * @param logger - Logger instance
+ * @param options - Source prompt and depth limit
+ * @returns Text with all partials expanded
+ * @throws Error if a partial is not found, partials include each other in a
+ *         cycle, or they are nested deeper than max_depth
+ *
+ * @example
+ * ```typescript
+ * const text = await expand_partials(prompt.prompt_text, store, { scope_id: 'acme' }, logger, {
+ *   source: { prompt_area: prompt.prompt_area, prompt_key: prompt.prompt_key },
+ * });
+ * ```
+ */
+export async function expand_partials(
+  prompt_text: string,
+  store: PromptStore,
+  lookup_options: PromptLookupOptions,
+  logger: Logger,
+  options: ExpandPartialsOptions = {}
+): Promise<string> {
+  const max_depth = options.max_depth ?? MAX_PARTIAL_DEPTH;
+  const stack = options.source ? [to_partial_name(options.source)] : [];
+
+  const expand = async (text: string, path: string[]): Promise<string> => {
+    let result = '';
+    let position = 0;
+
+    for (const match of text.matchAll(PARTIAL_PATTERN)) {
+      const name = `${match[1]}/${match[2]}`;
+      if (path.includes(name)) {
+        throw new Error(`Partial cycle: ${[...path, name].join(' > ')}`);
+      }
+      if (path.length - stack.length >= max_depth) {
+        throw new Error(`Partial nesting limit (${max_depth}) exceeded: ${[...path, name].join(' > ')}`);
+      }
+
+      const partial = await store.get_prompt(match[1], match[2], lookup_options, logger);
+      if (!partial) {
+        throw new Error(`Partial not found: ${match[0]}${path.length > 0 ? ` (included by ${path[path.length - 1]})` : ''}`);
+      }
+
+      const index = match.index ?? 0;
+      result += text.slice(position, index) + await expand(partial.prompt_text, [...path, name]);
+      position = index + match[0].length;
+    }
+
+    return result + text.slice(position);
+  };
+
+  if (!prompt_text.includes('{{>')) {
+    return prompt_text;
+  }
+
+  const expanded = await expand(prompt_text, stack);
+  logger.debug('Partials expanded', {
+    file: 'prompt_partials.ts',
+    data: { partials: find_partial_references(prompt_text).map(to_partial_name) },
+  });
+  return expanded;
+}
+
+// =============================================================================
+// Dependents
+// =============================================================================
+
+/**
+ * List the prompts that include a partial, directly or through other partials
+ * Use it to check which prompts an edit to a shared block affects. Includes
+ * are matched by area and key, so every variant of a dependent prompt is listed.
+ *
+ * @param store - Prompt store to search
+ * @param prompt_area - Area of the partial
+ * @param prompt_key - Key of the partial
+ * @param logger - Logger instance
+ * @returns Dependent prompts, direct includes first
+ *
+ * @example
+ * ```typescript
+ * const dependents = await find_partial_dependents(store, 'shared', 'persona', logger);
+ * for (const { prompt, via } of dependents) {
+ *   console.log(`${prompt.prompt_area}/${prompt.prompt_key}`, via.length > 0 ? `via ${via.join(' > ')}` : '');
+ * }
+ * ```
+ */
+export async function find_partial_dependents(
+  store: PromptStore,
+  prompt_area: string,
+  prompt_key: string,
+  logger: Logger
+): Promise<PartialDependent[]> {
+  const prompts = await store.list_prompts({}, logger);
+
+  // Partial name -> prompts that include it
+  const includers = new Map<string, PromptRecord[]>();
+  for (const prompt of prompts) {
+    for (const reference of find_partial_references(prompt.prompt_text)) {
+      const name = to_partial_name(reference);
+      includers.set(name, [...(includers.get(name) || []), prompt]);
+    }
+  }
+
+  const target = to_partial_name({ prompt_area, prompt_key });
+  const dependents: PartialDependent[] = [];
+  const seen_names = new Set([target]);
+  const queue: Array<{ name: string; via: string[] }> = [{ name: target, via: [] }];
+
+  // Breadth first, so each prompt is reported with its shortest include path
+  for (let next = queue.shift(); next; next = queue.shift()) {
+    for (const prompt of includers.get(next.name) || []) {
+      const name = to_partial_name(prompt);
+      if (name === target || dependents.some(item => item.prompt.id === prompt.id)) {
+        continue;
+      }
+      dependents.push({ prompt, via: next.via });
+      if (!seen_names.has(name)) {
+        seen_names.add(name);
+        queue.push({ name, via: [name, ...next.via] });
+      }
+    }
+  }
+
+  return dependents;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Name used in {{> area/key}} includes
+ */
+function to_partial_name(reference: PartialReference): string {
+  return `${reference.prompt_area}/${reference.prompt_key}`;
+}
@@ -0,0 +1,91 @@
+/**
+ * Prompt Template Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { render_template } from './prompt_template.js';
+import { substitute_variables, validate_variables } from './substitute_variables.js';
+import { silent_logger } from '../testing/test_setup.js';
+
+describe('render_template', () => {
+  it('renders variables, nested paths, filters, conditionals and loops', () => {
+    const template = [
+      'Hello {{customer.name | default:"there" | upper}},',
+      '{{#if orders}}',
+      '{{#each orders}}',
+      '{{@index}}. {{title | truncate:5}}',
+      '{{/each}}',
+      '{{else}}',
+      'No orders.',
+      '{{/if}}',
+    ].join('\n');
+
+    const { text, missing_variables } = render_template(template, [
+      { customer: { name: 'Ann' }, orders: [{ title: 'Notebook' }, { title: 'Pen' }] },
+    ]);
+
+    expect(text).toBe('Hello ANN,\n0. Noteb...\n1. Pen\n');
+    expect(missing_variables).toEqual([]);
+  });
+
+  it('accepts hyphenated variable names', () => {
+    expect(render_template('{{first-name}} {{user.last-name}}', [{ 'first-name': 'Ann', user: { 'last-name': 'Lee' } }]).text)
+      .toBe('Ann Lee');
+  });
+
+  it('keeps tags that do not parse as literal text', () => {
+    const variables = [{ a: 'x', items: [1] }];
+
+    expect(render_template('{{a | b}}', variables).text).toBe('{{a | b}}');
+    expect(render_template('{{a | truncate:"x"}}', variables).text).toBe('{{a | truncate:"x"}}');
+    expect(render_template('{{#if a}} open', variables).text).toBe('{{#if a}} open');
+    expect(render_template('close {{/each}} {{else}}', variables).text).toBe('close {{/each}} {{else}}');
+    expect(render_template('{{#each}}', variables).text).toBe('{{#each}}');
+  });
+
+  it('keeps {{this}} and {{@index}} outside a loop as literal text', () => {
+    const result = render_template('{{this}} {{@index}}', [{ secret: 'value' }]);
+
+    expect(result.text).toBe('{{this}} {{@index}}');
+    expect(result.missing_variables).toEqual([]);
+  });
+
+  it('reports missing output variables and leaves their tags', () => {
+    const result = render_template('Hi {{name}}', [{}]);
+
+    expect(result.text).toBe('Hi {{name}}');
+    expect(result.missing_variables).toEqual(['name']);
+  });
+
+  it('treats missing block variables as false and checks only rendered branches in strict mode', () => {
+    expect(render_template('{{#if vip}}VIP{{else}}Regular{{/if}}', [{}], { strict: true }).text).toBe('Regular');
+    expect(render_template('{{#each items}}{{name}}{{else}}none{{/each}}', [{}], { strict: true }).text).toBe('none');
+    expect(render_template('{{#if vip}}{{discount}}{{else}}none{{/if}}', [{ vip: false }], { strict: true }))
+      .toMatchObject({ text: 'none', missing_variables: [] });
+    expect(() => render_template('{{#if vip}}{{discount}}{{else}}none{{/if}}', [{ vip: true }], { strict: true }))
+      .toThrow('Missing prompt variables: discount');
+    expect(() => render_template('{{#each items}}{{name}}{{/each}}', [{ items: [{}] }], { strict: true }))
+      .toThrow('Missing prompt variables: name');
+  });
+});
+
+describe('substitute_variables', () => {
+  it('returns the text unchanged without variables', () => {
+    const text = 'Return {"a": {{b}}} and {{#if x}}';
+
+    expect(substitute_variables(text, undefined, silent_logger)).toBe(text);
+    expect(substitute_variables(text, [], silent_logger)).toBe(text);
+  });
+
+  it('still reports missing variables without variables in strict mode', () => {
+    expect(() => substitute_variables('Hi {{name}}', [], silent_logger, { strict: true }))
+      .toThrow('Missing prompt variables: name');
+  });
+});
+
+describe('validate_variables', () => {
+  it('lists missing variables without throwing on unparsable tags', () => {
+    expect(validate_variables('{{a | nope}} {{b}} {{#if c}}', [{}], silent_logger))
+      .toEqual({ valid: false, missing_variables: ['b'] });
+  });
+});
@@ -0,0 +1,603 @@
+/**
+ * Prompt Template Module
+ *
+ * Renders prompt templates with variables, conditionals, loops and filters:
+ *
+ * ```text
+ * Hello {{customer.name | default:"there"}},
+ * {{#if orders}}
+ * Your orders:
+ * {{#each orders}}
+ * {{@index}}. {{title | truncate:40}} ({{placed_at | date}})
+ * {{/each}}
+ * {{else}}
+ * You have no orders yet.
+ * {{/if}}
+ * ```
+ *
+ * Supported tags:
+ * - {{path}}: a variable; dots access nested objects and array items (customer.address.city, items.0)
+ * - {{path | filter:arg | ...}}: apply filters (default, upper, lower, json, truncate, date, join)
+ * - {{#if path}} ... {{else}} ... {{/if}}: render when the value is truthy (not missing, null, false, '', 0 or [])
+ * - {{#each path}} ... {{else}} ... {{/each}}: repeat for every array item (or object value);
+ *   inside the loop {{this}}, {{@index}}, {{@key}}, {{@first}}, {{@last}} and the item's fields are available
+ *
+ * Block tags on a line of their own do not leave an empty line. Anything else in
+ * double braces is kept as literal text, and so are tags that do not parse (an
+ * unknown filter, a bad filter argument, an unmatched block tag, or {{this}}
+ * and {{@index}} outside a loop), so existing prompts render as before.
+ */
+
+import type { PromptVariables, PromptVariableValue } from '../llm_api/types.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Options for render_template
+ */
+export interface TemplateOptions {
+  /**
+   * Throw when a variable rendered by the template is missing (and has no default filter)
+   * Missing {{#if}}/{{#each}} variables count as false, and branches that are not rendered are not checked.
+   * Default: false (the tag is left in the text and reported in missing_variables)
+   */
+  strict?: boolean;
+}
+
+/**
+ * Result of render_template
+ */
+export interface TemplateRenderResult {
+  /** Rendered text */
+  text: string;
+
+  /** Variables used in the template but not provided (e.g. ["customer.address.city"]) */
+  missing_variables: string[];
+
+  /** Top-level variables the template used */
+  used_variables: string[];
+}
+
+/**
+ * Value available while rendering (a variable, or a value produced by a filter)
+ */
+type TemplateValue = PromptVariableValue | undefined;
+
+type TemplateFilter = (value: TemplateValue, arg: string | number | undefined) => TemplateValue;
+
+interface FilterCall {
+  name: string;
+  arg?: string | number;
+}
+
+type TemplateNode =
+  | { type: 'text'; text: string }
+  | { type: 'output'; path: string; filters: FilterCall[]; raw: string }
+  | { type: 'if'; path: string; then_nodes: TemplateNode[]; else_nodes: TemplateNode[] }
+  | { type: 'each'; path: string; body_nodes: TemplateNode[]; else_nodes: TemplateNode[] };
+
+type BlockNode = TemplateNode & { type: 'if' | 'each' };
+
+type TemplateToken =
+  | { type: 'text'; text: string }
+  | { type: 'output'; path: string; filters: FilterCall[]; raw: string }
+  | { type: 'open'; block: 'if' | 'each'; path: string; raw: string }
+  | { type: 'else'; raw: string }
+  | { type: 'close'; block: 'if' | 'each'; raw: string };
+
+/**
+ * One level of the render context (the variables, or the current #each item)
+ */
+interface TemplateScope {
+  value: TemplateValue;
+  loop?: { index: number; key: string | number; first: boolean; last: boolean };
+}
+
+interface RenderState {
+  missing: Set<string>;
+  used: Set<string>;
+}
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const TAG_PATTERN = /\{\{([^{}]*)\}\}/g;
+
+const PATH_PATTERN = /^(?:this|@index|@key|@first|@last|[A-Za-z_][A-Za-z0-9_-]*)(?:\.[A-Za-z0-9_-]+)*$/;
+
+/** Paths that only have a value inside {{#each}} */
+const LOOP_PATH_PATTERN = /^(?:this|@)/;
+
+const FILTER_PATTERN = /^([a-z_]+)(?:\s*:\s*("(?:[^"\\]|\\.)*"|'[^']*'|-?\d+(?:\.\d+)?))?$/;
+
+/** Default format of the date filter */
+const DEFAULT_DATE_FORMAT = 'YYYY-MM-DD';
+
+/**
+ * Filters available in templates
+ */
+const FILTERS: Record<string, TemplateFilter> = {
+  /** Use the argument when the value is missing, null or '' */
+  default: (value, arg) => (value === undefined || value === null || value === '' ? (arg ?? '') : value),
+
+  upper: value => (value === undefined ? value : to_text(value).toUpperCase()),
+
+  lower: value => (value === undefined ? value : to_text(value).toLowerCase()),
+
+  /** JSON text; the argument is the indentation (e.g. json:2) */
+  json: (value, arg) => (value === undefined ? value : JSON.stringify(value, null, typeof arg === 'number' ? arg : undefined)),
+
+  /** Shorten to at most arg characters, adding "..." when cut */
+  truncate: (value, arg) => {
+    if (typeof arg !== 'number' || !Number.isInteger(arg) || arg < 0) {
+      throw new Error('truncate needs a whole number of characters (e.g. truncate:100)');
+    }
+    if (value === undefined) {
+      return value;
+    }
+    const text = to_text(value);
+    return text.length > arg ? `${text.slice(0, arg)}...` : text;
+  },
+
+  /** Format a date string or timestamp in UTC (tokens YYYY, MM, DD, HH, mm, ss) */
+  date: (value, arg) => {
+    if (value === undefined || value === null || value === '') {
+      return value;
+    }
+    const date = new Date(typeof value === 'number' ? value : to_text(value));
+    if (Number.isNaN(date.getTime())) {
+      return value;
+    }
+    return format_date(date, typeof arg === 'string' ? arg : DEFAULT_DATE_FORMAT);
+  },
+
+  /** Join array items with the argument (default ", ") */
+  join: (value, arg) => (Array.isArray(value)
+    ? value.map(item => to_text(item)).join(typeof arg === 'string' ? arg : ', ')
+    : value),
+};
+
+// =============================================================================
+// Render
+// =============================================================================
+
+/**
+ * Render a prompt template
+ *
+ * @param template - Template text
+ * @param prompt_variables - Variables (the objects are merged, later ones win)
+ * @param options - Template options (strict)
+ * @returns Rendered text, missing and used variables
+ * @throws Error if a variable is missing in strict mode
+ *
+ * @example
+ * ```typescript
+ * const { text } = render_template(
+ *   'Dear {{customer.name | default:"customer"}}{{#if vip}} (VIP){{/if}}',
+ *   [{ customer: { name: 'Ann' }, vip: true }]
+ * );
+ * // "Dear Ann (VIP)"
+ * ```
+ */
+export function render_template(
+  template: string,
+  prompt_variables: PromptVariables | undefined,
+  options: TemplateOptions = {}
+): TemplateRenderResult {
+  const nodes = parse_template(template);
+
+  const variables: Record<string, PromptVariableValue> = {};
+  for (const var_obj of prompt_variables || []) {
+    Object.assign(variables, var_obj);
+  }
+
+  const state: RenderState = { missing: new Set(), used: new Set() };
+  const text = render_nodes(nodes, [{ value: variables }], state);
+  const missing_variables = [...state.missing];
+
+  if (options.strict && missing_variables.length > 0) {
+    throw new Error(`Missing prompt variables: ${missing_variables.join(', ')}`);
+  }
+
+  return { text, missing_variables, used_variables: [...state.used] };
+}
+
+/**
+ * Render a list of nodes
+ */
+function render_nodes(nodes: TemplateNode[], scopes: TemplateScope[], state: RenderState): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.text;
+        break;
+
+      case 'output': {
+        let value = lookup(node.path, scopes, state);
+        try {
+          for (const filter of node.filters) {
+            value = FILTERS[filter.name](value, filter.arg);
+          }
+        } catch {
+          // A filter argument that does not apply (e.g. truncate:"x") keeps the tag as literal text
+          output += node.raw;
+          break;
+        }
+        if (value === undefined) {
+          state.missing.add(node.path);
+          output += node.raw;
+        } else {
+          output += to_text(value);
+        }
+        break;
+      }
+
+      case 'if': {
+        const value = lookup(node.path, scopes, state);
+        output += render_nodes(is_truthy(value) ? node.then_nodes : node.else_nodes, scopes, state);
+        break;
+      }
+
+      case 'each': {
+        const value = lookup(node.path, scopes, state);
+        const entries: Array<[string | number, PromptVariableValue]> = Array.isArray(value)
+          ? value.map((item, index) => [index, item])
+          : is_object(value) ? Object.entries(value) : [];
+
+        if (entries.length === 0) {
+          output += render_nodes(node.else_nodes, scopes, state);
+          break;
+        }
+        entries.forEach(([key, item], index) => {
+          const loop = { index, key, first: index === 0, last: index === entries.length - 1 };
+          output += render_nodes(node.body_nodes, [...scopes, { value: item, loop }], state);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Resolve a variable path against the scopes (innermost first)
+ */
+function lookup(path: string, scopes: TemplateScope[], state: RenderState): TemplateValue {
+  const [head, ...rest] = path.split('.');
+  const current = scopes[scopes.length - 1];
+  let value: TemplateValue;
+
+  if (head.startsWith('@')) {
+    if (!current.loop) {
+      return undefined;
+    }
+    const loop_values: Record<string, TemplateValue> = {
+      '@index': current.loop.index,
+      '@key': current.loop.key,
+      '@first': current.loop.first,
+      '@last': current.loop.last,
+    };
+    value = loop_values[head];
+  } else if (head === 'this') {
+    if (!current.loop) {
+      return undefined;
+    }
+    value = current.value;
+  } else {
+    const scope = [...scopes].reverse().find(item => is_object(item.value) && Object.prototype.hasOwnProperty.call(item.value, head));
+    if (!scope) {
+      return undefined;
+    }
+    if (scope === scopes[0]) {
+      state.used.add(head);
+    }
+    value = (scope.value as Record<string, PromptVariableValue>)[head];
+  }
+
+  for (const segment of rest) {
+    if (Array.isArray(value) && /^\d+$/.test(segment)) {
+      value = value[Number(segment)];
+    } else if (is_object(value) && Object.prototype.hasOwnProperty.call(value, segment)) {
+      value = value[segment];
+    } else {
+      return undefined;
+    }
+  }
+
+  return value;
+}
+
+// =============================================================================
+// Parse
+// =============================================================================
+
+/**
+ * Parse a template into nodes
+ *
+ * Block tags that are not matched ({{/if}} without {{#if}}, an unclosed
+ * {{#each}}, ...) and {{this}}/{{@index}} outside a loop stay literal text.
+ *
+ * @param template - Template text
+ * @returns Template nodes
+ */
+function parse_template(template: string): TemplateNode[] {
+  const tokens = strip_standalone_lines(tokenize(template));
+
+  const root: TemplateNode[] = [];
+  const stack: Array<{ node: BlockNode; in_else: boolean; raw: string; else_raw?: string; parent: TemplateNode[] }> = [];
+  const target = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      return root;
+    }
+    if (top.in_else) {
+      return top.node.else_nodes;
+    }
+    return top.node.type === 'if' ? top.node.then_nodes : top.node.body_nodes;
+  };
+
+  for (const token of tokens) {
+    switch (token.type) {
+      case 'text':
+        if (token.text !== '') {
+          target().push(token);
+        }
+        break;
+
+      case 'output':
+        if (LOOP_PATH_PATTERN.test(token.path) && !stack.some(entry => entry.node.type === 'each')) {
+          target().push({ type: 'text', text: token.raw });
+        } else {
+          target().push(token);
+        }
+        break;
+
+      case 'open': {
+        const node: BlockNode = token.block === 'if'
+          ? { type: 'if', path: token.path, then_nodes: [], else_nodes: [] }
+          : { type: 'each', path: token.path, body_nodes: [], else_nodes: [] };
+        const parent = target();
+        parent.push(node);
+        stack.push({ node, in_else: false, raw: token.raw, parent });
+        break;
+      }
+
+      case 'else': {
+        const top = stack[stack.length - 1];
+        if (!top || top.in_else) {
+          target().push({ type: 'text', text: token.raw });
+          break;
+        }
+        top.in_else = true;
+        top.else_raw = token.raw;
+        break;
+      }
+
+      case 'close': {
+        const top = stack[stack.length - 1];
+        if (!top || top.node.type !== token.block) {
+          target().push({ type: 'text', text: token.raw });
+          break;
+        }
+        stack.pop();
+        break;
+      }
+    }
+  }
+
+  // Unclosed blocks are literal text: put the tags back around their content
+  while (stack.length > 0) {
+    const unclosed = stack.pop()!;
+    const { node, parent } = unclosed;
+    const content = node.type === 'if' ? node.then_nodes : node.body_nodes;
+    parent.splice(parent.indexOf(node), 1,
+      { type: 'text', text: unclosed.raw },
+      ...content,
+      ...(unclosed.else_raw !== undefined ? [{ type: 'text', text: unclosed.else_raw } as TemplateNode, ...node.else_nodes] : []));
+  }
+
+  return root;
+}
+
+/**
+ * Split a template into text and tag tokens
+ * Text tokens are always emitted between tags (possibly empty), so tokens
+ * alternate text, tag, text, ... and start and end with text.
+ */
+function tokenize(template: string): TemplateToken[] {
+  const tokens: TemplateToken[] = [];
+  let text = '';
+  let position = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    const index = match.index ?? 0;
+    text += template.slice(position, index);
+    position = index + match[0].length;
+
+    const tag = parse_tag(match[1].trim(), match[0]);
+    if (tag) {
+      tokens.push({ type: 'text', text }, tag);
+      text = '';
+    } else {
+      // Not a template tag: keep as literal text
+      text += match[0];
+    }
+  }
+
+  tokens.push({ type: 'text', text: text + template.slice(position) });
+  return tokens;
+}
+
+/**
+ * Parse the content of a {{...}} tag
+ * @returns Token, or null when the content is not template syntax (a block tag
+ *          without a variable, an unknown filter, ...)
+ */
+function parse_tag(content: string, raw: string): TemplateToken | null {
+  const block = /^#(if|each)(?:\s+(.*))?$/.exec(content);
+  if (block) {
+    const path = (block[2] || '').trim();
+    if (!PATH_PATTERN.test(path)) {
+      return null;
+    }
+    return { type: 'open', block: block[1] as 'if' | 'each', path, raw };
+  }
+  if (content === 'else') {
+    return { type: 'else', raw };
+  }
+  if (content === '/if' || content === '/each') {
+    return { type: 'close', block: content.slice(1) as 'if' | 'each', raw };
+  }
+
+  const [path, ...filter_parts] = split_filters(content);
+  if (!PATH_PATTERN.test(path)) {
+    return null;
+  }
+
+  const filters: FilterCall[] = [];
+  for (const part of filter_parts) {
+    const match = FILTER_PATTERN.exec(part);
+    if (!match || !Object.prototype.hasOwnProperty.call(FILTERS, match[1])) {
+      return null;
+    }
+    filters.push({ name: match[1], ...(match[2] !== undefined && { arg: parse_filter_arg(match[2]) }) });
+  }
+
+  return { type: 'output', path, filters, raw };
+}
+
+/**
+ * Split "path | filter:arg | filter" on the | characters outside quotes
+ */
+function split_filters(content: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | null = null;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quote) {
+      if (char === '\\' && quote === '"' && i + 1 < content.length) {
+        current += char + content[++i];
+        continue;
+      }
+      if (char === quote) {
+        quote = null;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '|') {
+      parts.push(current.trim());
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current.trim());
+  return parts;
+}
+
+/**
+ * Parse a filter argument ("text", 'text' or a number)
+ */
+function parse_filter_arg(raw: string): string | number {
+  if (raw.startsWith('"')) {
+    return JSON.parse(raw) as string;
+  }
+  if (raw.startsWith("'")) {
+    return raw.slice(1, -1);
+  }
+  return Number(raw);
+}
+
+/**
+ * Remove the line of block tags that stand alone on a line
+ * ({{#if}}, {{else}}, {{/if}}, ... with only whitespace around them)
+ */
+function strip_standalone_lines(tokens: TemplateToken[]): TemplateToken[] {
+  const last = tokens.length - 1;
+  const is_text = (token: TemplateToken): token is { type: 'text'; text: string } => token.type === 'text';
+
+  // Decide on the original text first: one text token can end one line and start the next
+  const standalone = tokens.map((token, index) => {
+    if (token.type === 'text' || token.type === 'output') {
+      return false;
+    }
+    const before = tokens[index - 1];
+    const after = tokens[index + 1];
+    if (!is_text(before) || !is_text(after)) {
+      return false;
+    }
+    const line_start = /\n[ \t]*$/.test(before.text) || (index - 1 === 0 && /^[ \t]*$/.test(before.text));
+    const line_end = /^[ \t]*\r?\n/.test(after.text) || (index + 1 === last && /^[ \t]*$/.test(after.text));
+    return line_start && line_end;
+  });
+
+  return tokens.map((token, index) => {
+    if (!is_text(token)) {
+      return token;
+    }
+    let text = token.text;
+    if (standalone[index + 1]) {
+      text = text.replace(/[ \t]*$/, '');
+    }
+    if (standalone[index - 1]) {
+      text = text.replace(/^[ \t]*(\r?\n)?/, '');
+    }
+    return { type: 'text', text };
+  });
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Convert a value to prompt text (objects and arrays as JSON, null as '')
+ */
+function to_text(value: TemplateValue): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value);
+  }
+  return String(value);
+}
+
+/**
+ * Check whether a value is a (non-array) object
+ */
+function is_object(value: TemplateValue): value is { [key: string]: PromptVariableValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Truthiness for {{#if}}: missing, null, false, '', 0 and [] are false
+ */
+function is_truthy(value: TemplateValue): boolean {
+  return Array.isArray(value) ? value.length > 0 : Boolean(value);
+}
+
+/**
+ * Format a date in UTC
+ */
+function format_date(date: Date, format: string): string {
+  const pad = (value: number): string => String(value).padStart(2, '0');
+  const parts: Record<string, string> = {
+    YYYY: String(date.getUTCFullYear()),
+    MM: pad(date.getUTCMonth() + 1),
+    DD: pad(date.getUTCDate()),
+    HH: pad(date.getUTCHours()),
+    mm: pad(date.getUTCMinutes()),
+    ss: pad(date.getUTCSeconds()),
+  };
+  return format.replace(/YYYY|MM|DD|HH|mm|ss/g, token => parts[token]);
+}
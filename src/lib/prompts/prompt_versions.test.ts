@@ -0,0 +1,92 @@
+/**
+ * Prompt Versioning Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Database as SqlJsDatabase } from 'sql.js';
+import { initialize_database, insert_prompt, update_prompt, reset_database } from '../database/init_database.js';
+import { diff_prompt_versions, get_prompt_history, rollback_prompt } from './prompt_versions.js';
+import type { PromptRecord } from '../llm_api/types.js';
+import { silent_logger } from '../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+const PROMPT: Omit<PromptRecord, 'id' | 'created_at' | 'changed_at'> = {
+  prompt_area: 'docs',
+  prompt_key: 'summary',
+  local_1: null,
+  local_2: null,
+  local_3: null,
+  user_id: null,
+  scope_id: null,
+  prompt_text: 'Summarize the text.\nUse {{tone}} tone.\nKeep it short.',
+  prompt_variables: '[{"name":"tone"}]',
+  prompt_notes: '',
+  next_prompt: null,
+};
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('prompt versions', () => {
+  let directory: string;
+  let db: SqlJsDatabase;
+
+  beforeEach(async () => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'hazo-prompt-versions-'));
+    db = await initialize_database(path.join(directory, 'prompts.sqlite'), logger, { save_debounce_ms: 60000 });
+  });
+
+  afterEach(() => {
+    reset_database(logger);
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('diffs the changed fields and prompt_text lines of two versions', () => {
+    const prompt = insert_prompt(db, PROMPT, logger);
+    update_prompt(db, prompt.id, {
+      prompt_text: 'Summarize the text.\nUse a {{tone}} tone.\nKeep it short.\nEnd with a question.',
+    }, logger);
+
+    const diff = diff_prompt_versions(db, prompt.id, 1, 2, logger);
+
+    expect(diff).toEqual({
+      prompt_id: prompt.id,
+      from_version: 1,
+      to_version: 2,
+      changed_fields: ['prompt_text'],
+      text_diff: [
+        { type: 'unchanged', text: 'Summarize the text.' },
+        { type: 'removed', text: 'Use {{tone}} tone.' },
+        { type: 'added', text: 'Use a {{tone}} tone.' },
+        { type: 'unchanged', text: 'Keep it short.' },
+        { type: 'added', text: 'End with a question.' },
+      ],
+    });
+    expect(diff_prompt_versions(db, prompt.id, 1, 5, logger)).toBeNull();
+  });
+
+  it('records a rollback as a new version', () => {
+    const prompt = insert_prompt(db, PROMPT, logger);
+    update_prompt(db, prompt.id, { prompt_text: 'Rewritten', prompt_notes: 'draft' }, logger);
+
+    const restored = rollback_prompt(db, prompt.id, 1, logger, { author: 'alice' });
+
+    expect(restored?.prompt_text).toBe(PROMPT.prompt_text);
+    expect(get_prompt_history(db, prompt.id, logger).map(version => [version.version, version.author, version.note]))
+      .toEqual([
+        [3, 'alice', 'Rollback to version 1'],
+        [2, null, ''],
+        [1, null, ''],
+      ]);
+    expect(diff_prompt_versions(db, prompt.id, 1, 3, logger)?.changed_fields).toEqual([]);
+  });
+});
@@ -0,0 +1,320 @@
+/**
+ * Prompt Versioning Module
+ *
+ * Functions to read, compare and roll back prompt revisions stored in the
+ * hazo_prompt_versions table. Versions are recorded by insert_prompt and
+ * update_prompt; rolling back records the old content as a new version so
+ * history is never rewritten.
+ */
+
+import type { Database as SqlJsDatabase } from 'sql.js';
+import type {
+  Logger,
+  PromptDiffLine,
+  PromptRecord,
+  PromptVersionDiff,
+  PromptVersionField,
+  PromptVersionInfo,
+  PromptVersionRecord,
+} from '../llm_api/types.js';
+import { row_to_prompt_version_record } from '../database/utils.js';
+import { update_prompt } from '../database/init_database.js';
+
+// =============================================================================
+// Version Retrieval Functions
+// =============================================================================
+
+/**
+ * List every version of a prompt, newest first
+ * @param db - Database instance
+ * @param prompt_id - ID (UUID) of the prompt
+ * @param logger - Logger instance
+ * @returns Version records (empty if the prompt has no history)
+ *
+ * @example
+ * ```typescript
+ * const history = get_prompt_history(db, prompt.id, logger);
+ * for (const version of history) {
+ *   console.log(`v${version.version} by ${version.author ?? 'unknown'}: ${version.note}`);
+ * }
+ * ```
+ */
+export function get_prompt_history(
+  db: SqlJsDatabase,
+  prompt_id: string,
+  logger: Logger
+): PromptVersionRecord[] {
+  const file_name = 'prompt_versions.ts';
+
+  const select_sql = `
+    SELECT * FROM hazo_prompt_versions
+    WHERE prompt_id = ?
+    ORDER BY version DESC
+  `;
+
+  try {
+    const result = db.exec(select_sql, [prompt_id]);
+
+    if (result.length === 0) {
+      return [];
+    }
+
+    const columns = result[0].columns;
+    const versions = result[0].values.map(row => row_to_prompt_version_record(row, columns));
+
+    logger.debug('Prompt history retrieved', {
+      file: file_name,
+      data: { prompt_id, count: versions.length },
+    });
+
+    return versions;
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to retrieve prompt history', {
+      file: file_name,
+      data: { error: error_message, prompt_id },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Get a single version of a prompt
+ * @param db - Database instance
+ * @param prompt_id - ID (UUID) of the prompt
+ * @param version - Version number
+ * @param logger - Logger instance
+ * @returns The version record if found, null otherwise
+ */
+export function get_prompt_version(
+  db: SqlJsDatabase,
+  prompt_id: string,
+  version: number,
+  logger: Logger
+): PromptVersionRecord | null {
+  const file_name = 'prompt_versions.ts';
+
+  const select_sql = `
+    SELECT * FROM hazo_prompt_versions
+    WHERE prompt_id = ? AND version = ?
+  `;
+
+  try {
+    const result = db.exec(select_sql, [prompt_id, version]);
+
+    if (result.length === 0 || result[0].values.length === 0) {
+      logger.warn('Prompt version not found', {
+        file: file_name,
+        data: { prompt_id, version },
+      });
+      return null;
+    }
+
+    return row_to_prompt_version_record(result[0].values[0], result[0].columns);
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to retrieve prompt version', {
+      file: file_name,
+      data: { error: error_message, prompt_id, version },
+    });
+    throw error;
+  }
+}
+
+/**
+ * Get the current (latest) version number of a prompt
+ * @param db - Database instance
+ * @param prompt_id - ID (UUID) of the prompt
+ * @param logger - Logger instance
+ * @returns Latest version number, or null if the prompt has no history
+ */
+export function get_current_prompt_version(
+  db: SqlJsDatabase,
+  prompt_id: string,
+  logger: Logger
+): number | null {
+  const file_name = 'prompt_versions.ts';
+
+  try {
+    const result = db.exec(
+      'SELECT MAX(version) FROM hazo_prompt_versions WHERE prompt_id = ?',
+      [prompt_id]
+    );
+
+    const value = result.length > 0 ? result[0].values[0]?.[0] : null;
+    return value != null ? Number(value) : null;
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to retrieve current prompt version', {
+      file: file_name,
+      data: { error: error_message, prompt_id },
+    });
+    throw error;
+  }
+}
+
+// =============================================================================
+// Diff and Rollback
+// =============================================================================
+
+/**
+ * Compare two versions of a prompt
+ * Returns which versioned fields differ and a line diff of prompt_text.
+ *
+ * @param db - Database instance
+ * @param prompt_id - ID (UUID) of the prompt
+ * @param from_version - Older version number
+ * @param to_version - Newer version number
+ * @param logger - Logger instance
+ * @returns The diff, or null if either version does not exist
+ *
+ * @example
+ * ```typescript
+ * const diff = diff_prompt_versions(db, prompt.id, 1, 3, logger);
+ * for (const line of diff?.text_diff ?? []) {
+ *   const marker = line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+ *   console.log(`${marker} ${line.text}`);
+ * }
+ * ```
+ */
+export function diff_prompt_versions(
+  db: SqlJsDatabase,
+  prompt_id: string,
+  from_version: number,
+  to_version: number,
+  logger: Logger
+): PromptVersionDiff | null {
+  const from = get_prompt_version(db, prompt_id, from_version, logger);
+  const to = get_prompt_version(db, prompt_id, to_version, logger);
+
+  if (!from || !to) {
+    return null;
+  }
+
+  return build_prompt_version_diff(from, to);
+}
+
+/**
+ * Compare two version records of a prompt
+ * Shared by diff_prompt_versions (sql.js) and compare_prompt_versions (active store).
+ *
+ * @param from - Older version record
+ * @param to - Newer version record
+ * @returns Changed versioned fields and a line diff of prompt_text
+ */
+export function build_prompt_version_diff(from: PromptVersionRecord, to: PromptVersionRecord): PromptVersionDiff {
+  const fields: PromptVersionField[] = ['prompt_text', 'prompt_variables', 'prompt_notes', 'next_prompt'];
+
+  return {
+    prompt_id: to.prompt_id,
+    from_version: from.version,
+    to_version: to.version,
+    changed_fields: fields.filter(field => from[field] !== to[field]),
+    text_diff: diff_lines(from.prompt_text, to.prompt_text),
+  };
+}
+
+/**
+ * Roll a prompt back to an earlier version
+ * The old content is recorded as a new version, so the history is kept intact.
+ *
+ * @param db - Database instance
+ * @param prompt_id - ID (UUID) of the prompt
+ * @param version - Version number to restore
+ * @param logger - Logger instance
+ * @param version_info - Optional author and note (default note: "Rollback to version N")
+ * @returns The updated prompt record, or null if the prompt or version does not exist
+ *
+ * @example
+ * ```typescript
+ * const restored = rollback_prompt(db, prompt.id, 2, logger, { author: 'alice' });
+ * ```
+ */
+export function rollback_prompt(
+  db: SqlJsDatabase,
+  prompt_id: string,
+  version: number,
+  logger: Logger,
+  version_info: PromptVersionInfo = {}
+): PromptRecord | null {
+  const target = get_prompt_version(db, prompt_id, version, logger);
+
+  if (!target) {
+    return null;
+  }
+
+  const record = update_prompt(
+    db,
+    prompt_id,
+    {
+      prompt_text: target.prompt_text,
+      prompt_variables: target.prompt_variables,
+      prompt_notes: target.prompt_notes,
+      next_prompt: target.next_prompt,
+    },
+    logger,
+    {
+      author: version_info.author,
+      note: version_info.note ?? `Rollback to version ${version}`,
+    }
+  );
+
+  if (record) {
+    logger.info('Prompt rolled back', {
+      file: 'prompt_versions.ts',
+      data: { prompt_id, version },
+    });
+  }
+
+  return record;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Line diff of two texts based on their longest common subsequence of lines
+ * @param from_text - Older text
+ * @param to_text - Newer text
+ * @returns Diff lines in order
+ */
+function diff_lines(from_text: string, to_text: string): PromptDiffLine[] {
+  const a = from_text.split('\n');
+  const b = to_text.split('\n');
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: PromptDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'unchanged', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i] });
+      i++;
+    } else {
+      lines.push({ type: 'added', text: b[j] });
+      j++;
+    }
+  }
+  while (i < a.length) {
+    lines.push({ type: 'removed', text: a[i++] });
+  }
+  while (j < b.length) {
+    lines.push({ type: 'added', text: b[j++] });
+  }
+
+  return lines;
+}
@@ -2,11 +2,14 @@
  * Variable Substitution Module
  *
  * Functions to replace variables in prompt text.
- * Variables use double curly brace syntax: {{variable_name}}
+ * Variables use double curly brace syntax: {{variable_name}}, with nested
+ * access ({{customer.name}}), filters ({{name | default:"n/a"}}),
+ * {{#if}}/{{else}} and {{#each}} blocks (see prompt_template.ts).
  * Values come from the prompt_variables JSON array.
  */
 
 import type { Logger, PromptVariables } from '../llm_api/types.js';
+import { render_template, type TemplateOptions } from './prompt_template.js';
 
 // =============================================================================
 // Variable Substitution Functions
@@ -14,80 +17,71 @@ import type { Logger, PromptVariables } from '../llm_api/types.js';
 
 /**
  * Substitute variables in prompt text with values from prompt_variables
- * Variables are identified by double curly braces (e.g., {{location}} becomes "Tokyo")
+ * Variables are identified by double curly braces (e.g., {{location}} becomes "Tokyo").
+ * Missing variables are left in the text and logged, unless options.strict is set.
+ * Without variables the text is returned unchanged (unless options.strict is set).
  *
  * @param prompt_text - The prompt text containing variables to replace
  * @param prompt_variables - Array of key-value objects with variable values
- *                           Format: [{ "variable1": "value1", "variable2": "value2" }]
+ *                           Format: [{ "variable1": "value1", "customer": { "name": "Ann" } }]
  * @param logger - Logger instance
+ * @param options - Template options (strict: throw when a variable is missing)
  * @returns The prompt text with all variables substituted
+ * @throws Error if a variable is missing in strict mode
  */
 export function substitute_variables(
   prompt_text: string,
   prompt_variables: PromptVariables | undefined,
-  logger: Logger
+  logger: Logger,
+  options: TemplateOptions = {}
 ): string {
   const file_name = 'substitute_variables.ts';
 
-  // If no variables provided, return original text
-  if (!prompt_variables || prompt_variables.length === 0) {
+  // Plain text without tags needs no rendering
+  if (!prompt_text.includes('{{')) {
     return prompt_text;
   }
 
-  let result_text = prompt_text;
-  const substitutions_made: Record<string, string> = {};
-  const missing_variables: string[] = [];
-
-  // Flatten all variables from the array into a single object
-  const all_variables: Record<string, string> = {};
-  for (const var_obj of prompt_variables) {
-    for (const [key, value] of Object.entries(var_obj)) {
-      all_variables[key] = value;
-    }
+  // If no variables provided, return original text (strict mode still reports missing variables)
+  if (!options.strict && (!prompt_variables || prompt_variables.length === 0)) {
+    return prompt_text;
   }
 
-  // Find all {{variable}} patterns in the text
-  const variable_pattern = /\{\{([a-zA-Z_][a-zA-Z0-9_]*)\}\}/g;
-  const found_variables: string[] = [];
-  let match;
-
-  while ((match = variable_pattern.exec(prompt_text)) !== null) {
-    const var_name = match[1];
-    if (!found_variables.includes(var_name)) {
-      found_variables.push(var_name);
-    }
+  const available_variables = (prompt_variables || []).flatMap(var_obj => Object.keys(var_obj));
+  let result;
+  try {
+    result = render_template(prompt_text, prompt_variables, options);
+  } catch (error) {
+    logger.error('Prompt template could not be rendered', {
+      file: file_name,
+      data: {
+        error: error instanceof Error ? error.message : String(error),
+        available_variables,
+      },
+    });
+    throw error;
   }
 
-  // Substitute each found variable
-  for (const var_name of found_variables) {
-    const var_pattern = new RegExp(`\\{\\{${var_name}\\}\\}`, 'g');
-
-    if (var_name in all_variables) {
-      const value = all_variables[var_name];
-      result_text = result_text.replace(var_pattern, value);
-      substitutions_made[`{{${var_name}}}`] = value;
-    } else {
-      missing_variables.push(var_name);
-      logger.warn(`Variable not found in prompt_variables: {{${var_name}}}`, {
-        file: file_name,
-        data: { variable: var_name, available_variables: Object.keys(all_variables) },
-      });
-    }
+  if (result.missing_variables.length > 0) {
+    logger.warn(`Variables not found in prompt_variables: ${result.missing_variables.map(name => `{{${name}}}`).join(', ')}`, {
+      file: file_name,
+      data: { missing_variables: result.missing_variables, available_variables },
+    });
   }
 
   // Log variable substitution with before and after in one message
-  if (Object.keys(substitutions_made).length > 0) {
+  if (result.text !== prompt_text) {
     logger.info('Variable substitution', {
       file: file_name,
       data: {
         before: prompt_text,
-        after: result_text,
-        substitutions: substitutions_made,
+        after: result.text,
+        variables: result.used_variables,
       },
     });
   }
 
-  return result_text;
+  return result.text;
 }
 
 /**
@@ -142,6 +136,9 @@ export function parse_prompt_variables(
 
 /**
  * Validate that all required variables are present
+ * Variables with a default filter, and variables only used in {{#if}} or
+ * {{#each}} conditions, are optional.
+ *
  * @param prompt_text - The prompt text containing variables
  * @param prompt_variables - The variables provided for substitution
  * @param logger - Logger instance
@@ -154,55 +151,16 @@ export function validate_variables(
 ): { valid: boolean; missing_variables: string[] } {
   const file_name = 'substitute_variables.ts';
 
-  // Find all {{variable}} patterns in the prompt text
-  const variable_pattern = /\{\{([a-zA-Z_][a-zA-Z0-9_]*)\}\}/g;
-  const found_variables: string[] = [];
-  let match;
-
-  while ((match = variable_pattern.exec(prompt_text)) !== null) {
-    const var_name = match[1];
-    if (!found_variables.includes(var_name)) {
-      found_variables.push(var_name);
-    }
-  }
-
-  // If no variables in text, validation passes
-  if (found_variables.length === 0) {
-    logger.debug('No variables found in prompt text', {
-      file: file_name,
-    });
-    return { valid: true, missing_variables: [] };
-  }
-
-  // Flatten provided variables
-  const all_variables: Record<string, string> = {};
-  if (prompt_variables) {
-    for (const var_obj of prompt_variables) {
-      for (const [key, value] of Object.entries(var_obj)) {
-        all_variables[key] = value;
-      }
-    }
-  }
-
-  // Check for missing variables
-  const missing_variables: string[] = [];
-  for (const var_name of found_variables) {
-    if (!(var_name in all_variables)) {
-      missing_variables.push(var_name);
-    }
-  }
-
+  const { missing_variables } = render_template(prompt_text, prompt_variables);
   const valid = missing_variables.length === 0;
 
   logger.debug('Variable validation completed', {
     file: file_name,
     data: {
       valid,
-      found_variables,
       missing_variables,
     },
   });
 
   return { valid, missing_variables };
 }
-
@@ -0,0 +1,229 @@
+/**
+ * Anthropic API Client Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  call_anthropic_api,
+  stream_anthropic_api,
+  build_anthropic_messages,
+  extract_anthropic_usage,
+  merge_anthropic_generation_config,
+} from './anthropic_client.js';
+import { AnthropicProvider } from './anthropic_provider.js';
+import { silent_logger } from '../../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+const API_URL = 'https://api.anthropic.test/v1/messages';
+
+/**
+ * Replace fetch with a mock returning the given response
+ * @returns The fetch mock
+ */
+function stub_fetch(response: Response) {
+  const fetch_mock = vi.fn(async (_url: string, _init: RequestInit) => response);
+  vi.stubGlobal('fetch', fetch_mock);
+  return fetch_mock;
+}
+
+/**
+ * Build an event-stream response from Messages API events
+ */
+function sse_response(events: object[]): Response {
+  const body = events.map(event => `event: ${(event as { type: string }).type}\ndata: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(body, { headers: { 'content-type': 'text/event-stream' } });
+}
+
+/**
+ * Collect every chunk of a stream
+ */
+async function collect(stream: AsyncIterable<unknown>): Promise<unknown[]> {
+  const chunks: unknown[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('request building', () => {
+  it('puts image and PDF attachments before the prompt text', () => {
+    expect(build_anthropic_messages('Hi')).toEqual([{ role: 'user', content: 'Hi' }]);
+    expect(build_anthropic_messages('Describe', [
+      { data: 'aW1n', mime_type: 'image/png' },
+      { data: 'JVBE', mime_type: 'application/pdf' },
+    ])).toEqual([{
+      role: 'user',
+      content: [
+        { type: 'image', source: { type: 'base64', media_type: 'image/png', data: 'aW1n' } },
+        { type: 'document', source: { type: 'base64', media_type: 'application/pdf', data: 'JVBE' } },
+        { type: 'text', text: 'Describe' },
+      ],
+    }]);
+  });
+
+  it('merges only the set generation overrides', () => {
+    const base = { temperature: 0.2, max_tokens: 100, top_k: 5 };
+
+    expect(merge_anthropic_generation_config(base)).toBe(base);
+    expect(merge_anthropic_generation_config(base, { temperature: 0.9, response_mime_type: 'application/json' }))
+      .toEqual({ temperature: 0.9, max_tokens: 100, top_k: 5 });
+    expect(base.temperature).toBe(0.2);
+  });
+
+  it('extracts usage only when token counts are present', () => {
+    expect(extract_anthropic_usage({ usage: { input_tokens: 10, output_tokens: 4 } }))
+      .toEqual({ input_tokens: 10, output_tokens: 4, total_tokens: 14 });
+    expect(extract_anthropic_usage({ usage: { input_tokens: 3 } }))
+      .toEqual({ input_tokens: 3, output_tokens: 0, total_tokens: 3 });
+    expect(extract_anthropic_usage({})).toBeUndefined();
+    expect(extract_anthropic_usage(null)).toBeUndefined();
+  });
+});
+
+describe('call_anthropic_api', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the key and version headers and the system prompt, and joins the text blocks', async () => {
+    const fetch_mock = stub_fetch(Response.json({
+      content: [{ type: 'text', text: 'Hello ' }, { type: 'text', text: 'there' }],
+      usage: { input_tokens: 12, output_tokens: 3 },
+    }));
+
+    const response = await call_anthropic_api(
+      API_URL, 'sk-ant', 'claude', build_anthropic_messages('Hi'), logger, { temperature: 0.5 }, 'Be brief'
+    );
+
+    expect(response).toMatchObject({
+      success: true,
+      text: 'Hello there',
+      usage: { input_tokens: 12, output_tokens: 3, total_tokens: 15 },
+    });
+    const [url, init] = fetch_mock.mock.calls[0];
+    expect(url).toBe(API_URL);
+    expect(init.headers).toMatchObject({ 'x-api-key': 'sk-ant', 'anthropic-version': '2023-06-01' });
+    expect(JSON.parse(String(init.body))).toEqual({
+      model: 'claude',
+      max_tokens: 4096,
+      messages: [{ role: 'user', content: 'Hi' }],
+      system: 'Be brief',
+      temperature: 0.5,
+    });
+  });
+
+  it('returns the API error message with its status', async () => {
+    stub_fetch(Response.json(
+      { type: 'error', error: { type: 'rate_limit_error', message: 'Rate limited' } },
+      { status: 429 }
+    ));
+
+    const response = await call_anthropic_api(API_URL, 'key', 'claude', build_anthropic_messages('Hi'), logger);
+
+    expect(response).toMatchObject({ success: false, error: 'Rate limited', error_info: { code: 'RATE_LIMITED' } });
+  });
+
+  it('maps non-JSON error bodies to the HTTP status and Retry-After', async () => {
+    stub_fetch(new Response('<html>503 Service Unavailable</html>', {
+      status: 503,
+      headers: { 'retry-after': '3' },
+    }));
+
+    const response = await call_anthropic_api(API_URL, 'key', 'claude', build_anthropic_messages('Hi'), logger);
+
+    expect(response).toMatchObject({
+      success: false,
+      error: 'HTTP 503',
+      error_info: { code: 'API_ERROR', retryable: true, details: { status: 503, retry_after_ms: 3000 } },
+    });
+  });
+
+  it('maps an empty overloaded response to a retryable error', async () => {
+    stub_fetch(new Response(null, { status: 529 }));
+
+    const response = await call_anthropic_api(API_URL, 'key', 'claude', build_anthropic_messages('Hi'), logger);
+
+    expect(response.error_info).toMatchObject({ retryable: true, details: { status: 529 } });
+  });
+});
+
+describe('stream_anthropic_api', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('yields text deltas and reports usage from message_start and message_delta', async () => {
+    const fetch_mock = stub_fetch(sse_response([
+      { type: 'message_start', message: { usage: { input_tokens: 8, output_tokens: 1 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'ping' },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'message_delta', delta: { stop_reason: 'end_turn' }, usage: { output_tokens: 5 } },
+      { type: 'message_stop' },
+    ]));
+
+    const chunks = await collect(stream_anthropic_api(API_URL, 'key', 'claude', build_anthropic_messages('Hi'), logger));
+
+    expect(chunks).toEqual([
+      { text: 'Hel', done: false },
+      { text: 'lo', done: false },
+      { text: '', done: true, usage: { input_tokens: 8, output_tokens: 5, total_tokens: 13 } },
+    ]);
+    const init = fetch_mock.mock.calls[0][1];
+    expect(init.headers).toMatchObject({ 'Accept': 'text/event-stream', 'x-api-key': 'key' });
+    expect(JSON.parse(String(init.body))).toMatchObject({ stream: true });
+  });
+
+  it('ends with an error chunk on an error event', async () => {
+    stub_fetch(sse_response([
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Par' } },
+      { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } },
+    ]));
+
+    const chunks = await collect(stream_anthropic_api(API_URL, 'key', 'claude', build_anthropic_messages('Hi'), logger));
+
+    expect(chunks).toHaveLength(2);
+    expect(chunks[1]).toMatchObject({
+      done: true,
+      error: 'Overloaded',
+      error_info: { code: 'API_ERROR', retryable: true, details: { error_type: 'overloaded_error' } },
+    });
+  });
+});
+
+describe('AnthropicProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the per-call system instruction over the configured one', async () => {
+    const fetch_mock = stub_fetch(Response.json({ content: [{ type: 'text', text: 'Hi' }] }));
+    const provider = new AnthropicProvider({
+      api_key: 'key',
+      api_url: API_URL,
+      model_text_text: 'claude',
+      system_instruction: 'Configured',
+      text_config: { max_tokens: 256 },
+      logger,
+    });
+
+    await provider.text_text({ prompt: 'Hello', system_instruction: 'Per call', generation_overrides: { top_p: 0.8 } }, logger);
+
+    expect(JSON.parse(String(fetch_mock.mock.calls[0][1].body))).toMatchObject({
+      system: 'Per call',
+      max_tokens: 256,
+      top_p: 0.8,
+    });
+  });
+});
@@ -0,0 +1,535 @@
+/**
+ * Anthropic API Client Module
+ *
+ * Handles communication with the Anthropic Messages API (POST /v1/messages).
+ * Images are sent as base64 image blocks and PDFs as native document blocks.
+ */
+
+import type {
+  Logger,
+  Base64Data,
+  LLMResponse,
+  LLMStreamResponse,
+  LLMUsage,
+  GenerationOverrides,
+} from '../../llm_api/types.js';
+import { LLM_ERROR_CODES } from '../../llm_api/types.js';
+import {
+  read_sse_events,
+  build_stream_error_chunk,
+  build_http_error_info,
+} from '../stream_utils.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default Messages API endpoint */
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+
+/** API version sent in the anthropic-version header */
+const ANTHROPIC_API_VERSION = '2023-06-01';
+
+/** max_tokens is required by the Messages API; used when none is configured */
+const DEFAULT_MAX_TOKENS = 4096;
+
+/** MIME type sent as a document block (everything else is an image block) */
+const PDF_MIME_TYPE = 'application/pdf';
+
+/** Error types the API reports for temporary overload (HTTP 529 / stream error event) */
+const RETRYABLE_ERROR_TYPES = ['overloaded_error', 'api_error', 'rate_limit_error'];
+
+// =============================================================================
+// Anthropic API Types
+// =============================================================================
+
+/**
+ * Anthropic generation configuration parameters
+ */
+export interface AnthropicGenerationConfig {
+  /** Maximum number of tokens in the response (required by the API, default 4096) */
+  max_tokens?: number;
+
+  /** Controls randomness (0.0-1.0) */
+  temperature?: number;
+
+  /** Nucleus sampling probability (0.0-1.0) */
+  top_p?: number;
+
+  /** Top-k sampling */
+  top_k?: number;
+
+  /** Sequences that stop generation when encountered */
+  stop_sequences?: string[];
+}
+
+/**
+ * Content block in an Anthropic message
+ */
+export type AnthropicContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; source: { type: 'base64'; media_type: string; data: string } }
+  | { type: 'document'; source: { type: 'base64'; media_type: string; data: string } };
+
+/**
+ * Message in the Anthropic messages array
+ */
+export interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicContentBlock[];
+}
+
+/**
+ * Anthropic Messages API request body
+ */
+export interface AnthropicApiRequest {
+  model: string;
+  max_tokens: number;
+  messages: AnthropicMessage[];
+  system?: string;
+  temperature?: number;
+  top_p?: number;
+  top_k?: number;
+  stop_sequences?: string[];
+  stream?: boolean;
+}
+
+/**
+ * Anthropic Messages API response
+ */
+export interface AnthropicApiResponse {
+  id?: string;
+  type?: string;
+  model?: string;
+  content?: Array<{
+    type: string;
+    text?: string;
+  }>;
+  stop_reason?: string;
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+/**
+ * Anthropic streaming event (message_start, content_block_delta, message_delta, error, ...)
+ */
+export interface AnthropicStreamEvent {
+  type: string;
+  message?: AnthropicApiResponse;
+  delta?: {
+    type?: string;
+    text?: string;
+    stop_reason?: string;
+  };
+  usage?: {
+    input_tokens?: number;
+    output_tokens?: number;
+  };
+  error?: {
+    type: string;
+    message: string;
+  };
+}
+
+// =============================================================================
+// Anthropic API Client
+// =============================================================================
+
+/**
+ * Call the Anthropic Messages API
+ * @param api_url - The Messages API endpoint URL
+ * @param api_key - The API key (sent as x-api-key)
+ * @param model - The model name to use
+ * @param messages - Messages (built with build_anthropic_messages)
+ * @param logger - Logger instance
+ * @param generation_config - Optional generation configuration parameters
+ * @param system_instruction - Optional system prompt
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns LLM response with generated text or error
+ */
+export async function call_anthropic_api(
+  api_url: string,
+  api_key: string,
+  model: string,
+  messages: AnthropicMessage[],
+  logger: Logger,
+  generation_config?: AnthropicGenerationConfig,
+  system_instruction?: string,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  const file_name = 'anthropic_client.ts';
+
+  try {
+    const request_body = build_anthropic_request(model, messages, generation_config, system_instruction);
+
+    logger.debug('Calling Anthropic API', {
+      file: file_name,
+      data: {
+        api_url,
+        model,
+        message_count: messages.length,
+        has_system_instruction: !!system_instruction,
+        generation_config: generation_config || 'none (using defaults)',
+      },
+    });
+
+    const response = await fetch(api_url, {
+      method: 'POST',
+      headers: build_anthropic_headers(api_key),
+      body: JSON.stringify(request_body),
+      signal,
+    });
+
+    // Error bodies are not always JSON (proxy error pages, empty 529 responses)
+    const response_data = response.ok
+      ? await response.json() as AnthropicApiResponse
+      : await response.json().catch(() => null) as AnthropicApiResponse | null;
+
+    if (!response.ok || !response_data || response_data.error) {
+      const error_message = response_data?.error?.message || `HTTP ${response.status}`;
+      logger.error('Anthropic API returned error', {
+        file: file_name,
+        data: {
+          status: response.status,
+          error: response_data?.error,
+          request_model: model,
+        },
+      });
+
+      return {
+        success: false,
+        error: error_message,
+        error_info: build_http_error_info(response, error_message),
+        raw_response: response_data,
+      };
+    }
+
+    const generated_text = extract_text_from_response(response_data);
+
+    if (generated_text) {
+      const usage = extract_anthropic_usage(response_data);
+      return {
+        success: true,
+        text: generated_text,
+        ...(usage && { usage }),
+        raw_response: response_data,
+      };
+    }
+
+    logger.warn('No text content in Anthropic response', {
+      file: file_name,
+      data: { raw_response: response_data },
+    });
+
+    return {
+      success: false,
+      error: 'No text content in response',
+      raw_response: response_data,
+    };
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to call Anthropic API', {
+      file: file_name,
+      data: { error: error_message, model },
+    });
+
+    return {
+      success: false,
+      error: error_message,
+    };
+  }
+}
+
+/**
+ * Call the Anthropic Messages API in streaming mode and yield text chunks as they arrive
+ * Reads content_block_delta text deltas; usage comes from message_start and message_delta.
+ *
+ * @param api_url - The Messages API endpoint URL
+ * @param api_key - The API key (sent as x-api-key)
+ * @param model - The model name to use
+ * @param messages - Messages (built with build_anthropic_messages)
+ * @param logger - Logger instance
+ * @param generation_config - Optional generation configuration parameters
+ * @param system_instruction - Optional system prompt
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns Async generator yielding text chunks, ending with a done chunk
+ */
+export async function* stream_anthropic_api(
+  api_url: string,
+  api_key: string,
+  model: string,
+  messages: AnthropicMessage[],
+  logger: Logger,
+  generation_config?: AnthropicGenerationConfig,
+  system_instruction?: string,
+  signal?: AbortSignal
+): LLMStreamResponse {
+  const file_name = 'anthropic_client.ts';
+
+  try {
+    const request_body = build_anthropic_request(model, messages, generation_config, system_instruction);
+    request_body.stream = true;
+
+    logger.debug('Calling Anthropic streaming API', {
+      file: file_name,
+      data: {
+        api_url,
+        model,
+        message_count: messages.length,
+        generation_config: generation_config || 'none (using defaults)',
+      },
+    });
+
+    const response = await fetch(api_url, {
+      method: 'POST',
+      headers: {
+        ...build_anthropic_headers(api_key),
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify(request_body),
+      signal,
+    });
+
+    // Errors are returned as a regular JSON body, not as an event stream
+    if (!response.ok) {
+      const error_data = await response.json().catch(() => null) as AnthropicApiResponse | null;
+      const error_message = error_data?.error?.message || `HTTP ${response.status}`;
+      const error_info = build_http_error_info(response, error_message);
+      logger.error('Anthropic streaming API returned error', {
+        file: file_name,
+        data: {
+          status: response.status,
+          error: error_data?.error,
+          request_model: model,
+        },
+      });
+      yield build_stream_error_chunk(error_info.code, error_info.message, error_info.retryable, error_info.details);
+      return;
+    }
+
+    let chunk_count = 0;
+    let input_tokens: number | undefined;
+    let output_tokens = 0;
+    for await (const data of read_sse_events(response)) {
+      const event = JSON.parse(data) as AnthropicStreamEvent;
+
+      if (event.type === 'error' && event.error) {
+        logger.error('Anthropic streaming API returned error event', {
+          file: file_name,
+          data: { error: event.error, request_model: model },
+        });
+        yield build_stream_error_chunk(
+          LLM_ERROR_CODES.API_ERROR,
+          event.error.message,
+          RETRYABLE_ERROR_TYPES.includes(event.error.type),
+          { error_type: event.error.type }
+        );
+        return;
+      }
+
+      if (event.type === 'message_start') {
+        input_tokens = event.message?.usage?.input_tokens;
+        output_tokens = event.message?.usage?.output_tokens ?? output_tokens;
+      } else if (event.type === 'message_delta') {
+        output_tokens = event.usage?.output_tokens ?? output_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        chunk_count++;
+        yield { text: event.delta.text, done: false };
+      } else if (event.type === 'message_stop') {
+        break;
+      }
+    }
+
+    logger.debug('Anthropic stream completed', {
+      file: file_name,
+      data: { chunk_count, model },
+    });
+
+    const usage: LLMUsage | undefined = input_tokens !== undefined
+      ? { input_tokens, output_tokens, total_tokens: input_tokens + output_tokens }
+      : undefined;
+
+    yield { text: '', done: true, ...(usage && { usage }) };
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to stream from Anthropic API', {
+      file: file_name,
+      data: { error: error_message, model },
+    });
+    yield build_stream_error_chunk(LLM_ERROR_CODES.NETWORK_ERROR, error_message, true);
+  }
+}
+
+// =============================================================================
+// Usage Extraction
+// =============================================================================
+
+/**
+ * Extract normalized token usage from an Anthropic response
+ * @param response - Raw Anthropic response
+ * @returns Normalized usage, or undefined if the response has no token counts
+ */
+export function extract_anthropic_usage(response: unknown): LLMUsage | undefined {
+  const usage = (response as AnthropicApiResponse | null)?.usage;
+  if (!usage || typeof usage.input_tokens !== 'number') {
+    return undefined;
+  }
+
+  const input_tokens = usage.input_tokens;
+  const output_tokens = usage.output_tokens ?? 0;
+
+  return { input_tokens, output_tokens, total_tokens: input_tokens + output_tokens };
+}
+
+// =============================================================================
+// Request Building Functions
+// =============================================================================
+
+/**
+ * Merge per-call generation overrides over a configured generation config
+ * Only overrides that are set replace the configured values; the base config is not modified.
+ * response_mime_type and response_schema have no Messages API equivalent and are ignored.
+ * @param base_config - Configured generation config (text_config or image_config)
+ * @param overrides - Per-call overrides (optional)
+ * @returns Merged generation config, or the base config if there are no overrides
+ */
+export function merge_anthropic_generation_config(
+  base_config: AnthropicGenerationConfig | undefined,
+  overrides?: GenerationOverrides
+): AnthropicGenerationConfig | undefined {
+  if (!overrides) {
+    return base_config;
+  }
+
+  const merged: AnthropicGenerationConfig = { ...base_config };
+
+  if (overrides.temperature !== undefined) {
+    merged.temperature = overrides.temperature;
+  }
+  if (overrides.max_tokens !== undefined) {
+    merged.max_tokens = overrides.max_tokens;
+  }
+  if (overrides.top_p !== undefined) {
+    merged.top_p = overrides.top_p;
+  }
+  if (overrides.stop_sequences !== undefined) {
+    merged.stop_sequences = overrides.stop_sequences;
+  }
+
+  return merged;
+}
+
+/**
+ * Build the messages array for a single-turn request
+ * Attachments come before the prompt text, as recommended for the Messages API:
+ * PDFs become document blocks, everything else image blocks.
+ *
+ * @param prompt - The user prompt
+ * @param attachments - Optional base64 images or PDF documents
+ * @returns Messages array with one user message
+ */
+export function build_anthropic_messages(
+  prompt: string,
+  attachments?: Base64Data[]
+): AnthropicMessage[] {
+  if (!attachments || attachments.length === 0) {
+    return [{ role: 'user', content: prompt }];
+  }
+
+  const content: AnthropicContentBlock[] = attachments.map(attachment => ({
+    type: attachment.mime_type === PDF_MIME_TYPE ? 'document' : 'image',
+    source: {
+      type: 'base64',
+      media_type: attachment.mime_type,
+      data: attachment.data,
+    },
+  }));
+  content.push({ type: 'text', text: prompt });
+
+  return [{ role: 'user', content }];
+}
+
+/**
+ * Build the Messages API request body
+ * @param model - Model name
+ * @param messages - Messages array
+ * @param generation_config - Optional generation configuration
+ * @param system_instruction - Optional system prompt
+ * @returns Request body
+ */
+function build_anthropic_request(
+  model: string,
+  messages: AnthropicMessage[],
+  generation_config?: AnthropicGenerationConfig,
+  system_instruction?: string
+): AnthropicApiRequest {
+  const request: AnthropicApiRequest = {
+    model,
+    max_tokens: generation_config?.max_tokens ?? DEFAULT_MAX_TOKENS,
+    messages,
+  };
+
+  if (system_instruction) {
+    request.system = system_instruction;
+  }
+  if (generation_config?.temperature !== undefined) {
+    request.temperature = generation_config.temperature;
+  }
+  if (generation_config?.top_p !== undefined) {
+    request.top_p = generation_config.top_p;
+  }
+  if (generation_config?.top_k !== undefined) {
+    request.top_k = generation_config.top_k;
+  }
+  if (generation_config?.stop_sequences && generation_config.stop_sequences.length > 0) {
+    request.stop_sequences = generation_config.stop_sequences;
+  }
+
+  return request;
+}
+
+/**
+ * Build the request headers for the Messages API
+ * @param api_key - The API key
+ * @returns Request headers
+ */
+function build_anthropic_headers(api_key: string): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'x-api-key': api_key,
+    'anthropic-version': ANTHROPIC_API_VERSION,
+  };
+}
+
+/**
+ * Extract the generated text from a Messages API response
+ * Joins all text blocks of the response content.
+ * @param response - Messages API response
+ * @returns Generated text, or undefined if there is none
+ */
+function extract_text_from_response(response: AnthropicApiResponse): string | undefined {
+  const text = (response.content || [])
+    .filter(block => block.type === 'text' && block.text)
+    .map(block => block.text)
+    .join('');
+
+  return text || undefined;
+}
+
+// =============================================================================
+// URL Helpers
+// =============================================================================
+
+/**
+ * Get the default Anthropic Messages API URL
+ * @returns Messages API endpoint URL
+ */
+export function get_anthropic_api_url(): string {
+  return ANTHROPIC_API_URL;
+}
@@ -0,0 +1,39 @@
+/**
+ * Anthropic Provider Factory
+ *
+ * Loads the Anthropic provider from the [llm_anthropic] section through
+ * register_provider_factory. The API key is read from ANTHROPIC_API_KEY.
+ */
+
+import type { ProviderFactory } from '../../config/provider_loader.js';
+import { ANTHROPIC_PARAM_MAPPINGS } from '../../config/config_parser.js';
+import { LLM_PROVIDERS } from '../types.js';
+import type { AnthropicGenerationConfig } from './anthropic_client.js';
+import { AnthropicProvider, type AnthropicProviderConfig } from './anthropic_provider.js';
+
+/**
+ * Factory for the Anthropic provider
+ *
+ * Section keys: api_url, model_text_text, model_image_text, model_document_text,
+ * system_instruction, capabilities and text_/image_ generation parameters
+ * (temperature, max_tokens, top_p, top_k, stop_sequences).
+ */
+export const anthropic_factory: ProviderFactory<AnthropicProviderConfig> = {
+  name: LLM_PROVIDERS.ANTHROPIC,
+  config_section: `llm_${LLM_PROVIDERS.ANTHROPIC}`,
+  text_param_mappings: ANTHROPIC_PARAM_MAPPINGS,
+  image_param_mappings: ANTHROPIC_PARAM_MAPPINGS,
+  build_config: (section, api_key, text_config, image_config, capabilities, logger) => ({
+    api_key,
+    api_url: section.api_url,
+    model_text_text: section.model_text_text,
+    model_image_text: section.model_image_text,
+    model_document_text: section.model_document_text,
+    system_instruction: section.system_instruction,
+    text_config: text_config as AnthropicGenerationConfig | undefined,
+    image_config: image_config as AnthropicGenerationConfig | undefined,
+    capabilities,
+    logger,
+  }),
+  create_provider: (config) => new AnthropicProvider(config),
+};
@@ -0,0 +1,497 @@
+/**
+ * Anthropic Provider Implementation
+ *
+ * Implements the LLMProvider interface for the Anthropic Messages API (Claude).
+ * Supports text and image analysis, and PDF analysis through native document blocks.
+ */
+
+import type {
+  LLMProvider,
+  LLMCapabilities,
+  ServiceType,
+} from '../types.js';
+import type {
+  TextTextParams,
+  ImageTextParams,
+  TextImageParams,
+  ImageImageParams,
+  DocumentTextParams,
+  LLMResponse,
+  LLMStreamResponse,
+  Logger,
+  Base64Data,
+} from '../../llm_api/types.js';
+import { LLM_ERROR_CODES } from '../../llm_api/types.js';
+import { SERVICE_TYPES, LLM_PROVIDERS } from '../types.js';
+import { build_error_stream } from '../stream_utils.js';
+import {
+  call_anthropic_api,
+  stream_anthropic_api,
+  build_anthropic_messages,
+  merge_anthropic_generation_config,
+  get_anthropic_api_url,
+  type AnthropicGenerationConfig,
+} from './anthropic_client.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Service types the Messages API can serve */
+const SUPPORTED_SERVICES: ServiceType[] = [
+  SERVICE_TYPES.TEXT_TEXT,
+  SERVICE_TYPES.IMAGE_TEXT,
+  SERVICE_TYPES.DOCUMENT_TEXT,
+];
+
+/** Document MIME type supported by document_text */
+const PDF_MIME_TYPE = 'application/pdf';
+
+// =============================================================================
+// Anthropic Provider Configuration
+// =============================================================================
+
+/**
+ * Configuration for Anthropic provider
+ */
+export interface AnthropicProviderConfig {
+  /** API key from .env.local (ANTHROPIC_API_KEY) */
+  api_key: string;
+
+  /** Messages API URL (default: https://api.anthropic.com/v1/messages) */
+  api_url?: string;
+
+  /** Model for text_text service (e.g., claude-sonnet-4-5) */
+  model_text_text?: string;
+
+  /** Model for image_text service (e.g., claude-sonnet-4-5) */
+  model_image_text?: string;
+
+  /** Model for document_text service (default: model_image_text) */
+  model_document_text?: string;
+
+  /** Default system instruction (overridden per call by params.system_instruction) */
+  system_instruction?: string;
+
+  /** Generation config for text API calls */
+  text_config?: AnthropicGenerationConfig;
+
+  /** Generation config for image and document API calls */
+  image_config?: AnthropicGenerationConfig;
+
+  /** Capabilities this provider supports (default: text_text, image_text, document_text) */
+  capabilities?: ServiceType[];
+
+  /** Logger instance */
+  logger: Logger;
+}
+
+// =============================================================================
+// Anthropic Provider Class
+// =============================================================================
+
+/**
+ * Anthropic LLM Provider
+ * Implements the LLMProvider interface for the Anthropic Messages API
+ */
+export class AnthropicProvider implements LLMProvider {
+  private readonly name = LLM_PROVIDERS.ANTHROPIC;
+  private readonly api_key: string;
+  private readonly api_url: string;
+  private readonly model_text_text: string | undefined;
+  private readonly model_image_text: string | undefined;
+  private readonly model_document_text: string | undefined;
+  private readonly system_instruction: string | undefined;
+  private readonly text_config: AnthropicGenerationConfig | undefined;
+  private readonly image_config: AnthropicGenerationConfig | undefined;
+  private readonly capabilities: LLMCapabilities;
+  private readonly logger: Logger;
+
+  /**
+   * Create a new Anthropic provider instance
+   * @param config - Anthropic provider configuration
+   */
+  constructor(config: AnthropicProviderConfig) {
+    this.api_key = config.api_key;
+    this.api_url = config.api_url || get_anthropic_api_url();
+    this.model_text_text = config.model_text_text;
+    this.model_image_text = config.model_image_text;
+    this.model_document_text = config.model_document_text;
+    this.system_instruction = config.system_instruction;
+    this.text_config = config.text_config;
+    this.image_config = config.image_config;
+    this.logger = config.logger;
+
+    // Set capabilities - only services the Messages API supports
+    if (config.capabilities && config.capabilities.length > 0) {
+      this.capabilities = new Set(
+        config.capabilities.filter(service_type => SUPPORTED_SERVICES.includes(service_type))
+      );
+    } else {
+      this.capabilities = new Set(SUPPORTED_SERVICES);
+    }
+  }
+
+  /**
+   * Get the provider name
+   * @returns Provider name ('anthropic')
+   */
+  get_name(): string {
+    return this.name;
+  }
+
+  /**
+   * Get the capabilities this provider supports
+   * @returns Set of supported service types
+   */
+  get_capabilities(): LLMCapabilities {
+    return new Set(this.capabilities); // Return a copy
+  }
+
+  /**
+   * Get the model name configured for a specific service type
+   * @param service_type - The service type to get the model for
+   * @returns Model name or undefined if not configured
+   */
+  get_model_for_service(service_type: ServiceType): string | undefined {
+    switch (service_type) {
+      case SERVICE_TYPES.TEXT_TEXT:
+        return this.model_text_text;
+      case SERVICE_TYPES.IMAGE_TEXT:
+        return this.model_image_text;
+      case SERVICE_TYPES.DOCUMENT_TEXT:
+        return this.model_document_text || this.model_image_text;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Get the model for a service or throw error
+   * @param service_type - Service type
+   * @returns Model name
+   * @throws Error if model not configured
+   */
+  private get_required_model(service_type: ServiceType): string {
+    const model = this.get_model_for_service(service_type);
+    if (!model) {
+      throw new Error(
+        `Model not configured for service: ${service_type}. ` +
+        `Please set model_${service_type} in the [llm_anthropic] section of config/hazo_llm_api_config.ini.`
+      );
+    }
+    return model;
+  }
+
+  /**
+   * Text input → Text output
+   * Generate text from a text prompt
+   *
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns LLM response with generated text
+   */
+  async text_text(params: TextTextParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'anthropic_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.TEXT_TEXT);
+
+      logger.debug('Anthropic provider: text_text', {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+        },
+      });
+
+      return await call_anthropic_api(
+        this.api_url,
+        this.api_key,
+        model,
+        build_anthropic_messages(params.prompt),
+        logger,
+        merge_anthropic_generation_config(this.text_config, params.generation_overrides),
+        params.system_instruction || this.system_instruction,
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Anthropic text_text', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  /**
+   * Image input → Text output
+   * Analyze an image and generate text description
+   *
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns LLM response with generated text
+   */
+  async image_text(params: ImageTextParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'anthropic_provider.ts';
+
+    try {
+      if (!params.image_b64 || !params.image_mime_type) {
+        return {
+          success: false,
+          error: 'image_b64 and image_mime_type are required',
+        };
+      }
+
+      const model = this.get_required_model(SERVICE_TYPES.IMAGE_TEXT);
+      const image_data: Base64Data[] = [{
+        mime_type: params.image_mime_type,
+        data: params.image_b64,
+      }];
+
+      logger.debug('Anthropic provider: image_text', {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+          image_mime_type: params.image_mime_type,
+        },
+      });
+
+      return await call_anthropic_api(
+        this.api_url,
+        this.api_key,
+        model,
+        build_anthropic_messages(params.prompt, image_data),
+        logger,
+        merge_anthropic_generation_config(this.image_config, params.generation_overrides),
+        params.system_instruction || this.system_instruction,
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Anthropic image_text', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  /**
+   * Text input → Image output
+   * Not supported - the Messages API does not generate images
+   *
+   * @param params - Text input parameters for image generation
+   * @param logger - Logger instance
+   * @returns CAPABILITY_NOT_SUPPORTED error response
+   */
+  async text_image(params: TextImageParams, logger: Logger): Promise<LLMResponse> {
+    return this.build_unsupported_response(SERVICE_TYPES.TEXT_IMAGE, logger);
+  }
+
+  /**
+   * Image input → Image output
+   * Not supported - the Messages API does not generate images
+   *
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns CAPABILITY_NOT_SUPPORTED error response
+   */
+  async image_image(params: ImageImageParams, logger: Logger): Promise<LLMResponse> {
+    return this.build_unsupported_response(SERVICE_TYPES.IMAGE_IMAGE, logger);
+  }
+
+  /**
+   * Document input → Text output
+   * Analyze a PDF sent as a native document block
+   *
+   * @param params - Document input parameters
+   * @param logger - Logger instance
+   * @returns LLM response with generated text
+   */
+  async document_text(params: DocumentTextParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'anthropic_provider.ts';
+
+    try {
+      if (!params.document_b64 || !params.document_mime_type) {
+        return {
+          success: false,
+          error: 'document_b64 and document_mime_type are required',
+        };
+      }
+
+      if (params.document_mime_type !== PDF_MIME_TYPE) {
+        const error_message = `Anthropic document_text supports ${PDF_MIME_TYPE} only, got ${params.document_mime_type}`;
+        return {
+          success: false,
+          error: error_message,
+          error_info: {
+            code: LLM_ERROR_CODES.INVALID_REQUEST,
+            message: error_message,
+            retryable: false,
+          },
+        };
+      }
+
+      const model = this.get_required_model(SERVICE_TYPES.DOCUMENT_TEXT);
+      const document_data: Base64Data[] = [{
+        mime_type: params.document_mime_type,
+        data: params.document_b64,
+      }];
+
+      logger.debug('Anthropic provider: document_text', {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+          document_mime_type: params.document_mime_type,
+          max_pages: params.max_pages,
+        },
+      });
+
+      // Use same config as image analysis
+      return await call_anthropic_api(
+        this.api_url,
+        this.api_key,
+        model,
+        build_anthropic_messages(params.prompt, document_data),
+        logger,
+        merge_anthropic_generation_config(this.image_config, params.generation_overrides),
+        params.system_instruction || this.system_instruction,
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Anthropic document_text', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  // =========================================================================
+  // Streaming Methods
+  // =========================================================================
+
+  /**
+   * Text input → Text output (streaming)
+   * Generate text from a text prompt, yielding chunks as they arrive
+   *
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding text chunks
+   */
+  async text_text_stream(params: TextTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    const file_name = 'anthropic_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.TEXT_TEXT);
+
+      logger.debug('Anthropic provider: text_text_stream', {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+        },
+      });
+
+      return stream_anthropic_api(
+        this.api_url,
+        this.api_key,
+        model,
+        build_anthropic_messages(params.prompt),
+        logger,
+        merge_anthropic_generation_config(this.text_config, params.generation_overrides),
+        params.system_instruction || this.system_instruction,
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Anthropic text_text_stream', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return build_error_stream(LLM_ERROR_CODES.INVALID_REQUEST, error_message);
+    }
+  }
+
+  /**
+   * Image input → Text output (streaming)
+   * Analyze an image, yielding text chunks as they arrive
+   *
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding text chunks
+   */
+  async image_text_stream(params: ImageTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    const file_name = 'anthropic_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.IMAGE_TEXT);
+      const image_data: Base64Data[] = [{
+        mime_type: params.image_mime_type,
+        data: params.image_b64,
+      }];
+
+      logger.debug('Anthropic provider: image_text_stream', {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+          image_mime_type: params.image_mime_type,
+        },
+      });
+
+      return stream_anthropic_api(
+        this.api_url,
+        this.api_key,
+        model,
+        build_anthropic_messages(params.prompt, image_data),
+        logger,
+        merge_anthropic_generation_config(this.image_config, params.generation_overrides),
+        params.system_instruction || this.system_instruction,
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Anthropic image_text_stream', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return build_error_stream(LLM_ERROR_CODES.INVALID_REQUEST, error_message);
+    }
+  }
+
+  // =========================================================================
+  // Helper Methods
+  // =========================================================================
+
+  /**
+   * Build the response for a service this provider cannot serve
+   * @param service_type - The unsupported service type
+   * @param logger - Logger instance
+   * @returns CAPABILITY_NOT_SUPPORTED error response
+   */
+  private build_unsupported_response(service_type: ServiceType, logger: Logger): LLMResponse {
+    const error_message = `Anthropic provider does not support ${service_type}`;
+
+    logger.warn(error_message, {
+      file: 'anthropic_provider.ts',
+      data: { provider: this.name, service_type },
+    });
+
+    return {
+      success: false,
+      error: error_message,
+      error_info: {
+        code: LLM_ERROR_CODES.CAPABILITY_NOT_SUPPORTED,
+        message: error_message,
+        retryable: false,
+        details: { provider: this.name, service_type },
+      },
+    };
+  }
+}
@@ -0,0 +1,27 @@
+/**
+ * Anthropic Provider Exports
+ *
+ * Export all Anthropic-related functions and classes from this module
+ */
+
+export {
+  call_anthropic_api,
+  stream_anthropic_api,
+  extract_anthropic_usage,
+  build_anthropic_messages,
+  merge_anthropic_generation_config,
+  get_anthropic_api_url,
+  type AnthropicGenerationConfig,
+  type AnthropicContentBlock,
+  type AnthropicMessage,
+  type AnthropicApiRequest,
+  type AnthropicApiResponse,
+  type AnthropicStreamEvent,
+} from './anthropic_client.js';
+
+export {
+  AnthropicProvider,
+  type AnthropicProviderConfig,
+} from './anthropic_provider.js';
+
+export { anthropic_factory } from './anthropic_factory.js';
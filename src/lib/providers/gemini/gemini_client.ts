@@ -9,12 +9,28 @@ import type {
   Logger,
   Base64Data,
   LLMResponse,
+  LLMStreamResponse,
   GeminiRequestBody,
   GeminiPart,
   GeminiApiResponse,
   GeminiGenerationConfig,
   GeminiApiGenerationConfig,
+  GeminiContent,
+  ChatMessage,
+  GenerationOverrides,
+  JsonSchema,
+  ToolMessage,
+  ToolDeclaration,
+  ToolCall,
+  ToolTurnResponse,
+  LLMUsage,
 } from '../../llm_api/types.js';
+import { LLM_ERROR_CODES } from '../../llm_api/types.js';
+import {
+  read_sse_events,
+  build_stream_error_chunk,
+  build_http_error_info,
+} from '../stream_utils.js';
 
 // =============================================================================
 // Gemini API Client
@@ -28,6 +44,8 @@ import type {
  * @param b64_data - Optional array of base64 encoded images
  * @param logger - Logger instance
  * @param generation_config - Optional generation configuration parameters
+ * @param system_instruction - Optional system instruction (sent as systemInstruction)
+ * @param signal - Optional abort signal (cancellation / timeout)
  * @returns LLM response with generated text or error
  */
 export async function call_gemini_api(
@@ -36,13 +54,15 @@ export async function call_gemini_api(
   prompt_text: string,
   b64_data: Base64Data[] | undefined,
   logger: Logger,
-  generation_config?: GeminiGenerationConfig
+  generation_config?: GeminiGenerationConfig,
+  system_instruction?: string,
+  signal?: AbortSignal
 ): Promise<LLMResponse> {
   const file_name = 'gemini_client.ts';
   
   try {
     // Build the request body with optional generation config
-    const request_body = build_gemini_request(prompt_text, b64_data, generation_config);
+    const request_body = build_gemini_request(prompt_text, b64_data, generation_config, system_instruction);
     
     // Convert generation config to API format for logging
     const api_generation_config = build_api_generation_config(generation_config);
@@ -58,72 +78,153 @@ export async function call_gemini_api(
         image_count: b64_data?.length || 0,
         first_image_b64_length: first_image_size,
         first_image_mime_type: b64_data && b64_data.length > 0 ? b64_data[0].mime_type : null,
+        has_system_instruction: !!system_instruction,
         generation_config: api_generation_config || 'none (using defaults)',
       },
     });
     
-    // Make the API request
-    const response = await fetch(api_url, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-goog-api-key': api_key,
-      },
-      body: JSON.stringify(request_body),
+    return await send_gemini_request(api_url, api_key, request_body, logger, signal);
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to call Gemini API', {
+      file: file_name,
+      line: 97,
+      data: { error: error_message },
     });
     
-    // Parse the response
-    const response_data = await response.json() as GeminiApiResponse;
-    
-    // Check for errors
-    if (!response.ok || response_data.error) {
-      const error_message = response_data.error?.message || `HTTP ${response.status}`;
-      logger.error('Gemini API returned error', {
-        file: file_name,
-        line: 59,
-        data: {
-          status: response.status,
-          error: response_data.error,
-        },
-      });
-      
-      return {
-        success: false,
-        error: error_message,
-        raw_response: response_data,
-      };
+    return {
+      success: false,
+      error: error_message,
+    };
+  }
+}
+
+/**
+ * Call the Gemini API with a multi-turn conversation
+ * System messages are sent as systemInstruction, assistant turns use the "model" role.
+ *
+ * @param api_url - The Gemini API endpoint URL
+ * @param api_key - The API key for authentication
+ * @param messages - Ordered conversation history
+ * @param logger - Logger instance
+ * @param generation_config - Optional generation configuration parameters
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns LLM response with the assistant reply or error
+ */
+export async function call_gemini_chat_api(
+  api_url: string,
+  api_key: string,
+  messages: ChatMessage[],
+  logger: Logger,
+  generation_config?: GeminiGenerationConfig,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  const file_name = 'gemini_client.ts';
+
+  try {
+    const request_body = build_gemini_chat_request(messages, generation_config);
+
+    logger.info('[GEMINI_CLIENT] Calling Gemini API (chat)', {
+      file: file_name,
+      data: {
+        api_url,
+        turn_count: request_body.contents.length,
+        has_system_instruction: !!request_body.systemInstruction,
+        image_count: messages.reduce((count, msg) => count + (msg.images?.length || 0), 0),
+        generation_config: request_body.generationConfig || 'none (using defaults)',
+      },
+    });
+
+    return await send_gemini_request(api_url, api_key, request_body, logger, signal);
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to call Gemini chat API', {
+      file: file_name,
+      data: { error: error_message },
+    });
+
+    return {
+      success: false,
+      error: error_message,
+    };
+  }
+}
+
+/**
+ * Call the Gemini API with tool (function) declarations for one model turn
+ * Returns the final text, or the function calls the model wants to make.
+ *
+ * @param api_url - The Gemini API endpoint URL
+ * @param api_key - The API key for authentication
+ * @param messages - Tool conversation so far (user prompt, model turns, tool results)
+ * @param tools - Tool declarations
+ * @param logger - Logger instance
+ * @param generation_config - Optional generation configuration parameters
+ * @param system_instruction - Optional system instruction (sent as systemInstruction)
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns Response with text and/or requested tool calls
+ */
+export async function call_gemini_tools_api(
+  api_url: string,
+  api_key: string,
+  messages: ToolMessage[],
+  tools: ToolDeclaration[],
+  logger: Logger,
+  generation_config?: GeminiGenerationConfig,
+  system_instruction?: string,
+  signal?: AbortSignal
+): Promise<ToolTurnResponse> {
+  const file_name = 'gemini_client.ts';
+
+  try {
+    const request_body = build_gemini_tools_request(messages, tools, generation_config, system_instruction);
+
+    logger.info('[GEMINI_CLIENT] Calling Gemini API (tools)', {
+      file: file_name,
+      data: {
+        api_url,
+        turn_count: request_body.contents.length,
+        tool_names: tools.map(tool => tool.name),
+        has_system_instruction: !!system_instruction,
+        generation_config: request_body.generationConfig || 'none (using defaults)',
+      },
+    });
+
+    const { response_data, error_response } = await post_gemini_request(api_url, api_key, request_body, logger, signal);
+    if (error_response) {
+      return error_response;
     }
-    
-    // Extract the generated text from response
+
+    const tool_calls = extract_function_calls_from_response(response_data);
     const generated_text = extract_text_from_response(response_data, logger);
-    
-    if (generated_text) {
-      return {
-        success: true,
-        text: generated_text,
-        raw_response: response_data,
-      };
-    } else {
-      logger.warn('No text content in Gemini response', {
+
+    if (!generated_text && tool_calls.length === 0) {
+      logger.warn('No text or function calls in Gemini response', {
         file: file_name,
-        line: 84,
         data: { raw_response: response_data },
       });
-      
+
       return {
         success: false,
-        error: 'No text content in response',
+        error: 'No text or function calls in response',
         raw_response: response_data,
       };
     }
+
+    return {
+      success: true,
+      ...(generated_text && { text: generated_text }),
+      ...(tool_calls.length > 0 && { tool_calls }),
+      raw_response: response_data,
+      usage: extract_gemini_usage(response_data),
+    };
   } catch (error) {
     const error_message = error instanceof Error ? error.message : String(error);
-    logger.error('Failed to call Gemini API', {
+    logger.error('Failed to call Gemini tools API', {
       file: file_name,
-      line: 97,
       data: { error: error_message },
     });
-    
+
     return {
       success: false,
       error: error_message,
@@ -131,10 +232,261 @@ export async function call_gemini_api(
   }
 }
 
+/**
+ * Send a prepared request body to the Gemini API and parse the text response
+ * @param api_url - The Gemini API endpoint URL
+ * @param api_key - The API key for authentication
+ * @param request_body - The request body to send
+ * @param logger - Logger instance
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns LLM response with generated text or error
+ */
+async function send_gemini_request(
+  api_url: string,
+  api_key: string,
+  request_body: GeminiRequestBody,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  const file_name = 'gemini_client.ts';
+
+  const { response_data, error_response } = await post_gemini_request(api_url, api_key, request_body, logger, signal);
+  if (error_response) {
+    return error_response;
+  }
+  
+  // Extract the generated text from response
+  const generated_text = extract_text_from_response(response_data, logger);
+  
+  if (generated_text) {
+    return {
+      success: true,
+      text: generated_text,
+      raw_response: response_data,
+      usage: extract_gemini_usage(response_data),
+    };
+  } else {
+    logger.warn('No text content in Gemini response', {
+      file: file_name,
+      line: 84,
+      data: { raw_response: response_data },
+    });
+    
+    return {
+      success: false,
+      error: 'No text content in response',
+      raw_response: response_data,
+    };
+  }
+}
+
+/**
+ * POST a request body to the Gemini API
+ * @param api_url - The Gemini API endpoint URL
+ * @param api_key - The API key for authentication
+ * @param request_body - The request body to send
+ * @param logger - Logger instance
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns Parsed response data, plus an error response if the API returned an error
+ */
+async function post_gemini_request(
+  api_url: string,
+  api_key: string,
+  request_body: GeminiRequestBody,
+  logger: Logger,
+  signal?: AbortSignal
+): Promise<{ response_data: GeminiApiResponse; error_response?: LLMResponse }> {
+  const file_name = 'gemini_client.ts';
+
+  // Make the API request
+  const response = await fetch(api_url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'x-goog-api-key': api_key,
+    },
+    body: JSON.stringify(request_body),
+    signal,
+  });
+  
+  // Parse the response
+  const response_data = await response.json() as GeminiApiResponse;
+  
+  // Check for errors
+  if (!response.ok || response_data.error) {
+    const error_message = response_data.error?.message || `HTTP ${response.status}`;
+    logger.error('Gemini API returned error', {
+      file: file_name,
+      line: 59,
+      data: {
+        status: response.status,
+        error: response_data.error,
+      },
+    });
+    
+    return {
+      response_data,
+      error_response: {
+        success: false,
+        error: error_message,
+        error_info: build_http_error_info(response, error_message),
+        raw_response: response_data,
+      },
+    };
+  }
+
+  return { response_data };
+}
+
+/**
+ * Call the Gemini streaming API and yield text chunks as they arrive
+ * Uses the streamGenerateContent endpoint with server-sent events (alt=sse).
+ *
+ * @param api_url - The Gemini generateContent endpoint URL (converted to the streaming endpoint)
+ * @param api_key - The API key for authentication
+ * @param prompt_text - The text prompt to send
+ * @param b64_data - Optional array of base64 encoded images
+ * @param logger - Logger instance
+ * @param generation_config - Optional generation configuration parameters
+ * @param system_instruction - Optional system instruction (sent as systemInstruction)
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns Async generator yielding text chunks, ending with a done chunk
+ */
+export async function* stream_gemini_api(
+  api_url: string,
+  api_key: string,
+  prompt_text: string,
+  b64_data: Base64Data[] | undefined,
+  logger: Logger,
+  generation_config?: GeminiGenerationConfig,
+  system_instruction?: string,
+  signal?: AbortSignal
+): LLMStreamResponse {
+  const file_name = 'gemini_client.ts';
+  const stream_url = get_gemini_stream_api_url(api_url);
+
+  try {
+    const request_body = build_gemini_request(prompt_text, b64_data, generation_config, system_instruction);
+
+    logger.info('[GEMINI_CLIENT] Calling Gemini streaming API', {
+      file: file_name,
+      data: {
+        api_url: stream_url,
+        prompt_text_length: prompt_text?.length || 0,
+        image_count: b64_data?.length || 0,
+        has_system_instruction: !!system_instruction,
+        generation_config: build_api_generation_config(generation_config) || 'none (using defaults)',
+      },
+    });
+
+    const response = await fetch(stream_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'x-goog-api-key': api_key,
+      },
+      body: JSON.stringify(request_body),
+      signal,
+    });
+
+    // Errors are returned as a regular JSON body, not as an event stream
+    if (!response.ok) {
+      const error_data = await response.json().catch(() => null) as GeminiApiResponse | null;
+      const error_message = error_data?.error?.message || `HTTP ${response.status}`;
+      const error_info = build_http_error_info(response, error_message);
+      logger.error('Gemini streaming API returned error', {
+        file: file_name,
+        data: { status: response.status, error: error_data?.error },
+      });
+      yield build_stream_error_chunk(error_info.code, error_info.message, error_info.retryable, error_info.details);
+      return;
+    }
+
+    let chunk_count = 0;
+    let usage: LLMUsage | undefined;
+    for await (const data of read_sse_events(response)) {
+      const event = JSON.parse(data) as GeminiApiResponse;
+
+      // Each event carries cumulative usageMetadata; keep the latest
+      usage = extract_gemini_usage(event) || usage;
+
+      if (event.error) {
+        logger.error('Gemini streaming API returned error event', {
+          file: file_name,
+          data: { error: event.error },
+        });
+        yield build_stream_error_chunk(LLM_ERROR_CODES.API_ERROR, event.error.message);
+        return;
+      }
+
+      const text = extract_text_from_response(event, logger);
+      if (text) {
+        chunk_count++;
+        yield { text, done: false };
+      }
+    }
+
+    logger.debug('Gemini stream completed', {
+      file: file_name,
+      data: { chunk_count, usage },
+    });
+
+    yield { text: '', done: true, ...(usage && { usage }) };
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to stream from Gemini API', {
+      file: file_name,
+      data: { error: error_message },
+    });
+    yield build_stream_error_chunk(LLM_ERROR_CODES.NETWORK_ERROR, error_message, true);
+  }
+}
+
 // =============================================================================
 // Request Building Functions
 // =============================================================================
 
+/**
+ * Merge per-call generation overrides over a configured generation config
+ * Only overrides that are set replace the configured values; the base config is not modified.
+ * @param base_config - Configured generation config (text_config or image_config)
+ * @param overrides - Per-call overrides (optional)
+ * @returns Merged generation config, or the base config if there are no overrides
+ */
+export function merge_gemini_generation_config(
+  base_config: GeminiGenerationConfig | undefined,
+  overrides?: GenerationOverrides
+): GeminiGenerationConfig | undefined {
+  if (!overrides) {
+    return base_config;
+  }
+
+  const merged: GeminiGenerationConfig = { ...base_config };
+
+  if (overrides.temperature !== undefined) {
+    merged.temperature = overrides.temperature;
+  }
+  if (overrides.max_tokens !== undefined) {
+    merged.max_output_tokens = overrides.max_tokens;
+  }
+  if (overrides.top_p !== undefined) {
+    merged.top_p = overrides.top_p;
+  }
+  if (overrides.stop_sequences !== undefined) {
+    merged.stop_sequences = overrides.stop_sequences;
+  }
+  if (overrides.response_mime_type !== undefined) {
+    merged.response_mime_type = overrides.response_mime_type;
+  }
+  if (overrides.response_schema !== undefined) {
+    merged.response_schema = overrides.response_schema;
+    // responseSchema requires a JSON response
+    merged.response_mime_type = 'application/json';
+  }
+
+  return merged;
+}
+
 /**
  * Convert snake_case GeminiGenerationConfig to camelCase API format
  * Only includes parameters that are explicitly set (not undefined)
@@ -179,21 +531,89 @@ function build_api_generation_config(
     api_config.responseMimeType = config.response_mime_type;
     has_params = true;
   }
+  if (config.response_schema !== undefined) {
+    api_config.responseSchema = to_gemini_schema(config.response_schema);
+    has_params = true;
+  }
   
   return has_params ? api_config : undefined;
 }
 
+/**
+ * Convert a JSON Schema into Gemini's responseSchema format (OpenAPI subset)
+ * Type names are upper-cased, ["type", "null"] unions become nullable, and
+ * keywords Gemini rejects (e.g. additionalProperties, $schema) are dropped.
+ * @param schema - JSON Schema definition
+ * @returns Gemini-compatible schema object
+ */
+function to_gemini_schema(schema: JsonSchema): Record<string, unknown> {
+  const gemini_schema: Record<string, unknown> = {};
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    const non_null_types = types.filter(type => type !== 'null');
+    if (non_null_types.length > 0) {
+      gemini_schema.type = non_null_types[0].toUpperCase();
+    }
+    if (types.includes('null')) {
+      gemini_schema.nullable = true;
+    }
+  }
+
+  for (const key of GEMINI_SCHEMA_PASSTHROUGH_KEYS) {
+    if (schema[key] !== undefined) {
+      gemini_schema[key] = schema[key];
+    }
+  }
+
+  if (schema.properties) {
+    gemini_schema.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, to_gemini_schema(value)])
+    );
+  }
+  if (schema.items) {
+    gemini_schema.items = to_gemini_schema(schema.items);
+  }
+  if (schema.anyOf) {
+    gemini_schema.anyOf = schema.anyOf.map(to_gemini_schema);
+  }
+
+  return gemini_schema;
+}
+
+/**
+ * JSON Schema keywords that Gemini's responseSchema accepts unchanged
+ */
+const GEMINI_SCHEMA_PASSTHROUGH_KEYS = [
+  'title',
+  'description',
+  'format',
+  'nullable',
+  'enum',
+  'required',
+  'minimum',
+  'maximum',
+  'minItems',
+  'maxItems',
+  'minLength',
+  'maxLength',
+  'pattern',
+  'propertyOrdering',
+] as const;
+
 /**
  * Build the Gemini API request body
  * @param prompt_text - The text prompt
  * @param b64_data - Optional base64 encoded images
  * @param generation_config - Optional generation configuration parameters
+ * @param system_instruction - Optional system instruction
  * @returns Formatted request body for Gemini API
  */
 function build_gemini_request(
   prompt_text: string,
   b64_data: Base64Data[] | undefined,
-  generation_config?: GeminiGenerationConfig
+  generation_config?: GeminiGenerationConfig,
+  system_instruction?: string
 ): GeminiRequestBody {
   const parts: GeminiPart[] = [];
   
@@ -222,6 +642,12 @@ function build_gemini_request(
     ],
   };
   
+  if (system_instruction) {
+    request_body.systemInstruction = {
+      parts: [{ text: system_instruction }],
+    };
+  }
+  
   // Add generation config if any parameters are set
   const api_generation_config = build_api_generation_config(generation_config);
   if (api_generation_config) {
@@ -231,6 +657,189 @@ function build_gemini_request(
   return request_body;
 }
 
+/**
+ * Build the Gemini API request body for a multi-turn conversation
+ * @param messages - Ordered conversation history
+ * @param generation_config - Optional generation configuration parameters
+ * @returns Formatted request body for Gemini API
+ */
+function build_gemini_chat_request(
+  messages: ChatMessage[],
+  generation_config?: GeminiGenerationConfig
+): GeminiRequestBody {
+  const request_body: GeminiRequestBody = {
+    contents: build_gemini_chat_contents(messages),
+  };
+
+  // System messages are combined into a single system instruction
+  const system_text = messages
+    .filter(msg => msg.role === 'system')
+    .map(msg => msg.content)
+    .join('\n\n');
+  if (system_text) {
+    request_body.systemInstruction = {
+      parts: [{ text: system_text }],
+    };
+  }
+
+  const api_generation_config = build_api_generation_config(generation_config);
+  if (api_generation_config) {
+    request_body.generationConfig = api_generation_config;
+  }
+
+  return request_body;
+}
+
+/**
+ * Build the Gemini API request body for a tool-calling turn
+ * @param messages - Tool conversation so far
+ * @param tools - Tool declarations (sent as functionDeclarations)
+ * @param generation_config - Optional generation configuration parameters
+ * @param system_instruction - Optional system instruction
+ * @returns Formatted request body for Gemini API
+ */
+function build_gemini_tools_request(
+  messages: ToolMessage[],
+  tools: ToolDeclaration[],
+  generation_config?: GeminiGenerationConfig,
+  system_instruction?: string
+): GeminiRequestBody {
+  const request_body: GeminiRequestBody = {
+    contents: build_gemini_tool_contents(messages),
+    tools: [
+      {
+        // Gemini rejects OBJECT schemas without properties, so argument-less tools omit parameters
+        functionDeclarations: tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          ...(Object.keys(tool.parameters.properties || {}).length > 0 && {
+            parameters: to_gemini_schema(tool.parameters),
+          }),
+        })),
+      },
+    ],
+  };
+
+  if (system_instruction) {
+    request_body.systemInstruction = {
+      parts: [{ text: system_instruction }],
+    };
+  }
+
+  const api_generation_config = build_api_generation_config(generation_config);
+  if (api_generation_config) {
+    request_body.generationConfig = api_generation_config;
+  }
+
+  return request_body;
+}
+
+/**
+ * Convert a tool conversation to Gemini contents
+ * Assistant tool calls become functionCall parts on a "model" turn; consecutive
+ * tool results are grouped into one "user" turn of functionResponse parts.
+ * @param messages - Tool conversation so far
+ * @returns Gemini contents array
+ */
+function build_gemini_tool_contents(messages: ToolMessage[]): GeminiContent[] {
+  const contents: GeminiContent[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'tool') {
+      const part: GeminiPart = {
+        functionResponse: {
+          name: msg.name || '',
+          response: to_function_response(msg.content),
+        },
+      };
+      const previous = contents[contents.length - 1];
+
+      if (previous && previous.role === 'user' && previous.parts.every(p => 'functionResponse' in p)) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+      continue;
+    }
+
+    const parts: GeminiPart[] = [];
+    if (msg.content) {
+      parts.push({ text: msg.content });
+    }
+    for (const call of msg.tool_calls || []) {
+      parts.push({
+        functionCall: {
+          name: call.name,
+          args: call.arguments,
+        },
+      });
+    }
+
+    contents.push({
+      role: msg.role === 'assistant' ? 'model' : 'user',
+      parts,
+    });
+  }
+
+  return contents;
+}
+
+/**
+ * Convert a serialized tool result into a functionResponse object
+ * Gemini requires an object, so non-object results are wrapped as { result }.
+ * @param content - Tool result as text/JSON
+ * @returns Object for functionResponse.response
+ */
+function to_function_response(content: string): Record<string, unknown> {
+  try {
+    const parsed: unknown = JSON.parse(content);
+    if (parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+    return { result: parsed };
+  } catch {
+    return { result: content };
+  }
+}
+
+/**
+ * Convert chat messages to Gemini contents
+ * User turns map to the "user" role, assistant turns to the "model" role.
+ * System messages are excluded (sent separately as systemInstruction).
+ * @param messages - Ordered conversation history
+ * @returns Gemini contents array
+ */
+export function build_gemini_chat_contents(messages: ChatMessage[]): GeminiContent[] {
+  const contents: GeminiContent[] = [];
+
+  for (const msg of messages) {
+    if (msg.role === 'system') {
+      continue;
+    }
+
+    const parts: GeminiPart[] = [];
+
+    // Add image parts first (if any), matching single-turn requests
+    for (const img of msg.images || []) {
+      parts.push({
+        inline_data: {
+          mime_type: img.mime_type,
+          data: img.data,
+        },
+      });
+    }
+
+    parts.push({ text: msg.content });
+
+    contents.push({
+      role: msg.role === 'assistant' ? 'model' : 'user',
+      parts,
+    });
+  }
+
+  return contents;
+}
+
 // =============================================================================
 // Response Parsing Functions
 // =============================================================================
@@ -284,6 +893,60 @@ function extract_text_from_response(
   return text_parts.join('');
 }
 
+/**
+ * Extract function calls from a Gemini API response
+ * @param response - The Gemini API response
+ * @returns Tool calls requested by the model (empty if none)
+ */
+function extract_function_calls_from_response(response: GeminiApiResponse): ToolCall[] {
+  const parts = response.candidates?.[0]?.content?.parts || [];
+  const tool_calls: ToolCall[] = [];
+
+  for (const part of parts) {
+    if (part.functionCall) {
+      tool_calls.push({
+        id: part.functionCall.id || '',
+        name: part.functionCall.name,
+        arguments: part.functionCall.args || {},
+      });
+    }
+  }
+
+  return tool_calls;
+}
+
+/**
+ * Extract normalized token usage from a Gemini API response
+ * Thinking tokens are counted as output tokens (they are billed as output).
+ * @param response - The Gemini API response (or any parsed response body)
+ * @returns Token usage, or undefined if the response has no usageMetadata
+ */
+export function extract_gemini_usage(response: unknown): LLMUsage | undefined {
+  const metadata = (response as GeminiApiResponse | null)?.usageMetadata;
+  if (!metadata) {
+    return undefined;
+  }
+
+  const input_tokens = metadata.promptTokenCount || 0;
+  const output_tokens = (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0);
+
+  return {
+    input_tokens,
+    output_tokens,
+    total_tokens: metadata.totalTokenCount ?? input_tokens + output_tokens,
+  };
+}
+
+/**
+ * Get the model name from a Gemini API URL
+ * @param api_url - Gemini endpoint URL (e.g. .../models/gemini-2.5-flash:generateContent)
+ * @returns Model name or undefined if the URL does not contain one
+ */
+export function get_gemini_model_from_url(api_url: string): string | undefined {
+  const match = api_url.match(/\/models\/([^/:?]+)/);
+  return match ? match[1] : undefined;
+}
+
 /**
  * Get the default Gemini API URL
  * @param model - The model name (default: gemini-2.5-flash)
@@ -293,3 +956,12 @@ export function get_gemini_api_url(model: string = 'gemini-2.5-flash'): string {
   return `https://generativelanguage.googleapis.com/v1/models/${model}:generateContent`;
 }
 
+/**
+ * Convert a Gemini generateContent URL into its streaming (SSE) equivalent
+ * @param api_url - The generateContent endpoint URL
+ * @returns The streamGenerateContent URL with alt=sse
+ */
+export function get_gemini_stream_api_url(api_url: string): string {
+  const stream_url = api_url.replace(':generateContent', ':streamGenerateContent');
+  return stream_url.includes('?') ? `${stream_url}&alt=sse` : `${stream_url}?alt=sse`;
+}
@@ -0,0 +1,76 @@
+/**
+ * Gemini Provider Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { GeminiProvider } from './gemini_provider.js';
+import { silent_logger } from '../../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+/**
+ * Replace fetch with a mock returning a text reply
+ * @returns The fetch mock
+ */
+function stub_fetch() {
+  const fetch_mock = vi.fn(async (_url: string, _init: RequestInit) =>
+    Response.json({ candidates: [{ content: { parts: [{ text: 'Hi' }] } }] })
+  );
+  vi.stubGlobal('fetch', fetch_mock);
+  return fetch_mock;
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('GeminiProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the per-call system instruction and generation overrides in the request body', async () => {
+    const fetch_mock = stub_fetch();
+    const provider = new GeminiProvider({
+      api_key: 'key',
+      model_text_text: 'gemini-2.5-flash',
+      text_config: { temperature: 0.7, max_output_tokens: 512 },
+      logger,
+    });
+
+    const response = await provider.text_text({
+      prompt: 'Hello',
+      system_instruction: 'Answer in French',
+      generation_overrides: { temperature: 0, response_mime_type: 'application/json' },
+    }, logger);
+
+    expect(response).toMatchObject({ success: true, text: 'Hi' });
+    const [url, init] = fetch_mock.mock.calls[0];
+    expect(url).toContain('/models/gemini-2.5-flash:generateContent');
+    expect(JSON.parse(String(init.body))).toMatchObject({
+      contents: [{ parts: [{ text: 'Hello' }] }],
+      systemInstruction: { parts: [{ text: 'Answer in French' }] },
+      generationConfig: { temperature: 0, maxOutputTokens: 512, responseMimeType: 'application/json' },
+    });
+  });
+
+  it('omits systemInstruction and keeps the configured generation config without overrides', async () => {
+    const fetch_mock = stub_fetch();
+    const provider = new GeminiProvider({
+      api_key: 'key',
+      model_text_text: 'gemini-2.5-flash',
+      text_config: { temperature: 0.7 },
+      logger,
+    });
+
+    await provider.text_text({ prompt: 'Hello' }, logger);
+
+    const body = JSON.parse(String(fetch_mock.mock.calls[0][1].body));
+    expect(body).not.toHaveProperty('systemInstruction');
+    expect(body.generationConfig).toEqual({ temperature: 0.7 });
+  });
+});
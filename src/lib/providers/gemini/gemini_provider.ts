@@ -16,14 +16,29 @@ import type {
   TextImageParams,
   ImageImageParams,
   DocumentTextParams,
+  ChatParams,
+  ToolTurnParams,
+  ToolTurnResponse,
   LLMResponse,
+  LLMStreamResponse,
   Logger,
   Base64Data,
   GeminiGenerationConfig,
 } from '../../llm_api/types.js';
 import { SERVICE_TYPES } from '../types.js';
-import { call_gemini_api } from './gemini_client.js';
-import { get_gemini_api_url } from './gemini_client.js';
+import {
+  call_gemini_api,
+  call_gemini_chat_api,
+  call_gemini_tools_api,
+  stream_gemini_api,
+} from './gemini_client.js';
+import {
+  get_gemini_api_url,
+  get_gemini_model_from_url,
+  merge_gemini_generation_config,
+  extract_gemini_usage,
+} from './gemini_client.js';
+import { build_http_error_info } from '../stream_utils.js';
 
 // =============================================================================
 // Gemini Provider Configuration
@@ -143,21 +158,23 @@ export class GeminiProvider implements LLMProvider {
   
   /**
    * Get the model name configured for a specific service type
+   * Falls back to the model in the api_url (api_url_image for image output)
+   * when no per-service model is configured.
    * @param service_type - The service type to get the model for
    * @returns Model name or undefined if not configured
    */
   get_model_for_service(service_type: ServiceType): string | undefined {
     switch (service_type) {
       case SERVICE_TYPES.TEXT_TEXT:
-        return this.model_text_text;
+        return this.model_text_text || get_gemini_model_from_url(this.api_url);
       case SERVICE_TYPES.IMAGE_TEXT:
-        return this.model_image_text;
+        return this.model_image_text || get_gemini_model_from_url(this.api_url);
       case SERVICE_TYPES.TEXT_IMAGE:
-        return this.model_text_image;
+        return this.model_text_image || get_gemini_model_from_url(this.api_url_image || this.api_url);
       case SERVICE_TYPES.IMAGE_IMAGE:
-        return this.model_image_image;
+        return this.model_image_image || get_gemini_model_from_url(this.api_url_image || this.api_url);
       case SERVICE_TYPES.DOCUMENT_TEXT:
-        return this.model_document_text;
+        return this.model_document_text || get_gemini_model_from_url(this.api_url);
       default:
         return undefined;
     }
@@ -198,7 +215,9 @@ export class GeminiProvider implements LLMProvider {
       prompt_text,
       undefined, // No image data
       logger,
-      this.text_config
+      merge_gemini_generation_config(this.text_config, params.generation_overrides),
+      params.system_instruction,
+      params.signal
     );
   }
   
@@ -258,7 +277,9 @@ export class GeminiProvider implements LLMProvider {
       params.prompt,
       image_data,
       logger,
-      this.image_config
+      merge_gemini_generation_config(this.image_config, params.generation_overrides),
+      params.system_instruction,
+      params.signal
     );
   }
   
@@ -349,6 +370,7 @@ export class GeminiProvider implements LLMProvider {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(request_body),
+        signal: params.signal,
       });
       
       const data = await response.json();
@@ -360,7 +382,7 @@ export class GeminiProvider implements LLMProvider {
           line: 238,
           data: { status: response.status, error: error_msg, generation_config: gen_config },
         });
-        return { success: false, error: error_msg };
+        return { success: false, error: error_msg, error_info: build_http_error_info(response, error_msg) };
       }
       
       // Extract image and text from response
@@ -390,6 +412,7 @@ export class GeminiProvider implements LLMProvider {
         image_b64,
         image_mime_type,
         raw_response: data,
+        usage: extract_gemini_usage(data),
       };
       
     } catch (error) {
@@ -527,6 +550,7 @@ export class GeminiProvider implements LLMProvider {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(request_body),
+        signal: params.signal,
       });
       
       const data = await response.json();
@@ -538,7 +562,7 @@ export class GeminiProvider implements LLMProvider {
           line: 393,
           data: { status: response.status, error: error_msg, generation_config: gen_config },
         });
-        return { success: false, error: error_msg };
+        return { success: false, error: error_msg, error_info: build_http_error_info(response, error_msg) };
       }
       
       // Extract image and text from response
@@ -568,6 +592,7 @@ export class GeminiProvider implements LLMProvider {
         image_b64,
         image_mime_type,
         raw_response: data,
+        usage: extract_gemini_usage(data),
       };
       
     } catch (error) {
@@ -630,8 +655,166 @@ export class GeminiProvider implements LLMProvider {
       params.prompt,
       document_data,
       logger,
-      this.image_config  // Use same config as image analysis
+      // Use same config as image analysis
+      merge_gemini_generation_config(this.image_config, params.generation_overrides),
+      params.system_instruction,
+      params.signal
     );
   }
-}
 
+  // =========================================================================
+  // Streaming Methods
+  // =========================================================================
+
+  /**
+   * Text input → Text output (streaming)
+   * Generate text from a text prompt, yielding chunks as they arrive
+   *
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding text chunks
+   */
+  async text_text_stream(params: TextTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    const file_name = 'gemini_provider.ts';
+
+    const model = this.model_text_text;
+    const api_url = model ? get_gemini_api_url(model) : this.api_url;
+
+    logger.debug('Gemini provider: text_text_stream', {
+      file: file_name,
+      data: {
+        prompt_length: params.prompt.length,
+        model: model || 'default (from api_url)',
+        api_url,
+      },
+    });
+
+    return stream_gemini_api(
+      api_url,
+      this.api_key,
+      params.prompt,
+      undefined, // No image data
+      logger,
+      merge_gemini_generation_config(this.text_config, params.generation_overrides),
+      params.system_instruction,
+      params.signal
+    );
+  }
+
+  /**
+   * Image input → Text output (streaming)
+   * Analyze an image, yielding text chunks as they arrive
+   *
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding text chunks
+   */
+  async image_text_stream(params: ImageTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    const file_name = 'gemini_provider.ts';
+
+    const model = this.model_image_text;
+    const api_url = model ? get_gemini_api_url(model) : this.api_url;
+
+    logger.debug('Gemini provider: image_text_stream', {
+      file: file_name,
+      data: {
+        prompt_length: params.prompt.length,
+        image_mime_type: params.image_mime_type,
+        model: model || 'default (from api_url)',
+        api_url,
+      },
+    });
+
+    const image_data: Base64Data[] = [{
+      mime_type: params.image_mime_type,
+      data: params.image_b64,
+    }];
+
+    return stream_gemini_api(
+      api_url,
+      this.api_key,
+      params.prompt,
+      image_data,
+      logger,
+      merge_gemini_generation_config(this.image_config, params.generation_overrides),
+      params.system_instruction,
+      params.signal
+    );
+  }
+
+  // =========================================================================
+  // Conversation Methods
+  // =========================================================================
+
+  /**
+   * Multi-turn chat
+   * Uses the image_text model and config when any turn carries images,
+   * otherwise the text_text model and config.
+   *
+   * @param params - Chat parameters with conversation history
+   * @param logger - Logger instance
+   * @returns LLM response with the assistant reply
+   */
+  async chat(params: ChatParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'gemini_provider.ts';
+
+    const has_images = params.messages.some(msg => msg.images && msg.images.length > 0);
+    const model = has_images ? this.model_image_text : this.model_text_text;
+    const api_url = model ? get_gemini_api_url(model) : this.api_url;
+
+    logger.debug('Gemini provider: chat', {
+      file: file_name,
+      data: {
+        message_count: params.messages.length,
+        has_images,
+        model: model || 'default (from api_url)',
+        api_url,
+      },
+    });
+
+    return await call_gemini_chat_api(
+      api_url,
+      this.api_key,
+      params.messages,
+      logger,
+      has_images ? this.image_config : this.text_config,
+      params.signal
+    );
+  }
+
+  /**
+   * Single model turn with tool (function) declarations
+   * Uses the text_text model and configuration
+   *
+   * @param params - Conversation so far and available tools
+   * @param logger - Logger instance
+   * @returns Response with text and/or requested tool calls
+   */
+  async call_with_tools(params: ToolTurnParams, logger: Logger): Promise<ToolTurnResponse> {
+    const file_name = 'gemini_provider.ts';
+
+    const model = this.model_text_text;
+    const api_url = model ? get_gemini_api_url(model) : this.api_url;
+
+    logger.debug('Gemini provider: call_with_tools', {
+      file: file_name,
+      data: {
+        message_count: params.messages.length,
+        tool_count: params.tools.length,
+        model: model || 'default (from api_url)',
+        api_url,
+      },
+    });
+
+    return await call_gemini_tools_api(
+      api_url,
+      this.api_key,
+      params.messages,
+      params.tools,
+      logger,
+      merge_gemini_generation_config(this.text_config, params.generation_overrides),
+      params.system_instruction,
+      params.signal
+    );
+  }
+}
@@ -6,7 +6,15 @@
 
 export {
   call_gemini_api,
+  call_gemini_chat_api,
+  call_gemini_tools_api,
+  build_gemini_chat_contents,
+  stream_gemini_api,
   get_gemini_api_url,
+  get_gemini_stream_api_url,
+  merge_gemini_generation_config,
+  extract_gemini_usage,
+  get_gemini_model_from_url,
 } from './gemini_client.js';
 
 export {
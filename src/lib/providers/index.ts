@@ -6,4 +6,6 @@
 
 export * from './gemini/index.js';
 export * from './qwen/index.js';
+export * from './anthropic/index.js';
 
+export * from './openai_compatible/index.js';
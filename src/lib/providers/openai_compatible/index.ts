@@ -0,0 +1,21 @@
+/**
+ * OpenAI-Compatible Provider Exports
+ *
+ * Export all OpenAI-compatible functions and classes from this module
+ */
+
+export {
+  call_openai_image_api,
+  get_openai_chat_url,
+  get_openai_image_url,
+  type OpenAIImageOptions,
+  type OpenAIImageResponse,
+} from './openai_compatible_client.js';
+
+export {
+  OpenAICompatibleProvider,
+  OPENAI_COMPATIBLE_PROVIDER_TYPE,
+  type OpenAICompatibleProviderConfig,
+} from './openai_compatible_provider.js';
+
+export { openai_compatible_factory } from './openai_compatible_factory.js';
@@ -0,0 +1,163 @@
+/**
+ * OpenAI-Compatible Provider Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  call_openai_image_api,
+  get_openai_chat_url,
+  get_openai_image_url,
+} from './openai_compatible_client.js';
+import { OpenAICompatibleProvider } from './openai_compatible_provider.js';
+import { openai_compatible_factory } from './openai_compatible_factory.js';
+import { register_provider_factory, load_provider_from_config } from '../../config/provider_loader.js';
+import { silent_logger } from '../../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+/**
+ * Replace fetch with a mock answering each request with the next response
+ * @returns The fetch mock
+ */
+function stub_fetch(...responses: Response[]) {
+  const fetch_mock = vi.fn(async (_url: string, _init?: RequestInit) => {
+    const response = responses.shift();
+    if (!response) {
+      throw new Error('Unexpected fetch');
+    }
+    return response;
+  });
+  vi.stubGlobal('fetch', fetch_mock);
+  return fetch_mock;
+}
+
+/**
+ * Build a JSON response
+ */
+function json_response(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), { ...init, headers: { 'content-type': 'application/json', ...init.headers } });
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('OpenAI-compatible URLs', () => {
+  it('appends the endpoint path to the base URL without doubling slashes', () => {
+    expect(get_openai_chat_url('http://localhost:11434/v1')).toBe('http://localhost:11434/v1/chat/completions');
+    expect(get_openai_chat_url('http://localhost:11434/v1/')).toBe('http://localhost:11434/v1/chat/completions');
+    expect(get_openai_chat_url('http://localhost:8080')).toBe('http://localhost:8080/chat/completions');
+    expect(get_openai_image_url('https://api.openai.com/v1//')).toBe('https://api.openai.com/v1/images/generations');
+    expect(get_openai_image_url('http://localhost:8080')).toBe('http://localhost:8080/images/generations');
+  });
+});
+
+describe('OpenAICompatibleProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('derives capabilities from the configured models', () => {
+    const provider = new OpenAICompatibleProvider({
+      name: 'Ollama',
+      base_url: 'http://localhost:11434/v1',
+      api_key: '',
+      model_text_text: 'llama3.2',
+      logger,
+    });
+
+    expect(provider.get_name()).toBe('ollama');
+    expect([...provider.get_capabilities()]).toEqual(['text_text']);
+    expect(() => new OpenAICompatibleProvider({ name: 'x', base_url: '', api_key: '', logger }))
+      .toThrow('base_url is required in the [llm_x] section');
+  });
+
+  it('sends no Authorization header without an API key', async () => {
+    const fetch_mock = stub_fetch(
+      json_response({ choices: [{ message: { content: 'Hi' } }] }),
+      json_response({ choices: [{ message: { content: 'Hi' } }] })
+    );
+    const config = { name: 'local', base_url: 'http://localhost:8080/v1/', model_text_text: 'm', logger };
+
+    expect(await new OpenAICompatibleProvider({ ...config, api_key: '' }).text_text({ prompt: 'Hello' }, logger))
+      .toMatchObject({ success: true, text: 'Hi' });
+    await new OpenAICompatibleProvider({ ...config, api_key: 'sk-test' }).text_text({ prompt: 'Hello' }, logger);
+
+    const [url, init] = fetch_mock.mock.calls[0];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(init?.headers).not.toHaveProperty('Authorization');
+    expect(fetch_mock.mock.calls[1][1]?.headers).toHaveProperty('Authorization', 'Bearer sk-test');
+  });
+
+  it('loads provider_type=openai_compatible sections under their own names', () => {
+    register_provider_factory(openai_compatible_factory);
+    const sections = {
+      llm_ollama: { provider_type: 'openai_compatible', base_url: 'http://localhost:11434/v1', model_text_text: 'llama3.2' },
+      llm_vllm: { provider_type: 'openai_compatible', base_url: 'http://gpu:8000/v1', model_image_text: 'llava' },
+    };
+
+    const ollama = load_provider_from_config('ollama', logger, sections);
+    const vllm = load_provider_from_config('vllm', logger, sections);
+
+    expect(ollama.success && ollama.provider.get_name()).toBe('ollama');
+    expect(vllm.success && vllm.provider.get_name()).toBe('vllm');
+    expect(vllm.success && [...vllm.provider.get_capabilities()]).toEqual(['image_text']);
+  });
+});
+
+describe('call_openai_image_api', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns b64_json images with the revised prompt and sends the image options', async () => {
+    const fetch_mock = stub_fetch(json_response({ data: [{ b64_json: 'aW1n', revised_prompt: 'A red cat' }] }));
+
+    const response = await call_openai_image_api('http://x/v1/images/generations', '', 'gpt-image-1', 'A cat', logger, {
+      size: '1024x1024',
+      response_format: 'b64_json',
+    });
+
+    expect(response).toMatchObject({ success: true, image_b64: 'aW1n', image_mime_type: 'image/png', text: 'A red cat' });
+    expect(JSON.parse(String(fetch_mock.mock.calls[0][1]?.body))).toEqual({
+      model: 'gpt-image-1',
+      prompt: 'A cat',
+      n: 1,
+      size: '1024x1024',
+      response_format: 'b64_json',
+    });
+  });
+
+  it('downloads url images with their content type', async () => {
+    const fetch_mock = stub_fetch(
+      json_response({ data: [{ url: 'http://cdn/image.webp' }] }),
+      new Response(new Uint8Array([1, 2, 3]), { headers: { 'content-type': 'image/webp' } })
+    );
+
+    const response = await call_openai_image_api('http://x/v1/images/generations', 'key', 'dall-e-3', 'A cat', logger);
+
+    expect(response).toMatchObject({ success: true, image_b64: 'AQID', image_mime_type: 'image/webp' });
+    expect(fetch_mock.mock.calls[1][0]).toBe('http://cdn/image.webp');
+  });
+
+  it('reports API errors and responses without an image', async () => {
+    stub_fetch(
+      json_response({ error: { message: 'Rate limit reached' } }, { status: 429 }),
+      json_response({ data: [] })
+    );
+
+    expect(await call_openai_image_api('http://x', '', 'm', 'A cat', logger)).toMatchObject({
+      success: false,
+      error: 'Rate limit reached',
+      error_info: { code: 'RATE_LIMITED', retryable: true },
+    });
+    expect(await call_openai_image_api('http://x', '', 'm', 'A cat', logger)).toMatchObject({
+      success: false,
+      error: 'No image data in response',
+    });
+  });
+});
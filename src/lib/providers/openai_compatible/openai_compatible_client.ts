@@ -0,0 +1,227 @@
+/**
+ * OpenAI-Compatible API Client Module
+ *
+ * Endpoint helpers and the image generation client for servers that implement
+ * the OpenAI REST API (OpenAI, Ollama, vLLM, llama.cpp server, LM Studio).
+ * Chat completions reuse the Qwen client, which speaks the same dialect.
+ */
+
+import type { Logger, LLMResponse } from '../../llm_api/types.js';
+import { build_http_error_info } from '../stream_utils.js';
+import { extract_qwen_usage } from '../qwen/qwen_client.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Chat completions path relative to the base URL */
+const CHAT_COMPLETIONS_PATH = '/chat/completions';
+
+/** Image generation path relative to the base URL */
+const IMAGE_GENERATIONS_PATH = '/images/generations';
+
+/** MIME type used when the server does not report one */
+const DEFAULT_IMAGE_MIME_TYPE = 'image/png';
+
+// =============================================================================
+// OpenAI-Compatible API Types
+// =============================================================================
+
+/**
+ * Options for image generation requests
+ */
+export interface OpenAIImageOptions {
+  /** Image size (e.g., "1024x1024") */
+  size?: string;
+
+  /** Image quality (e.g., "standard", "hd", "high") */
+  quality?: string;
+
+  /** Response format ("b64_json" or "url"); omitted = server default */
+  response_format?: string;
+}
+
+/**
+ * Image generation response (POST /images/generations)
+ */
+export interface OpenAIImageResponse {
+  created?: number;
+  data?: Array<{
+    b64_json?: string;
+    url?: string;
+    revised_prompt?: string;
+  }>;
+  usage?: Record<string, unknown>;
+  error?: {
+    message: string;
+    type?: string;
+    code?: string;
+  };
+}
+
+// =============================================================================
+// URL Helpers
+// =============================================================================
+
+/**
+ * Get the chat completions URL for a base URL
+ * @param base_url - Server base URL (e.g., http://localhost:11434/v1)
+ * @returns Chat completions endpoint URL
+ */
+export function get_openai_chat_url(base_url: string): string {
+  return `${base_url.replace(/\/+$/, '')}${CHAT_COMPLETIONS_PATH}`;
+}
+
+/**
+ * Get the image generation URL for a base URL
+ * @param base_url - Server base URL (e.g., https://api.openai.com/v1)
+ * @returns Image generation endpoint URL
+ */
+export function get_openai_image_url(base_url: string): string {
+  return `${base_url.replace(/\/+$/, '')}${IMAGE_GENERATIONS_PATH}`;
+}
+
+// =============================================================================
+// Image Generation Client
+// =============================================================================
+
+/**
+ * Call the image generation endpoint (POST /images/generations)
+ * Accepts both b64_json and url results; url results are downloaded.
+ *
+ * @param api_url - The image generation endpoint URL
+ * @param api_key - The API key for authentication (empty = no Authorization header)
+ * @param model - The image model name
+ * @param prompt - Text description of the image
+ * @param logger - Logger instance
+ * @param options - Image size, quality and response format (optional)
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns LLM response with the generated image
+ */
+export async function call_openai_image_api(
+  api_url: string,
+  api_key: string,
+  model: string,
+  prompt: string,
+  logger: Logger,
+  options: OpenAIImageOptions = {},
+  signal?: AbortSignal
+): Promise<LLMResponse> {
+  const file_name = 'openai_compatible_client.ts';
+
+  try {
+    const request_body = {
+      model,
+      prompt,
+      n: 1,
+      ...(options.size && { size: options.size }),
+      ...(options.quality && { quality: options.quality }),
+      ...(options.response_format && { response_format: options.response_format }),
+    };
+
+    logger.debug('Calling OpenAI-compatible image API', {
+      file: file_name,
+      data: {
+        api_url,
+        model,
+        prompt_length: prompt.length,
+        options,
+      },
+    });
+
+    const response = await fetch(api_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(api_key && { 'Authorization': `Bearer ${api_key}` }),
+      },
+      body: JSON.stringify(request_body),
+      signal,
+    });
+
+    const response_data = await response.json() as OpenAIImageResponse;
+
+    if (!response.ok || response_data.error) {
+      const error_message = response_data.error?.message || `HTTP ${response.status}`;
+      logger.error('OpenAI-compatible image API returned error', {
+        file: file_name,
+        data: {
+          status: response.status,
+          error: response_data.error,
+          request_model: model,
+        },
+      });
+
+      return {
+        success: false,
+        error: error_message,
+        error_info: build_http_error_info(response, error_message),
+        raw_response: response_data,
+      };
+    }
+
+    const image = response_data.data?.[0];
+    const usage = extract_qwen_usage(response_data);
+
+    if (image?.b64_json) {
+      return {
+        success: true,
+        image_b64: image.b64_json,
+        image_mime_type: DEFAULT_IMAGE_MIME_TYPE,
+        ...(image.revised_prompt && { text: image.revised_prompt }),
+        ...(usage && { usage }),
+        raw_response: response_data,
+      };
+    }
+
+    if (image?.url) {
+      const image_response = await fetch(image.url, { signal });
+
+      if (!image_response.ok) {
+        const error_message = `Failed to download generated image: HTTP ${image_response.status}`;
+        logger.error(error_message, {
+          file: file_name,
+          data: { image_url: image.url },
+        });
+        return {
+          success: false,
+          error: error_message,
+          error_info: build_http_error_info(image_response, error_message),
+          raw_response: response_data,
+        };
+      }
+
+      const image_buffer = Buffer.from(await image_response.arrayBuffer());
+      return {
+        success: true,
+        image_b64: image_buffer.toString('base64'),
+        image_mime_type: image_response.headers.get('content-type') || DEFAULT_IMAGE_MIME_TYPE,
+        ...(image.revised_prompt && { text: image.revised_prompt }),
+        ...(usage && { usage }),
+        raw_response: response_data,
+      };
+    }
+
+    logger.warn('No image in OpenAI-compatible image response', {
+      file: file_name,
+      data: { raw_response: response_data },
+    });
+
+    return {
+      success: false,
+      error: 'No image data in response',
+      raw_response: response_data,
+    };
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to call OpenAI-compatible image API', {
+      file: file_name,
+      data: { error: error_message, model },
+    });
+
+    return {
+      success: false,
+      error: error_message,
+    };
+  }
+}
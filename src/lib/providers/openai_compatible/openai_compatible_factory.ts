@@ -0,0 +1,59 @@
+/**
+ * OpenAI-Compatible Provider Factory
+ *
+ * Loads OpenAI-compatible providers through register_provider_factory.
+ * Any [llm_<name>] section with provider_type=openai_compatible is loaded
+ * with this factory and registered under <name>.
+ */
+
+import type { ProviderFactory } from '../../config/provider_loader.js';
+import type { QwenGenerationConfig } from '../qwen/qwen_client.js';
+import { QWEN_PARAM_MAPPINGS } from '../../config/config_parser.js';
+import {
+  OpenAICompatibleProvider,
+  OPENAI_COMPATIBLE_PROVIDER_TYPE,
+  type OpenAICompatibleProviderConfig,
+} from './openai_compatible_provider.js';
+
+/**
+ * Factory for OpenAI-compatible providers
+ *
+ * Section keys: base_url (required), model_text_text, model_image_text,
+ * model_text_image, image_size, image_quality, image_response_format,
+ * system_instruction, capabilities, api_key_env and text_/image_ generation
+ * parameters (same as Qwen).
+ *
+ * @example
+ * ```ini
+ * [llm_ollama]
+ * provider_type=openai_compatible
+ * base_url=http://localhost:11434/v1
+ * model_text_text=llama3.2
+ * ```
+ */
+export const openai_compatible_factory: ProviderFactory<OpenAICompatibleProviderConfig> = {
+  name: OPENAI_COMPATIBLE_PROVIDER_TYPE,
+  config_section: `llm_${OPENAI_COMPATIBLE_PROVIDER_TYPE}`,
+  text_param_mappings: QWEN_PARAM_MAPPINGS,
+  image_param_mappings: QWEN_PARAM_MAPPINGS,
+  api_key_required: false,
+  build_config: (section, api_key, text_config, image_config, capabilities, logger, provider_name) => ({
+    name: provider_name,
+    api_key,
+    base_url: section.base_url,
+    model_text_text: section.model_text_text,
+    model_image_text: section.model_image_text,
+    model_text_image: section.model_text_image,
+    image_options: {
+      size: section.image_size,
+      quality: section.image_quality,
+      response_format: section.image_response_format,
+    },
+    system_instruction: section.system_instruction,
+    text_config: text_config as QwenGenerationConfig | undefined,
+    image_config: image_config as QwenGenerationConfig | undefined,
+    capabilities,
+    logger,
+  }),
+  create_provider: (config) => new OpenAICompatibleProvider(config),
+};
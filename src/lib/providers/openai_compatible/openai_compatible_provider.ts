@@ -0,0 +1,620 @@
+/**
+ * OpenAI-Compatible Provider Implementation
+ *
+ * Implements the LLMProvider interface for any server exposing the OpenAI
+ * chat completions API: OpenAI, Ollama, vLLM, llama.cpp server, LM Studio.
+ * Each [llm_<name>] section with provider_type=openai_compatible creates an
+ * instance registered under <name>.
+ */
+
+import type {
+  LLMProvider,
+  LLMCapabilities,
+  ServiceType,
+} from '../types.js';
+import type {
+  TextTextParams,
+  ImageTextParams,
+  TextImageParams,
+  ImageImageParams,
+  DocumentTextParams,
+  ChatParams,
+  ToolTurnParams,
+  ToolTurnResponse,
+  LLMResponse,
+  LLMStreamResponse,
+  Logger,
+  Base64Data,
+} from '../../llm_api/types.js';
+import { LLM_ERROR_CODES } from '../../llm_api/types.js';
+import { SERVICE_TYPES } from '../types.js';
+import { build_error_stream } from '../stream_utils.js';
+import {
+  call_qwen_api,
+  call_qwen_tools_api,
+  stream_qwen_api,
+  build_qwen_messages,
+  build_qwen_chat_messages,
+  build_qwen_tool_messages,
+  merge_qwen_generation_config,
+  type QwenGenerationConfig,
+} from '../qwen/qwen_client.js';
+import {
+  call_openai_image_api,
+  get_openai_chat_url,
+  get_openai_image_url,
+  type OpenAIImageOptions,
+} from './openai_compatible_client.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Provider type name used in provider_type= and register_provider_factory */
+export const OPENAI_COMPATIBLE_PROVIDER_TYPE = 'openai_compatible';
+
+/** Service types this provider can serve (when a model is configured) */
+const SUPPORTED_SERVICES: ServiceType[] = [
+  SERVICE_TYPES.TEXT_TEXT,
+  SERVICE_TYPES.IMAGE_TEXT,
+  SERVICE_TYPES.TEXT_IMAGE,
+];
+
+// =============================================================================
+// OpenAI-Compatible Provider Configuration
+// =============================================================================
+
+/**
+ * Configuration for an OpenAI-compatible provider
+ */
+export interface OpenAICompatibleProviderConfig {
+  /** Provider name used in enabled_llms and the llm argument (e.g., "ollama") */
+  name: string;
+
+  /** Server base URL including the API version (e.g., http://localhost:11434/v1) */
+  base_url: string;
+
+  /** API key (empty string = no Authorization header; local servers usually need none) */
+  api_key: string;
+
+  /** Model for text_text service (e.g., llama3.2, gpt-4o-mini) */
+  model_text_text?: string;
+
+  /** Model for image_text service (e.g., llava, gpt-4o) */
+  model_image_text?: string;
+
+  /** Model for text_image service (e.g., gpt-image-1) */
+  model_text_image?: string;
+
+  /** Image generation options for text_image */
+  image_options?: OpenAIImageOptions;
+
+  /** Default system instruction (overridden per call by params.system_instruction) */
+  system_instruction?: string;
+
+  /** Generation config for text API calls */
+  text_config?: QwenGenerationConfig;
+
+  /** Generation config for image API calls */
+  image_config?: QwenGenerationConfig;
+
+  /** Capabilities this provider supports (default: services with a configured model) */
+  capabilities?: ServiceType[];
+
+  /** Logger instance */
+  logger: Logger;
+}
+
+// =============================================================================
+// OpenAI-Compatible Provider Class
+// =============================================================================
+
+/**
+ * OpenAI-compatible LLM Provider
+ * Implements the LLMProvider interface for servers speaking the OpenAI API
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+  private readonly name: string;
+  private readonly api_key: string;
+  private readonly chat_url: string;
+  private readonly image_url: string;
+  private readonly model_text_text: string | undefined;
+  private readonly model_image_text: string | undefined;
+  private readonly model_text_image: string | undefined;
+  private readonly image_options: OpenAIImageOptions;
+  private readonly system_instruction: string | undefined;
+  private readonly text_config: QwenGenerationConfig | undefined;
+  private readonly image_config: QwenGenerationConfig | undefined;
+  private readonly capabilities: LLMCapabilities;
+  private readonly logger: Logger;
+
+  /**
+   * Create a new OpenAI-compatible provider instance
+   * @param config - Provider configuration
+   * @throws Error if name or base_url is missing
+   */
+  constructor(config: OpenAICompatibleProviderConfig) {
+    if (!config.name) {
+      throw new Error('OpenAI-compatible provider requires a name');
+    }
+    if (!config.base_url) {
+      throw new Error(
+        `base_url is required in the [llm_${config.name}] section ` +
+        '(e.g., base_url=http://localhost:11434/v1)'
+      );
+    }
+
+    this.name = config.name.toLowerCase();
+    this.api_key = config.api_key;
+    this.chat_url = get_openai_chat_url(config.base_url);
+    this.image_url = get_openai_image_url(config.base_url);
+    this.model_text_text = config.model_text_text;
+    this.model_image_text = config.model_image_text;
+    this.model_text_image = config.model_text_image;
+    this.image_options = config.image_options || {};
+    this.system_instruction = config.system_instruction;
+    this.text_config = config.text_config;
+    this.image_config = config.image_config;
+    this.logger = config.logger;
+
+    // Set capabilities - default to the services that have a model configured
+    if (config.capabilities && config.capabilities.length > 0) {
+      this.capabilities = new Set(
+        config.capabilities.filter(service_type => SUPPORTED_SERVICES.includes(service_type))
+      );
+    } else {
+      this.capabilities = new Set(
+        SUPPORTED_SERVICES.filter(service_type => this.get_model_for_service(service_type))
+      );
+    }
+  }
+
+  /**
+   * Get the provider name
+   * @returns Provider name (the [llm_<name>] section name)
+   */
+  get_name(): string {
+    return this.name;
+  }
+
+  /**
+   * Get the capabilities this provider supports
+   * @returns Set of supported service types
+   */
+  get_capabilities(): LLMCapabilities {
+    return new Set(this.capabilities); // Return a copy
+  }
+
+  /**
+   * Get the model name configured for a specific service type
+   * @param service_type - The service type to get the model for
+   * @returns Model name or undefined if not configured
+   */
+  get_model_for_service(service_type: ServiceType): string | undefined {
+    switch (service_type) {
+      case SERVICE_TYPES.TEXT_TEXT:
+        return this.model_text_text;
+      case SERVICE_TYPES.IMAGE_TEXT:
+        return this.model_image_text;
+      case SERVICE_TYPES.TEXT_IMAGE:
+        return this.model_text_image;
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Get the model for a service or throw error
+   * @param service_type - Service type
+   * @returns Model name
+   * @throws Error if model not configured
+   */
+  private get_required_model(service_type: ServiceType): string {
+    const model = this.get_model_for_service(service_type);
+    if (!model) {
+      throw new Error(
+        `Model not configured for service: ${service_type}. ` +
+        `Please set model_${service_type} in the [llm_${this.name}] section of config/hazo_llm_api_config.ini.`
+      );
+    }
+    return model;
+  }
+
+  /**
+   * Text input → Text output
+   * Generate text from a text prompt
+   *
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns LLM response with generated text
+   */
+  async text_text(params: TextTextParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'openai_compatible_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.TEXT_TEXT);
+      const messages = build_qwen_messages(
+        params.prompt,
+        params.system_instruction || this.system_instruction
+      );
+
+      logger.debug(`${this.name} provider: text_text`, {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+        },
+      });
+
+      return await call_qwen_api(
+        this.chat_url,
+        this.api_key,
+        model,
+        messages,
+        logger,
+        merge_qwen_generation_config(this.text_config, params.generation_overrides),
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error in ${this.name} text_text`, {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  /**
+   * Image input → Text output
+   * Analyze an image and generate text description
+   *
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns LLM response with generated text
+   */
+  async image_text(params: ImageTextParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'openai_compatible_provider.ts';
+
+    try {
+      if (!params.image_b64 || !params.image_mime_type) {
+        return {
+          success: false,
+          error: 'image_b64 and image_mime_type are required',
+        };
+      }
+
+      const model = this.get_required_model(SERVICE_TYPES.IMAGE_TEXT);
+      const image_data: Base64Data[] = [{
+        mime_type: params.image_mime_type,
+        data: params.image_b64,
+      }];
+
+      const messages = build_qwen_messages(
+        params.prompt,
+        params.system_instruction || this.system_instruction,
+        image_data
+      );
+
+      logger.debug(`${this.name} provider: image_text`, {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+          image_mime_type: params.image_mime_type,
+        },
+      });
+
+      return await call_qwen_api(
+        this.chat_url,
+        this.api_key,
+        model,
+        messages,
+        logger,
+        merge_qwen_generation_config(this.image_config, params.generation_overrides),
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error in ${this.name} image_text`, {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  /**
+   * Text input → Image output
+   * Generate an image from a text prompt via POST /images/generations
+   *
+   * @param params - Text input parameters for image generation
+   * @param logger - Logger instance
+   * @returns LLM response with generated image
+   */
+  async text_image(params: TextImageParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'openai_compatible_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.TEXT_IMAGE);
+
+      logger.debug(`${this.name} provider: text_image`, {
+        file: file_name,
+        data: {
+          model,
+          api_url: this.image_url,
+          prompt_length: params.prompt.length,
+        },
+      });
+
+      return await call_openai_image_api(
+        this.image_url,
+        this.api_key,
+        model,
+        params.prompt,
+        logger,
+        this.image_options,
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error in ${this.name} text_image`, {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  /**
+   * Image input → Image output
+   * Not supported - image editing endpoints differ between compatible servers
+   *
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns CAPABILITY_NOT_SUPPORTED error response
+   */
+  async image_image(params: ImageImageParams, logger: Logger): Promise<LLMResponse> {
+    return this.build_unsupported_response(SERVICE_TYPES.IMAGE_IMAGE, logger);
+  }
+
+  /**
+   * Document input → Text output
+   * Not supported - the chat completions API has no standard PDF input
+   *
+   * @param params - Document input parameters
+   * @param logger - Logger instance
+   * @returns CAPABILITY_NOT_SUPPORTED error response
+   */
+  async document_text(params: DocumentTextParams, logger: Logger): Promise<LLMResponse> {
+    return this.build_unsupported_response(SERVICE_TYPES.DOCUMENT_TEXT, logger);
+  }
+
+  // =========================================================================
+  // Streaming Methods
+  // =========================================================================
+
+  /**
+   * Text input → Text output (streaming)
+   * Generate text from a text prompt, yielding chunks as they arrive
+   *
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding text chunks
+   */
+  async text_text_stream(params: TextTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    const file_name = 'openai_compatible_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.TEXT_TEXT);
+      const messages = build_qwen_messages(
+        params.prompt,
+        params.system_instruction || this.system_instruction
+      );
+
+      logger.debug(`${this.name} provider: text_text_stream`, {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+        },
+      });
+
+      return stream_qwen_api(
+        this.chat_url,
+        this.api_key,
+        model,
+        messages,
+        logger,
+        merge_qwen_generation_config(this.text_config, params.generation_overrides),
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error in ${this.name} text_text_stream`, {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return build_error_stream(LLM_ERROR_CODES.INVALID_REQUEST, error_message);
+    }
+  }
+
+  /**
+   * Image input → Text output (streaming)
+   * Analyze an image, yielding text chunks as they arrive
+   *
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding text chunks
+   */
+  async image_text_stream(params: ImageTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    const file_name = 'openai_compatible_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.IMAGE_TEXT);
+      const image_data: Base64Data[] = [{
+        mime_type: params.image_mime_type,
+        data: params.image_b64,
+      }];
+
+      const messages = build_qwen_messages(
+        params.prompt,
+        params.system_instruction || this.system_instruction,
+        image_data
+      );
+
+      logger.debug(`${this.name} provider: image_text_stream`, {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+          image_mime_type: params.image_mime_type,
+        },
+      });
+
+      return stream_qwen_api(
+        this.chat_url,
+        this.api_key,
+        model,
+        messages,
+        logger,
+        merge_qwen_generation_config(this.image_config, params.generation_overrides),
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error in ${this.name} image_text_stream`, {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return build_error_stream(LLM_ERROR_CODES.INVALID_REQUEST, error_message);
+    }
+  }
+
+  // =========================================================================
+  // Conversation Methods
+  // =========================================================================
+
+  /**
+   * Multi-turn chat
+   * Uses the image_text model and config when any turn carries images,
+   * otherwise the text_text model and config.
+   *
+   * @param params - Chat parameters with conversation history
+   * @param logger - Logger instance
+   * @returns LLM response with the assistant reply
+   */
+  async chat(params: ChatParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'openai_compatible_provider.ts';
+
+    try {
+      const has_images = params.messages.some(msg => msg.images && msg.images.length > 0);
+      const service_type = has_images ? SERVICE_TYPES.IMAGE_TEXT : SERVICE_TYPES.TEXT_TEXT;
+      const model = this.get_required_model(service_type);
+      const messages = build_qwen_chat_messages(params.messages, this.system_instruction);
+
+      logger.debug(`${this.name} provider: chat`, {
+        file: file_name,
+        data: {
+          model,
+          message_count: messages.length,
+          has_images,
+        },
+      });
+
+      return await call_qwen_api(
+        this.chat_url,
+        this.api_key,
+        model,
+        messages,
+        logger,
+        has_images ? this.image_config : this.text_config,
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error in ${this.name} chat`, {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  /**
+   * Single model turn with tool (function) declarations
+   * Uses the text_text model and configuration
+   *
+   * @param params - Conversation so far and available tools
+   * @param logger - Logger instance
+   * @returns Response with text and/or requested tool calls
+   */
+  async call_with_tools(params: ToolTurnParams, logger: Logger): Promise<ToolTurnResponse> {
+    const file_name = 'openai_compatible_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.TEXT_TEXT);
+      const messages = build_qwen_tool_messages(
+        params.messages,
+        params.system_instruction || this.system_instruction
+      );
+
+      logger.debug(`${this.name} provider: call_with_tools`, {
+        file: file_name,
+        data: {
+          model,
+          message_count: messages.length,
+          tool_count: params.tools.length,
+        },
+      });
+
+      return await call_qwen_tools_api(
+        this.chat_url,
+        this.api_key,
+        model,
+        messages,
+        params.tools,
+        logger,
+        merge_qwen_generation_config(this.text_config, params.generation_overrides),
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error(`Error in ${this.name} call_with_tools`, {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  // =========================================================================
+  // Helper Methods
+  // =========================================================================
+
+  /**
+   * Build the response for a service this provider cannot serve
+   * @param service_type - The unsupported service type
+   * @param logger - Logger instance
+   * @returns CAPABILITY_NOT_SUPPORTED error response
+   */
+  private build_unsupported_response(service_type: ServiceType, logger: Logger): LLMResponse {
+    const error_message = `OpenAI-compatible provider "${this.name}" does not support ${service_type}`;
+
+    logger.warn(error_message, {
+      file: 'openai_compatible_provider.ts',
+      data: { provider: this.name, service_type },
+    });
+
+    return {
+      success: false,
+      error: error_message,
+      error_info: {
+        code: LLM_ERROR_CODES.CAPABILITY_NOT_SUPPORTED,
+        message: error_message,
+        retryable: false,
+        details: { provider: this.name, service_type },
+      },
+    };
+  }
+}
@@ -6,13 +6,23 @@
 
 export {
   call_qwen_api,
+  call_qwen_tools_api,
+  stream_qwen_api,
+  extract_qwen_usage,
   build_qwen_messages,
+  build_qwen_chat_messages,
+  build_qwen_tool_messages,
+  merge_qwen_generation_config,
   get_qwen_api_url,
   type QwenGenerationConfig,
+  type QwenResponseFormat,
   type QwenMessage,
   type QwenMessageRole,
+  type QwenTool,
+  type QwenToolCall,
   type QwenApiRequest,
   type QwenApiResponse,
+  type QwenStreamChunk,
 } from './qwen_client.js';
 
 export {
@@ -9,7 +9,22 @@ import type {
   Logger,
   Base64Data,
   LLMResponse,
+  LLMStreamResponse,
+  LLMUsage,
+  ChatMessage,
+  GenerationOverrides,
+  JsonSchema,
+  ToolMessage,
+  ToolDeclaration,
+  ToolCall,
+  ToolTurnResponse,
 } from '../../llm_api/types.js';
+import { LLM_ERROR_CODES } from '../../llm_api/types.js';
+import {
+  read_sse_events,
+  build_stream_error_chunk,
+  build_http_error_info,
+} from '../stream_utils.js';
 
 // =============================================================================
 // Qwen API Types
@@ -43,12 +58,28 @@ export interface QwenGenerationConfig {
   
   /** Frequency penalty */
   frequency_penalty?: number;
+  
+  /** Response format (json_object / json_schema for structured output) */
+  response_format?: QwenResponseFormat;
+}
+
+/**
+ * Qwen response format (OpenAI-compatible)
+ * json_object forces a JSON reply, json_schema additionally constrains it to a schema
+ */
+export interface QwenResponseFormat {
+  type: 'text' | 'json_object' | 'json_schema';
+  json_schema?: {
+    name: string;
+    schema: JsonSchema;
+    strict?: boolean;
+  };
 }
 
 /**
  * Qwen API message role
  */
-export type QwenMessageRole = 'system' | 'user' | 'assistant';
+export type QwenMessageRole = 'system' | 'user' | 'assistant' | 'tool';
 
 /**
  * Qwen API message
@@ -62,6 +93,34 @@ export interface QwenMessage {
       url: string;
     };
   }>;
+  /** Tool calls requested by the model (assistant messages) */
+  tool_calls?: QwenToolCall[];
+  /** ID of the tool call this message answers (tool messages) */
+  tool_call_id?: string;
+}
+
+/**
+ * Qwen tool declaration (OpenAI-compatible function tool)
+ */
+export interface QwenTool {
+  type: 'function';
+  function: {
+    name: string;
+    description: string;
+    parameters: JsonSchema;
+  };
+}
+
+/**
+ * Qwen tool call (arguments are a JSON-encoded string)
+ */
+export interface QwenToolCall {
+  id: string;
+  type: 'function';
+  function: {
+    name: string;
+    arguments: string;
+  };
 }
 
 /**
@@ -79,7 +138,12 @@ export interface QwenApiRequest {
   presence_penalty?: number;
   frequency_penalty?: number;
   result_format?: 'message' | 'text';
+  response_format?: QwenResponseFormat;
+  tools?: QwenTool[];
   stream?: boolean;
+  stream_options?: {
+    include_usage?: boolean;
+  };
 }
 
 /**
@@ -89,7 +153,8 @@ export interface QwenChoice {
   index: number;
   message: {
     role: string;
-    content: string;
+    content: string | null;
+    tool_calls?: QwenToolCall[];
   };
   finish_reason: string;
 }
@@ -115,6 +180,30 @@ export interface QwenApiResponse {
   };
 }
 
+/**
+ * Qwen API streaming chunk (stream: true)
+ * Each server-sent event carries an incremental delta for the first choice
+ */
+export interface QwenStreamChunk {
+  id?: string;
+  model?: string;
+  choices?: Array<{
+    index: number;
+    delta: {
+      role?: string;
+      content?: string | null;
+    };
+    finish_reason: string | null;
+  }>;
+  /** Present on the final chunk when stream_options.include_usage is set */
+  usage?: QwenApiResponse['usage'];
+  error?: {
+    message: string;
+    type: string;
+    code?: string;
+  };
+}
+
 // =============================================================================
 // Qwen API Client
 // =============================================================================
@@ -122,11 +211,12 @@ export interface QwenApiResponse {
 /**
  * Call the Qwen API with messages and optional image data
  * @param api_url - The Qwen API endpoint URL
- * @param api_key - The API key for authentication
+ * @param api_key - The API key for authentication (empty = no Authorization header)
  * @param model - The model name to use
  * @param messages - Array of messages (system + user)
  * @param logger - Logger instance
  * @param generation_config - Optional generation configuration parameters
+ * @param signal - Optional abort signal (cancellation / timeout)
  * @returns LLM response with generated text or error
  */
 export async function call_qwen_api(
@@ -135,44 +225,14 @@ export async function call_qwen_api(
   model: string,
   messages: QwenMessage[],
   logger: Logger,
-  generation_config?: QwenGenerationConfig
+  generation_config?: QwenGenerationConfig,
+  signal?: AbortSignal
 ): Promise<LLMResponse> {
   const file_name = 'qwen_client.ts';
   
   try {
     // Build the request body
-    const request_body: QwenApiRequest = {
-      model,
-      messages,
-    };
-    
-    // Add generation config parameters if provided
-    if (generation_config) {
-      if (generation_config.temperature !== undefined) {
-        request_body.temperature = generation_config.temperature;
-      }
-      if (generation_config.max_tokens !== undefined) {
-        request_body.max_tokens = generation_config.max_tokens;
-      }
-      if (generation_config.top_p !== undefined) {
-        request_body.top_p = generation_config.top_p;
-      }
-      if (generation_config.top_k !== undefined) {
-        request_body.top_k = generation_config.top_k;
-      }
-      if (generation_config.n !== undefined) {
-        request_body.n = generation_config.n;
-      }
-      if (generation_config.stop !== undefined && generation_config.stop.length > 0) {
-        request_body.stop = generation_config.stop;
-      }
-      if (generation_config.presence_penalty !== undefined) {
-        request_body.presence_penalty = generation_config.presence_penalty;
-      }
-      if (generation_config.frequency_penalty !== undefined) {
-        request_body.frequency_penalty = generation_config.frequency_penalty;
-      }
-    }
+    const request_body = build_qwen_request(model, messages, generation_config);
     
     // Log the API call
     logger.debug('Calling Qwen API', {
@@ -192,9 +252,10 @@ export async function call_qwen_api(
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'Authorization': `Bearer ${api_key}`,
+        ...(api_key && { 'Authorization': `Bearer ${api_key}` }),
       },
       body: JSON.stringify(request_body),
+      signal,
     });
     
     // Parse the response
@@ -216,6 +277,7 @@ export async function call_qwen_api(
       return {
         success: false,
         error: error_message,
+        error_info: build_http_error_info(response, error_message),
         raw_response: response_data,
       };
     }
@@ -224,9 +286,11 @@ export async function call_qwen_api(
     const generated_text = extract_text_from_response(response_data, logger);
     
     if (generated_text) {
+      const usage = extract_qwen_usage(response_data);
       return {
         success: true,
         text: generated_text,
+        ...(usage && { usage }),
         raw_response: response_data,
       };
     } else {
@@ -257,6 +321,376 @@ export async function call_qwen_api(
   }
 }
 
+/**
+ * Call the Qwen API with tool (function) declarations for one model turn
+ * Returns the final text, or the tool calls the model wants to make.
+ *
+ * @param api_url - The Qwen API endpoint URL
+ * @param api_key - The API key for authentication (empty = no Authorization header)
+ * @param model - The model name to use
+ * @param messages - Qwen messages (built with build_qwen_tool_messages)
+ * @param tools - Tool declarations
+ * @param logger - Logger instance
+ * @param generation_config - Optional generation configuration parameters
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns Response with text and/or requested tool calls
+ */
+export async function call_qwen_tools_api(
+  api_url: string,
+  api_key: string,
+  model: string,
+  messages: QwenMessage[],
+  tools: ToolDeclaration[],
+  logger: Logger,
+  generation_config?: QwenGenerationConfig,
+  signal?: AbortSignal
+): Promise<ToolTurnResponse> {
+  const file_name = 'qwen_client.ts';
+
+  try {
+    const request_body = build_qwen_request(model, messages, generation_config);
+    request_body.tools = tools.map(tool => ({
+      type: 'function',
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      },
+    }));
+
+    logger.debug('Calling Qwen API (tools)', {
+      file: file_name,
+      data: {
+        api_url,
+        model,
+        message_count: messages.length,
+        tool_names: tools.map(tool => tool.name),
+        generation_config: generation_config || 'none (using defaults)',
+      },
+    });
+
+    const response = await fetch(api_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(api_key && { 'Authorization': `Bearer ${api_key}` }),
+      },
+      body: JSON.stringify(request_body),
+      signal,
+    });
+
+    const response_data = await response.json() as QwenApiResponse;
+
+    if (!response.ok || response_data.error) {
+      const error_message = response_data.error?.message || `HTTP ${response.status}`;
+      logger.error('Qwen API returned error', {
+        file: file_name,
+        data: {
+          status: response.status,
+          error: response_data.error,
+          request_model: model,
+        },
+      });
+
+      return {
+        success: false,
+        error: error_message,
+        error_info: build_http_error_info(response, error_message),
+        raw_response: response_data,
+      };
+    }
+
+    const message = response_data.choices?.[0]?.message;
+    const tool_calls = (message?.tool_calls || []).map(call => parse_qwen_tool_call(call, logger));
+    const generated_text = message?.content || '';
+
+    if (!generated_text && tool_calls.length === 0) {
+      logger.warn('No text or tool calls in Qwen response', {
+        file: file_name,
+        data: { raw_response: response_data },
+      });
+
+      return {
+        success: false,
+        error: 'No text or tool calls in response',
+        raw_response: response_data,
+      };
+    }
+
+    const usage = extract_qwen_usage(response_data);
+    return {
+      success: true,
+      ...(generated_text && { text: generated_text }),
+      ...(tool_calls.length > 0 && { tool_calls }),
+      ...(usage && { usage }),
+      raw_response: response_data,
+    };
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to call Qwen tools API', {
+      file: file_name,
+      data: { error: error_message, model },
+    });
+
+    return {
+      success: false,
+      error: error_message,
+    };
+  }
+}
+
+/**
+ * Call the Qwen API in streaming mode and yield text chunks as they arrive
+ * Sets stream: true on the OpenAI-compatible endpoint and reads server-sent events.
+ *
+ * @param api_url - The Qwen API endpoint URL
+ * @param api_key - The API key for authentication (empty = no Authorization header)
+ * @param model - The model name to use
+ * @param messages - Array of messages (system + user)
+ * @param logger - Logger instance
+ * @param generation_config - Optional generation configuration parameters
+ * @param signal - Optional abort signal (cancellation / timeout)
+ * @returns Async generator yielding text chunks, ending with a done chunk
+ */
+export async function* stream_qwen_api(
+  api_url: string,
+  api_key: string,
+  model: string,
+  messages: QwenMessage[],
+  logger: Logger,
+  generation_config?: QwenGenerationConfig,
+  signal?: AbortSignal
+): LLMStreamResponse {
+  const file_name = 'qwen_client.ts';
+
+  try {
+    const request_body = build_qwen_request(model, messages, generation_config);
+    request_body.stream = true;
+    request_body.stream_options = { include_usage: true };
+
+    logger.debug('Calling Qwen streaming API', {
+      file: file_name,
+      data: {
+        api_url,
+        model,
+        message_count: messages.length,
+        generation_config: generation_config || 'none (using defaults)',
+      },
+    });
+
+    const response = await fetch(api_url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(api_key && { 'Authorization': `Bearer ${api_key}` }),
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify(request_body),
+      signal,
+    });
+
+    // Errors are returned as a regular JSON body, not as an event stream
+    if (!response.ok) {
+      const error_data = await response.json().catch(() => null) as QwenApiResponse | null;
+      const error_message = error_data?.error?.message || `HTTP ${response.status}`;
+      const error_info = build_http_error_info(response, error_message);
+      logger.error('Qwen streaming API returned error', {
+        file: file_name,
+        data: {
+          status: response.status,
+          error: error_data?.error,
+          request_model: model,
+        },
+      });
+      yield build_stream_error_chunk(error_info.code, error_info.message, error_info.retryable, error_info.details);
+      return;
+    }
+
+    let chunk_count = 0;
+    let usage: LLMUsage | undefined;
+    for await (const data of read_sse_events(response)) {
+      if (data === '[DONE]') {
+        break;
+      }
+
+      const event = JSON.parse(data) as QwenStreamChunk;
+      usage = extract_qwen_usage(event) || usage;
+
+      if (event.error) {
+        logger.error('Qwen streaming API returned error event', {
+          file: file_name,
+          data: { error: event.error, request_model: model },
+        });
+        yield build_stream_error_chunk(LLM_ERROR_CODES.API_ERROR, event.error.message);
+        return;
+      }
+
+      const text = event.choices?.[0]?.delta?.content;
+      if (text) {
+        chunk_count++;
+        yield { text, done: false };
+      }
+    }
+
+    logger.debug('Qwen stream completed', {
+      file: file_name,
+      data: { chunk_count, model },
+    });
+
+    yield { text: '', done: true, ...(usage && { usage }) };
+  } catch (error) {
+    const error_message = error instanceof Error ? error.message : String(error);
+    logger.error('Failed to stream from Qwen API', {
+      file: file_name,
+      data: { error: error_message, model },
+    });
+    yield build_stream_error_chunk(LLM_ERROR_CODES.NETWORK_ERROR, error_message, true);
+  }
+}
+
+// =============================================================================
+// Usage Extraction
+// =============================================================================
+
+/**
+ * Extract normalized token usage from a Qwen response
+ * Handles the OpenAI-compatible shape (prompt_tokens/completion_tokens) and the
+ * DashScope native shape (input_tokens/output_tokens) used by the image APIs.
+ *
+ * @param response - Raw Qwen response or stream chunk
+ * @returns Normalized usage, or undefined if the response has no token counts
+ */
+export function extract_qwen_usage(response: unknown): LLMUsage | undefined {
+  const usage = (response as { usage?: Record<string, unknown> } | null)?.usage;
+  if (!usage || typeof usage !== 'object') {
+    return undefined;
+  }
+
+  const input_tokens = Number(usage.prompt_tokens ?? usage.input_tokens);
+  const output_tokens = Number(usage.completion_tokens ?? usage.output_tokens ?? 0);
+  if (isNaN(input_tokens) || isNaN(output_tokens)) {
+    return undefined;
+  }
+
+  const total_tokens = Number(usage.total_tokens ?? input_tokens + output_tokens);
+
+  return { input_tokens, output_tokens, total_tokens };
+}
+
+// =============================================================================
+// Request Building Functions
+// =============================================================================
+
+/**
+ * Merge per-call generation overrides over a configured generation config
+ * Only overrides that are set replace the configured values; the base config is not modified.
+ * A response_mime_type of application/json maps to response_format json_object.
+ * @param base_config - Configured generation config (text_config or image_config)
+ * @param overrides - Per-call overrides (optional)
+ * @returns Merged generation config, or the base config if there are no overrides
+ */
+export function merge_qwen_generation_config(
+  base_config: QwenGenerationConfig | undefined,
+  overrides?: GenerationOverrides
+): QwenGenerationConfig | undefined {
+  if (!overrides) {
+    return base_config;
+  }
+
+  const merged: QwenGenerationConfig = { ...base_config };
+
+  if (overrides.temperature !== undefined) {
+    merged.temperature = overrides.temperature;
+  }
+  if (overrides.max_tokens !== undefined) {
+    merged.max_tokens = overrides.max_tokens;
+  }
+  if (overrides.top_p !== undefined) {
+    merged.top_p = overrides.top_p;
+  }
+  if (overrides.stop_sequences !== undefined) {
+    merged.stop = overrides.stop_sequences;
+  }
+  if (overrides.response_mime_type !== undefined) {
+    merged.response_format = {
+      type: overrides.response_mime_type === 'application/json' ? 'json_object' : 'text',
+    };
+  }
+  if (overrides.response_schema !== undefined) {
+    merged.response_format = {
+      type: 'json_schema',
+      json_schema: {
+        name: sanitize_schema_name(overrides.response_schema.title),
+        schema: overrides.response_schema,
+      },
+    };
+  }
+
+  return merged;
+}
+
+/**
+ * Build a response_format schema name from a schema title
+ * Names may only contain letters, digits, underscores and dashes
+ * @param title - Schema title (optional)
+ * @returns Sanitized schema name (default: "response")
+ */
+function sanitize_schema_name(title?: string): string {
+  const name = (title || '').replace(/[^a-zA-Z0-9_-]/g, '_').slice(0, 64);
+  return name || 'response';
+}
+
+/**
+ * Build the Qwen chat completions request body
+ * Only includes generation parameters that are explicitly set
+ * @param model - The model name to use
+ * @param messages - Array of messages
+ * @param generation_config - Optional generation configuration parameters
+ * @returns Formatted request body for the Qwen API
+ */
+function build_qwen_request(
+  model: string,
+  messages: QwenMessage[],
+  generation_config?: QwenGenerationConfig
+): QwenApiRequest {
+  const request_body: QwenApiRequest = {
+    model,
+    messages,
+  };
+
+  if (generation_config) {
+    if (generation_config.temperature !== undefined) {
+      request_body.temperature = generation_config.temperature;
+    }
+    if (generation_config.max_tokens !== undefined) {
+      request_body.max_tokens = generation_config.max_tokens;
+    }
+    if (generation_config.top_p !== undefined) {
+      request_body.top_p = generation_config.top_p;
+    }
+    if (generation_config.top_k !== undefined) {
+      request_body.top_k = generation_config.top_k;
+    }
+    if (generation_config.n !== undefined) {
+      request_body.n = generation_config.n;
+    }
+    if (generation_config.stop !== undefined && generation_config.stop.length > 0) {
+      request_body.stop = generation_config.stop;
+    }
+    if (generation_config.presence_penalty !== undefined) {
+      request_body.presence_penalty = generation_config.presence_penalty;
+    }
+    if (generation_config.frequency_penalty !== undefined) {
+      request_body.frequency_penalty = generation_config.frequency_penalty;
+    }
+    if (generation_config.response_format !== undefined) {
+      request_body.response_format = generation_config.response_format;
+    }
+  }
+
+  return request_body;
+}
+
 // =============================================================================
 // Response Parsing Functions
 // =============================================================================
@@ -294,6 +728,38 @@ function extract_text_from_response(
   return first_choice.message.content;
 }
 
+/**
+ * Convert a Qwen tool call to a ToolCall, decoding the JSON arguments
+ * Unparseable arguments are logged and passed on as an empty object so the
+ * tool loop can report the validation error back to the model.
+ * @param call - Qwen tool call
+ * @param logger - Logger instance
+ * @returns Normalized tool call
+ */
+function parse_qwen_tool_call(call: QwenToolCall, logger: Logger): ToolCall {
+  let args: Record<string, unknown> = {};
+
+  if (call.function.arguments) {
+    try {
+      const parsed: unknown = JSON.parse(call.function.arguments);
+      if (parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)) {
+        args = parsed as Record<string, unknown>;
+      }
+    } catch {
+      logger.warn('Qwen tool call arguments are not valid JSON', {
+        file: 'qwen_client.ts',
+        data: { tool: call.function.name, arguments: call.function.arguments },
+      });
+    }
+  }
+
+  return {
+    id: call.id || '',
+    name: call.function.name,
+    arguments: args,
+  };
+}
+
 /**
  * Get the default Qwen API URL
  * @returns The default DashScope API URL
@@ -346,42 +812,125 @@ export function build_qwen_messages(
     });
   }
   
-  // Build user message content
-  if (b64_data && b64_data.length > 0) {
-    // Multi-modal message with images
-    const content: Array<{ type: 'text' | 'image_url'; text?: string; image_url?: { url: string } }> = [];
-    
-    // Add images first
-    for (const img of b64_data) {
-      content.push({
-        type: 'image_url',
-        image_url: {
-          url: `data:${img.mime_type};base64,${img.data}`,
-        },
-      });
-    }
-    
-    // Add text prompt
-    content.push({
-      type: 'text',
-      text: prompt,
+  messages.push({
+    role: 'user',
+    content: build_qwen_content(prompt, b64_data),
+  });
+  
+  return messages;
+}
+
+/**
+ * Build Qwen messages array from a multi-turn conversation
+ * Inline images on a turn become image_url parts (images first, then text).
+ * @param chat_messages - Ordered conversation history
+ * @param system_instruction - Optional default system instruction (used when the history has no system message)
+ * @returns Array of Qwen messages
+ */
+export function build_qwen_chat_messages(
+  chat_messages: ChatMessage[],
+  system_instruction?: string
+): QwenMessage[] {
+  const messages: QwenMessage[] = [];
+
+  if (system_instruction && !chat_messages.some(msg => msg.role === 'system')) {
+    messages.push({
+      role: 'system',
+      content: system_instruction,
     });
-    
+  }
+
+  for (const msg of chat_messages) {
     messages.push({
-      role: 'user',
-      content,
+      role: msg.role,
+      content: build_qwen_content(msg.content, msg.images),
     });
-  } else {
-    // Text-only message
+  }
+
+  return messages;
+}
+
+/**
+ * Build Qwen messages array from a tool conversation
+ * Assistant tool calls are sent with JSON-encoded arguments, tool results as "tool" messages.
+ * @param tool_messages - Tool conversation so far
+ * @param system_instruction - Optional system instruction
+ * @returns Array of Qwen messages
+ */
+export function build_qwen_tool_messages(
+  tool_messages: ToolMessage[],
+  system_instruction?: string
+): QwenMessage[] {
+  const messages: QwenMessage[] = [];
+
+  if (system_instruction) {
     messages.push({
-      role: 'user',
-      content: prompt,
+      role: 'system',
+      content: system_instruction,
     });
   }
-  
+
+  for (const msg of tool_messages) {
+    const message: QwenMessage = {
+      role: msg.role,
+      content: msg.content,
+    };
+
+    if (msg.tool_calls && msg.tool_calls.length > 0) {
+      message.tool_calls = msg.tool_calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: {
+          name: call.name,
+          arguments: JSON.stringify(call.arguments),
+        },
+      }));
+    }
+    if (msg.tool_call_id) {
+      message.tool_call_id = msg.tool_call_id;
+    }
+
+    messages.push(message);
+  }
+
   return messages;
 }
 
+/**
+ * Build Qwen message content from text and optional images
+ * @param text - The text content
+ * @param b64_data - Optional array of base64 encoded images
+ * @returns Plain string for text-only content, or multi-modal parts array
+ */
+function build_qwen_content(
+  text: string,
+  b64_data?: Base64Data[]
+): QwenMessage['content'] {
+  if (!b64_data || b64_data.length === 0) {
+    return text;
+  }
+
+  const content: Array<{ type: 'text' | 'image_url'; text?: string; image_url?: { url: string } }> = [];
+
+  // Add images first
+  for (const img of b64_data) {
+    content.push({
+      type: 'image_url',
+      image_url: {
+        url: `data:${img.mime_type};base64,${img.data}`,
+      },
+    });
+  }
+
+  // Add text prompt
+  content.push({
+    type: 'text',
+    text,
+  });
+
+  return content;
+}
+
 /**
  * Call the DashScope image generation API
  * @param api_url - The DashScope image generation API endpoint URL
@@ -390,6 +939,7 @@ export function build_qwen_messages(
  * @param prompt - The text prompt for image generation
  * @param logger - Logger instance
  * @param generation_config - Optional generation configuration parameters
+ * @param signal - Optional abort signal (cancellation / timeout)
  * @returns LLM response with generated image or error
  */
 export async function call_qwen_image_api(
@@ -398,7 +948,8 @@ export async function call_qwen_image_api(
   model: string,
   prompt: string,
   logger: Logger,
-  generation_config?: QwenGenerationConfig
+  generation_config?: QwenGenerationConfig,
+  signal?: AbortSignal
 ): Promise<LLMResponse> {
   const file_name = 'qwen_client.ts';
   
@@ -453,6 +1004,7 @@ export async function call_qwen_image_api(
         'X-DashScope-Async': 'enable', // Enable async mode
       },
       body: JSON.stringify(request_body),
+      signal,
     });
     
     // Parse the response - handle both JSON and text responses
@@ -517,6 +1069,7 @@ export async function call_qwen_image_api(
       return {
         success: false,
         error: error_message,
+        error_info: build_http_error_info(response, error_message),
         raw_response: parsed_response,
       };
     }
@@ -544,6 +1097,7 @@ export async function call_qwen_image_api(
           headers: {
             'Authorization': `Bearer ${api_key}`,
           },
+          signal,
         });
         
         if (!status_response.ok) {
@@ -660,7 +1214,7 @@ export async function call_qwen_image_api(
     if (results && results.length > 0 && results[0].url) {
       // Fetch the image from the URL and convert to base64
       const image_url = results[0].url;
-      const image_response = await fetch(image_url);
+      const image_response = await fetch(image_url, { signal });
       if (!image_response.ok) {
         return {
           success: false,
@@ -726,6 +1280,7 @@ export async function call_qwen_image_api(
  * @param input_images - Array of base64 encoded input images with mime types (1-3 images supported)
  * @param logger - Logger instance
  * @param generation_config - Optional generation configuration parameters
+ * @param signal - Optional abort signal (cancellation / timeout)
  * @returns LLM response with edited image or error
  */
 export async function call_qwen_image_edit_api(
@@ -735,7 +1290,8 @@ export async function call_qwen_image_edit_api(
   prompt: string,
   input_images: Base64Data[],
   logger: Logger,
-  generation_config?: QwenGenerationConfig
+  generation_config?: QwenGenerationConfig,
+  signal?: AbortSignal
 ): Promise<LLMResponse> {
   const file_name = 'qwen_client.ts';
   
@@ -858,6 +1414,7 @@ export async function call_qwen_image_edit_api(
         'Authorization': `Bearer ${api_key}`,
       },
       body: JSON.stringify(request_body),
+      signal,
     });
     
     // Parse the response - handle both chat completions and multimodal generation formats
@@ -894,6 +1451,7 @@ export async function call_qwen_image_edit_api(
       return {
         success: false,
         error: error_message,
+        error_info: build_http_error_info(response, error_message),
         raw_response: raw_response,
       };
     }
@@ -987,7 +1545,7 @@ export async function call_qwen_image_edit_api(
         if (item.image && typeof item.image === 'string') {
           const image_url = item.image;
           try {
-            const image_response = await fetch(image_url);
+            const image_response = await fetch(image_url, { signal });
             if (!image_response.ok) {
               return {
                 success: false,
@@ -1045,7 +1603,7 @@ export async function call_qwen_image_edit_api(
           } else {
             // Fetch from URL
             try {
-              const image_response = await fetch(image_url);
+              const image_response = await fetch(image_url, { signal });
               if (!image_response.ok) {
                 return {
                   success: false,
@@ -1096,7 +1654,7 @@ export async function call_qwen_image_edit_api(
       if (url_match) {
         const image_url = url_match[0];
         try {
-          const image_response = await fetch(image_url);
+          const image_response = await fetch(image_url, { signal });
           if (!image_response.ok) {
             return {
               success: false,
@@ -1179,7 +1737,7 @@ export async function call_qwen_image_edit_api(
           } else {
             // Fetch from URL
             try {
-              const image_response = await fetch(image_url);
+              const image_response = await fetch(image_url, { signal });
               if (!image_response.ok) {
                 return {
                   success: false,
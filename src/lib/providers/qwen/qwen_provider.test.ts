@@ -0,0 +1,73 @@
+/**
+ * Qwen Provider Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { QwenProvider } from './qwen_provider.js';
+import { silent_logger } from '../../testing/test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+/**
+ * Replace fetch with a mock returning a text reply
+ * @returns The fetch mock
+ */
+function stub_fetch() {
+  const fetch_mock = vi.fn(async (_url: string, _init: RequestInit) =>
+    Response.json({ choices: [{ message: { role: 'assistant', content: 'Hi' } }] })
+  );
+  vi.stubGlobal('fetch', fetch_mock);
+  return fetch_mock;
+}
+
+/**
+ * Request body of a fetch call
+ */
+function request_body(fetch_mock: ReturnType<typeof stub_fetch>, index = 0) {
+  return JSON.parse(String(fetch_mock.mock.calls[index][1].body));
+}
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('QwenProvider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('sends the per-call system instruction as the system message over the configured one', async () => {
+    const fetch_mock = stub_fetch();
+    const provider = new QwenProvider({
+      api_key: 'key',
+      model_text_text: 'qwen-plus',
+      system_instruction: 'Configured',
+      text_config: { temperature: 0.7, max_tokens: 512 },
+      logger,
+    });
+
+    await provider.text_text({ prompt: 'Hello' }, logger);
+    const response = await provider.text_text({
+      prompt: 'Hello',
+      system_instruction: 'Answer in French',
+      generation_overrides: { temperature: 0, response_mime_type: 'application/json' },
+    }, logger);
+
+    expect(response).toMatchObject({ success: true, text: 'Hi' });
+    expect(request_body(fetch_mock, 0)).toMatchObject({
+      messages: [{ role: 'system', content: 'Configured' }, { role: 'user', content: 'Hello' }],
+      temperature: 0.7,
+    });
+    expect(request_body(fetch_mock, 1)).toMatchObject({
+      model: 'qwen-plus',
+      messages: [{ role: 'system', content: 'Answer in French' }, { role: 'user', content: 'Hello' }],
+      temperature: 0,
+      max_tokens: 512,
+      response_format: { type: 'json_object' },
+    });
+  });
+});
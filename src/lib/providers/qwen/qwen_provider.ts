@@ -16,16 +16,28 @@ import type {
   TextImageParams,
   ImageImageParams,
   DocumentTextParams,
+  ChatParams,
+  ToolTurnParams,
+  ToolTurnResponse,
   LLMResponse,
+  LLMStreamResponse,
   Logger,
   Base64Data,
 } from '../../llm_api/types.js';
+import { LLM_ERROR_CODES } from '../../llm_api/types.js';
 import { SERVICE_TYPES } from '../types.js';
+import { build_error_stream } from '../stream_utils.js';
 import {
   call_qwen_api,
+  call_qwen_tools_api,
+  stream_qwen_api,
   call_qwen_image_api,
   call_qwen_image_edit_api,
+  extract_qwen_usage,
   build_qwen_messages,
+  build_qwen_chat_messages,
+  build_qwen_tool_messages,
+  merge_qwen_generation_config,
   get_qwen_api_url,
   get_qwen_image_api_url,
   get_qwen_image_edit_api_url,
@@ -70,7 +82,7 @@ export interface QwenProviderConfig {
   /** API URL for image_image service (optional, uses api_url if not specified) */
   api_url_image_image?: string;
   
-  /** Default system instruction */
+  /** Default system instruction (overridden per call by params.system_instruction) */
   system_instruction?: string;
   
   /** Generation config for text API calls */
@@ -244,7 +256,7 @@ export class QwenProvider implements LLMProvider {
       const model = this.get_required_model(SERVICE_TYPES.TEXT_TEXT);
       const messages = build_qwen_messages(
         params.prompt,
-        this.system_instruction
+        params.system_instruction || this.system_instruction
       );
       
       logger.debug('Qwen provider: text_text', {
@@ -263,7 +275,8 @@ export class QwenProvider implements LLMProvider {
         model,
         messages,
         logger,
-        this.text_config
+        merge_qwen_generation_config(this.text_config, params.generation_overrides),
+        params.signal
       );
     } catch (error) {
       const error_message = error instanceof Error ? error.message : String(error);
@@ -303,7 +316,7 @@ export class QwenProvider implements LLMProvider {
       
       const messages = build_qwen_messages(
         params.prompt,
-        this.system_instruction,
+        params.system_instruction || this.system_instruction,
         image_data
       );
       
@@ -324,7 +337,8 @@ export class QwenProvider implements LLMProvider {
         model,
         messages,
         logger,
-        this.image_config
+        merge_qwen_generation_config(this.image_config, params.generation_overrides),
+        params.signal
       );
     } catch (error) {
       const error_message = error instanceof Error ? error.message : String(error);
@@ -363,14 +377,18 @@ export class QwenProvider implements LLMProvider {
         },
       });
       
-      return await call_qwen_image_api(
+      const response = await call_qwen_image_api(
         api_url,
         this.api_key,
         model,
         params.prompt,
         logger,
-        this.image_config
+        this.image_config,
+        params.signal
       );
+
+      const usage = response.usage || extract_qwen_usage(response.raw_response);
+      return usage ? { ...response, usage } : response;
     } catch (error) {
       const error_message = error instanceof Error ? error.message : String(error);
       logger.error('Error in Qwen text_image', {
@@ -439,15 +457,19 @@ export class QwenProvider implements LLMProvider {
         },
       });
       
-      return await call_qwen_image_edit_api(
+      const response = await call_qwen_image_edit_api(
         api_url,
         this.api_key,
         model,
         params.prompt,
         input_images,
         logger,
-        this.image_config
+        this.image_config,
+        params.signal
       );
+
+      const usage = response.usage || extract_qwen_usage(response.raw_response);
+      return usage ? { ...response, usage } : response;
     } catch (error) {
       const error_message = error instanceof Error ? error.message : String(error);
       logger.error('Error in Qwen image_image', {
@@ -491,5 +513,206 @@ export class QwenProvider implements LLMProvider {
         'Please use Gemini provider for base64 PDF analysis, or provide a document URL.',
     };
   }
-}
 
+  // =========================================================================
+  // Streaming Methods
+  // =========================================================================
+
+  /**
+   * Text input → Text output (streaming)
+   * Generate text from a text prompt, yielding chunks as they arrive
+   *
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding text chunks
+   */
+  async text_text_stream(params: TextTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    const file_name = 'qwen_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.TEXT_TEXT);
+      const messages = build_qwen_messages(
+        params.prompt,
+        params.system_instruction || this.system_instruction
+      );
+
+      logger.debug('Qwen provider: text_text_stream', {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+        },
+      });
+
+      const api_url = this.get_api_url_for_service(SERVICE_TYPES.TEXT_TEXT);
+      return stream_qwen_api(
+        api_url,
+        this.api_key,
+        model,
+        messages,
+        logger,
+        merge_qwen_generation_config(this.text_config, params.generation_overrides),
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Qwen text_text_stream', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return build_error_stream(LLM_ERROR_CODES.INVALID_REQUEST, error_message);
+    }
+  }
+
+  /**
+   * Image input → Text output (streaming)
+   * Analyze an image, yielding text chunks as they arrive
+   *
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding text chunks
+   */
+  async image_text_stream(params: ImageTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    const file_name = 'qwen_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.IMAGE_TEXT);
+      const image_data: Base64Data[] = [{
+        mime_type: params.image_mime_type,
+        data: params.image_b64,
+      }];
+
+      const messages = build_qwen_messages(
+        params.prompt,
+        params.system_instruction || this.system_instruction,
+        image_data
+      );
+
+      logger.debug('Qwen provider: image_text_stream', {
+        file: file_name,
+        data: {
+          model,
+          prompt_length: params.prompt.length,
+          image_mime_type: params.image_mime_type,
+        },
+      });
+
+      const api_url = this.get_api_url_for_service(SERVICE_TYPES.IMAGE_TEXT);
+      return stream_qwen_api(
+        api_url,
+        this.api_key,
+        model,
+        messages,
+        logger,
+        merge_qwen_generation_config(this.image_config, params.generation_overrides),
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Qwen image_text_stream', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return build_error_stream(LLM_ERROR_CODES.INVALID_REQUEST, error_message);
+    }
+  }
+
+  // =========================================================================
+  // Conversation Methods
+  // =========================================================================
+
+  /**
+   * Multi-turn chat
+   * Uses the image_text model and config when any turn carries images,
+   * otherwise the text_text model and config.
+   *
+   * @param params - Chat parameters with conversation history
+   * @param logger - Logger instance
+   * @returns LLM response with the assistant reply
+   */
+  async chat(params: ChatParams, logger: Logger): Promise<LLMResponse> {
+    const file_name = 'qwen_provider.ts';
+
+    try {
+      const has_images = params.messages.some(msg => msg.images && msg.images.length > 0);
+      const service_type = has_images ? SERVICE_TYPES.IMAGE_TEXT : SERVICE_TYPES.TEXT_TEXT;
+      const model = this.get_required_model(service_type);
+      const messages = build_qwen_chat_messages(params.messages, this.system_instruction);
+
+      logger.debug('Qwen provider: chat', {
+        file: file_name,
+        data: {
+          model,
+          message_count: messages.length,
+          has_images,
+        },
+      });
+
+      const api_url = this.get_api_url_for_service(service_type);
+      return await call_qwen_api(
+        api_url,
+        this.api_key,
+        model,
+        messages,
+        logger,
+        has_images ? this.image_config : this.text_config,
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Qwen chat', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+
+  /**
+   * Single model turn with tool (function) declarations
+   * Uses the text_text model and configuration
+   *
+   * @param params - Conversation so far and available tools
+   * @param logger - Logger instance
+   * @returns Response with text and/or requested tool calls
+   */
+  async call_with_tools(params: ToolTurnParams, logger: Logger): Promise<ToolTurnResponse> {
+    const file_name = 'qwen_provider.ts';
+
+    try {
+      const model = this.get_required_model(SERVICE_TYPES.TEXT_TEXT);
+      const messages = build_qwen_tool_messages(
+        params.messages,
+        params.system_instruction || this.system_instruction
+      );
+
+      logger.debug('Qwen provider: call_with_tools', {
+        file: file_name,
+        data: {
+          model,
+          message_count: messages.length,
+          tool_count: params.tools.length,
+        },
+      });
+
+      const api_url = this.get_api_url_for_service(SERVICE_TYPES.TEXT_TEXT);
+      return await call_qwen_tools_api(
+        api_url,
+        this.api_key,
+        model,
+        messages,
+        params.tools,
+        logger,
+        merge_qwen_generation_config(this.text_config, params.generation_overrides),
+        params.signal
+      );
+    } catch (error) {
+      const error_message = error instanceof Error ? error.message : String(error);
+      logger.error('Error in Qwen call_with_tools', {
+        file: file_name,
+        data: { error: error_message },
+      });
+      return { success: false, error: error_message };
+    }
+  }
+}
@@ -13,25 +13,60 @@ import type {
   ProviderName,
 } from './types.js';
 import type { Logger } from '../llm_api/types.js';
+import { get_scoped_state } from '../llm_api/client_scope.js';
 
 // =============================================================================
 // Provider Registry
 // =============================================================================
 
 /**
- * Map of registered providers by name
+ * Registry state of one client (see client_scope.ts)
  */
-const provider_map = new Map<string, LLMProvider>();
+interface RegistryState {
+  /** Map of registered providers by name */
+  provider_map: Map<string, LLMProvider>;
+
+  /** Set of enabled LLM provider names */
+  enabled_llms: Set<string>;
+
+  /** Primary/default LLM provider name */
+  primary_llm: string | null;
+
+  /** Fallback LLM provider names used for every service type */
+  fallback_llms: string[];
+
+  /** Per-service fallback LLM provider names (override fallback_llms) */
+  service_fallback_llms: Map<ServiceType, string[]>;
+}
+
+/**
+ * Create an empty registry state
+ * @returns Registry state with no providers
+ */
+function create_registry_state(): RegistryState {
+  return {
+    provider_map: new Map(),
+    enabled_llms: new Set(),
+    primary_llm: null,
+    fallback_llms: [],
+    service_fallback_llms: new Map(),
+  };
+}
+
+const REGISTRY_STATE_KEY = Symbol('provider_registry');
 
 /**
- * Set of enabled LLM provider names
+ * Registry of the default instance (top-level functions)
  */
-let enabled_llms = new Set<string>();
+const default_registry = create_registry_state();
 
 /**
- * Primary/default LLM provider name
+ * Get the registry of the active client
+ * @returns Registry state of the active client scope, or the default registry
  */
-let primary_llm: string | null = null;
+function get_registry(): RegistryState {
+  return get_scoped_state(REGISTRY_STATE_KEY, default_registry, create_registry_state);
+}
 
 // =============================================================================
 // Registry Management
@@ -43,7 +78,7 @@ let primary_llm: string | null = null;
  */
 export function register_provider(provider: LLMProvider): void {
   const name = provider.get_name().toLowerCase();
-  provider_map.set(name, provider);
+  get_registry().provider_map.set(name, provider);
 }
 
 /**
@@ -51,7 +86,7 @@ export function register_provider(provider: LLMProvider): void {
  * @param enabled_names - Array of LLM names that are enabled
  */
 export function set_enabled_llms(enabled_names: string[]): void {
-  enabled_llms = new Set(enabled_names.map(name => name.toLowerCase()));
+  get_registry().enabled_llms = new Set(enabled_names.map(name => name.toLowerCase()));
 }
 
 /**
@@ -59,7 +94,7 @@ export function set_enabled_llms(enabled_names: string[]): void {
  * @param name - Name of the primary LLM
  */
 export function set_primary_llm(name: string): void {
-  primary_llm = name.toLowerCase();
+  get_registry().primary_llm = name.toLowerCase();
 }
 
 /**
@@ -67,7 +102,78 @@ export function set_primary_llm(name: string): void {
  * @returns Primary LLM name or null if not set
  */
 export function get_primary_llm(): string | null {
-  return primary_llm;
+  return get_registry().primary_llm;
+}
+
+/**
+ * Set the fallback LLMs tried when a call to the requested LLM fails
+ * @param names - Provider names in the order they should be tried
+ * @param service_type - Service type the list applies to (omit for all service types)
+ */
+export function set_fallback_llms(names: string[], service_type?: ServiceType): void {
+  const normalized = names.map(name => name.toLowerCase());
+  const registry = get_registry();
+
+  if (service_type) {
+    registry.service_fallback_llms.set(service_type, normalized);
+  } else {
+    registry.fallback_llms = normalized;
+  }
+}
+
+/**
+ * Remove all fallback LLM lists (global and per-service)
+ */
+export function clear_fallback_llms(): void {
+  const registry = get_registry();
+  registry.fallback_llms = [];
+  registry.service_fallback_llms.clear();
+}
+
+/**
+ * Get the fallback LLMs for a service type
+ * @param service_type - Service type being called
+ * @returns Provider names in fallback order (per-service list if set, otherwise the global list)
+ */
+export function get_fallback_llms(service_type: ServiceType): string[] {
+  const registry = get_registry();
+  return [...(registry.service_fallback_llms.get(service_type) ?? registry.fallback_llms)];
+}
+
+/**
+ * Get the fallback providers that can serve a call
+ * Skips providers that are not enabled, not registered, do not support the
+ * service type or are excluded (e.g. already tried).
+ *
+ * @param service_type - Service type being called
+ * @param exclude - Provider names to skip (case-insensitive)
+ * @param names - Fallback names to use instead of the configured list (optional)
+ * @returns Providers in fallback order
+ */
+export function get_fallback_providers(
+  service_type: ServiceType,
+  exclude: string[] = [],
+  names?: string[]
+): LLMProvider[] {
+  const { provider_map } = get_registry();
+  const excluded = new Set(exclude.map(name => name.toLowerCase()));
+  const providers: LLMProvider[] = [];
+
+  for (const name of names ? names.map(n => n.toLowerCase()) : get_fallback_llms(service_type)) {
+    const provider = provider_map.get(name);
+
+    if (
+      !excluded.has(name) &&
+      is_llm_enabled(name) &&
+      provider &&
+      has_capability(provider, service_type)
+    ) {
+      providers.push(provider);
+      excluded.add(name);
+    }
+  }
+
+  return providers;
 }
 
 /**
@@ -76,7 +182,7 @@ export function get_primary_llm(): string | null {
  * @returns True if the LLM is enabled
  */
 export function is_llm_enabled(name: string): boolean {
-  return enabled_llms.has(name.toLowerCase());
+  return get_registry().enabled_llms.has(name.toLowerCase());
 }
 
 /**
@@ -89,6 +195,8 @@ export function get_provider(
   name: ProviderName | null | undefined,
   logger: Logger
 ): LLMProvider | null {
+  const { provider_map, enabled_llms, primary_llm } = get_registry();
+
   // Use primary LLM if name not specified
   const provider_name = (name || primary_llm || '').toLowerCase();
   
@@ -179,20 +287,32 @@ export function validate_capability(
   return true;
 }
 
+/**
+ * Get a registered provider by name, whether or not it is enabled
+ * @param name - Provider name (case-insensitive)
+ * @returns Provider instance or undefined if not registered
+ */
+export function get_registered_provider(name: string): LLMProvider | undefined {
+  return get_registry().provider_map.get(name.toLowerCase());
+}
+
 /**
  * Get all registered provider names
  * @returns Array of provider names
  */
 export function get_registered_providers(): string[] {
-  return Array.from(provider_map.keys());
+  return Array.from(get_registry().provider_map.keys());
 }
 
 /**
  * Clear all registered providers (useful for testing)
  */
 export function clear_registry(): void {
-  provider_map.clear();
-  enabled_llms.clear();
-  primary_llm = null;
+  const registry = get_registry();
+  registry.provider_map.clear();
+  registry.enabled_llms.clear();
+  registry.primary_llm = null;
+  registry.fallback_llms = [];
+  registry.service_fallback_llms.clear();
 }
 
@@ -0,0 +1,72 @@
+/**
+ * Provider Streaming Utilities Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { read_sse_events, build_http_error_info, parse_retry_after } from './stream_utils.js';
+
+/**
+ * Build a response whose body arrives in the given chunks
+ */
+function sse_response(chunks: Array<string | Uint8Array>): Response {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+  return new Response(body);
+}
+
+/**
+ * Collect every event data payload of a response
+ */
+async function read_all(response: Response): Promise<string[]> {
+  const events: string[] = [];
+  for await (const data of read_sse_events(response)) {
+    events.push(data);
+  }
+  return events;
+}
+
+describe('read_sse_events', () => {
+  it('yields events split across chunks and joins multi-line data', async () => {
+    const events = await read_all(sse_response([
+      ': keep-alive\n\nevent: message\nda',
+      'ta: {"a":1}\r\n\r\ndata: line one\ndata: line two\n',
+      '\ndata: [DONE]',
+    ]));
+
+    expect(events).toEqual(['{"a":1}', 'line one\nline two', '[DONE]']);
+  });
+
+  it('decodes multi-byte characters split between chunks', async () => {
+    const bytes = new TextEncoder().encode('data: héllo\n\n');
+    const split = bytes.indexOf(0xc3) + 1;
+
+    expect(await read_all(sse_response([bytes.slice(0, split), bytes.slice(split)]))).toEqual(['héllo']);
+  });
+});
+
+describe('HTTP errors', () => {
+  it('maps the status and Retry-After header to error information', () => {
+    const response = new Response('', { status: 429, headers: { 'retry-after': '2' } });
+
+    expect(build_http_error_info(response, 'Too many requests')).toEqual({
+      code: 'RATE_LIMITED',
+      message: 'Too many requests',
+      retryable: true,
+      details: { status: 429, retry_after_ms: 2000 },
+    });
+  });
+
+  it('parses Retry-After seconds and ignores invalid values', () => {
+    expect(parse_retry_after('1.5')).toBe(1500);
+    expect(parse_retry_after('-1')).toBeUndefined();
+    expect(parse_retry_after('soon')).toBeUndefined();
+    expect(parse_retry_after(null)).toBeUndefined();
+  });
+});
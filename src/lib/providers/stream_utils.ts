@@ -0,0 +1,208 @@
+/**
+ * Provider Streaming Utilities
+ *
+ * Shared helpers for Server-Sent Events (SSE) based streaming responses.
+ * Used by provider clients that expose incremental text generation.
+ */
+
+import type { LLMStreamChunk, LLMStreamResponse, LLMErrorCode, LLMError } from '../llm_api/types.js';
+import { LLM_ERROR_CODES } from '../llm_api/types.js';
+
+// =============================================================================
+// SSE Parsing
+// =============================================================================
+
+/**
+ * Read an SSE response body and yield the data payload of each event
+ * Multi-line data fields are joined with newlines, comments and other
+ * fields (event, id, retry) are ignored.
+ *
+ * @param response - Fetch response with an SSE body
+ * @returns Async generator yielding the raw data string of each event
+ *
+ * @example
+ * ```typescript
+ * for await (const data of read_sse_events(response)) {
+ *   if (data === '[DONE]') break;
+ *   const payload = JSON.parse(data);
+ * }
+ * ```
+ */
+export async function* read_sse_events(
+  response: Response
+): AsyncGenerator<string, void, unknown> {
+  if (!response.body) {
+    return;
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let data_lines: string[] = [];
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      buffer += decoder.decode(value, { stream: true });
+
+      // Process every complete line in the buffer
+      let newline_index = buffer.search(/\r?\n/);
+      while (newline_index !== -1) {
+        const line = buffer.slice(0, newline_index);
+        const line_break_length = buffer[newline_index] === '\r' ? 2 : 1;
+        buffer = buffer.slice(newline_index + line_break_length);
+
+        if (line === '') {
+          // Blank line terminates the current event
+          if (data_lines.length > 0) {
+            yield data_lines.join('\n');
+            data_lines = [];
+          }
+        } else if (line.startsWith('data:')) {
+          data_lines.push(line.slice(5).replace(/^ /, ''));
+        }
+
+        newline_index = buffer.search(/\r?\n/);
+      }
+    }
+
+    // Flush a trailing event that was not terminated by a blank line
+    buffer += decoder.decode();
+    if (buffer.startsWith('data:')) {
+      data_lines.push(buffer.slice(5).replace(/^ /, ''));
+    }
+    if (data_lines.length > 0) {
+      yield data_lines.join('\n');
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+// =============================================================================
+// Stream Chunk Builders
+// =============================================================================
+
+/**
+ * Build a terminal stream chunk describing an error
+ *
+ * @param code - Error code from LLM_ERROR_CODES
+ * @param message - Human-readable error message
+ * @param retryable - Whether the request may succeed if retried
+ * @param details - Additional error details (optional)
+ * @returns Final stream chunk with error information
+ */
+export function build_stream_error_chunk(
+  code: LLMErrorCode,
+  message: string,
+  retryable: boolean = false,
+  details?: Record<string, unknown>
+): LLMStreamChunk {
+  return {
+    text: '',
+    done: true,
+    error: message,
+    error_info: {
+      code,
+      message,
+      retryable,
+      ...(details && { details }),
+    },
+  };
+}
+
+/**
+ * Build a stream that yields a single error chunk
+ * Used when a request fails before the provider call is made
+ *
+ * @param code - Error code from LLM_ERROR_CODES
+ * @param message - Human-readable error message
+ * @param retryable - Whether the request may succeed if retried
+ * @returns Async generator yielding one terminal error chunk
+ */
+export async function* build_error_stream(
+  code: LLMErrorCode,
+  message: string,
+  retryable: boolean = false
+): LLMStreamResponse {
+  yield build_stream_error_chunk(code, message, retryable);
+}
+
+/**
+ * Map an HTTP status code from a provider to an error code
+ *
+ * @param status - HTTP status code
+ * @returns Error code and whether the request is retryable
+ */
+export function get_error_code_for_status(
+  status: number
+): { code: LLMErrorCode; retryable: boolean } {
+  if (status === 429) {
+    return { code: LLM_ERROR_CODES.RATE_LIMITED, retryable: true };
+  }
+  if (status === 401 || status === 403) {
+    return { code: LLM_ERROR_CODES.API_KEY_MISSING, retryable: false };
+  }
+  if (status === 400 || status === 404) {
+    return { code: LLM_ERROR_CODES.INVALID_REQUEST, retryable: false };
+  }
+  if (status === 408 || status === 504) {
+    return { code: LLM_ERROR_CODES.TIMEOUT, retryable: true };
+  }
+  if (status >= 500) {
+    return { code: LLM_ERROR_CODES.API_ERROR, retryable: true };
+  }
+  return { code: LLM_ERROR_CODES.API_ERROR, retryable: false };
+}
+
+/**
+ * Build structured error information for a failed provider HTTP response
+ * Maps the status to an error code and records the Retry-After delay, if
+ * the provider sent one, as details.retry_after_ms.
+ *
+ * @param response - The failed fetch response
+ * @param message - Human-readable error message
+ * @returns Structured error information
+ */
+export function build_http_error_info(response: Response, message: string): LLMError {
+  const { code, retryable } = get_error_code_for_status(response.status);
+  const retry_after_ms = parse_retry_after(response.headers.get('retry-after'));
+
+  return {
+    code,
+    message,
+    retryable,
+    details: {
+      status: response.status,
+      ...(retry_after_ms !== undefined && { retry_after_ms }),
+    },
+  };
+}
+
+/**
+ * Parse a Retry-After header value (delay in seconds or an HTTP date)
+ *
+ * @param value - Header value
+ * @returns Delay in milliseconds, or undefined if absent or invalid
+ */
+export function parse_retry_after(value: string | null): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value.trim());
+  if (!isNaN(seconds)) {
+    return seconds >= 0 ? Math.round(seconds * 1000) : undefined;
+  }
+
+  const date_ms = Date.parse(value);
+  if (isNaN(date_ms)) {
+    return undefined;
+  }
+
+  return Math.max(0, date_ms - Date.now());
+}
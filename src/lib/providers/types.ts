@@ -13,6 +13,9 @@ import type {
   TextImageParams,
   ImageImageParams,
   DocumentTextParams,
+  ChatParams,
+  ToolTurnParams,
+  ToolTurnResponse,
   Logger,
 } from '../llm_api/types.js';
 
@@ -34,6 +37,7 @@ import type {
 export const LLM_PROVIDERS = {
   GEMINI: 'gemini',
   QWEN: 'qwen',
+  ANTHROPIC: 'anthropic',
 } as const;
 
 /**
@@ -179,6 +183,36 @@ export interface LLMProvider {
    * @returns Async generator yielding text chunks
    */
   image_text_stream?(params: ImageTextParams, logger: Logger): Promise<LLMStreamResponse>;
+
+  // =========================================================================
+  // Conversation Methods (Optional)
+  // =========================================================================
+
+  /**
+   * Multi-turn chat
+   * Generate the next assistant reply from an ordered message history
+   *
+   * @param params - Chat parameters with conversation history
+   * @param logger - Logger instance
+   * @returns LLM response with the assistant reply
+   */
+  chat?(params: ChatParams, logger: Logger): Promise<LLMResponse>;
+
+  // =========================================================================
+  // Tool Calling Methods (Optional)
+  // =========================================================================
+
+  /**
+   * Single model turn with tool (function) declarations
+   * Returns either the final text or the tool calls the model wants to make.
+   * The tool loop itself (executing handlers, re-calling the model) is run by
+   * hazo_llm_tool_call.
+   *
+   * @param params - Conversation so far and available tools
+   * @param logger - Logger instance
+   * @returns Response with text and/or requested tool calls
+   */
+  call_with_tools?(params: ToolTurnParams, logger: Logger): Promise<ToolTurnResponse>;
 }
 
 // =============================================================================
@@ -0,0 +1,85 @@
+/**
+ * Cassette Provider Tests
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { hazo_llm_text_text, hazo_llm_image_text, hazo_llm_document_text } from '../llm_api/index.js';
+import { use_cassette } from './cassette_provider.js';
+import { MockProvider } from './mock_provider.js';
+import { initialize_llm_api_for_testing } from './test_setup.js';
+
+describe('cassettes', () => {
+  let directory: string;
+  let cassette_path: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'hazo-cassette-'));
+    cassette_path = path.join(directory, 'cassette.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('records responses and replays them in order without calling the provider', async () => {
+    await initialize_llm_api_for_testing({
+      providers: [new MockProvider().add_response({ text: 'first', times: 1 }).add_response({ text: 'second' })],
+    });
+    use_cassette(cassette_path, { mode: 'record' });
+    await hazo_llm_text_text({ prompt: 'Hi' });
+    await hazo_llm_text_text({ prompt: 'Hi' });
+
+    const live = new MockProvider({ default_text: 'live' });
+    await initialize_llm_api_for_testing({ providers: [live] });
+    const cassette = use_cassette(cassette_path);
+
+    expect(cassette.get_entries().map(entry => entry.response?.text)).toEqual(['first', 'second']);
+    expect((await hazo_llm_text_text({ prompt: 'Hi' })).text).toBe('first');
+    expect((await hazo_llm_text_text({ prompt: 'Hi' })).text).toBe('second');
+    // Recordings used up: the last one is replayed again
+    expect((await hazo_llm_text_text({ prompt: 'Hi' })).text).toBe('second');
+    expect(live.get_calls()).toHaveLength(0);
+  });
+
+  it('fails unrecorded requests in strict replay mode', async () => {
+    const live = new MockProvider();
+    await initialize_llm_api_for_testing({ providers: [live] });
+    use_cassette(cassette_path, { strict: true });
+
+    const response = await hazo_llm_text_text({ prompt: 'Unrecorded' });
+
+    expect(response.success).toBe(false);
+    expect(live.get_calls()).toHaveLength(0);
+  });
+
+  it('matches image and document inputs by hash and the system instruction', async () => {
+    await initialize_llm_api_for_testing({ providers: [new MockProvider({ default_text: 'recorded' })] });
+    use_cassette(cassette_path, { mode: 'record' });
+    const image = { prompt: 'Describe', image_b64: 'aW1hZ2UtYQ==', image_mime_type: 'image/png' };
+    const document = { prompt: 'Summarize', document_b64: 'JVBERi1h', document_mime_type: 'application/pdf' };
+    await hazo_llm_image_text({ ...image, system_instruction: 'Be brief' });
+    await hazo_llm_document_text(document);
+    await hazo_llm_text_text({ prompt: 'Hi', system_instruction: 'Be brief' });
+
+    const live = new MockProvider();
+    await initialize_llm_api_for_testing({ providers: [live] });
+    use_cassette(cassette_path, { strict: true });
+
+    expect((await hazo_llm_image_text({ ...image, system_instruction: 'Be brief' })).text).toBe('recorded');
+    expect((await hazo_llm_document_text(document)).text).toBe('recorded');
+    expect((await hazo_llm_text_text({ prompt: 'Hi', system_instruction: 'Be brief' })).text).toBe('recorded');
+
+    expect((await hazo_llm_image_text({ ...image, image_b64: 'aW1hZ2UtYg==', system_instruction: 'Be brief' })).success).toBe(false);
+    expect((await hazo_llm_image_text(image)).success).toBe(false);
+    expect((await hazo_llm_document_text({ ...document, document_b64: 'JVBERi1i' })).success).toBe(false);
+    expect((await hazo_llm_text_text({ prompt: 'Hi', system_instruction: 'Be detailed' })).success).toBe(false);
+    expect(live.get_calls()).toHaveLength(0);
+
+    const saved = fs.readFileSync(cassette_path, 'utf-8');
+    expect(saved).not.toContain('aW1hZ2UtYQ==');
+    expect(JSON.parse(saved).entries[0]).toMatchObject({ input_hash: expect.stringMatching(/^[0-9a-f]{64}$/), system_instruction: 'Be brief' });
+  });
+});
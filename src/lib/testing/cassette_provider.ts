@@ -0,0 +1,709 @@
+/**
+ * Cassette Provider
+ *
+ * Record-and-replay wrapper around any LLMProvider. Successful responses
+ * (including image_b64 and raw_response) and completed streams are recorded
+ * to a JSON cassette file; later runs replay them without network calls.
+ * Requests are matched on provider, service type, model, the final
+ * substituted prompt, a hash of the image/document inputs and the per-call
+ * system instruction.
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import type {
+  LLMProvider,
+  LLMCapabilities,
+  ServiceType,
+} from '../providers/types.js';
+import type {
+  TextTextParams,
+  ImageTextParams,
+  TextImageParams,
+  ImageImageParams,
+  DocumentTextParams,
+  ChatParams,
+  ToolTurnParams,
+  ToolTurnResponse,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMStreamResponse,
+  Logger,
+} from '../llm_api/types.js';
+import type { MockMethod } from './mock_provider.js';
+import { LLM_ERROR_CODES } from '../llm_api/types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import { build_stream_error_chunk } from '../providers/stream_utils.js';
+import { get_registered_providers, get_registered_provider, register_provider } from '../providers/registry.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+const FILE_NAME = 'cassette_provider.ts';
+
+/** Cassette file format version */
+const CASSETTE_VERSION = 1;
+
+// =============================================================================
+// Cassette Types
+// =============================================================================
+
+/**
+ * Cassette mode
+ * - replay: answer from recorded entries; unrecorded requests call the wrapped
+ *   provider and are recorded (or fail when strict)
+ * - record: always call the wrapped provider and overwrite the cassette
+ */
+export type CassetteMode = 'replay' | 'record';
+
+/**
+ * Options for a cassette
+ */
+export interface CassetteOptions {
+  /** Cassette mode (default: "replay") */
+  mode?: CassetteMode;
+
+  /** Fail unrecorded requests in replay mode instead of calling the provider (default: false) */
+  strict?: boolean;
+}
+
+/**
+ * Request key a cassette entry is matched on
+ */
+export interface CassetteRequest {
+  /** Provider name */
+  provider: string;
+
+  /** Provider method (service type, stream or conversation method) */
+  service_type: MockMethod;
+
+  /** Model configured for the service (undefined = provider default) */
+  model?: string;
+
+  /** Final substituted prompt (JSON of the messages for chat and tool turns) */
+  prompt: string;
+
+  /** SHA-256 of the base64 image/document inputs (undefined = no inputs) */
+  input_hash?: string;
+
+  /** Per-call system instruction (undefined = provider default) */
+  system_instruction?: string;
+}
+
+/**
+ * What a call sends besides provider, method and model
+ */
+interface CassetteInput {
+  /** Final substituted prompt (JSON of the messages for chat and tool turns) */
+  prompt: string;
+
+  /** Base64 image/document data sent with the prompt */
+  b64_inputs?: Array<string | undefined>;
+
+  /** Per-call system instruction */
+  system_instruction?: string;
+}
+
+/**
+ * Recorded request/response pair
+ */
+export interface CassetteEntry extends CassetteRequest {
+  /** Recorded response (non-streaming methods) */
+  response?: ToolTurnResponse;
+
+  /** Recorded chunks including the final chunk (streaming methods) */
+  chunks?: LLMStreamChunk[];
+
+  /** When the entry was recorded (ISO 8601) */
+  recorded_at: string;
+}
+
+/**
+ * Cassette file contents
+ */
+export interface CassetteFile {
+  version: number;
+  entries: CassetteEntry[];
+}
+
+// =============================================================================
+// Cassette Class
+// =============================================================================
+
+/**
+ * Cassette file shared by one or more cassette providers
+ * Identical requests replay their recordings in order; once the recordings
+ * for a request are used up, the last one is replayed again.
+ */
+export class Cassette {
+  readonly path: string;
+  readonly mode: CassetteMode;
+  readonly strict: boolean;
+  private entries: CassetteEntry[] = [];
+  private replay_counts = new Map<string, number>();
+
+  /**
+   * Open a cassette file (replay mode loads existing entries)
+   * @param cassette_path - Path of the cassette JSON file
+   * @param options - Cassette options (optional)
+   * @throws Error if an existing cassette file cannot be parsed
+   */
+  constructor(cassette_path: string, options: CassetteOptions = {}) {
+    this.path = path.resolve(cassette_path);
+    this.mode = options.mode || 'replay';
+    this.strict = options.strict ?? false;
+
+    if (this.mode === 'replay' && fs.existsSync(this.path)) {
+      this.entries = read_cassette_file(this.path).entries;
+    }
+  }
+
+  /**
+   * Find the recording for a request (record mode never replays)
+   * @param request - Request to match
+   * @returns Recorded entry, or undefined if the request was not recorded
+   */
+  find(request: CassetteRequest): CassetteEntry | undefined {
+    if (this.mode === 'record') {
+      return undefined;
+    }
+
+    const key = get_request_key(request);
+    const matches = this.entries.filter(entry => get_request_key(entry) === key);
+    if (matches.length === 0) {
+      return undefined;
+    }
+
+    const count = this.replay_counts.get(key) || 0;
+    this.replay_counts.set(key, count + 1);
+    return matches[Math.min(count, matches.length - 1)];
+  }
+
+  /**
+   * Record a response or stream for a request and save the cassette file
+   * @param request - Request that was made
+   * @param result - Response or streamed chunks
+   */
+  record(request: CassetteRequest, result: { response?: ToolTurnResponse; chunks?: LLMStreamChunk[] }): void {
+    const entry: CassetteEntry = {
+      provider: request.provider,
+      service_type: request.service_type,
+      ...(request.model !== undefined && { model: request.model }),
+      prompt: request.prompt,
+      ...(request.input_hash !== undefined && { input_hash: request.input_hash }),
+      ...(request.system_instruction !== undefined && { system_instruction: request.system_instruction }),
+      ...(result.response && { response: result.response }),
+      ...(result.chunks && { chunks: result.chunks }),
+      recorded_at: new Date().toISOString(),
+    };
+
+    this.entries.push(entry);
+
+    // Count the new entry as replayed so the next identical request in this run
+    // gets the next recording rather than this one
+    const key = get_request_key(request);
+    this.replay_counts.set(key, (this.replay_counts.get(key) || 0) + 1);
+
+    this.save();
+  }
+
+  /**
+   * Get the recorded entries
+   * @returns Copy of the entries in recording order
+   */
+  get_entries(): CassetteEntry[] {
+    return [...this.entries];
+  }
+
+  /**
+   * Write the cassette file (creates the directory if needed)
+   */
+  save(): void {
+    const file: CassetteFile = { version: CASSETTE_VERSION, entries: this.entries };
+    fs.mkdirSync(path.dirname(this.path), { recursive: true });
+    fs.writeFileSync(this.path, JSON.stringify(file, null, 2) + '\n', 'utf-8');
+  }
+}
+
+// =============================================================================
+// Cassette Provider Class
+// =============================================================================
+
+/**
+ * Cassette Provider
+ * Wraps an LLMProvider and records or replays its responses via a cassette.
+ * Optional methods (streams, chat, tools) are only exposed when the wrapped
+ * provider implements them, so capability checks and fallback are unchanged.
+ *
+ * @example
+ * ```typescript
+ * const cassette = new Cassette('test/cassettes/extract.json', { strict: !!process.env.CI });
+ * const provider = new CassetteProvider(new AnthropicProvider(anthropic_config), cassette);
+ * await initialize_llm_api_with_providers([provider]);
+ * ```
+ */
+export class CassetteProvider implements LLMProvider {
+  private readonly provider: LLMProvider;
+  private readonly cassette: Cassette;
+
+  text_text_stream?: (params: TextTextParams, logger: Logger) => Promise<LLMStreamResponse>;
+  image_text_stream?: (params: ImageTextParams, logger: Logger) => Promise<LLMStreamResponse>;
+  chat?: (params: ChatParams, logger: Logger) => Promise<LLMResponse>;
+  call_with_tools?: (params: ToolTurnParams, logger: Logger) => Promise<ToolTurnResponse>;
+
+  /**
+   * Create a new cassette provider
+   * @param provider - Provider to record (and to call for unrecorded requests)
+   * @param cassette - Cassette to record to and replay from
+   */
+  constructor(provider: LLMProvider, cassette: Cassette) {
+    this.provider = provider;
+    this.cassette = cassette;
+
+    const text_text_stream = provider.text_text_stream;
+    if (text_text_stream) {
+      this.text_text_stream = async (params, logger) =>
+        this.stream('text_text_stream', SERVICE_TYPES.TEXT_TEXT, get_text_input(params), logger, () =>
+          text_text_stream.call(provider, params, logger)
+        );
+    }
+
+    const image_text_stream = provider.image_text_stream;
+    if (image_text_stream) {
+      this.image_text_stream = async (params, logger) =>
+        this.stream('image_text_stream', SERVICE_TYPES.IMAGE_TEXT, get_image_text_input(params), logger, () =>
+          image_text_stream.call(provider, params, logger)
+        );
+    }
+
+    const chat = provider.chat;
+    if (chat) {
+      this.chat = async (params, logger) =>
+        this.respond('chat', SERVICE_TYPES.TEXT_TEXT, get_chat_input(params), logger, () =>
+          chat.call(provider, params, logger)
+        );
+    }
+
+    const call_with_tools = provider.call_with_tools;
+    if (call_with_tools) {
+      this.call_with_tools = async (params, logger) =>
+        this.respond('call_with_tools', SERVICE_TYPES.TEXT_TEXT, {
+          prompt: serialize_messages(params.messages),
+          system_instruction: params.system_instruction,
+        }, logger, () =>
+          call_with_tools.call(provider, params, logger)
+        );
+    }
+  }
+
+  /**
+   * Get the wrapped provider
+   * @returns Provider passed to the constructor
+   */
+  get_wrapped_provider(): LLMProvider {
+    return this.provider;
+  }
+
+  // =========================================================================
+  // LLMProvider Identification
+  // =========================================================================
+
+  /**
+   * Get the provider name
+   * @returns Name of the wrapped provider
+   */
+  get_name(): string {
+    return this.provider.get_name();
+  }
+
+  /**
+   * Get the capabilities this provider supports
+   * @returns Capabilities of the wrapped provider
+   */
+  get_capabilities(): LLMCapabilities {
+    return this.provider.get_capabilities();
+  }
+
+  /**
+   * Get the model name configured for a specific service type
+   * @param service_type - The service type to get the model for
+   * @returns Model of the wrapped provider
+   */
+  get_model_for_service(service_type: ServiceType): string | undefined {
+    return this.provider.get_model_for_service(service_type);
+  }
+
+  // =========================================================================
+  // Service Methods
+  // =========================================================================
+
+  /**
+   * Text input → Text output
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns Recorded or live response
+   */
+  async text_text(params: TextTextParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.TEXT_TEXT, SERVICE_TYPES.TEXT_TEXT, get_text_input(params), logger, () =>
+      this.provider.text_text(params, logger)
+    );
+  }
+
+  /**
+   * Image input → Text output
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Recorded or live response
+   */
+  async image_text(params: ImageTextParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.IMAGE_TEXT, SERVICE_TYPES.IMAGE_TEXT, get_image_text_input(params), logger, () =>
+      this.provider.image_text(params, logger)
+    );
+  }
+
+  /**
+   * Text input → Image output
+   * @param params - Text input parameters for image generation
+   * @param logger - Logger instance
+   * @returns Recorded or live response
+   */
+  async text_image(params: TextImageParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.TEXT_IMAGE, SERVICE_TYPES.TEXT_IMAGE, { prompt: params.prompt }, logger, () =>
+      this.provider.text_image(params, logger)
+    );
+  }
+
+  /**
+   * Image input → Image output
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Recorded or live response
+   */
+  async image_image(params: ImageImageParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.IMAGE_IMAGE, SERVICE_TYPES.IMAGE_IMAGE, {
+      prompt: params.prompt,
+      b64_inputs: [params.image_b64, ...(params.images || []).map(image => image.data)],
+    }, logger, () =>
+      this.provider.image_image(params, logger)
+    );
+  }
+
+  /**
+   * Document input → Text output
+   * @param params - Document input parameters
+   * @param logger - Logger instance
+   * @returns Recorded or live response
+   */
+  async document_text(params: DocumentTextParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.DOCUMENT_TEXT, SERVICE_TYPES.DOCUMENT_TEXT, {
+      prompt: params.prompt,
+      b64_inputs: [params.document_b64],
+      system_instruction: params.system_instruction,
+    }, logger, () =>
+      this.provider.document_text(params, logger)
+    );
+  }
+
+  // =========================================================================
+  // Helper Methods
+  // =========================================================================
+
+  /**
+   * Build the cassette request key for a call
+   * @param method - Method that was called
+   * @param service_type - Service type used to look up the model
+   * @param input - Prompt, base64 inputs and system instruction of the call
+   * @returns Cassette request
+   */
+  private build_request(method: MockMethod, service_type: ServiceType, input: CassetteInput): CassetteRequest {
+    const model = this.provider.get_model_for_service(service_type);
+    const input_hash = hash_b64_inputs(input.b64_inputs);
+    return {
+      provider: this.provider.get_name(),
+      service_type: method,
+      ...(model !== undefined && { model }),
+      prompt: input.prompt,
+      ...(input_hash !== undefined && { input_hash }),
+      ...(input.system_instruction && { system_instruction: input.system_instruction }),
+    };
+  }
+
+  /**
+   * Replay a non-streaming call, or call the wrapped provider and record it
+   * @param method - Method that was called
+   * @param service_type - Service type used to look up the model
+   * @param input - Prompt, base64 inputs and system instruction of the call
+   * @param logger - Logger instance
+   * @param call - Calls the wrapped provider
+   * @returns Recorded or live response
+   */
+  private async respond(
+    method: MockMethod,
+    service_type: ServiceType,
+    input: CassetteInput,
+    logger: Logger,
+    call: () => Promise<ToolTurnResponse>
+  ): Promise<ToolTurnResponse> {
+    const request = this.build_request(method, service_type, input);
+    const entry = this.cassette.find(request);
+
+    if (entry?.response) {
+      logger.debug('Cassette: replaying response', {
+        file: FILE_NAME,
+        data: { provider: request.provider, method, model: request.model },
+      });
+      return entry.response;
+    }
+
+    if (this.cassette.strict && this.cassette.mode === 'replay') {
+      return build_unrecorded_error(request);
+    }
+
+    const response = await call();
+    if (response.success) {
+      this.cassette.record(request, { response });
+      logger.debug('Cassette: recorded response', {
+        file: FILE_NAME,
+        data: { provider: request.provider, method, model: request.model, cassette: this.cassette.path },
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Replay a streaming call, or call the wrapped provider and record the chunks
+   * @param method - Method that was called
+   * @param service_type - Service type used to look up the model
+   * @param input - Prompt, base64 inputs and system instruction of the call
+   * @param logger - Logger instance
+   * @param call - Calls the wrapped provider
+   * @returns Async generator yielding the recorded or live chunks
+   */
+  private async stream(
+    method: MockMethod,
+    service_type: ServiceType,
+    input: CassetteInput,
+    logger: Logger,
+    call: () => Promise<LLMStreamResponse>
+  ): Promise<LLMStreamResponse> {
+    const request = this.build_request(method, service_type, input);
+    const entry = this.cassette.find(request);
+
+    if (entry?.chunks) {
+      logger.debug('Cassette: replaying stream', {
+        file: FILE_NAME,
+        data: { provider: request.provider, method, model: request.model, chunks: entry.chunks.length },
+      });
+      return replay_chunks(entry.chunks);
+    }
+
+    if (this.cassette.strict && this.cassette.mode === 'replay') {
+      const error = build_unrecorded_error(request);
+      return replay_chunks([
+        build_stream_error_chunk(LLM_ERROR_CODES.INVALID_REQUEST, error.error || 'Unrecorded request', false),
+      ]);
+    }
+
+    return this.record_stream(request, await call());
+  }
+
+  /**
+   * Pass a live stream through, recording it once it completes without error
+   * @param request - Request that was made
+   * @param stream - Live stream from the wrapped provider
+   * @returns Async generator yielding the live chunks
+   */
+  private async *record_stream(request: CassetteRequest, stream: LLMStreamResponse): LLMStreamResponse {
+    const chunks: LLMStreamChunk[] = [];
+
+    for await (const chunk of stream) {
+      chunks.push({ ...chunk });
+
+      // Record before yielding the final chunk: consumers may stop iterating after it
+      if (chunk.done && !chunk.error_info && !chunk.error) {
+        this.cassette.record(request, { chunks });
+      }
+
+      yield chunk;
+    }
+  }
+}
+
+// =============================================================================
+// Setup Helper
+// =============================================================================
+
+/**
+ * Wrap every registered provider with a cassette
+ * Call after the providers are registered (e.g. after initialize_llm_api).
+ *
+ * @param cassette_path - Path of the cassette JSON file
+ * @param options - Cassette options (optional)
+ * @returns The cassette shared by all wrapped providers
+ *
+ * @example
+ * ```typescript
+ * await initialize_llm_api({});
+ * // Record once with real API keys (HAZO_CASSETTE_MODE=record), replay in CI
+ * use_cassette('test/cassettes/invoice_extract.json', {
+ *   mode: process.env.HAZO_CASSETTE_MODE === 'record' ? 'record' : 'replay',
+ *   strict: !!process.env.CI,
+ * });
+ * const result = await hazo_llm_dynamic_data_extract({ ... });
+ * ```
+ */
+export function use_cassette(cassette_path: string, options: CassetteOptions = {}): Cassette {
+  const cassette = new Cassette(cassette_path, options);
+
+  for (const name of get_registered_providers()) {
+    const provider = get_registered_provider(name);
+    if (!provider) {
+      continue;
+    }
+    // Re-wrapping replaces the previous cassette instead of nesting wrappers
+    const inner = provider instanceof CassetteProvider ? provider.get_wrapped_provider() : provider;
+    register_provider(new CassetteProvider(inner, cassette));
+  }
+
+  return cassette;
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Read and validate a cassette file
+ * @param file_path - Absolute path of the cassette file
+ * @returns Parsed cassette contents
+ * @throws Error if the file is not a valid cassette
+ */
+function read_cassette_file(file_path: string): CassetteFile {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(fs.readFileSync(file_path, 'utf-8'));
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to read cassette file ${file_path}: ${message}`);
+  }
+
+  const file = parsed as Partial<CassetteFile> | null;
+  if (!file || typeof file !== 'object' || !Array.isArray(file.entries)) {
+    throw new Error(`Invalid cassette file ${file_path}: missing entries array`);
+  }
+  if (file.version !== CASSETTE_VERSION) {
+    throw new Error(`Unsupported cassette version ${String(file.version)} in ${file_path}`);
+  }
+
+  return { version: file.version, entries: file.entries };
+}
+
+/**
+ * Build the lookup key of a request
+ * @param request - Request or recorded entry
+ * @returns Key string
+ */
+function get_request_key(request: CassetteRequest): string {
+  return JSON.stringify([
+    request.provider,
+    request.service_type,
+    request.model ?? null,
+    request.prompt,
+    request.input_hash ?? null,
+    request.system_instruction ?? null,
+  ]);
+}
+
+/**
+ * Hash the base64 inputs of a request (recording the data itself would bloat the cassette)
+ * @param b64_inputs - Base64 image/document data (undefined entries are skipped)
+ * @returns Hex SHA-256 of the inputs, or undefined if there are none
+ */
+function hash_b64_inputs(b64_inputs: Array<string | undefined> = []): string | undefined {
+  const inputs = b64_inputs.filter((data): data is string => !!data);
+  if (inputs.length === 0) {
+    return undefined;
+  }
+
+  const hash = crypto.createHash('sha256');
+  for (const data of inputs) {
+    hash.update(data).update('\n');
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Cassette input of a text call
+ * @param params - Text input parameters
+ * @returns Prompt and system instruction
+ */
+function get_text_input(params: TextTextParams): CassetteInput {
+  return { prompt: params.prompt, system_instruction: params.system_instruction };
+}
+
+/**
+ * Cassette input of an image analysis call
+ * @param params - Image input parameters
+ * @returns Prompt, image data and system instruction
+ */
+function get_image_text_input(params: ImageTextParams): CassetteInput {
+  return { prompt: params.prompt, b64_inputs: [params.image_b64], system_instruction: params.system_instruction };
+}
+
+/**
+ * Cassette input of a chat call (inline images are hashed, not serialized)
+ * @param params - Chat parameters
+ * @returns Serialized messages and image data
+ */
+function get_chat_input(params: ChatParams): CassetteInput {
+  return {
+    prompt: serialize_messages(params.messages),
+    b64_inputs: params.messages.flatMap(message => (message.images || []).map(image => image.data)),
+  };
+}
+
+/**
+ * Serialize a conversation for matching (role, content and tool call fields)
+ * @param messages - Chat or tool turn messages
+ * @returns JSON string of the messages
+ */
+function serialize_messages(messages: Array<ChatParams['messages'][number] | ToolTurnParams['messages'][number]>): string {
+  return JSON.stringify(
+    messages.map(message => ({
+      role: message.role,
+      content: message.content,
+      ...('tool_calls' in message && message.tool_calls && { tool_calls: message.tool_calls }),
+      ...('tool_call_id' in message && message.tool_call_id && { tool_call_id: message.tool_call_id }),
+    }))
+  );
+}
+
+/**
+ * Build the error returned for an unrecorded request in strict mode
+ * @param request - Unrecorded request
+ * @returns Failed response with error_info
+ */
+function build_unrecorded_error(request: CassetteRequest): LLMResponse {
+  const message =
+    `No cassette recording for ${request.provider} ${request.service_type}` +
+    `${request.model ? ` (${request.model})` : ''}: ${request.prompt}`;
+  return {
+    success: false,
+    error: message,
+    error_info: { code: LLM_ERROR_CODES.INVALID_REQUEST, message, retryable: false },
+  };
+}
+
+/**
+ * Yield recorded chunks as a stream
+ * @param chunks - Chunks to yield
+ * @returns Async generator yielding the chunks
+ */
+async function* replay_chunks(chunks: LLMStreamChunk[]): LLMStreamResponse {
+  for (const chunk of chunks) {
+    yield chunk;
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Testing Module Exports
+ *
+ * Export the mock provider, cassette provider and test setup helpers from this module
+ */
+
+export {
+  MockProvider,
+  type MockMethod,
+  type MockResponse,
+  type MockProviderConfig,
+  type MockProviderCall,
+} from './mock_provider.js';
+
+export {
+  Cassette,
+  CassetteProvider,
+  use_cassette,
+  type CassetteMode,
+  type CassetteOptions,
+  type CassetteRequest,
+  type CassetteEntry,
+  type CassetteFile,
+} from './cassette_provider.js';
+
+export {
+  initialize_llm_api_for_testing,
+  silent_logger,
+  type TestPromptSeed,
+  type TestingInitOptions,
+  type TestingSetup,
+} from './test_setup.js';
@@ -0,0 +1,189 @@
+/**
+ * Mock Provider Tests
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  initialize_llm_api_with_providers,
+  get_current_config,
+  hazo_llm_text_text,
+  hazo_llm_text_image,
+} from '../llm_api/index.js';
+import { LLM_ERROR_CODES } from '../llm_api/types.js';
+import { get_database, insert_prompt } from '../database/init_database.js';
+import { get_registered_providers } from '../providers/registry.js';
+import { MockProvider } from './mock_provider.js';
+import { silent_logger } from './test_setup.js';
+
+// =============================================================================
+// Fixtures
+// =============================================================================
+
+const logger = silent_logger;
+
+// =============================================================================
+// Tests
+// =============================================================================
+
+describe('MockProvider', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('answers with the first matching rule by substring, regex, method and times', async () => {
+    const mock = new MockProvider({ default_text: 'fallback' })
+      .add_response({ match: 'capital', text: 'Paris', times: 1 })
+      .add_response({ match: /invoice #\d+/i, json: { total: 42 } })
+      .add_response({ method: 'document_text', text: 'Document' });
+
+    expect((await mock.text_text({ prompt: 'The capital of France?' }, logger)).text).toBe('Paris');
+    expect((await mock.text_text({ prompt: 'The capital of Spain?' }, logger)).text).toBe('fallback');
+    expect((await mock.text_text({ prompt: 'Read INVOICE #12' }, logger)).text).toBe('{"total":42}');
+    expect((await mock.text_text({ prompt: 'Other' }, logger)).text).toBe('fallback');
+    expect((await mock.document_text({ prompt: 'Other', document_b64: 'JVBE', document_mime_type: 'application/pdf' }, logger)).text)
+      .toBe('Document');
+  });
+
+  it('returns a canned image for image generation and scripted images when set', async () => {
+    const mock = new MockProvider().add_response({ match: 'logo', image_b64: 'aGk=', image_mime_type: 'image/jpeg' });
+
+    const canned = await mock.text_image({ prompt: 'A cat' }, logger);
+    expect(canned).toMatchObject({ success: true, image_mime_type: 'image/png' });
+    expect(canned.image_b64).toMatch(/^iVBORw0KGgo/);
+    expect(canned.text).toBeUndefined();
+
+    expect(await mock.image_image({ prompt: 'Make a logo', image_b64: 'aGk=', image_mime_type: 'image/png' }, logger))
+      .toMatchObject({ image_b64: 'aGk=', image_mime_type: 'image/jpeg' });
+  });
+
+  it('simulates every error code with its default retryable flag', async () => {
+    const retryable_codes: string[] = [
+      LLM_ERROR_CODES.RATE_LIMITED,
+      LLM_ERROR_CODES.NETWORK_ERROR,
+      LLM_ERROR_CODES.API_ERROR,
+      LLM_ERROR_CODES.TIMEOUT,
+    ];
+
+    for (const code of Object.values(LLM_ERROR_CODES)) {
+      const mock = new MockProvider().add_response({ error_code: code });
+      const response = await mock.text_text({ prompt: 'Hi' }, logger);
+
+      expect(response).toMatchObject({
+        success: false,
+        error: `Simulated ${code} error`,
+        error_info: { code, retryable: retryable_codes.includes(code) },
+      });
+    }
+
+    const overridden = new MockProvider().add_response({ error_code: 'RATE_LIMITED', retryable: false, error_message: 'Slow down' });
+    expect((await overridden.text_text({ prompt: 'Hi' }, logger)).error_info)
+      .toEqual({ code: 'RATE_LIMITED', message: 'Slow down', retryable: false });
+  });
+
+  it('streams simulated errors as an error chunk', async () => {
+    const mock = new MockProvider().add_response({ error_code: 'RATE_LIMITED' });
+
+    const chunks = [];
+    for await (const chunk of await mock.text_text_stream({ prompt: 'Hi' }, logger)) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ done: true, error_info: { code: 'RATE_LIMITED', retryable: true } });
+  });
+
+  it('waits for the simulated latency and ends early when aborted', async () => {
+    vi.useFakeTimers();
+    const mock = new MockProvider({ latency_ms: 1000 });
+
+    let settled = false;
+    const pending = mock.text_text({ prompt: 'Hi' }, logger).then(response => {
+      settled = true;
+      return response;
+    });
+    await vi.advanceTimersByTimeAsync(999);
+    expect(settled).toBe(false);
+    await vi.advanceTimersByTimeAsync(1);
+    expect((await pending).text).toBe('Mock response');
+
+    const controller = new AbortController();
+    const aborted = mock.text_text({ prompt: 'Hi', signal: controller.signal }, logger);
+    controller.abort();
+    expect((await aborted).error_info?.code).toBe(LLM_ERROR_CODES.ABORTED);
+  });
+
+  it('records every call for assertions', async () => {
+    const mock = new MockProvider().add_response({ match: 'Hi', text: 'Hello' });
+
+    await mock.text_text({ prompt: 'Hi there' }, logger);
+    await mock.chat({
+      messages: [
+        { role: 'user', content: 'First' },
+        { role: 'assistant', content: 'A' },
+        { role: 'user', content: 'Hi again' },
+      ],
+    }, logger);
+
+    expect(mock.get_calls().map(call => [call.method, call.prompt, call.response?.text])).toEqual([
+      ['text_text', 'Hi there', 'Hello'],
+      ['chat', 'Hi again', 'Hello'],
+    ]);
+    expect(mock.get_calls('chat')).toHaveLength(1);
+    expect(mock.get_last_call()?.params).toMatchObject({ messages: expect.any(Array) });
+
+    mock.clear_calls();
+    expect(mock.get_calls()).toEqual([]);
+    expect((await mock.text_text({ prompt: 'Hi' }, logger)).text).toBe('Hello');
+
+    mock.reset();
+    expect((await mock.text_text({ prompt: 'Hi' }, logger)).text).toBe('Mock response');
+  });
+
+  it('fails unmatched calls in strict mode', async () => {
+    const response = await new MockProvider({ strict: true }).text_text({ prompt: 'Unscripted' }, logger);
+
+    expect(response.error_info).toMatchObject({ code: LLM_ERROR_CODES.INVALID_REQUEST, retryable: false });
+  });
+});
+
+describe('initialize_llm_api_with_providers', () => {
+  it('registers only the given providers on an in-memory database without the config file', async () => {
+    const mock = new MockProvider({ name: 'Fake' }).add_response({ match: 'Hi', text: 'Hello' });
+
+    await initialize_llm_api_with_providers([mock], { logger });
+
+    expect(get_registered_providers()).toEqual(['fake']);
+    expect(get_current_config()?.sqlite_path).toBe(':memory:');
+
+    const db = get_database();
+    expect(db).not.toBeNull();
+    insert_prompt(db!, {
+      prompt_area: 'docs',
+      prompt_key: 'greet',
+      local_1: null,
+      local_2: null,
+      local_3: null,
+      user_id: null,
+      scope_id: null,
+      prompt_text: 'Hi {{name}}',
+      prompt_variables: '[]',
+      prompt_notes: '',
+      next_prompt: null,
+    }, logger);
+
+    const response = await hazo_llm_text_text({
+      prompt: '',
+      prompt_area: 'docs',
+      prompt_key: 'greet',
+      prompt_variables: [{ name: 'Ann' }],
+    });
+    expect(response).toMatchObject({ success: true, text: 'Hello' });
+    expect(mock.get_last_call()?.prompt).toBe('Hi Ann');
+    expect((await hazo_llm_text_image({ prompt: 'A cat' })).image_mime_type).toBe('image/png');
+  });
+
+  it('requires at least one provider', async () => {
+    await expect(initialize_llm_api_with_providers([], { logger }))
+      .rejects.toThrow('initialize_llm_api_with_providers requires at least one provider');
+  });
+});
@@ -0,0 +1,640 @@
+/**
+ * Mock Provider
+ *
+ * Deterministic LLMProvider for unit tests. Responses are scripted by prompt
+ * substring or regex; errors, canned images and latency can be simulated,
+ * and every call is recorded for assertions. No network calls are made.
+ */
+
+import type {
+  LLMProvider,
+  LLMCapabilities,
+  ServiceType,
+} from '../providers/types.js';
+import type {
+  TextTextParams,
+  ImageTextParams,
+  TextImageParams,
+  ImageImageParams,
+  DocumentTextParams,
+  ChatParams,
+  ToolTurnParams,
+  ToolTurnResponse,
+  ToolCall,
+  LLMResponse,
+  LLMStreamResponse,
+  LLMErrorCode,
+  LLMUsage,
+  Logger,
+} from '../llm_api/types.js';
+import { LLM_ERROR_CODES } from '../llm_api/types.js';
+import { SERVICE_TYPES } from '../providers/types.js';
+import { build_stream_error_chunk } from '../providers/stream_utils.js';
+
+// =============================================================================
+// Constants
+// =============================================================================
+
+/** Default provider name */
+const DEFAULT_MOCK_NAME = 'mock';
+
+/** Default model name reported for every service */
+const DEFAULT_MOCK_MODEL = 'mock-model';
+
+/** Default text when no scripted response matches */
+const DEFAULT_MOCK_TEXT = 'Mock response';
+
+/** Default canned image: 1x1 transparent PNG */
+const DEFAULT_MOCK_IMAGE_B64 =
+  'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg==';
+
+/** MIME type of the default canned image */
+const DEFAULT_MOCK_IMAGE_MIME_TYPE = 'image/png';
+
+/** Error codes that are retryable by default when simulated */
+const RETRYABLE_ERROR_CODES: LLMErrorCode[] = [
+  LLM_ERROR_CODES.RATE_LIMITED,
+  LLM_ERROR_CODES.NETWORK_ERROR,
+  LLM_ERROR_CODES.API_ERROR,
+  LLM_ERROR_CODES.TIMEOUT,
+];
+
+// =============================================================================
+// Mock Provider Types
+// =============================================================================
+
+/**
+ * Provider methods a mock response can be restricted to
+ */
+export type MockMethod =
+  | ServiceType
+  | 'text_text_stream'
+  | 'image_text_stream'
+  | 'chat'
+  | 'call_with_tools';
+
+/**
+ * Scripted mock response
+ * Rules are checked in the order they were added; the first matching rule answers.
+ */
+export interface MockResponse {
+  /** Prompt substring or regex to match (omitted = matches every prompt) */
+  match?: string | RegExp;
+
+  /** Only answer calls to this method (omitted = every method) */
+  method?: MockMethod;
+
+  /** Text to return */
+  text?: string;
+
+  /** Value to return as JSON text (JSON.stringify'd; used when text is not set) */
+  json?: unknown;
+
+  /** Chunks to stream (default: text split into words) */
+  chunks?: string[];
+
+  /** Image to return (text_image / image_image default to a 1x1 PNG) */
+  image_b64?: string;
+
+  /** MIME type of image_b64 (default: image/png) */
+  image_mime_type?: string;
+
+  /** Tool calls to request (call_with_tools only) */
+  tool_calls?: ToolCall[];
+
+  /** Simulate a failure with this error code */
+  error_code?: LLMErrorCode;
+
+  /** Error message for the simulated failure */
+  error_message?: string;
+
+  /** Whether the simulated failure is retryable (default: true for rate limit, network, API and timeout errors) */
+  retryable?: boolean;
+
+  /** Token usage to report (default: estimated from prompt and text length; simulated failures report it only when set) */
+  usage?: LLMUsage;
+
+  /** Delay before answering in ms (overrides the provider's latency_ms) */
+  latency_ms?: number;
+
+  /** Number of calls this rule answers before it is skipped (default: unlimited) */
+  times?: number;
+}
+
+/**
+ * Configuration for the mock provider
+ */
+export interface MockProviderConfig {
+  /** Provider name used in enabled_llms and the llm argument (default: "mock") */
+  name?: string;
+
+  /** Model name reported for every service (default: "mock-model") */
+  model?: string;
+
+  /** Scripted responses */
+  responses?: MockResponse[];
+
+  /** Text returned when no scripted response matches (default: "Mock response") */
+  default_text?: string;
+
+  /** Fail calls that match no scripted response instead of returning default_text */
+  strict?: boolean;
+
+  /** Delay before every answer in ms (default: 0) */
+  latency_ms?: number;
+
+  /** Capabilities this provider supports (default: all service types) */
+  capabilities?: ServiceType[];
+}
+
+/**
+ * Recorded call to the mock provider
+ */
+export interface MockProviderCall {
+  /** Provider method that was called */
+  method: MockMethod;
+
+  /** Prompt the call was matched on (last user message for chat and tool turns) */
+  prompt: string;
+
+  /** Parameters passed to the method */
+  params: unknown;
+
+  /** The scripted response that answered (undefined = default response) */
+  response?: MockResponse;
+
+  /** When the call was made (ms since epoch) */
+  timestamp: number;
+}
+
+// =============================================================================
+// Mock Provider Class
+// =============================================================================
+
+/**
+ * Mock LLM Provider
+ * Implements the LLMProvider interface with scripted, deterministic responses
+ *
+ * @example
+ * ```typescript
+ * const mock = new MockProvider()
+ *   .add_response({ match: 'capital of France', text: 'Paris' })
+ *   .add_response({ match: /invoice/i, json: { total: 42 } })
+ *   .add_response({ match: 'busy', error_code: LLM_ERROR_CODES.RATE_LIMITED });
+ *
+ * await initialize_llm_api_for_testing({ providers: [mock] });
+ * const response = await hazo_llm_text_text({ prompt: 'What is the capital of France?' });
+ *
+ * expect(response.text).toBe('Paris');
+ * expect(mock.get_calls('text_text')).toHaveLength(1);
+ * ```
+ */
+export class MockProvider implements LLMProvider {
+  private readonly name: string;
+  private readonly model: string;
+  private readonly default_text: string;
+  private readonly strict: boolean;
+  private readonly latency_ms: number;
+  private readonly capabilities: LLMCapabilities;
+  private responses: Array<{ response: MockResponse; uses: number }> = [];
+  private calls: MockProviderCall[] = [];
+
+  /**
+   * Create a new mock provider instance
+   * @param config - Mock provider configuration (optional)
+   */
+  constructor(config: MockProviderConfig = {}) {
+    this.name = (config.name || DEFAULT_MOCK_NAME).toLowerCase();
+    this.model = config.model || DEFAULT_MOCK_MODEL;
+    this.default_text = config.default_text ?? DEFAULT_MOCK_TEXT;
+    this.strict = config.strict ?? false;
+    this.latency_ms = config.latency_ms ?? 0;
+    this.capabilities = new Set(
+      config.capabilities && config.capabilities.length > 0
+        ? config.capabilities
+        : Object.values(SERVICE_TYPES)
+    );
+
+    for (const response of config.responses || []) {
+      this.add_response(response);
+    }
+  }
+
+  // =========================================================================
+  // Scripting and Assertions
+  // =========================================================================
+
+  /**
+   * Add a scripted response (checked after the responses added before it)
+   * @param response - Scripted response
+   * @returns This provider (for chaining)
+   */
+  add_response(response: MockResponse): this {
+    this.responses.push({ response, uses: 0 });
+    return this;
+  }
+
+  /**
+   * Get the recorded calls
+   * @param method - Only return calls to this method (optional)
+   * @returns Recorded calls in call order
+   */
+  get_calls(method?: MockMethod): MockProviderCall[] {
+    return method ? this.calls.filter(call => call.method === method) : [...this.calls];
+  }
+
+  /**
+   * Get the most recent recorded call
+   * @returns Last call, or undefined if there were none
+   */
+  get_last_call(): MockProviderCall | undefined {
+    return this.calls[this.calls.length - 1];
+  }
+
+  /**
+   * Clear the recorded calls (scripted responses are kept)
+   */
+  clear_calls(): void {
+    this.calls = [];
+  }
+
+  /**
+   * Remove all scripted responses and recorded calls
+   */
+  reset(): void {
+    this.responses = [];
+    this.calls = [];
+  }
+
+  // =========================================================================
+  // LLMProvider Identification
+  // =========================================================================
+
+  /**
+   * Get the provider name
+   * @returns Provider name (default: 'mock')
+   */
+  get_name(): string {
+    return this.name;
+  }
+
+  /**
+   * Get the capabilities this provider supports
+   * @returns Set of supported service types
+   */
+  get_capabilities(): LLMCapabilities {
+    return new Set(this.capabilities); // Return a copy
+  }
+
+  /**
+   * Get the model name configured for a specific service type
+   * @param service_type - The service type to get the model for
+   * @returns Mock model name for supported services, otherwise undefined
+   */
+  get_model_for_service(service_type: ServiceType): string | undefined {
+    return this.capabilities.has(service_type) ? this.model : undefined;
+  }
+
+  // =========================================================================
+  // Service Methods
+  // =========================================================================
+
+  /**
+   * Text input → Text output
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns Scripted response
+   */
+  async text_text(params: TextTextParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.TEXT_TEXT, params.prompt, params, params.signal, logger);
+  }
+
+  /**
+   * Image input → Text output
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Scripted response
+   */
+  async image_text(params: ImageTextParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.IMAGE_TEXT, params.prompt, params, params.signal, logger);
+  }
+
+  /**
+   * Text input → Image output
+   * @param params - Text input parameters for image generation
+   * @param logger - Logger instance
+   * @returns Scripted response with a canned image
+   */
+  async text_image(params: TextImageParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.TEXT_IMAGE, params.prompt, params, params.signal, logger);
+  }
+
+  /**
+   * Image input → Image output
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Scripted response with a canned image
+   */
+  async image_image(params: ImageImageParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.IMAGE_IMAGE, params.prompt, params, params.signal, logger);
+  }
+
+  /**
+   * Document input → Text output
+   * @param params - Document input parameters
+   * @param logger - Logger instance
+   * @returns Scripted response
+   */
+  async document_text(params: DocumentTextParams, logger: Logger): Promise<LLMResponse> {
+    return this.respond(SERVICE_TYPES.DOCUMENT_TEXT, params.prompt, params, params.signal, logger);
+  }
+
+  /**
+   * Text input → Text output (streaming)
+   * @param params - Text input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding the scripted chunks
+   */
+  async text_text_stream(params: TextTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    return this.stream('text_text_stream', params.prompt, params, params.signal, logger);
+  }
+
+  /**
+   * Image input → Text output (streaming)
+   * @param params - Image input parameters
+   * @param logger - Logger instance
+   * @returns Async generator yielding the scripted chunks
+   */
+  async image_text_stream(params: ImageTextParams, logger: Logger): Promise<LLMStreamResponse> {
+    return this.stream('image_text_stream', params.prompt, params, params.signal, logger);
+  }
+
+  /**
+   * Multi-turn chat (matched on the last user message)
+   * @param params - Chat parameters with conversation history
+   * @param logger - Logger instance
+   * @returns Scripted response
+   */
+  async chat(params: ChatParams, logger: Logger): Promise<LLMResponse> {
+    const last_user = [...params.messages].reverse().find(message => message.role === 'user');
+    return this.respond('chat', last_user?.content || '', params, params.signal, logger);
+  }
+
+  /**
+   * Single model turn with tools (matched on the last user message)
+   * Use `times: 1` on a rule with tool_calls so the next turn gets the final answer.
+   *
+   * @param params - Conversation so far and available tools
+   * @param logger - Logger instance
+   * @returns Scripted text and/or tool calls
+   */
+  async call_with_tools(params: ToolTurnParams, logger: Logger): Promise<ToolTurnResponse> {
+    const last_user = [...params.messages].reverse().find(message => message.role === 'user');
+    return this.respond('call_with_tools', last_user?.content || '', params, params.signal, logger);
+  }
+
+  // =========================================================================
+  // Helper Methods
+  // =========================================================================
+
+  /**
+   * Record a call and find the scripted response for it
+   * @param method - Method that was called
+   * @param prompt - Prompt to match
+   * @param params - Method parameters
+   * @returns Matching response, or undefined for the default response
+   */
+  private record_call(method: MockMethod, prompt: string, params: unknown): MockResponse | undefined {
+    const entry = this.responses.find(({ response, uses }) => {
+      if (response.times !== undefined && uses >= response.times) {
+        return false;
+      }
+      if (response.method && response.method !== method) {
+        return false;
+      }
+      return matches_prompt(response.match, prompt);
+    });
+
+    if (entry) {
+      entry.uses++;
+    }
+
+    this.calls.push({
+      method,
+      prompt,
+      params,
+      response: entry?.response,
+      timestamp: Date.now(),
+    });
+
+    return entry?.response;
+  }
+
+  /**
+   * Build the response for a non-streaming call
+   * @param method - Method that was called
+   * @param prompt - Prompt to match
+   * @param params - Method parameters
+   * @param signal - Abort signal of the attempt
+   * @param logger - Logger instance
+   * @returns Scripted (or default) response
+   */
+  private async respond(
+    method: MockMethod,
+    prompt: string,
+    params: unknown,
+    signal: AbortSignal | undefined,
+    logger: Logger
+  ): Promise<ToolTurnResponse> {
+    const response = this.record_call(method, prompt, params);
+    return this.build_response(method, prompt, response, signal, logger);
+  }
+
+  /**
+   * Build the result for a recorded call after the simulated latency
+   * @param method - Method that was called
+   * @param prompt - Prompt that was matched
+   * @param response - The matching scripted response (undefined = default)
+   * @param signal - Abort signal of the attempt
+   * @param logger - Logger instance
+   * @returns Scripted (or default) response
+   */
+  private async build_response(
+    method: MockMethod,
+    prompt: string,
+    response: MockResponse | undefined,
+    signal: AbortSignal | undefined,
+    logger: Logger
+  ): Promise<ToolTurnResponse> {
+    logger.debug('Mock provider: call', {
+      file: 'mock_provider.ts',
+      data: { provider: this.name, method, matched: !!response },
+    });
+
+    await wait(response?.latency_ms ?? this.latency_ms, signal);
+    if (signal?.aborted) {
+      return build_mock_error(LLM_ERROR_CODES.ABORTED, 'Request was aborted', false);
+    }
+
+    if (!response && this.strict) {
+      return build_mock_error(
+        LLM_ERROR_CODES.INVALID_REQUEST,
+        `No scripted mock response matches prompt: ${prompt}`,
+        false
+      );
+    }
+
+    if (response?.error_code) {
+      return build_mock_error(
+        response.error_code,
+        response.error_message || `Simulated ${response.error_code} error`,
+        response.retryable ?? RETRYABLE_ERROR_CODES.includes(response.error_code),
+        response.usage
+      );
+    }
+
+    const is_image_service = method === SERVICE_TYPES.TEXT_IMAGE || method === SERVICE_TYPES.IMAGE_IMAGE;
+    const text = get_response_text(response, is_image_service ? undefined : this.default_text);
+    const image_b64 = response?.image_b64 || (is_image_service ? DEFAULT_MOCK_IMAGE_B64 : undefined);
+
+    return {
+      success: true,
+      ...(text !== undefined && { text }),
+      ...(image_b64 && {
+        image_b64,
+        image_mime_type: response?.image_mime_type || DEFAULT_MOCK_IMAGE_MIME_TYPE,
+      }),
+      ...(response?.tool_calls && method === 'call_with_tools' && { tool_calls: response.tool_calls }),
+      usage: response?.usage || estimate_usage(prompt, text || ''),
+      raw_response: { mock: true, provider: this.name, model: this.model },
+    };
+  }
+
+  /**
+   * Build the stream for a streaming call
+   * @param method - Method that was called
+   * @param prompt - Prompt to match
+   * @param params - Method parameters
+   * @param signal - Abort signal of the attempt
+   * @param logger - Logger instance
+   * @returns Async generator yielding the scripted chunks
+   */
+  private async *stream(
+    method: MockMethod,
+    prompt: string,
+    params: unknown,
+    signal: AbortSignal | undefined,
+    logger: Logger
+  ): LLMStreamResponse {
+    const response = this.record_call(method, prompt, params);
+    const result = await this.build_response(method, prompt, response, signal, logger);
+
+    if (!result.success) {
+      const error_info = result.error_info;
+      yield build_stream_error_chunk(
+        error_info?.code || LLM_ERROR_CODES.UNKNOWN,
+        result.error || 'Unknown error',
+        error_info?.retryable ?? false
+      );
+      return;
+    }
+
+    const text = result.text || '';
+    const chunks = response?.chunks || text.match(/\S+\s*|\s+/g) || [];
+    for (const chunk of chunks) {
+      yield { text: chunk, done: false };
+    }
+
+    yield { text: '', done: true, ...(result.usage && { usage: result.usage }) };
+  }
+}
+
+// =============================================================================
+// Helper Functions
+// =============================================================================
+
+/**
+ * Check whether a prompt matches a rule's match pattern
+ * @param match - Substring or regex (undefined matches everything)
+ * @param prompt - Prompt to test
+ * @returns True if the prompt matches
+ */
+function matches_prompt(match: string | RegExp | undefined, prompt: string): boolean {
+  if (match === undefined) {
+    return true;
+  }
+  if (typeof match === 'string') {
+    return prompt.includes(match);
+  }
+  match.lastIndex = 0;
+  return match.test(prompt);
+}
+
+/**
+ * Get the text of a scripted response
+ * @param response - Scripted response (optional)
+ * @param default_text - Text used when the response sets neither text nor json
+ * @returns Response text
+ */
+function get_response_text(response: MockResponse | undefined, default_text?: string): string | undefined {
+  if (response?.text !== undefined) {
+    return response.text;
+  }
+  if (response?.json !== undefined) {
+    return JSON.stringify(response.json);
+  }
+  return default_text;
+}
+
+/**
+ * Estimate token usage (about 4 characters per token)
+ * @param prompt - Prompt text
+ * @param text - Response text
+ * @returns Deterministic usage estimate
+ */
+function estimate_usage(prompt: string, text: string): LLMUsage {
+  const input_tokens = Math.ceil(prompt.length / 4);
+  const output_tokens = Math.ceil(text.length / 4);
+  return { input_tokens, output_tokens, total_tokens: input_tokens + output_tokens };
+}
+
+/**
+ * Build a simulated error response
+ * @param code - Error code
+ * @param message - Error message
+ * @param retryable - Whether the error is retryable
+ * @param usage - Token usage billed for the failed call (optional)
+ * @returns Failed response with error_info
+ */
+function build_mock_error(code: LLMErrorCode, message: string, retryable: boolean, usage?: LLMUsage): LLMResponse {
+  return {
+    success: false,
+    error: message,
+    error_info: { code, message, retryable },
+    ...(usage && { usage }),
+  };
+}
+
+/**
+ * Wait for the simulated latency, ending early if the signal aborts
+ * @param delay_ms - Delay in milliseconds
+ * @param signal - Abort signal (optional)
+ */
+function wait(delay_ms: number, signal?: AbortSignal): Promise<void> {
+  if (delay_ms <= 0 || signal?.aborted) {
+    return Promise.resolve();
+  }
+
+  return new Promise(resolve => {
+    const on_abort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', on_abort);
+      resolve();
+    }, delay_ms);
+
+    signal?.addEventListener('abort', on_abort, { once: true });
+  });
+}
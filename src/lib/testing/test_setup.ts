@@ -0,0 +1,153 @@
+/**
+ * Test Setup Helpers
+ *
+ * Initializes the LLM API for unit tests: mock (or other) providers, an
+ * in-memory sql.js database and no config file.
+ */
+
+import type { LLMProvider } from '../providers/types.js';
+import type {
+  Logger,
+  LLMHooks,
+  LLMApiClient,
+  PromptRecord,
+  RetryOptions,
+} from '../llm_api/types.js';
+import { initialize_llm_api_with_providers } from '../llm_api/index.js';
+import { set_retry_policy } from '../llm_api/retry_helper.js';
+import { set_fallback_llms } from '../providers/registry.js';
+import { get_database, insert_prompt } from '../database/init_database.js';
+import { MockProvider } from './mock_provider.js';
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/**
+ * Prompt to insert into the test database
+ * Only area, key and text are required; other fields default to empty/null.
+ */
+export type TestPromptSeed =
+  Pick<PromptRecord, 'prompt_area' | 'prompt_key' | 'prompt_text'> &
+  Partial<Omit<PromptRecord, 'id' | 'created_at' | 'changed_at'>>;
+
+/**
+ * Options for initialize_llm_api_for_testing
+ */
+export interface TestingInitOptions {
+  /** Providers to register (default: one MockProvider named "mock") */
+  providers?: LLMProvider[];
+
+  /** Primary LLM name (default: the first provider) */
+  primary_llm?: string;
+
+  /** Fallback providers for every service type (default: none) */
+  fallback_llms?: string[];
+
+  /** Retry policy (default: max_attempts 1, so simulated errors return immediately) */
+  retry?: RetryOptions;
+
+  /** Prompts to insert into the in-memory database */
+  prompts?: TestPromptSeed[];
+
+  /** Logger (default: silent_logger) */
+  logger?: Logger;
+
+  /** Lifecycle hooks */
+  hooks?: LLMHooks;
+
+  /** Fail calls whose prompt has missing variables (see LLMApiConfig.strict_variables) */
+  strict_variables?: boolean;
+}
+
+/**
+ * Result of initialize_llm_api_for_testing
+ */
+export interface TestingSetup {
+  /** The initialized LLM API client */
+  client: LLMApiClient;
+
+  /** The first MockProvider among the registered providers (if any) */
+  mock: MockProvider | undefined;
+}
+
+// =============================================================================
+// Silent Logger
+// =============================================================================
+
+/**
+ * Logger that discards every message (keeps test output clean)
+ */
+export const silent_logger: Logger = {
+  error: () => {},
+  info: () => {},
+  warn: () => {},
+  debug: () => {},
+};
+
+// =============================================================================
+// Initialization
+// =============================================================================
+
+/**
+ * Initialize the LLM API for a unit test
+ * Registers the given providers (default: a MockProvider) against a fresh
+ * in-memory sql.js database without reading the config file. Call it again
+ * (e.g., in beforeEach) to start the next test from a clean state.
+ *
+ * @param options - Test setup options (all optional)
+ * @returns The client and the mock provider
+ *
+ * @example
+ * ```typescript
+ * import { hazo_llm_dynamic_data_extract } from 'hazo_llm_api/server';
+ * import { initialize_llm_api_for_testing, MockProvider } from 'hazo_llm_api/testing';
+ *
+ * const mock = new MockProvider().add_response({ match: 'classify', json: { type: 'invoice' } });
+ * await initialize_llm_api_for_testing({
+ *   providers: [mock],
+ *   prompts: [{ prompt_area: 'docs', prompt_key: 'classify', prompt_text: 'classify {{text}}' }],
+ * });
+ * ```
+ */
+export async function initialize_llm_api_for_testing(
+  options: TestingInitOptions = {}
+): Promise<TestingSetup> {
+  const logger = options.logger || silent_logger;
+  const providers = options.providers && options.providers.length > 0
+    ? options.providers
+    : [new MockProvider()];
+
+  const client = await initialize_llm_api_with_providers(
+    providers,
+    { logger, hooks: options.hooks, strict_variables: options.strict_variables },
+    options.primary_llm
+  );
+
+  set_retry_policy(options.retry || { max_attempts: 1 });
+  if (options.fallback_llms) {
+    set_fallback_llms(options.fallback_llms);
+  }
+
+  const db = get_database();
+  if (db) {
+    for (const prompt of options.prompts || []) {
+      insert_prompt(db, {
+        local_1: null,
+        local_2: null,
+        local_3: null,
+        user_id: null,
+        scope_id: null,
+        prompt_variables: '[]',
+        prompt_notes: '',
+        next_prompt: null,
+        ...prompt,
+      }, logger);
+    }
+  }
+
+  return {
+    client,
+    mock: providers.find((provider): provider is MockProvider => provider instanceof MockProvider),
+  };
+}
@@ -5,6 +5,7 @@
  * These should ONLY be imported in server components, API routes, or server actions.
  *
  * Usage: import { initialize_llm_api, hazo_llm_text_text } from 'hazo_llm_api/server'
+ * Isolated clients (own providers, database, hooks): create_llm_client(config)
  *
  * Available functions:
  * - hazo_llm_text_text: Text input → Text output
@@ -12,6 +13,9 @@
  * - hazo_llm_text_image: Text input → Image output
  * - hazo_llm_image_image: Image input → Image output
  * - hazo_llm_document_text: Document input → Text output (PDF analysis)
+ * - hazo_llm_chat: Multi-turn conversation → Text output
+ * - hazo_llm_structured: Text/Image input → Schema-validated JSON output
+ * - hazo_llm_tool_call: Text input + tools → Text output (model/tool loop)
  * - hazo_llm_text_image_text: Text → Image → Text (chained)
  * - hazo_llm_prompt_chain: Chain multiple prompts with dynamic value resolution
  * - hazo_llm_dynamic_data_extract: Dynamic chain where next prompt is determined by JSON output
@@ -22,11 +26,18 @@
 // =============================================================================
 export {
   initialize_llm_api,
+  initialize_llm_api_with_providers,
+  create_llm_client,
+  validate_llm_config,
+  reload_llm_config,
   hazo_llm_text_text,
   hazo_llm_image_text,
   hazo_llm_text_image,
   hazo_llm_image_image,
   hazo_llm_document_text,
+  hazo_llm_chat,
+  hazo_llm_structured,
+  hazo_llm_tool_call,
   hazo_llm_text_image_text,
   hazo_llm_image_image_text,
   hazo_llm_prompt_chain,
@@ -36,6 +47,13 @@ export {
   hazo_llm_image_text_stream,
   is_initialized,
   get_current_config,
+  // Prompt rendering
+  render_prompt,
+  get_partial_dependents,
+  // Prompt versions (active prompt store)
+  get_prompt_versions,
+  compare_prompt_versions,
+  restore_prompt_version,
   // Logger utilities
   default_logger,
   get_logger,
@@ -52,6 +70,10 @@ export {
   initialize_database,
   get_database,
   close_database,
+  reset_database,
+  flush_database,
+  sync_database,
+  IN_MEMORY_SQLITE_PATH,
   insert_prompt,
   update_prompt,
   delete_prompt,
@@ -59,6 +81,7 @@ export {
   get_default_sqlite_path,
   expand_path,
   resolve_sqlite_path,
+  type DatabaseOptions,
 } from './lib/database/index.js';
 
 // =============================================================================
@@ -71,18 +94,103 @@ export {
   get_prompts_by_area,
   get_prompt_by_id,
   get_all_prompts,
+  list_prompts,
+  search_prompts,
+  get_prompt_lookup_levels,
+  // Prompt versioning
+  get_prompt_history,
+  get_prompt_version,
+  get_current_prompt_version,
+  diff_prompt_versions,
+  build_prompt_version_diff,
+  rollback_prompt,
   substitute_variables,
   parse_prompt_variables,
   validate_variables,
+  render_template,
+  type TemplateOptions,
+  type TemplateRenderResult,
+  expand_partials,
+  find_partial_references,
+  find_partial_dependents,
+  MAX_PARTIAL_DEPTH,
+  type PartialReference,
+  type PartialDependent,
+  type ExpandPartialsOptions,
+  // Prompt cache
+  get_prompt_cache_stats,
+  clear_prompt_cache,
   type LocalFilterOptions,
+  type PromptLookupLevel,
+  type PromptCacheConfig,
+  type CacheStats,
 } from './lib/prompts/index.js';
 
+// =============================================================================
+// Prompt Store Exports (Server-side ONLY)
+// =============================================================================
+export {
+  PROMPT_STORE_TYPES,
+  SqlJsPromptStore,
+  PostgresPromptStore,
+  DirectoryPromptStore,
+  create_prompt_store,
+  is_prompt_store,
+  get_prompt_store,
+  set_prompt_store,
+} from './lib/prompt_store/index.js';
+export type {
+  PromptStore,
+  PromptStoreType,
+  PromptStoreConfig,
+  PromptInput,
+  PromptUpdate,
+  PromptListFilter,
+  PromptSearchOptions,
+  PostgresClient,
+  PostgresPoolClient,
+  SqlJsPromptStoreConfig,
+  PostgresPromptStoreConfig,
+  DirectoryPromptStoreConfig,
+} from './lib/prompt_store/index.js';
+
+// =============================================================================
+// Prompt Files Exports (Server-side ONLY)
+// =============================================================================
+export {
+  PROMPT_IMPORT_MODES,
+  export_prompts,
+  import_prompts,
+  format_prompt_file,
+  parse_prompt_file,
+  get_prompt_file_path,
+} from './lib/prompt_files/index.js';
+export type {
+  PromptImportMode,
+  PromptExportOptions,
+  PromptExportResult,
+  PromptExportSkip,
+  PromptImportOptions,
+  PromptImportResult,
+  PromptFileChange,
+} from './lib/prompt_files/index.js';
+
 // =============================================================================
 // Provider Exports (Server-side ONLY)
 // =============================================================================
 export {
   call_gemini_api,
   get_gemini_api_url,
+  AnthropicProvider,
+  anthropic_factory,
+  OpenAICompatibleProvider,
+  openai_compatible_factory,
+  OPENAI_COMPATIBLE_PROVIDER_TYPE,
+} from './lib/providers/index.js';
+export type {
+  AnthropicProviderConfig,
+  AnthropicGenerationConfig,
+  OpenAICompatibleProviderConfig,
 } from './lib/providers/index.js';
 
 // =============================================================================
@@ -91,6 +199,27 @@ export {
 export { LLM_PROVIDERS, SERVICE_TYPES } from './lib/providers/types.js';
 export type { ProviderName, ServiceType } from './lib/providers/types.js';
 
+// =============================================================================
+// Provider Registry Exports (act on an isolated client inside client.run())
+// =============================================================================
+export {
+  register_provider,
+  set_enabled_llms,
+  set_primary_llm,
+  get_primary_llm,
+  get_registered_provider,
+  get_registered_providers,
+  is_llm_enabled,
+} from './lib/providers/registry.js';
+
+// =============================================================================
+// Provider Fallback Exports
+// =============================================================================
+export {
+  set_fallback_llms,
+  get_fallback_llms,
+} from './lib/providers/registry.js';
+
 // =============================================================================
 // Error Handling Exports
 // =============================================================================
@@ -98,6 +227,64 @@ export { LLM_ERROR_CODES } from './lib/llm_api/types.js';
 export { build_error_response } from './lib/llm_api/provider_helper.js';
 export type { LLMErrorCode, LLMError } from './lib/llm_api/types.js';
 
+// =============================================================================
+// Config Validation and Reload Exports
+// =============================================================================
+export { CONFIG_ISSUE_CODES } from './lib/config/config_validator.js';
+export type {
+  ConfigIssue,
+  ConfigIssueCode,
+  ConfigValidationReport,
+} from './lib/config/config_validator.js';
+export type { ConfigChange } from './lib/config/config_parser.js';
+
+// =============================================================================
+// Structured Output Exports
+// =============================================================================
+export {
+  validate_json_schema,
+  format_validation_errors,
+} from './lib/llm_api/json_schema_validator.js';
+
+// =============================================================================
+// Usage & Cost Exports
+// =============================================================================
+export {
+  set_provider_pricing,
+  get_model_pricing,
+  estimate_cost,
+  sum_usage,
+} from './lib/llm_api/usage_helper.js';
+
+// =============================================================================
+// Retry Policy Exports
+// =============================================================================
+export {
+  DEFAULT_RETRY_POLICY,
+  set_retry_policy,
+  get_retry_policy,
+} from './lib/llm_api/retry_helper.js';
+
+// =============================================================================
+// Timeout Exports
+// =============================================================================
+export {
+  DEFAULT_TIMEOUT_MS,
+  set_timeout_config,
+  get_timeout_config,
+} from './lib/llm_api/timeout_helper.js';
+
+// =============================================================================
+// Tool Registry Exports
+// =============================================================================
+export {
+  register_tool,
+  unregister_tool,
+  get_registered_tool,
+  get_registered_tools,
+  clear_registered_tools,
+} from './lib/llm_api/tool_registry.js';
+
 // =============================================================================
 // Logging Exports (hazo_logs)
 // =============================================================================
@@ -113,9 +300,18 @@ export {
 // =============================================================================
 export type {
   LLMApiConfig,
+  ProviderSettings,
   LLMApiClient,
   LLMResponse,
+  LLMUsage,
+  ModelPricing,
+  RetryPolicy,
+  RetryOptions,
+  TimeoutConfig,
+  LLMRequestOptions,
+  RenderPromptOptions,
   TextTextParams,
+  PromptLookupOptions,
   ImageTextParams,
   TextImageParams,
   ImageImageParams,
@@ -123,13 +319,39 @@ export type {
   TextImageTextParams,
   ImageImageTextParams,
   ChainImage,
+  // Chat types
+  ChatRole,
+  ChatMessage,
+  ChatParams,
+  ChatResponse,
+  // Structured output types
+  StructuredParams,
+  StructuredResponse,
+  JsonSchema,
+  JsonSchemaType,
+  SchemaValidationError,
+  // Tool calling types
+  ToolHandler,
+  ToolDefinition,
+  ToolCall,
+  ToolMessage,
+  ToolCallParams,
+  ToolInvocation,
+  ToolCallResponse,
   Logger,
   PromptVariable,
+  PromptVariableValue,
   PromptVariables,
   Base64Data,
   PromptTextMode,
   PromptRecord,
+  PromptVersionRecord,
+  PromptVersionInfo,
+  PromptVersionDiff,
+  PromptDiffLine,
+  PromptVersionField,
   CallLLMParams,
+  GenerationOverrides,
   // Hook types
   LLMHooks,
   LLMRequestContext,
@@ -138,6 +360,9 @@ export type {
   BeforeRequestHook,
   AfterResponseHook,
   OnErrorHook,
+  ConfigReloadContext,
+  OnConfigReloadHook,
+  ConfigReloadResult,
   // Streaming types
   LLMStreamChunk,
   LLMStreamResponse,
@@ -0,0 +1,64 @@
+/**
+ * hazo_llm_api Testing Exports
+ *
+ * This file exports helpers for unit-testing code built on hazo_llm_api
+ * without calling real LLM providers. Server-side only (uses sql.js in Node).
+ *
+ * Usage: import { initialize_llm_api_for_testing, MockProvider } from 'hazo_llm_api/testing'
+ *
+ * Available exports:
+ * - MockProvider: LLMProvider with scripted responses (prompt substring/regex),
+ *   canned images, simulated errors and latency, and call recording
+ * - CassetteProvider / use_cassette: Record real provider responses to a
+ *   cassette file and replay them offline (strict mode fails unrecorded requests)
+ * - initialize_llm_api_for_testing: Initialize the API with mock providers and
+ *   an in-memory sql.js database, without a config file
+ * - silent_logger: Logger that discards every message
+ */
+
+// =============================================================================
+// Mock Provider Exports
+// =============================================================================
+export { MockProvider } from './lib/testing/index.js';
+export type {
+  MockMethod,
+  MockResponse,
+  MockProviderConfig,
+  MockProviderCall,
+} from './lib/testing/index.js';
+
+// =============================================================================
+// Cassette (Record and Replay) Exports
+// =============================================================================
+export {
+  Cassette,
+  CassetteProvider,
+  use_cassette,
+} from './lib/testing/index.js';
+export type {
+  CassetteMode,
+  CassetteOptions,
+  CassetteRequest,
+  CassetteEntry,
+  CassetteFile,
+} from './lib/testing/index.js';
+
+// =============================================================================
+// Test Setup Exports
+// =============================================================================
+export {
+  initialize_llm_api_for_testing,
+  silent_logger,
+} from './lib/testing/index.js';
+export type {
+  TestPromptSeed,
+  TestingInitOptions,
+  TestingSetup,
+} from './lib/testing/index.js';
+
+// =============================================================================
+// Lower-level Initialization and Constants
+// =============================================================================
+export { initialize_llm_api_with_providers } from './lib/llm_api/index.js';
+export { IN_MEMORY_SQLITE_PATH } from './lib/database/index.js';
+export { LLM_ERROR_CODES } from './lib/llm_api/types.js';